@@ -412,7 +412,9 @@ program
 			}
 
 			// CLI-T02-AC02: ingest-db command with database path and contact filtering
-			const { splitDBMessage } = await import('./ingest/ingest-db.js')
+			const { createPartIndexMap, splitDBMessage } = await import(
+				'./ingest/ingest-db.js'
+			)
 			const { createExportEnvelope, validateMessages } = await import(
 				'./ingest/ingest-csv.js'
 			)
@@ -449,8 +451,12 @@ program
 
 			// Split DB messages into Message objects
 			const messages: Message[] = []
+			const partIndexes = createPartIndexMap()
 			filteredMessages.forEach((dbMsg: DBMessage, index: number) => {
-				const split = splitDBMessage(dbMsg, index + 1, { attachmentRoots })
+				const split = splitDBMessage(dbMsg, index + 1, {
+					attachmentRoots,
+					partIndexes,
+				})
 				messages.push(...split)
 			})
 
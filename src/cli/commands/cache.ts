@@ -0,0 +1,248 @@
+/**
+ * Cache Command
+ *
+ * Inspect and maintain the enrichment cache enrich-ai consults before
+ * calling a model: show what it holds, prune entries that can no longer be
+ * hit or are past a given age, and export it as one JSON file.
+ */
+
+import type { Command } from 'commander'
+import { humanError, humanInfo } from '#utils/human'
+import type { EnrichmentCache } from '../../enrich/enrichment-cache.js'
+import type {
+	CacheExportOptions,
+	CachePruneOptions,
+	GlobalOptions,
+} from '../types.js'
+import {
+	applyLogLevel,
+	loadCommandConfig,
+	logEvent,
+	resolveConfigPath,
+} from '../utils.js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function formatBytes(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+async function openCache(
+	globalOptions: GlobalOptions,
+): Promise<EnrichmentCache> {
+	const resolution = await loadCommandConfig(globalOptions)
+	const { createEnrichmentCache } = await import(
+		'../../enrich/enrichment-cache.js'
+	)
+	return createEnrichmentCache(
+		await resolveConfigPath(
+			resolution,
+			'enrichment.cacheDir',
+			resolution.config.enrichment.cacheDir,
+		),
+	)
+}
+
+/**
+ * Execute the cache stats command logic
+ */
+export async function executeCacheStats(
+	globalOptions: GlobalOptions,
+): Promise<void> {
+	const { verbose, quiet } = globalOptions
+	applyLogLevel(verbose, quiet)
+
+	const cache = await openCache(globalOptions)
+	const stats = await cache.stats()
+
+	humanInfo(`🗄️  Enrichment cache: ${cache.dir}`)
+	humanInfo(
+		`✓ ${stats.entries.toLocaleString()} entries (${formatBytes(stats.bytes)})`,
+	)
+	if (stats.entries > 0) {
+		humanInfo('   By kind:')
+		for (const [kind, count] of Object.entries(stats.byKind)) {
+			humanInfo(`      ${kind}: ${count.toLocaleString()}`)
+		}
+		humanInfo('   By model:')
+		for (const [model, count] of Object.entries(stats.byModel)) {
+			humanInfo(`      ${model}: ${count.toLocaleString()}`)
+		}
+	}
+	if (stats.oldest && stats.newest) {
+		humanInfo(`   Cached between ${stats.oldest} and ${stats.newest}`)
+	}
+	if (stats.stale > 0) {
+		humanInfo(
+			`⚠️  ${stats.stale.toLocaleString()} entries use an outdated prompt; run \`chatline cache prune\` to remove them`,
+		)
+	}
+
+	logEvent('cache-stats', {
+		command: 'cache',
+		phase: 'summary',
+		metrics: {
+			entries: stats.entries,
+			bytes: stats.bytes,
+			stale: stats.stale,
+			byKind: stats.byKind,
+			byModel: stats.byModel,
+		},
+		context: { cacheDir: cache.dir },
+		exitCode: 0,
+	})
+}
+
+/**
+ * Execute the cache prune command logic
+ *
+ * Entries made with an outdated prompt are always removed, since they can
+ * never be hit again; --older-than and --all remove more.
+ */
+export async function executeCachePrune(
+	options: CachePruneOptions,
+	globalOptions: GlobalOptions,
+): Promise<void> {
+	const { olderThan, all = false, dryRun = false } = options
+	const { verbose, quiet } = globalOptions
+	applyLogLevel(verbose, quiet)
+
+	const days = olderThan === undefined ? undefined : Number(olderThan)
+	if (days !== undefined && (Number.isNaN(days) || days < 0)) {
+		humanError('❌ --older-than must be a non-negative number of days')
+		process.exit(1)
+	}
+
+	const cache = await openCache(globalOptions)
+	const { selectPrunable } = await import('../../enrich/enrichment-cache.js')
+	const select = selectPrunable({
+		all,
+		...(days !== undefined && {
+			cachedBefore: new Date(Date.now() - days * DAY_MS).toISOString(),
+		}),
+	})
+
+	const { removed, bytes } = await cache.prune(select, { dryRun })
+	humanInfo(
+		dryRun
+			? `ℹ️  Would remove ${removed.toLocaleString()} entries (${formatBytes(bytes)}) from ${cache.dir}`
+			: `✅ Removed ${removed.toLocaleString()} entries (${formatBytes(bytes)}) from ${cache.dir}`,
+	)
+
+	logEvent('cache-prune', {
+		command: 'cache',
+		phase: 'summary',
+		metrics: { removed, bytes },
+		options: { olderThan: days, all, dryRun },
+		context: { cacheDir: cache.dir },
+		exitCode: 0,
+	})
+}
+
+/**
+ * Execute the cache export command logic
+ */
+export async function executeCacheExport(
+	options: CacheExportOptions,
+	globalOptions: GlobalOptions,
+): Promise<void> {
+	const { output, kind } = options
+	const { verbose, quiet } = globalOptions
+	applyLogLevel(verbose, quiet)
+
+	const cache = await openCache(globalOptions)
+	const entries = await cache.entries(kind ? { kind } : {})
+
+	const { writeFile } = await import('node:fs/promises')
+	await writeFile(
+		output,
+		`${JSON.stringify(
+			{ version: '1.0', exportedAt: new Date().toISOString(), entries },
+			null,
+			2,
+		)}\n`,
+		'utf-8',
+	)
+	humanInfo(
+		`✅ Exported ${entries.length.toLocaleString()} entries from ${cache.dir} to ${output}`,
+	)
+
+	logEvent('cache-export', {
+		command: 'cache',
+		phase: 'summary',
+		metrics: { exported: entries.length },
+		options: { output, kind },
+		context: { cacheDir: cache.dir },
+		exitCode: 0,
+	})
+}
+
+/**
+ * Register the cache command with Commander
+ */
+export function registerCacheCommand(
+	program: Command,
+	getGlobalOptions: () => GlobalOptions,
+): void {
+	const run = (action: () => Promise<void>) => async () => {
+		try {
+			await action()
+			process.exit(0)
+		} catch (error) {
+			humanError(
+				'❌ Cache command failed:',
+				error instanceof Error ? error.message : String(error),
+			)
+			if (getGlobalOptions().verbose && error instanceof Error) {
+				humanError(error.stack)
+			}
+			logEvent('cache-error', {
+				command: 'cache',
+				phase: 'error',
+				error: {
+					type: error instanceof Error ? error.name : 'Unknown',
+					message: error instanceof Error ? error.message : String(error),
+					...(error instanceof Error && error.stack
+						? { stack: error.stack }
+						: {}),
+				},
+				exitCode: 2,
+			})
+			process.exit(2)
+		}
+	}
+
+	const cache = program
+		.command('cache')
+		.description('Inspect and maintain the enrichment cache')
+
+	cache
+		.command('stats')
+		.description('Show entries per kind and model, size and age')
+		.action(run(() => executeCacheStats(getGlobalOptions())))
+
+	cache
+		.command('prune')
+		.description('Remove entries made with outdated prompts, or older ones')
+		.option('--older-than <days>', 'also remove entries cached before this')
+		.option('--all', 'remove every entry', false)
+		.option('--dry-run', 'only count what would be removed', false)
+		.action((options: CachePruneOptions) =>
+			run(() => executeCachePrune(options, getGlobalOptions()))(),
+		)
+
+	cache
+		.command('export')
+		.description('Write all entries to one JSON file')
+		.option(
+			'-o, --output <path>',
+			'output JSON file',
+			'./enrichment-cache.json',
+		)
+		.option('--kind <kind>', 'only export one enrichment kind')
+		.action((options: CacheExportOptions) =>
+			run(() => executeCacheExport(options, getGlobalOptions()))(),
+		)
+}
@@ -0,0 +1,139 @@
+/**
+ * Config Command
+ *
+ * Inspect the configuration commands run with: the config file values, or
+ * with --resolved the effective value of every setting after defaults, the
+ * config file, environment variables and flags are layered.
+ */
+
+import type { Command } from 'commander'
+import { humanError, humanInfo, humanWarn } from '#utils/human'
+import type { ConfigOrigin } from '../../config/resolver.js'
+import type { ConfigShowOptions, GlobalOptions } from '../types.js'
+import { applyLogLevel, loadCommandConfig, logEvent } from '../utils.js'
+
+function formatValue(value: unknown): string {
+	if (value === undefined) return '(not set)'
+	if (typeof value === 'string') return value
+	return JSON.stringify(value)
+}
+
+function formatOrigin(origin: ConfigOrigin): string {
+	return origin.variable ? `env (${origin.variable})` : origin.source
+}
+
+/**
+ * Execute the config show command logic
+ */
+export async function executeConfigShow(
+	options: ConfigShowOptions,
+	globalOptions: GlobalOptions,
+): Promise<void> {
+	const { resolved = false } = options
+	const { verbose, quiet } = globalOptions
+
+	applyLogLevel(verbose, quiet)
+
+	const resolution = await loadCommandConfig(globalOptions)
+	const { describeConfig } = await import('../../config/resolver.js')
+
+	// Without --resolved only the values the file itself sets are shown
+	const entries = describeConfig(resolution).filter(
+		(entry) => resolved || entry.origin.source === 'file',
+	)
+
+	for (const warning of resolution.warnings) {
+		humanWarn(`⚠️  ${warning}`)
+	}
+	humanInfo(
+		resolution.configPath
+			? `⚙️  Config file: ${resolution.configPath}`
+			: '⚙️  No config file found; using defaults',
+	)
+	if (entries.length === 0) {
+		humanInfo('\n  (no values set)')
+	} else {
+		const keyWidth = Math.max(...entries.map((entry) => entry.key.length))
+		const valueWidth = Math.max(
+			...entries.map((entry) => formatValue(entry.value).length),
+		)
+		humanInfo('')
+		for (const entry of entries) {
+			const value = formatValue(entry.value)
+			humanInfo(
+				resolved
+					? `  ${entry.key.padEnd(keyWidth)}  ${value.padEnd(valueWidth)}  ${formatOrigin(entry.origin)}`
+					: `  ${entry.key.padEnd(keyWidth)}  ${value}`,
+			)
+		}
+	}
+	if (resolved) {
+		humanInfo(
+			'\nPrecedence: default < file < env < cli (flags apply per command)',
+		)
+	}
+
+	logEvent('config-summary', {
+		command: 'config',
+		phase: 'summary',
+		options: { resolved },
+		context: {
+			configPath: resolution.configPath,
+			values: entries.map((entry) => ({
+				key: entry.key,
+				value: entry.value,
+				source: entry.origin.source,
+				...(entry.origin.variable && { variable: entry.origin.variable }),
+			})),
+		},
+		exitCode: 0,
+	})
+}
+
+/**
+ * Register the config command with Commander
+ */
+export function registerConfigCommand(
+	program: Command,
+	getGlobalOptions: () => GlobalOptions,
+): void {
+	const config = program
+		.command('config')
+		.description('Inspect the configuration commands run with')
+
+	config
+		.command('show')
+		.description('Show config file values (secrets masked)')
+		.option(
+			'--resolved',
+			'show every effective value and where it came from',
+			false,
+		)
+		.action(async (options: ConfigShowOptions) => {
+			try {
+				await executeConfigShow(options, getGlobalOptions())
+				process.exit(0)
+			} catch (error) {
+				humanError(
+					'❌ Failed to show config:',
+					error instanceof Error ? error.message : String(error),
+				)
+				if (getGlobalOptions().verbose && error instanceof Error) {
+					humanError(error.stack)
+				}
+				logEvent('config-error', {
+					command: 'config',
+					phase: 'error',
+					error: {
+						type: error instanceof Error ? error.name : 'Unknown',
+						message: error instanceof Error ? error.message : String(error),
+						...(error instanceof Error && error.stack
+							? { stack: error.stack }
+							: {}),
+					},
+					exitCode: 2,
+				})
+				process.exit(2)
+			}
+		})
+}
@@ -7,9 +7,26 @@
 
 import type { Command } from 'commander'
 import { humanError, humanInfo, humanWarn } from '#utils/human'
-import type { Message } from '../../schema/message.js'
+import type { EnrichCheckpoint, FailedItem } from '../../enrich/checkpoint.js'
+import type { EnrichTally, ItemOutcome } from '../../enrich/enrich-item.js'
+import type {
+	ModelBackendConfig,
+	ModelProvider,
+} from '../../enrich/model-provider.js'
+import type {
+	Conversation,
+	MediaEnrichment,
+	Message,
+} from '../../schema/message.js'
 import type { EnrichAIOptions, GlobalOptions } from '../types.js'
-import { applyLogLevel, cliLogger, logEvent } from '../utils.js'
+import {
+	applyLogLevel,
+	cliLogger,
+	loadCommandConfig,
+	logEvent,
+	resolveConfigPath,
+	resolveInputSource,
+} from '../utils.js'
 
 /**
  * Execute the enrich-ai command logic
@@ -21,18 +38,24 @@ export async function executeEnrichAI(
 	const {
 		input,
 		output,
+		store,
 		checkpointDir,
 		resume,
 		incremental,
 		stateFile: userProvidedStateFile,
 		resetState,
-		forceRefresh: _forceRefresh,
-		rateLimitMs,
+		forceRefresh,
+		rateLimit,
 		maxRetries,
 		checkpointInterval,
+		concurrency,
 		enableVision,
 		enableAudio,
 		enableLinks,
+		enablePdf,
+		enableVideo,
+		retryFailed,
+		chat,
 	} = options
 	const { verbose, quiet } = globalOptions
 
@@ -44,60 +67,148 @@ export async function executeEnrichAI(
 		options: {
 			input,
 			output,
+			store,
 			checkpointDir,
 			resume,
 			incremental,
 			stateFile: userProvidedStateFile,
 			resetState,
-			rateLimitMs,
+			rateLimit,
 			maxRetries,
 			checkpointInterval,
+			concurrency,
 			enableVision,
 			enableAudio,
 			enableLinks,
+			enablePdf,
+			enableVideo,
+			retryFailed,
+			chat,
 		},
 	})
 
 	// Validate inputs
 	const fs = await import('node:fs')
-	if (!fs.existsSync(input)) {
-		humanError(`❌ Input file not found: ${input}`)
+	const source = await resolveInputSource(input, store)
+
+	if (retryFailed && (resume || incremental)) {
+		humanError(
+			'❌ --retry-failed cannot be combined with --resume or --incremental',
+		)
 		process.exit(1)
 	}
 
-	// Parse rate limit and retry options
-	const rateLimitDelay = Number.parseInt(rateLimitMs as string, 10)
-	const maxRetriesNum = Number.parseInt(maxRetries as string, 10)
-	const checkpointIntervalNum = Number.parseInt(
-		checkpointInterval as string,
-		10,
-	)
-
-	if (Number.isNaN(rateLimitDelay) || rateLimitDelay < 0) {
+	// Parse rate limit and retry options; unset flags fall back to config
+	const parseFlag = (value: string | undefined) =>
+		value === undefined ? undefined : Number.parseInt(value, 10)
+	const rateLimitFlag = parseFlag(rateLimit)
+	const maxRetriesFlag = parseFlag(maxRetries)
+	const checkpointIntervalFlag = parseFlag(checkpointInterval)
+	const concurrencyFlag = parseFlag(concurrency)
+
+	if (
+		rateLimitFlag !== undefined &&
+		(Number.isNaN(rateLimitFlag) || rateLimitFlag < 0)
+	) {
 		humanError('❌ --rate-limit must be a non-negative number (milliseconds)')
 		process.exit(1)
 	}
-	if (Number.isNaN(maxRetriesNum) || maxRetriesNum < 0) {
+	if (
+		maxRetriesFlag !== undefined &&
+		(Number.isNaN(maxRetriesFlag) || maxRetriesFlag < 0)
+	) {
 		humanError('❌ --max-retries must be a non-negative number')
 		process.exit(1)
 	}
-	if (Number.isNaN(checkpointIntervalNum) || checkpointIntervalNum < 1) {
+	if (
+		checkpointIntervalFlag !== undefined &&
+		(Number.isNaN(checkpointIntervalFlag) || checkpointIntervalFlag < 1)
+	) {
 		humanError('❌ --checkpoint-interval must be a positive number')
 		process.exit(1)
 	}
+	if (
+		concurrencyFlag !== undefined &&
+		(Number.isNaN(concurrencyFlag) || concurrencyFlag < 1)
+	) {
+		humanError('❌ --concurrency must be a positive number')
+		process.exit(1)
+	}
+
+	const resolution = await loadCommandConfig(globalOptions, {
+		gemini: { rateLimitDelay: rateLimitFlag, maxRetries: maxRetriesFlag },
+		enrichment: {
+			enableVisionAnalysis: enableVision,
+			enableAudioTranscription: enableAudio,
+			enableLinkEnrichment: enableLinks,
+			enablePdfAnalysis: enablePdf,
+			enableVideoMetadata: enableVideo,
+			checkpointInterval: checkpointIntervalFlag,
+			concurrency: concurrencyFlag,
+			forceRefresh,
+		},
+	})
+	const { gemini, firecrawl, enrichment, models } = resolution.config
+	const rateLimitDelay = gemini.rateLimitDelay
+	const maxRetriesNum = gemini.maxRetries
+	const checkpointIntervalNum = enrichment.checkpointInterval
+	const concurrencyNum = enrichment.concurrency
+	const enableVisionAnalysis = enrichment.enableVisionAnalysis
+	const enableAudioTranscription = enrichment.enableAudioTranscription
+	const enableLinkEnrichment = enrichment.enableLinkEnrichment
+	const enablePdfAnalysis = enrichment.enablePdfAnalysis
+	const enableVideoMetadata = enrichment.enableVideoMetadata
+
+	// Only kinds left on Gemini without their own key need gemini.apiKey
+	const needsGeminiKey = (backend: ModelBackendConfig | undefined) =>
+		(backend?.provider ?? 'gemini') === 'gemini' && !backend?.apiKey
+	if (
+		((enableVisionAnalysis && needsGeminiKey(models?.image)) ||
+			(enableAudioTranscription && needsGeminiKey(models?.audio)) ||
+			(enablePdfAnalysis && needsGeminiKey(models?.pdf))) &&
+		!gemini.apiKey
+	) {
+		humanError(
+			'❌ A Gemini API key is required for image, audio and PDF enrichment',
+		)
+		humanError(
+			'Set GEMINI_API_KEY or gemini.apiKey in the config file, configure another backend under models, or pass --no-enable-vision --no-enable-audio --no-enable-pdf',
+		)
+		process.exit(1)
+	}
+
+	const { createModelProvider } = await import('../../enrich/model-provider.js')
+	const imageProvider = enableVisionAnalysis
+		? createModelProvider(models?.image, gemini)
+		: undefined
+	const audioProvider = enableAudioTranscription
+		? createModelProvider(models?.audio, gemini)
+		: undefined
+	const pdfProvider = enablePdfAnalysis
+		? createModelProvider(models?.pdf, gemini)
+		: undefined
+	const describeProvider = (provider: ModelProvider | undefined) =>
+		provider ? `${provider.name}/${provider.model}` : undefined
 
 	if (verbose) {
 		cliLogger.info('Enrich config', {
-			input,
+			input: source.path,
 			output,
 			checkpointDir,
 			rateLimitDelay,
 			maxRetries: maxRetriesNum,
 			checkpointInterval: checkpointIntervalNum,
-			enableVision,
-			enableAudio,
-			enableLinks,
+			concurrency: concurrencyNum,
+			enableVision: enableVisionAnalysis,
+			enableAudio: enableAudioTranscription,
+			enableLinks: enableLinkEnrichment,
+			enablePdf: enablePdfAnalysis,
+			enableVideo: enableVideoMetadata,
+			imageModel: describeProvider(imageProvider),
+			audioModel: describeProvider(audioProvider),
+			pdfModel: describeProvider(pdfProvider),
 			incremental,
+			configPath: resolution.configPath,
 		})
 	}
 
@@ -108,29 +219,42 @@ export async function executeEnrichAI(
 		)
 	}
 
-	// Load normalized messages
-	const content = fs.readFileSync(input, 'utf-8')
-	const data = JSON.parse(content)
-	const messages = Array.isArray(data) ? data : data.messages || []
-
-	humanInfo(`✓ Loaded ${messages.length.toLocaleString()} messages`)
-
+	// Messages are streamed, never held whole: a first pass counts them,
+	// selects the conversation and seeds content reuse, a second one enriches
+	// them from the checkpoint index and writes them out as they finish
+	const { createEnvelopeWriter, openEnvelopeStream } = await import(
+		'#utils/envelope-stream'
+	)
+	const { openMessageStore, openStoreStream } = await import(
+		'../../store/message-store.js'
+	)
+	const { createConversationCollector, resolveConversation } = await import(
+		'../../ingest/conversations.js'
+	)
 	// Import enrichment modules
 	const {
 		loadCheckpoint,
 		computeConfigHash,
 		saveCheckpoint,
 		createCheckpoint,
+		getResumePlan,
 	} = await import('../../enrich/checkpoint.js')
 
-	// Import actual enrichment functions
-	const { analyzeImage } = await import('../../enrich/image-analysis.js')
-	const { analyzeAudio } = await import('../../enrich/audio-transcription.js')
-	const { enrichLinkContext } = await import('../../enrich/link-enrichment.js')
-	const { createRateLimiter } = await import('../../enrich/rate-limiting.js')
+	const { createItemEnricher, tallyOutcome } = await import(
+		'../../enrich/enrich-item.js'
+	)
+	const { createOrderedCompletion, createProviderLimiters, runWorkerPool } =
+		await import('../../enrich/worker-pool.js')
+	const { createEnrichmentReuse } = await import(
+		'../../enrich/content-reuse.js'
+	)
+	const { createEnrichmentCache } = await import(
+		'../../enrich/enrichment-cache.js'
+	)
 
-	// Create rate limiter with circuit breaker
-	const rateLimiter = createRateLimiter({
+	// One rate limiter and circuit breaker per provider, so a failing
+	// Firecrawl does not hold up Gemini
+	const limiters = createProviderLimiters({
 		rateLimitDelay,
 		maxRetries: maxRetriesNum,
 		circuitBreakerThreshold: 5,
@@ -139,11 +263,22 @@ export async function executeEnrichAI(
 
 	// Compute config hash for checkpoint verification (AC05: Config consistency)
 	const enrichConfig = {
-		enableVisionAnalysis: enableVision,
-		enableLinkAnalysis: enableLinks,
-		enableAudioTranscription: enableAudio,
+		enableVisionAnalysis,
+		enableLinkAnalysis: enableLinkEnrichment,
+		enableAudioTranscription,
+		// Left out while off so checkpoints from before these kinds resume
+		...(enablePdfAnalysis && { enablePdfAnalysis }),
+		...(enableVideoMetadata && { enableVideoMetadata }),
 		rateLimitDelay,
 		maxRetries: maxRetriesNum,
+		// Checkpoints from before model backends existed stay resumable
+		...(models && {
+			models: {
+				image: describeProvider(imageProvider),
+				audio: describeProvider(audioProvider),
+				pdf: describeProvider(pdfProvider),
+			},
+		}),
 	}
 	const configHash = computeConfigHash(enrichConfig)
 	const checkpointPath = `${checkpointDir}/enrich-checkpoint-${configHash}.json`
@@ -161,45 +296,99 @@ export async function executeEnrichAI(
 	}
 
 	// Import incremental state module for AC02, AC03, AC04, AC05
-	const { loadIncrementalState, detectNewMessages } = await import(
+	const { loadIncrementalState } = await import(
 		'../../utils/incremental-state.js'
 	)
 
 	// INCREMENTAL--T04-AC02: Auto-detect state file and load previous state
 	let previousState: Awaited<ReturnType<typeof loadIncrementalState>> | null =
 		null
-	let newMessageGuids: string[] = []
-	let newMessageCount = messages.length
-
 	if (incremental && stateFileExists && !resetState) {
 		previousState = await loadIncrementalState(stateFilePath)
-		if (previousState) {
-			// Detect new messages using GUID comparison
-			const currentGuids = new Set(
-				(messages as Message[])
-					.map((m: Message) => m.guid)
-					.filter((g: string | undefined): g is string => Boolean(g)),
-			)
-			newMessageGuids = detectNewMessages(currentGuids, previousState)
-			newMessageCount = newMessageGuids.length
-			if (verbose) {
-				humanInfo(
-					`♻️  Incremental mode: detected ${newMessageCount.toLocaleString()} new messages`,
-				)
-				humanInfo(`   Total messages: ${messages.length.toLocaleString()}`)
+	}
+	// Messages an earlier incremental run enriched are not due again
+	const enrichedGuids = new Set(previousState?.enrichedGuids)
+	const isNew = (message: Message) =>
+		Boolean(message.guid) && !enrichedGuids.has(message.guid)
+
+	// First pass: message counts by conversation, and the conversations --chat
+	// selects from
+	// Files with the same content hash share one enrichment; --force-refresh
+	// only reuses enrichments made during this run
+	const reuse = createEnrichmentReuse()
+	const inputConversations = createConversationCollector()
+	const countsByChat = new Map<string, { total: number; fresh: number }>()
+	const firstPass = source.isStore
+		? openStoreStream(source.path)
+		: openEnvelopeStream(source.path)
+	for await (const message of firstPass.messages) {
+		inputConversations.add(message)
+		if (!enrichment.forceRefresh) reuse.record(message)
+		const counts = countsByChat.get(message.chatId ?? '') ?? {
+			total: 0,
+			fresh: 0,
+		}
+		counts.total++
+		if (isNew(message)) counts.fresh++
+		countsByChat.set(message.chatId ?? '', counts)
+	}
+	const knownConversations: Conversation[] | undefined = firstPass.conversations
+	const countAll = (key: 'total' | 'fresh') =>
+		[...countsByChat.values()].reduce((sum, counts) => sum + counts[key], 0)
+
+	humanInfo(`✓ Loaded ${countAll('total').toLocaleString()} messages`)
+
+	let selectedChatId: string | undefined
+	let messageCount = countAll('total')
+	let newMessageCount = previousState ? countAll('fresh') : messageCount
+	if (chat) {
+		const selected = resolveConversation(
+			inputConversations.build(knownConversations),
+			chat,
+		)
+		selectedChatId = selected.id
+		const counts = countsByChat.get(selected.id)
+		messageCount = counts?.total ?? 0
+		newMessageCount = previousState ? (counts?.fresh ?? 0) : messageCount
+		humanInfo(
+			`✓ Filtered to ${messageCount.toLocaleString()} messages in ${selected.displayName || selected.id}`,
+		)
+	}
+
+	// The messages to enrich, in input order
+	async function* selectInput(): AsyncGenerator<Message> {
+		const stream = source.isStore
+			? openStoreStream(source.path, selectedChatId)
+			: openEnvelopeStream(source.path)
+		for await (const message of stream.messages) {
+			if (selectedChatId === undefined || message.chatId === selectedChatId) {
+				yield message
 			}
 		}
+	}
+
+	if (previousState) {
+		if (verbose) {
+			humanInfo(
+				`♻️  Incremental mode: detected ${newMessageCount.toLocaleString()} new messages`,
+			)
+			humanInfo(`   Total messages: ${messageCount.toLocaleString()}`)
+		}
 	} else if (incremental && !stateFileExists && !resetState) {
 		if (verbose) {
 			humanInfo(
 				`♻️  Incremental mode enabled but no state file found: ${stateFilePath}`,
 			)
-			humanInfo(`   Enriching all ${messages.length.toLocaleString()} messages`)
+			humanInfo(`   Enriching all ${messageCount.toLocaleString()} messages`)
 		}
 	}
 
 	// AC05: Load checkpoint and verify config hash
 	let startIndex = 0
+	const enrichmentsByKind: Record<string, number> = {}
+	let resumedCheckpoint: EnrichCheckpoint | null = null
+	// Finished ahead of the checkpoint by a concurrent run, so not redone
+	let completedAhead = new Map<number, ItemOutcome>()
 	if (resume) {
 		const checkpoint = await loadCheckpoint(checkpointPath)
 		if (checkpoint) {
@@ -208,209 +397,473 @@ export async function executeEnrichAI(
 				humanError('Use --force-refresh to re-enrich or delete checkpoint file')
 				process.exit(1)
 			}
-			startIndex = checkpoint.lastProcessedIndex + 1
+			const plan = getResumePlan(checkpoint)
+			startIndex = plan.startIndex
+			completedAhead = plan.completed
+			resumedCheckpoint = checkpoint
+			Object.assign(enrichmentsByKind, checkpoint.stats.enrichmentsByKind)
 			cliLogger.info('Resuming from checkpoint', {
 				startIndex,
 				alreadyProcessed: checkpoint.totalProcessed,
 				failedItems: checkpoint.totalFailed,
+				inFlight: checkpoint.inFlight?.length ?? 0,
+				completedAhead: completedAhead.size,
 			})
 		} else if (resume) {
 			humanWarn('⚠️  No checkpoint found, starting from beginning')
 		}
 	}
 
+	// --retry-failed enriches only the checkpoint's failed items, on top of
+	// the output they were written to unenriched
+	const { completeRetry, mergeRetryIntoOutput, selectRetryTargets } =
+		await import('../../enrich/retry-failed.js')
+	let retryCheckpoint: EnrichCheckpoint | null = null
+	let retryTargets: Message[] = []
+	let retryBase: Message[] = []
+	let notFound: FailedItem[] = []
+	// The output the failed items were written to, when there is one
+	const retryOutput = !source.isStore && fs.existsSync(output) ? output : null
+	if (retryFailed) {
+		retryCheckpoint = await loadCheckpoint(checkpointPath)
+		if (!retryCheckpoint) {
+			humanError(`❌ No checkpoint for this configuration: ${checkpointPath}`)
+			humanError('Run enrich-ai with the same options first')
+			process.exit(1)
+		}
+		Object.assign(enrichmentsByKind, retryCheckpoint.stats.enrichmentsByKind)
+
+		// Only the failed messages are kept from the output and the input
+		const failedGuids = new Set(
+			retryCheckpoint.failedItems.map((item) => item.guid),
+		)
+		const collectFailed = async (stream: AsyncIterable<Message>) => {
+			const failed: Message[] = []
+			for await (const message of stream) {
+				if (failedGuids.has(message.guid)) failed.push(message)
+			}
+			return failed
+		}
+		const inputFailed = await collectFailed(selectInput())
+		retryBase = retryOutput
+			? await collectFailed(openEnvelopeStream(retryOutput).messages)
+			: inputFailed
+		const selected = selectRetryTargets(retryCheckpoint, retryBase, inputFailed)
+		retryTargets = selected.targets
+		messageCount = retryTargets.length
+		notFound = selected.notFound
+
+		if (retryCheckpoint.failedItems.length === 0) {
+			humanInfo('✓ No failed items in the checkpoint; nothing to retry')
+			return
+		}
+	}
+
 	// AC02: Enrich messages with checkpoint support
-	const enrichedMessages: Message[] = []
-	let totalProcessed = 0
-	let totalFailed = 0
-	const failedItems: Array<{
-		index: number
-		guid: string
-		kind: string
-		error: string
-	}> = []
+	// A resumed run carries on the counts and failures before its checkpoint
+	const tally: EnrichTally = {
+		totalProcessed: resumedCheckpoint?.totalProcessed ?? 0,
+		totalFailed: resumedCheckpoint?.totalFailed ?? 0,
+		alreadyEnriched: 0,
+		cacheHits: 0,
+		failedItems: [...(resumedCheckpoint?.failedItems ?? [])],
+		enrichmentsByKind,
+	}
 
 	// INCREMENTAL--T04-AC05: Show progress with new message count
 	const progressMsg =
-		incremental && newMessageCount < messages.length
-			? `Enriching ${newMessageCount.toLocaleString()} new messages (${messages.length.toLocaleString()} total)`
-			: `Processing ${messages.length.toLocaleString()} messages`
+		incremental && newMessageCount < messageCount
+			? `Enriching ${newMessageCount.toLocaleString()} new messages (${messageCount.toLocaleString()} total)`
+			: `Processing ${messageCount.toLocaleString()} messages`
 	humanInfo(`\n🚀 Starting enrichment: ${progressMsg}`)
 
 	// Build enrichment configs
-	const geminiApiKey = process.env.GEMINI_API_KEY || ''
-	const firecrawlApiKey = process.env.FIRECRAWL_API_KEY
+	const geminiApiKey = gemini.apiKey ?? ''
+	const firecrawlApiKey =
+		firecrawl?.enabled === false ? undefined : firecrawl?.apiKey
+	const path = await import('node:path')
+	const imageCacheDir = path.resolve(
+		resolution.origins.get('enrichment.imageCacheDir')?.source === 'file'
+			? resolution.configDir
+			: process.cwd(),
+		enrichment.imageCacheDir,
+	)
+
+	// Enrichments from earlier runs and other archives, by file content
+	const cache = createEnrichmentCache(
+		await resolveConfigPath(
+			resolution,
+			'enrichment.cacheDir',
+			enrichment.cacheDir,
+		),
+	)
+	const modelProviders: Partial<
+		Record<MediaEnrichment['kind'], ModelProvider | undefined>
+	> = {
+		image_analysis: imageProvider,
+		transcription: audioProvider,
+		pdf_summary: pdfProvider,
+	}
 
 	const imageConfig = {
-		enableVisionAnalysis: enableVision ?? true,
+		enableVisionAnalysis,
 		geminiApiKey,
-		geminiModel: 'gemini-1.5-pro',
-		imageCacheDir: '/tmp/image-cache',
+		geminiModel: gemini.model,
+		...(imageProvider && { provider: imageProvider }),
+		imageCacheDir,
 	}
 
 	const audioConfig = {
-		enableAudioTranscription: enableAudio ?? true,
+		enableAudioTranscription,
 		geminiApiKey,
-		geminiModel: 'gemini-1.5-pro',
+		geminiModel: gemini.model,
+		...(audioProvider && { provider: audioProvider }),
 		rateLimitDelay,
 		maxRetries: maxRetriesNum,
 	}
 
-	const linkConfig = {
-		enableLinkAnalysis: enableLinks ?? true,
-		...(firecrawlApiKey ? { firecrawlApiKey } : {}),
+	const pdfConfig = {
+		enablePdfVideoAnalysis: enablePdfAnalysis,
+		geminiApiKey,
+		geminiModel: gemini.model,
+		...(pdfProvider && { provider: pdfProvider }),
 		rateLimitDelay,
 		maxRetries: maxRetriesNum,
 	}
 
-	// Build set of new message GUIDs for incremental filtering
-	const newGuidSet = new Set(newMessageGuids)
+	const videoConfig = { enablePdfVideoAnalysis: enableVideoMetadata }
 
-	for (let i = startIndex; i < messages.length; i++) {
-		const message = messages[i]
+	const linkConfig = {
+		enableLinkAnalysis: enableLinkEnrichment,
+		...(firecrawlApiKey ? { firecrawlApiKey } : {}),
+		rateLimitDelay,
+		maxRetries: maxRetriesNum,
+	}
 
-		try {
-			// INCREMENTAL--T04: Skip already-enriched messages in incremental mode
-			const shouldEnrich =
-				!incremental || !previousState || newGuidSet.has(message.guid || '')
+	const enricher = createItemEnricher({
+		enableVisionAnalysis,
+		enableAudioTranscription,
+		enablePdfAnalysis,
+		enableVideoMetadata,
+		enableLinkEnrichment,
+		forceRefresh: enrichment.forceRefresh,
+		retryFailed: retryFailed === true,
+		// INCREMENTAL--T04: Skip already-enriched messages in incremental mode
+		...(incremental && previousState && { isDue: isNew }),
+		modelProviders,
+		imageConfig,
+		audioConfig,
+		pdfConfig,
+		videoConfig,
+		linkConfig,
+		limiters,
+		cache,
+		reuse,
+		onCircuitOpen: (provider, i) => {
+			if (verbose) {
+				humanWarn(
+					`⚠️  Circuit breaker open for ${provider} - skipping enrichment for message ${i}`,
+				)
+			}
+		},
+		onFailure: (failure, error) => {
+			if (!verbose) return
+			humanWarn(
+				`⚠️  Failed to enrich message ${failure.index}: ${failure.error}`,
+			)
+			logEvent('enrich-item-failed', {
+				command: 'enrich',
+				phase: 'warning',
+				context: {
+					index: failure.index,
+					guid: failure.guid,
+					kind: failure.kind,
+				},
+				error: {
+					type: error instanceof Error ? error.name : 'Unknown',
+					message: failure.error,
+					...(error instanceof Error && error.stack
+						? { stack: error.stack }
+						: {}),
+				},
+			})
+		},
+	})
 
-			let enrichedMessage = message
+	// Results are taken in input order, so output, stats and checkpoints are
+	// the same whatever the concurrency
+	// Finished items wait here for slower earlier ones; at most a checkpoint
+	// interval per worker is started past the last checkpointable index
+	const completion = createOrderedCompletion<ItemOutcome>(startIndex, {
+		maxAhead: concurrencyNum * checkpointIntervalNum,
+	})
+	// Identical files wait for the first copy so its enrichment is reused
+	const enrichingContent = new Map<string, Promise<ItemOutcome>>()
+	const enrichMessage = async (i: number, message: Message) => {
+		const kind = enricher.kindOf(message)
+		const contentKey =
+			kind && message.media?.sha256
+				? `${message.media.sha256}:${kind}`
+				: undefined
+		const earlier = contentKey && enrichingContent.get(contentKey)
+		const run = earlier
+			? earlier.then(() => enricher.enrich(i, message))
+			: enricher.enrich(i, message)
+		if (contentKey) enrichingContent.set(contentKey, run)
+		const outcome = await run
+		if (contentKey && enrichingContent.get(contentKey) === run) {
+			enrichingContent.delete(contentKey)
+		}
+		return outcome
+	}
 
-			if (shouldEnrich) {
-				// Check circuit breaker before making API calls
-				if (rateLimiter.isCircuitOpen()) {
-					// Circuit is open - skip enrichment but don't fail
-					if (verbose) {
-						humanWarn(
-							`⚠️  Circuit breaker open - skipping enrichment for message ${i}`,
-						)
-					}
-				} else {
-					// Apply rate limiting delay between API calls
-					const rateLimitDelayMs = rateLimiter.shouldRateLimit()
-					if (rateLimitDelayMs > 0) {
-						await new Promise((resolve) =>
-							setTimeout(resolve, rateLimitDelayMs),
-						)
-					}
-					rateLimiter.recordCall()
-
-					// Enrich based on message type and config
-					if (
-						enableVision &&
-						message.messageKind === 'media' &&
-						message.media?.mediaKind === 'image'
-					) {
-						enrichedMessage = await analyzeImage(enrichedMessage, imageConfig)
-						rateLimiter.recordSuccess()
-					} else if (
-						enableAudio &&
-						message.messageKind === 'media' &&
-						message.media?.mediaKind === 'audio'
-					) {
-						enrichedMessage = await analyzeAudio(enrichedMessage, audioConfig)
-						rateLimiter.recordSuccess()
-					} else if (
-						enableLinks &&
-						message.messageKind === 'text' &&
-						message.text
-					) {
-						enrichedMessage = await enrichLinkContext(
-							enrichedMessage,
-							linkConfig,
-						)
-						rateLimiter.recordSuccess()
+	// Finished messages go out in input order: appended to the output file,
+	// or batched into the store and committed before each checkpoint that
+	// counts them. A retry collects its few messages and merges them at the
+	// end instead.
+	const { createExportEnvelope } = await import('../../ingest/ingest-csv.js')
+	const { messages: _none, ...header } = createExportEnvelope([])
+	const writer =
+		retryCheckpoint || source.isStore
+			? null
+			: await createEnvelopeWriter(output, { ...header, source: 'merged' })
+	const messageStore =
+		source.isStore && !retryCheckpoint ? openMessageStore(source.path) : null
+	const outputConversations = createConversationCollector()
+	const storeBatch: Message[] = []
+	const retried: Message[] = []
+	const flushStore = () => {
+		if (messageStore && storeBatch.length > 0) {
+			messageStore.updateMessages(storeBatch.splice(0))
+		}
+	}
+	// One write at a time, in release order; checkpoints share the temp file
+	let writes = Promise.resolve()
+
+	// Read as workers start, which is in index order
+	async function* messagesFromStart(): AsyncGenerator<Message> {
+		let index = 0
+		for await (const message of selectInput()) {
+			if (index++ >= startIndex) yield message
+		}
+	}
+	const reader = retryCheckpoint
+		? retryTargets.values()
+		: messagesFromStart()[Symbol.asyncIterator]()
+
+	try {
+		await runWorkerPool(
+			{ startIndex, endIndex: messageCount, concurrency: concurrencyNum },
+			async (i) => {
+				const next = await reader.next()
+				if (next.done) {
+					throw new Error(
+						`The input ended before message ${i}; was it changed during the run?`,
+					)
+				}
+				const message = next.value
+				await completion.start(i)
+				const outcome =
+					completedAhead.get(i) ?? (await enrichMessage(i, message))
+
+				const released = completion.complete(i, outcome)
+				for (const [position, { index, result }] of released.entries()) {
+					tallyOutcome(tally, result)
+
+					// AC01: Write checkpoint at intervals; a retry only rewrites the
+					// failed items at the end. Items started past the checkpoint are
+					// recorded as in flight or with their outcome, so --resume only
+					// redoes the unfinished ones.
+					const checkpoint =
+						!retryFailed && (index + 1) % checkpointIntervalNum === 0
+							? createCheckpoint({
+									lastProcessedIndex: index,
+									inFlight: completion.inFlight,
+									completed: [
+										...released.slice(position + 1),
+										...completion.held,
+									].map((item) => ({
+										index: item.index,
+										outcome: item.result,
+									})),
+									totalProcessed: tally.totalProcessed,
+									totalFailed: tally.totalFailed,
+									stats: {
+										processedCount: tally.totalProcessed,
+										failedCount: tally.totalFailed,
+										enrichmentsByKind: { ...enrichmentsByKind },
+									},
+									failedItems: [...tally.failedItems],
+									configHash,
+								})
+							: null
+
+					// Failed messages are still written, for --retry-failed to redo
+					writes = writes.then(async () => {
+						if (writer) {
+							outputConversations.add(result.message)
+							await writer.write(result.message)
+						} else if (messageStore) {
+							storeBatch.push(result.message)
+						} else {
+							retried.push(result.message)
+						}
+						if (checkpoint) {
+							flushStore()
+							await saveCheckpoint(checkpoint, checkpointPath)
+						}
+					})
+					if (checkpoint && verbose) {
+						cliLogger.info('Checkpoint written', { index: index + 1 })
 					}
 				}
-			}
+				await writes
+			},
+		)
+		await writes
+		flushStore()
+	} catch (error) {
+		await writer?.abort()
+		throw error
+	} finally {
+		messageStore?.close()
+	}
 
-			enrichedMessages.push(enrichedMessage)
-			totalProcessed++
-
-			// AC01: Write checkpoint at intervals
-			if ((i + 1) % checkpointIntervalNum === 0) {
-				const checkpoint = createCheckpoint({
-					lastProcessedIndex: i,
-					totalProcessed,
-					totalFailed,
-					stats: {
-						processedCount: totalProcessed,
-						failedCount: totalFailed,
-						enrichmentsByKind: {},
-					},
-					failedItems,
-					configHash,
-				})
-				await saveCheckpoint(checkpoint, checkpointPath)
-				if (verbose) {
-					cliLogger.info('Checkpoint written', { index: i + 1 })
-				}
+	if (retryCheckpoint) {
+		const { stillFailing, recovered, ...result } = completeRetry({
+			checkpoint: retryCheckpoint,
+			base: retryBase,
+			enriched: retried,
+			failedItems: tally.failedItems,
+			notFound,
+			enrichmentsByKind,
+			configHash,
+		})
+
+		// A store only has the retried messages updated in place; a file is
+		// rewritten from its earlier output with them merged in
+		if (source.isStore) {
+			const retryStore = openMessageStore(source.path)
+			try {
+				retryStore.updateMessages(result.updated)
+			} finally {
+				retryStore.close()
 			}
-		} catch (error) {
-			totalFailed++
-			const errorMessage =
-				error instanceof Error ? error.message : String(error)
-			failedItems.push({
-				index: i,
-				guid: message.guid || 'unknown',
-				kind: message.messageKind || 'unknown',
-				error: errorMessage,
+		} else {
+			const retryWriter = await createEnvelopeWriter(output, {
+				...header,
+				source: 'merged',
 			})
-			if (verbose) {
-				humanWarn(`⚠️  Failed to enrich message ${i}: ${errorMessage}`)
-				logEvent('enrich-item-failed', {
-					command: 'enrich',
-					phase: 'warning',
-					context: {
-						index: i,
-						guid: message.guid || 'unknown',
-						kind: message.messageKind || 'unknown',
-					},
-					error: {
-						type: error instanceof Error ? error.name : 'Unknown',
-						message: errorMessage,
-						...(error instanceof Error && error.stack
-							? { stack: error.stack }
-							: {}),
-					},
-				})
+			const collector = createConversationCollector()
+			try {
+				const base = retryOutput
+					? openEnvelopeStream(retryOutput).messages
+					: selectInput()
+				for await (const message of mergeRetryIntoOutput(
+					base,
+					result.updated,
+				)) {
+					collector.add(message)
+					await retryWriter.write(message)
+				}
+				await retryWriter.close(collector.build(knownConversations))
+			} catch (error) {
+				await retryWriter.abort()
+				throw error
+			}
+		}
+		await saveCheckpoint(createCheckpoint(result.checkpoint), checkpointPath)
+		const destination = source.isStore ? source.path : output
+
+		humanInfo('\n✅ Retry complete')
+		humanInfo(`✓ Retried: ${messageCount.toLocaleString()} failed items`)
+		humanInfo(`✓ Recovered: ${recovered.toLocaleString()}`)
+		if (stillFailing.length > 0) {
+			humanInfo(`⚠️  Still failing: ${stillFailing.length.toLocaleString()}`)
+			for (const item of stillFailing) {
+				humanInfo(`   ${item.guid} (${item.kind}): ${item.error}`)
 			}
 		}
+		humanInfo(`✓ Wrote to ${destination}`)
+
+		logEvent('enrich-retry-summary', {
+			command: 'enrich',
+			phase: 'summary',
+			metrics: {
+				retried: messageCount,
+				recovered,
+				stillFailing: stillFailing.length,
+				enrichmentsByKind,
+			},
+			options: { output: destination, concurrency: concurrencyNum },
+			context: { checkpointPath, stillFailing },
+			exitCode: 0,
+		})
+		return
 	}
 
-	// Write final checkpoint
+	// Finish the output before the final checkpoint records it as done; a
+	// store's batches are already committed
+	await writer?.close(outputConversations.build(knownConversations))
 	const finalCheckpoint = createCheckpoint({
-		lastProcessedIndex: messages.length - 1,
-		totalProcessed,
-		totalFailed,
+		lastProcessedIndex: messageCount - 1,
+		totalProcessed: tally.totalProcessed,
+		totalFailed: tally.totalFailed,
 		stats: {
-			processedCount: totalProcessed,
-			failedCount: totalFailed,
-			enrichmentsByKind: {},
+			processedCount: tally.totalProcessed,
+			failedCount: tally.totalFailed,
+			enrichmentsByKind,
 		},
-		failedItems,
+		failedItems: tally.failedItems,
 		configHash,
 	})
 	await saveCheckpoint(finalCheckpoint, checkpointPath)
-
-	// Write output
-	const { createExportEnvelope } = await import('../../ingest/ingest-csv.js')
-	const envelope = createExportEnvelope(enrichedMessages)
-	envelope.source = 'merged'
-	fs.writeFileSync(output, JSON.stringify(envelope, null, 2), 'utf-8')
+	const destination = source.isStore ? source.path : output
 
 	humanInfo('\n✅ Enrichment complete')
-	humanInfo(`✓ Processed: ${totalProcessed.toLocaleString()} messages`)
-	if (totalFailed > 0) {
-		humanInfo(`⚠️  Failed: ${totalFailed.toLocaleString()} messages`)
+	humanInfo(`✓ Processed: ${tally.totalProcessed.toLocaleString()} messages`)
+	const addedByKind = Object.entries(enrichmentsByKind)
+	if (addedByKind.length > 0) {
+		humanInfo(
+			`✓ Added: ${addedByKind.map(([kind, count]) => `${count.toLocaleString()} ${kind}`).join(', ')}`,
+		)
+	}
+	if (reuse.reused > 0) {
+		humanInfo(
+			`✓ Reused: ${reuse.reused.toLocaleString()} enrichments of identical files`,
+		)
+	}
+	if (tally.cacheHits > 0) {
+		humanInfo(
+			`✓ Cached: ${tally.cacheHits.toLocaleString()} enrichments from ${cache.dir}`,
+		)
+	}
+	if (tally.alreadyEnriched > 0) {
+		humanInfo(
+			`✓ Skipped: ${tally.alreadyEnriched.toLocaleString()} already enriched (use --force-refresh to redo)`,
+		)
+	}
+	if (tally.totalFailed > 0) {
+		humanInfo(`⚠️  Failed: ${tally.totalFailed.toLocaleString()} messages`)
 	}
-	humanInfo(`✓ Wrote to ${output}`)
+	humanInfo(`✓ Wrote to ${destination}`)
 
 	logEvent('enrich-summary', {
 		command: 'enrich',
 		phase: 'summary',
-		metrics: { processed: totalProcessed, failed: totalFailed },
-		options: { output, checkpointInterval: checkpointIntervalNum },
+		metrics: {
+			processed: tally.totalProcessed,
+			failed: tally.totalFailed,
+			reused: reuse.reused,
+			cacheHits: tally.cacheHits,
+			alreadyEnriched: tally.alreadyEnriched,
+			enrichmentsByKind,
+		},
+		options: {
+			output: destination,
+			checkpointInterval: checkpointIntervalNum,
+			concurrency: concurrencyNum,
+		},
 		context: { checkpointPath },
 		exitCode: 0,
 	})
@@ -426,7 +879,11 @@ export function registerEnrichAICommand(
 	program
 		.command('enrich-ai')
 		.description('Add AI-powered enrichment to media messages')
-		.requiredOption('-i, --input <path>', 'input normalized JSON file')
+		.option('-i, --input <path>', 'input normalized JSON file')
+		.option(
+			'--store <path.sqlite>',
+			'enrich the messages in a message store in place',
+		)
 		.option(
 			'-o, --output <path>',
 			'output JSON file path',
@@ -454,27 +911,58 @@ export function registerEnrichAICommand(
 		)
 		.option(
 			'--force-refresh',
-			'force re-enrichment even if already done',
-			false,
+			'force re-enrichment even if already done (default: enrichment.forceRefresh)',
 		)
 		.option(
 			'--rate-limit <ms>',
-			'delay between API calls (milliseconds)',
-			'1000',
+			'delay between API calls in milliseconds (default: gemini.rateLimitDelay)',
+		)
+		.option(
+			'--max-retries <n>',
+			'max retries on API errors (default: gemini.maxRetries)',
 		)
-		.option('--max-retries <n>', 'max retries on API errors', '3')
 		.option(
 			'--checkpoint-interval <n>',
-			'write checkpoint every N items',
-			'100',
+			'write checkpoint every N items (default: enrichment.checkpointInterval)',
+		)
+		.option(
+			'--retry-failed',
+			"re-enrich only the checkpoint's failed items and merge them into the output",
+			false,
+		)
+		.option(
+			'--concurrency <n>',
+			'messages to enrich at once (default: enrichment.concurrency)',
+		)
+		.option(
+			'--enable-vision',
+			'enable image analysis with Gemini Vision (default: enrichment.enableVisionAnalysis)',
 		)
-		.option('--enable-vision', 'enable image analysis with Gemini Vision', true)
+		.option('--no-enable-vision', 'skip image analysis')
 		.option(
 			'--enable-audio',
-			'enable audio transcription with Gemini Audio',
-			true,
+			'enable audio transcription with Gemini Audio (default: enrichment.enableAudioTranscription)',
+		)
+		.option('--no-enable-audio', 'skip audio transcription')
+		.option(
+			'--enable-links',
+			'enable link enrichment with Firecrawl (default: enrichment.enableLinkEnrichment)',
+		)
+		.option('--no-enable-links', 'skip link enrichment')
+		.option(
+			'--enable-pdf',
+			'enable PDF summaries (default: enrichment.enablePdfAnalysis)',
+		)
+		.option('--no-enable-pdf', 'skip PDF summaries')
+		.option(
+			'--enable-video',
+			'enable video metadata extraction (default: enrichment.enableVideoMetadata)',
+		)
+		.option('--no-enable-video', 'skip video metadata')
+		.option(
+			'--chat <id|name>',
+			'only include one conversation (chat GUID, identifier or display name)',
 		)
-		.option('--enable-links', 'enable link enrichment with Firecrawl', true)
 		.action(async (options: EnrichAIOptions) => {
 			try {
 				await executeEnrichAI(options, getGlobalOptions())
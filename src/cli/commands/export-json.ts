@@ -0,0 +1,147 @@
+/**
+ * Export JSON Command
+ *
+ * Write the contents of a message store as an ExportEnvelope file, for tools
+ * and stages that read envelope JSON.
+ */
+
+import type { Command } from 'commander'
+import { humanError, humanInfo } from '#utils/human'
+import type { ExportJSONOptions, GlobalOptions } from '../types.js'
+import { applyLogLevel, logEvent, resolveInputSource } from '../utils.js'
+
+/**
+ * Execute the export-json command logic
+ */
+export async function executeExportJSON(
+	options: ExportJSONOptions,
+	globalOptions: GlobalOptions,
+): Promise<void> {
+	const { store, output, chat } = options
+	const { verbose, quiet } = globalOptions
+
+	applyLogLevel(verbose, quiet)
+
+	logEvent('export-start', {
+		command: 'export-json',
+		phase: 'start',
+		options: { store, output, chat },
+	})
+
+	await resolveInputSource(undefined, store)
+
+	const { openMessageStore } = await import('../../store/message-store.js')
+	const { createEnvelopeWriter } = await import('#utils/envelope-stream')
+	const { createExportEnvelope } = await import('../../ingest/ingest-csv.js')
+	const { createConversationCollector, resolveConversation } = await import(
+		'../../ingest/conversations.js'
+	)
+
+	const messageStore = openMessageStore(store, { readonly: true })
+	try {
+		let conversations = messageStore.getConversations()
+
+		let chatId: string | undefined
+		if (chat) {
+			// CSV-only stores have no conversation records: infer them
+			let candidates = conversations
+			if (candidates.length === 0) {
+				const collector = createConversationCollector()
+				for (const message of messageStore.iterateMessages()) {
+					collector.add(message)
+				}
+				candidates = collector.build()
+			}
+			const selected = resolveConversation(candidates, chat)
+			chatId = selected.id
+			conversations = conversations.filter((c) => c.id === selected.id)
+			humanInfo(`✓ Filtering to ${selected.displayName || selected.id}`)
+		}
+
+		const { messages: _none, ...defaultHeader } = createExportEnvelope([])
+		const header = messageStore.getHeader() ?? {
+			...defaultHeader,
+			source: 'merged' as const,
+		}
+
+		// Rows are streamed from the store straight into the envelope writer
+		const writer = await createEnvelopeWriter(output, header)
+		try {
+			for (const message of messageStore.iterateMessages(chatId)) {
+				await writer.write(message)
+			}
+		} catch (error) {
+			await writer.abort()
+			throw error
+		}
+		await writer.close(conversations.length > 0 ? conversations : undefined)
+
+		humanInfo(
+			`✓ Exported ${writer.count.toLocaleString()} messages from ${store}`,
+		)
+		humanInfo(`✓ Wrote to ${output}`)
+
+		logEvent('export-summary', {
+			command: 'export-json',
+			phase: 'summary',
+			metrics: {
+				total: writer.count,
+				conversations: conversations.length,
+			},
+			options: { output, chat },
+			exitCode: 0,
+		})
+	} finally {
+		messageStore.close()
+	}
+}
+
+/**
+ * Register the export-json command with Commander
+ */
+export function registerExportJSONCommand(
+	program: Command,
+	getGlobalOptions: () => GlobalOptions,
+): void {
+	program
+		.command('export-json')
+		.description('Export a message store as an envelope JSON file')
+		.requiredOption('--store <path.sqlite>', 'message store to export')
+		.option(
+			'-o, --output <path>',
+			'output JSON file path (.ndjson for NDJSON)',
+			'./messages.export.json',
+		)
+		.option(
+			'--chat <id|name>',
+			'only include one conversation (chat GUID, identifier or display name)',
+		)
+		.action(async (options: ExportJSONOptions) => {
+			try {
+				await executeExportJSON(options, getGlobalOptions())
+				process.exit(0)
+			} catch (error) {
+				humanError(
+					'❌ Failed to export JSON:',
+					error instanceof Error ? error.message : String(error),
+				)
+				if (getGlobalOptions().verbose && error instanceof Error) {
+					humanError(error.stack)
+				}
+				logEvent('export-error', {
+					command: 'export-json',
+					phase: 'error',
+					error: {
+						type: error instanceof Error ? error.name : 'Unknown',
+						message: error instanceof Error ? error.message : String(error),
+						...(error instanceof Error && error.stack
+							? { stack: error.stack }
+							: {}),
+					},
+					options: { store: options.store, output: options.output },
+					exitCode: 2,
+				})
+				process.exit(2)
+			}
+		})
+}
@@ -4,12 +4,24 @@
  * Barrel export for all CLI command modules.
  */
 
+export {
+	executeCacheExport,
+	executeCachePrune,
+	executeCacheStats,
+	registerCacheCommand,
+} from './cache.js'
 export { executeClean, registerCleanCommand } from './clean.js'
+export { executeConfigShow, registerConfigCommand } from './config.js'
 export { executeDoctor, registerDoctorCommand } from './doctor.js'
 export { executeEnrichAI, registerEnrichAICommand } from './enrich-ai.js'
+export {
+	executeExportJSON,
+	registerExportJSONCommand,
+} from './export-json.js'
 export { executeIngestCSV, registerIngestCSVCommand } from './ingest-csv.js'
 export { executeIngestDB, registerIngestDBCommand } from './ingest-db.js'
 export { executeInit, registerInitCommand } from './init.js'
+export { executeMigrate, registerMigrateCommand } from './migrate.js'
 export {
 	executeNormalizeLink,
 	registerNormalizeLinkCommand,
@@ -18,5 +30,7 @@ export {
 	executeRenderMarkdown,
 	registerRenderMarkdownCommand,
 } from './render-markdown.js'
+export { executeRun, registerRunCommand } from './run.js'
+export { executeSearch, registerSearchCommand } from './search.js'
 export { executeStats, registerStatsCommand } from './stats.js'
 export { executeValidate, registerValidateCommand } from './validate.js'
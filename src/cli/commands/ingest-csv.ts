@@ -9,7 +9,13 @@ import type { Command } from 'commander'
 import { humanError, humanInfo } from '#utils/human'
 import { setCorrelationId } from '#utils/logger'
 import type { GlobalOptions, IngestCSVOptions } from '../types.js'
-import { applyLogLevel, cliLogger, logEvent } from '../utils.js'
+import {
+	applyLogLevel,
+	cliLogger,
+	loadCommandConfig,
+	logEvent,
+	resolveAttachmentRoots,
+} from '../utils.js'
 
 /**
  * Execute the ingest-csv command logic
@@ -18,7 +24,7 @@ export async function executeIngestCSV(
 	options: IngestCSVOptions,
 	globalOptions: GlobalOptions,
 ): Promise<void> {
-	const { input, output, attachments } = options
+	const { input, output, store, attachments, chat } = options
 	const { verbose, quiet } = globalOptions
 
 	applyLogLevel(verbose, quiet)
@@ -27,7 +33,13 @@ export async function executeIngestCSV(
 	logEvent('ingest-start', {
 		command: 'ingest-csv',
 		phase: 'start',
-		options: { input, output, attachmentsCount: attachments?.length },
+		options: {
+			input,
+			output,
+			store,
+			attachmentsCount: attachments?.length,
+			chat,
+		},
 	})
 
 	// CLI-T02-AC04: Input file validation with clear error messages
@@ -40,58 +52,103 @@ export async function executeIngestCSV(
 		process.exit(1)
 	}
 
-	// CLI-T02-AC03: Attachment root validation (check directories exist)
-	const attachmentRoots: string[] = []
-	if (attachments && attachments.length > 0) {
-		for (const dir of attachments) {
-			if (!fs.existsSync(dir)) {
-				humanError(`❌ Attachment directory not found: ${dir}`)
-				process.exit(1)
-			}
-			if (!fs.statSync(dir).isDirectory()) {
-				humanError(`❌ Not a directory: ${dir}`)
-				process.exit(1)
-			}
-			attachmentRoots.push(dir)
-		}
-	} else {
-		// Default: ~/Library/Messages/Attachments
-		const os = await import('node:os')
-		const path = await import('node:path')
-		const defaultRoot = path.join(
-			os.homedir(),
-			'Library',
-			'Messages',
-			'Attachments',
-		)
-		if (fs.existsSync(defaultRoot)) {
-			attachmentRoots.push(defaultRoot)
-			if (verbose) {
-				cliLogger.info('Using default attachment root', { defaultRoot })
-			}
-		}
-	}
+	// CLI-T02-AC03: Attachment roots (--attachments, then
+	// CHATLINE_ATTACHMENT_ROOTS, then config attachmentRoots)
+	const resolution = await loadCommandConfig(globalOptions, {
+		attachmentRoots: attachments?.length ? attachments : undefined,
+	})
+	const attachmentRoots = await resolveAttachmentRoots(resolution, verbose)
+	const tapbackPhrases = Object.values(
+		resolution.config.ingest?.tapbackLocales ?? {},
+	)
 
 	// CLI-T02-AC01: ingest-csv command with all options from usage guide
-	const { ingestCSV, createExportEnvelope, validateMessages } = await import(
+	const { streamCSV, createExportEnvelope } = await import(
 		'../../ingest/ingest-csv.js'
 	)
+	const { MessageSchema } = await import('../../schema/message.js')
+	const { createEnvelopeWriter } = await import('#utils/envelope-stream')
 
 	if (verbose) {
 		cliLogger.info('Reading CSV ingest', { input, attachmentRoots })
 	}
 
-	const messages = ingestCSV(input, { attachmentRoots })
+	const readMessages = () =>
+		streamCSV(input, { attachmentRoots, tapbackPhrases })
+
+	const { createConversationCollector, resolveConversation } = await import(
+		'../../ingest/conversations.js'
+	)
+	// iMazing's Chat Session column is both the chat id and its name
+	const buildConversations = (
+		collector: ReturnType<typeof createConversationCollector>,
+	) =>
+		collector.build().map((conversation) => ({
+			...conversation,
+			displayName: conversation.id,
+		}))
+	let selectedChatId: string | null = null
+	if (chat) {
+		// The CSV has no chat table: infer conversations first
+		const collector = createConversationCollector()
+		for await (const message of readMessages()) collector.add(message)
+		const selected = resolveConversation(buildConversations(collector), chat)
+		selectedChatId = selected.id
+		humanInfo(`✓ Filtering to ${selected.id}`)
+	}
+
+	// Rows are parsed and written one at a time so memory stays flat
+	const { messages: _none, ...header } = createExportEnvelope([])
+	// --store writes into the message store instead of an envelope file,
+	// replacing what an earlier run ingested from the same source (only the
+	// selected conversation with --chat)
+	const { openMessageStore } = await import('../../store/message-store.js')
+	const messageStore = store ? openMessageStore(store) : null
+	const destination = store ?? output
+	const writer = messageStore
+		? messageStore.createWriter(
+				{ ...header, source: 'csv' },
+				{ ...(selectedChatId !== null && { chatId: selectedChatId }) },
+			)
+		: await createEnvelopeWriter(output, header)
+	const collector = createConversationCollector()
+	const counts = { text: 0, media: 0, tapbacks: 0, notifications: 0 }
+	const invalid: Array<{ index: number; issues: unknown[] }> = []
+	let index = 0
+
+	try {
+		for await (const message of readMessages()) {
+			if (selectedChatId !== null && message.chatId !== selectedChatId) {
+				continue
+			}
+
+			// Validate messages before writing
+			const result = MessageSchema.safeParse(message)
+			if (!result.success) {
+				invalid.push({ index, issues: result.error.issues })
+			} else if (invalid.length === 0) {
+				collector.add(message)
+				if (message.messageKind === 'text') counts.text++
+				if (message.messageKind === 'media') counts.media++
+				if (message.messageKind === 'tapback') counts.tapbacks++
+				if (message.messageKind === 'notification') counts.notifications++
+				await writer.write(message)
+			}
+			index++
+		}
+	} catch (error) {
+		await writer.abort()
+		throw error
+	}
 
 	// CLI-T02-AC05: Progress output: ✓ Parsed 2,847 messages from CSV
-	humanInfo(`✓ Parsed ${messages.length.toLocaleString()} messages from CSV`)
+	humanInfo(`✓ Parsed ${index.toLocaleString()} messages from CSV`)
 
-	// Validate messages before writing
-	const validation = validateMessages(messages)
-	if (!validation.valid) {
-		humanError(`❌ ${validation.errors.length} messages failed validation`)
+	if (invalid.length > 0) {
+		await writer.abort()
+		humanError(`❌ ${invalid.length} messages failed validation`)
 		if (verbose) {
-			validation.errors.slice(0, 5).forEach((err) => {
+			invalid.slice(0, 5).forEach((err) => {
 				humanError(`  Message ${err.index}:`, err.issues)
 			})
 		}
@@ -99,30 +156,32 @@ export async function executeIngestCSV(
 	}
 
 	// Write export envelope
-	const envelope = createExportEnvelope(messages)
-	fs.writeFileSync(output, JSON.stringify(envelope, null, 2), 'utf-8')
+	const conversations = buildConversations(collector)
+	await writer.close(conversations)
+	messageStore?.close()
 
-	humanInfo(`✓ Wrote ${messages.length.toLocaleString()} messages to ${output}`)
+	humanInfo(
+		`✓ Wrote ${writer.count.toLocaleString()} messages to ${destination}`,
+	)
 	humanInfo('\n📊 Summary:')
-	const textCount = messages.filter((m) => m.messageKind === 'text').length
-	const mediaCount = messages.filter((m) => m.messageKind === 'media').length
-	const notifCount = messages.filter(
-		(m) => m.messageKind === 'notification',
-	).length
-	humanInfo(`  Text: ${textCount}`)
-	humanInfo(`  Media: ${mediaCount}`)
-	humanInfo(`  Notifications: ${notifCount}`)
+	humanInfo(`  Text: ${counts.text}`)
+	humanInfo(`  Media: ${counts.media}`)
+	humanInfo(`  Tapbacks: ${counts.tapbacks}`)
+	humanInfo(`  Notifications: ${counts.notifications}`)
+	humanInfo(`  Conversations: ${conversations.length}`)
 
 	logEvent('ingest-summary', {
 		command: 'ingest-csv',
 		phase: 'summary',
 		metrics: {
-			total: messages.length,
-			text: textCount,
-			media: mediaCount,
-			notifications: notifCount,
+			total: writer.count,
+			text: counts.text,
+			media: counts.media,
+			tapbacks: counts.tapbacks,
+			notifications: counts.notifications,
+			conversations: conversations.length,
 		},
-		options: { output },
+		options: { output: destination, chat },
 		exitCode: 0,
 	})
 }
@@ -143,7 +202,15 @@ export function registerIngestCSVCommand(
 			'output JSON file path',
 			'./messages.csv.ingested.json',
 		)
+		.option(
+			'--store <path.sqlite>',
+			'write messages into a message store instead of --output',
+		)
 		.option('-a, --attachments <dir...>', 'attachment root directories')
+		.option(
+			'--chat <id|name>',
+			'only include one conversation (Chat Session name)',
+		)
 		.action(async (options: IngestCSVOptions) => {
 			try {
 				await executeIngestCSV(options, getGlobalOptions())
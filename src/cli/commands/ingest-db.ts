@@ -1,16 +1,23 @@
 /**
  * Ingest DB Command
  *
- * Import messages from macOS Messages.app database export (JSON).
+ * Import messages from macOS Messages.app database (chat.db) or a JSON export.
  * CLI-T02-AC02: ingest-db command with database path and contact filtering
  */
 
 import type { Command } from 'commander'
 import { humanError, humanInfo } from '#utils/human'
 import type { DBMessage } from '../../ingest/ingest-db.js'
-import type { Message } from '../../schema/message.js'
+import type { Conversation, Message } from '../../schema/message.js'
 import type { GlobalOptions, IngestDBOptions } from '../types.js'
-import { applyLogLevel, cliLogger, logEvent } from '../utils.js'
+import {
+	applyLogLevel,
+	cliLogger,
+	loadCommandConfig,
+	loadCommandContacts,
+	logEvent,
+	resolveAttachmentRoots,
+} from '../utils.js'
 
 /**
  * Execute the ingest-db command logic
@@ -19,7 +26,7 @@ export async function executeIngestDB(
 	options: IngestDBOptions,
 	globalOptions: GlobalOptions,
 ): Promise<void> {
-	const { input, output, attachments, contact } = options
+	const { input, output, store, attachments, contact, contacts, chat } = options
 	const { verbose, quiet } = globalOptions
 
 	applyLogLevel(verbose, quiet)
@@ -30,131 +37,196 @@ export async function executeIngestDB(
 		options: {
 			input,
 			output,
+			store,
 			attachmentsCount: attachments?.length,
 			contact,
+			chat,
 		},
 	})
 
 	// CLI-T02-AC04: Input file validation with clear error messages
 	const fs = await import('node:fs')
 	if (!fs.existsSync(input)) {
-		humanError(`❌ Input JSON file not found: ${input}`)
+		humanError(`❌ Input database file not found: ${input}`)
 		humanError('\nPlease check:')
 		humanError('  • File path is correct')
 		humanError('  • File exists and is readable')
 		process.exit(1)
 	}
 
-	// CLI-T02-AC03: Attachment root validation (check directories exist)
-	const attachmentRoots: string[] = []
-	if (attachments && attachments.length > 0) {
-		for (const dir of attachments) {
-			if (!fs.existsSync(dir)) {
-				humanError(`❌ Attachment directory not found: ${dir}`)
-				process.exit(1)
-			}
-			if (!fs.statSync(dir).isDirectory()) {
-				humanError(`❌ Not a directory: ${dir}`)
-				process.exit(1)
-			}
-			attachmentRoots.push(dir)
-		}
-	} else {
-		// Default: ~/Library/Messages/Attachments
-		const os = await import('node:os')
-		const path = await import('node:path')
-		const defaultRoot = path.join(
-			os.homedir(),
-			'Library',
-			'Messages',
-			'Attachments',
-		)
-		if (fs.existsSync(defaultRoot)) {
-			attachmentRoots.push(defaultRoot)
-			if (verbose) {
-				humanInfo(`Using default attachment root: ${defaultRoot}`)
-			}
-		}
-	}
+	// CLI-T02-AC03: Attachment roots (--attachments, then
+	// CHATLINE_ATTACHMENT_ROOTS, then config attachmentRoots)
+	const resolution = await loadCommandConfig(globalOptions, {
+		attachmentRoots: attachments?.length ? attachments : undefined,
+	})
+	const attachmentRoots = await resolveAttachmentRoots(resolution, verbose)
 
 	// CLI-T02-AC02: ingest-db command with database path and contact filtering
-	const { splitDBMessage } = await import('../../ingest/ingest-db.js')
-	const { createExportEnvelope, validateMessages } = await import(
-		'../../ingest/ingest-csv.js'
+	const { createExportEnvelope, createPartIndexMap, splitDBMessage } =
+		await import('../../ingest/ingest-db.js')
+	const { MessageSchema } = await import('../../schema/message.js')
+	const { createEnvelopeWriter, readJsonArrayStream } = await import(
+		'#utils/envelope-stream'
 	)
 
+	// Accept either chat.db itself or a pre-exported JSON array
+	const { isSqliteFile } = await import('#utils/sqlite')
+	const isSqlite = await isSqliteFile(input)
+
 	if (verbose) {
 		cliLogger.info('Reading DB export', {
 			input,
+			format: isSqlite ? 'sqlite' : 'json',
 			attachmentRoots,
 			contact,
 		})
 	}
 
-	// Read and parse DB export JSON
-	const content = fs.readFileSync(input, 'utf-8')
-	const dbMessages = JSON.parse(content) as DBMessage[]
-
-	if (!Array.isArray(dbMessages)) {
-		humanError(
-			`❌ Expected JSON array of DB messages, got: ${typeof dbMessages}`,
+	// Rows are streamed (chat.db cursor or incremental JSON array) so memory
+	// stays flat however long the history is
+	let knownConversations: Conversation[] = []
+	let readRows: () => Iterable<DBMessage> | AsyncIterable<DBMessage>
+	if (isSqlite) {
+		const { iterateChatDB, readChatDBConversations } = await import(
+			'../../ingest/read-chat-db.js'
 		)
-		process.exit(1)
+		knownConversations = readChatDBConversations(input)
+		readRows = () => iterateChatDB(input)
+	} else {
+		readRows = () => readJsonArrayStream<DBMessage>(input)
 	}
 
 	// Filter by contact if specified
-	let filteredMessages: DBMessage[] = dbMessages
+	let matchesContact: (handle: string | null | undefined) => boolean = () =>
+		true
 	if (contact) {
-		filteredMessages = dbMessages.filter((m: DBMessage) => m.handle === contact)
-		humanInfo(
-			`✓ Filtered to ${filteredMessages.length} messages from ${contact}`,
+		// With an address book, --contact also accepts a name or person id and
+		// matches every handle that person uses
+		const { createContactFilter } = await import('../../contacts/index.js')
+		matchesContact = createContactFilter(
+			await loadCommandContacts(resolution, contacts),
+			contact,
 		)
 	}
 
 	// Split DB messages into Message objects
-	const messages: Message[] = []
-	filteredMessages.forEach((dbMsg: DBMessage, index: number) => {
-		const split = splitDBMessage(dbMsg, index + 1, { attachmentRoots })
-		messages.push(...split)
-	})
+	async function* readMessages(): AsyncGenerator<Message> {
+		let rowNumber = 0
+		const partIndexes = createPartIndexMap()
+		for await (const dbMsg of readRows()) {
+			rowNumber++
+			if (!matchesContact(dbMsg.handle)) {
+				// Their messages can still be reacted or replied to
+				partIndexes.record(dbMsg)
+				continue
+			}
+			yield* splitDBMessage(dbMsg, rowNumber, { attachmentRoots, partIndexes })
+		}
+	}
 
-	// CLI-T02-AC05: Progress output
-	humanInfo(
-		`✓ Parsed ${messages.length.toLocaleString()} messages from DB export`,
+	const { createConversationCollector, resolveConversation } = await import(
+		'../../ingest/conversations.js'
 	)
+	let selectedChatId: string | null = null
+	if (chat) {
+		// JSON row exports carry no chat table: infer conversations first
+		let candidates = knownConversations
+		if (candidates.length === 0) {
+			const collector = createConversationCollector()
+			for await (const message of readMessages()) collector.add(message)
+			candidates = collector.build()
+		}
+		const selected = resolveConversation(candidates, chat)
+		selectedChatId = selected.id
+		humanInfo(`✓ Filtering to ${selected.displayName || selected.id}`)
+	}
+
+	const { messages: _none, ...header } = createExportEnvelope([])
+	// --store writes into the message store instead of an envelope file,
+	// replacing what an earlier run ingested from the same source (only the
+	// selected conversation with --chat)
+	const { openMessageStore } = await import('../../store/message-store.js')
+	const messageStore = store ? openMessageStore(store) : null
+	const destination = store ?? output
+	const writer = messageStore
+		? messageStore.createWriter(header, {
+				...(selectedChatId !== null && { chatId: selectedChatId }),
+			})
+		: await createEnvelopeWriter(output, header)
+	const collector = createConversationCollector()
+	const counts = { text: 0, media: 0, tapbacks: 0, recovered: 0 }
+	const invalid: Array<{ index: number; issues: unknown[] }> = []
 
-	// Validate messages before writing
-	const validation = validateMessages(messages)
-	if (!validation.valid) {
-		humanError(`❌ ${validation.errors.length} messages failed validation`)
+	try {
+		for await (const message of readMessages()) {
+			if (selectedChatId !== null && message.chatId !== selectedChatId) {
+				continue
+			}
+
+			// Validate messages before writing
+			const result = MessageSchema.safeParse(message)
+			if (!result.success) {
+				invalid.push({ index: writer.count, issues: result.error.issues })
+				continue
+			}
+
+			collector.add(message)
+			if (message.messageKind === 'text') counts.text++
+			if (message.messageKind === 'media') counts.media++
+			if (message.messageKind === 'tapback') counts.tapbacks++
+			if (message.exportMetadata?.textSource === 'attributedBody') {
+				counts.recovered++
+			}
+			await writer.write(message)
+		}
+	} catch (error) {
+		await writer.abort()
+		throw error
+	}
+
+	if (invalid.length > 0) {
+		await writer.abort()
+		humanError(`❌ ${invalid.length} messages failed validation`)
 		if (verbose) {
-			validation.errors.slice(0, 5).forEach((err) => {
+			invalid.slice(0, 5).forEach((err) => {
 				humanError(`  Message ${err.index}:`, err.issues)
 			})
 		}
 		process.exit(1)
 	}
 
-	// Write export envelope
-	const envelope = createExportEnvelope(messages)
-	fs.writeFileSync(output, JSON.stringify(envelope, null, 2), 'utf-8')
+	const conversations = collector.build(knownConversations)
+	await writer.close(conversations)
+	messageStore?.close()
+	const total = writer.count
 
-	humanInfo(`✓ Wrote ${messages.length.toLocaleString()} messages to ${output}`)
+	// CLI-T02-AC05: Progress output
+	if (contact) {
+		humanInfo(
+			`✓ Filtered to ${total.toLocaleString()} messages from ${contact}`,
+		)
+	}
+	humanInfo(`✓ Parsed ${total.toLocaleString()} messages from DB export`)
+	humanInfo(`✓ Wrote ${total.toLocaleString()} messages to ${destination}`)
 	humanInfo('\n📊 Summary:')
-	const dbText = messages.filter(
-		(m: Message) => m.messageKind === 'text',
-	).length
-	const dbMedia = messages.filter(
-		(m: Message) => m.messageKind === 'media',
-	).length
-	humanInfo(`  Text: ${dbText}`)
-	humanInfo(`  Media: ${dbMedia}`)
+	humanInfo(`  Text: ${counts.text}`)
+	humanInfo(`  Media: ${counts.media}`)
+	humanInfo(`  Tapbacks: ${counts.tapbacks}`)
+	humanInfo(`  Conversations: ${conversations.length}`)
+	humanInfo(`  Recovered from attributedBody: ${counts.recovered}`)
 
 	logEvent('ingest-summary', {
 		command: 'ingest-db',
 		phase: 'summary',
-		metrics: { total: messages.length, text: dbText, media: dbMedia },
-		options: { output, contact },
+		metrics: {
+			total,
+			text: counts.text,
+			media: counts.media,
+			tapbacks: counts.tapbacks,
+			conversations: conversations.length,
+			recoveredFromAttributedBody: counts.recovered,
+		},
+		options: { output: destination, contact, chat },
 		exitCode: 0,
 	})
 }
@@ -169,16 +241,34 @@ export function registerIngestDBCommand(
 	program
 		.command('ingest-db')
 		.description(
-			'Import messages from macOS Messages.app database export (JSON)',
+			'Import messages from macOS Messages.app database (chat.db or JSON export)',
+		)
+		.requiredOption(
+			'-i, --input <path>',
+			'path to chat.db or JSON file with DB messages',
 		)
-		.requiredOption('-i, --input <path>', 'path to JSON file with DB messages')
 		.option(
 			'-o, --output <path>',
 			'output JSON file path',
 			'./messages.db.ingested.json',
 		)
+		.option(
+			'--store <path.sqlite>',
+			'write messages into a message store instead of --output',
+		)
 		.option('-a, --attachments <dir...>', 'attachment root directories')
-		.option('--contact <handle>', 'filter to specific contact handle')
+		.option(
+			'--contact <handle|name>',
+			'filter to one contact (handle, or name/person id with --contacts)',
+		)
+		.option(
+			'--contacts <files...>',
+			'address books (.vcf, .yaml, .csv) used to resolve handles to names',
+		)
+		.option(
+			'--chat <id|name>',
+			'only include one conversation (chat GUID, identifier or display name)',
+		)
 		.action(async (options: IngestDBOptions) => {
 			try {
 				await executeIngestDB(options, getGlobalOptions())
@@ -0,0 +1,199 @@
+/**
+ * Migrate Command
+ *
+ * Rewrite an envelope written by an older chatline at the current schema
+ * version. Other commands upgrade older envelopes as they read them; this
+ * makes the upgrade permanent, or shows what it would change with
+ * --dry-run.
+ */
+
+import type { Command } from 'commander'
+import { humanError, humanInfo } from '#utils/human'
+import type { Message } from '../../schema/message.js'
+import type { GlobalOptions, MigrateOptions } from '../types.js'
+import { applyLogLevel, logEvent } from '../utils.js'
+
+/** Changed messages listed by --dry-run without --verbose */
+const DRY_RUN_PREVIEW = 20
+
+/**
+ * Execute the migrate command logic
+ */
+export async function executeMigrate(
+	options: MigrateOptions,
+	globalOptions: GlobalOptions,
+): Promise<void> {
+	const { input, output, dryRun } = options
+	const { verbose, quiet } = globalOptions
+
+	applyLogLevel(verbose, quiet)
+
+	const fs = await import('node:fs')
+	if (!fs.existsSync(input)) {
+		humanError(`❌ Input file not found: ${input}`)
+		process.exit(1)
+	}
+
+	const { readEnvelope, writeEnvelope } = await import('#utils/envelope-stream')
+	const { CURRENT_SCHEMA_VERSION, UNVERSIONED_SCHEMA_VERSION, planMigrations } =
+		await import('../../schema/migrations.js')
+
+	const { header, messages, conversations } = await readEnvelope(input, {
+		migrate: false,
+	})
+	const version = header?.schemaVersion ?? UNVERSIONED_SCHEMA_VERSION
+
+	let plan: ReturnType<typeof planMigrations>
+	try {
+		plan = planMigrations(version)
+	} catch (error) {
+		humanError(`❌ ${error instanceof Error ? error.message : String(error)}`)
+		process.exit(1)
+	}
+
+	if (plan.length === 0) {
+		humanInfo(
+			`✓ ${input} is already at schemaVersion ${CURRENT_SCHEMA_VERSION}`,
+		)
+		logEvent('migrate-summary', {
+			command: 'migrate',
+			phase: 'summary',
+			metrics: { steps: 0, changed: 0, total: messages.length },
+			options: { input, dryRun },
+			exitCode: 0,
+		})
+		return
+	}
+
+	humanInfo(
+		`♻️  Migrating ${input} from schemaVersion ${version} to ${CURRENT_SCHEMA_VERSION}`,
+	)
+	for (const step of plan) {
+		humanInfo(`  ${step.from} → ${step.to}: ${step.description}`)
+	}
+
+	const migrated: Message[] = []
+	const changes: Array<{ guid: string; lines: string[] }> = []
+	for (const message of messages) {
+		const upgraded = plan.reduce(
+			(current, step) => step.migrateMessage(current),
+			message,
+		)
+		migrated.push(upgraded)
+		if (upgraded !== message) {
+			const lines = diffValues(message, upgraded)
+			if (lines.length > 0) changes.push({ guid: message.guid, lines })
+		}
+	}
+
+	if (dryRun) {
+		const shown = verbose ? changes : changes.slice(0, DRY_RUN_PREVIEW)
+		for (const { guid, lines } of shown) {
+			humanInfo(`\n~ ${guid}`)
+			for (const line of lines) humanInfo(`    ${line}`)
+		}
+		if (shown.length < changes.length) {
+			humanInfo(
+				`\n  ... and ${changes.length - shown.length} more (--verbose lists all)`,
+			)
+		}
+		humanInfo(
+			`\n✓ ${changes.length} of ${messages.length} messages would change (dry run, nothing written)`,
+		)
+	} else {
+		const destination = output ?? input
+		await writeEnvelope(destination, {
+			schemaVersion: CURRENT_SCHEMA_VERSION,
+			source: header?.source ?? 'merged',
+			createdAt: header?.createdAt ?? new Date().toISOString(),
+			...(header?.meta && { meta: header.meta }),
+			messages: migrated,
+			...(conversations && { conversations }),
+		})
+		humanInfo(
+			`✅ Migrated ${changes.length} of ${messages.length} messages; wrote ${destination}`,
+		)
+	}
+
+	logEvent('migrate-summary', {
+		command: 'migrate',
+		phase: 'summary',
+		metrics: {
+			steps: plan.length,
+			changed: changes.length,
+			total: messages.length,
+		},
+		options: { input, output: output ?? input, dryRun },
+		context: { from: version, to: CURRENT_SCHEMA_VERSION },
+		exitCode: 0,
+	})
+}
+
+/**
+ * Line diff of two JSON values: `- path: old` / `+ path: new` per changed leaf
+ */
+function diffValues(before: unknown, after: unknown, at = ''): string[] {
+	if (JSON.stringify(before) === JSON.stringify(after)) return []
+
+	const isRecord = (value: unknown): value is Record<string, unknown> =>
+		typeof value === 'object' && value !== null
+	if (isRecord(before) && isRecord(after)) {
+		const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+		return Array.from(keys).flatMap((key) =>
+			diffValues(before[key], after[key], at ? `${at}.${key}` : key),
+		)
+	}
+
+	const lines: string[] = []
+	if (before !== undefined) lines.push(`- ${at}: ${JSON.stringify(before)}`)
+	if (after !== undefined) lines.push(`+ ${at}: ${JSON.stringify(after)}`)
+	return lines
+}
+
+/**
+ * Register the migrate command with Commander
+ */
+export function registerMigrateCommand(
+	program: Command,
+	getGlobalOptions: () => GlobalOptions,
+): void {
+	program
+		.command('migrate')
+		.description('Upgrade an envelope to the current schema version')
+		.requiredOption(
+			'-i, --input <path>',
+			'envelope to migrate (JSON or NDJSON)',
+		)
+		.option(
+			'-o, --output <path>',
+			'where to write the migrated envelope (default: replace the input)',
+		)
+		.option('--dry-run', 'show what would change without writing', false)
+		.action(async (options: MigrateOptions) => {
+			try {
+				await executeMigrate(options, getGlobalOptions())
+				process.exit(0)
+			} catch (error) {
+				humanError(
+					'❌ Failed to migrate:',
+					error instanceof Error ? error.message : String(error),
+				)
+				if (getGlobalOptions().verbose && error instanceof Error) {
+					humanError(error.stack)
+				}
+				logEvent('migrate-error', {
+					command: 'migrate',
+					phase: 'error',
+					error: {
+						type: error instanceof Error ? error.name : 'Unknown',
+						message: error instanceof Error ? error.message : String(error),
+						...(error instanceof Error && error.stack
+							? { stack: error.stack }
+							: {}),
+					},
+					exitCode: 2,
+				})
+				process.exit(2)
+			}
+		})
+}
@@ -1,14 +1,26 @@
 /**
  * Normalize Link Command
  *
- * Deduplicate and link messages from multiple sources.
+ * Deduplicate and link messages from any number of sources: hash media
+ * files, merge the sources, link replies and tapbacks, collapse tapbacks
+ * into each sender's final reaction, resolve media paths against the
+ * attachment roots, then validate.
  */
 
 import type { Command } from 'commander'
-import { humanError, humanInfo } from '#utils/human'
-import type { Message } from '../../schema/message.js'
+import { humanError, humanInfo, humanWarn } from '#utils/human'
+import type { MergeSource, MergeStats } from '../../ingest/dedup-merge.js'
+import type { Conversation, Message } from '../../schema/message.js'
 import type { GlobalOptions, NormalizeLinkOptions } from '../types.js'
-import { applyLogLevel, cliLogger, logEvent } from '../utils.js'
+import {
+	applyLogLevel,
+	cliLogger,
+	loadCommandConfig,
+	loadCommandContacts,
+	logEvent,
+	resolveAttachmentRoots,
+	resolveInputSource,
+} from '../utils.js'
 
 /**
  * Execute the normalize-link command logic
@@ -17,14 +29,27 @@ export async function executeNormalizeLink(
 	options: NormalizeLinkOptions,
 	globalOptions: GlobalOptions,
 ): Promise<void> {
-	const { input, output } = options
+	const {
+		input,
+		output,
+		store,
+		chat,
+		attachments,
+		overrides: overridesFile,
+		ambiguousReport,
+		mergeReport,
+	} = options
 	const { verbose, quiet } = globalOptions
 
 	applyLogLevel(verbose, quiet)
 
 	// Validate inputs
 	const fs = await import('node:fs')
-	const inputFiles = Array.isArray(input) ? input : [input]
+	const inputFiles =
+		input === undefined ? [] : Array.isArray(input) ? input : [input]
+	if (store || inputFiles.length === 0) {
+		await resolveInputSource(inputFiles[0], store)
+	}
 
 	for (const file of inputFiles) {
 		if (!fs.existsSync(file)) {
@@ -32,6 +57,10 @@ export async function executeNormalizeLink(
 			process.exit(1)
 		}
 	}
+	if (overridesFile && !fs.existsSync(overridesFile)) {
+		humanError(`❌ Overrides file not found: ${overridesFile}`)
+		process.exit(1)
+	}
 
 	if (verbose) {
 		cliLogger.info('Start normalize-link', {
@@ -39,84 +68,275 @@ export async function executeNormalizeLink(
 		})
 	}
 
-	// Load input files
+	// Attachment roots (--attachments, then CHATLINE_ATTACHMENT_ROOTS, then
+	// config attachmentRoots) for resolving relative media paths
+	const resolution = await loadCommandConfig(globalOptions, {
+		attachmentRoots: attachments?.length ? attachments : undefined,
+	})
+	const attachmentRoots = await resolveAttachmentRoots(resolution, verbose)
+
+	// Stream input files, or the store (updated in place below). Dedup and
+	// linking compare messages across the whole history, so every message is
+	// held; --chat is resolved first and then only its conversation is kept
 	const allMessages: Message[] = []
-	for (const file of inputFiles) {
-		const content = fs.readFileSync(file, 'utf-8')
-		const data = JSON.parse(content)
-		const messages = Array.isArray(data) ? data : data.messages || []
-		allMessages.push(...messages)
-		humanInfo(`✓ Loaded ${messages.length} messages from ${file}`)
+	const inputConversations: Conversation[][] = []
+	const { openEnvelopeStream, writeEnvelope } = await import(
+		'#utils/envelope-stream'
+	)
+	const { openMessageStore, openStoreStream } = await import(
+		'../../store/message-store.js'
+	)
+	const { mergeSources, resolveHandle } = await import(
+		'../../ingest/dedup-merge.js'
+	)
+	const { inferSource } = await import('../../normalize/path-validator.js')
+	const {
+		buildConversations,
+		createConversationCollector,
+		mergeConversations,
+		resolveConversation,
+	} = await import('../../ingest/conversations.js')
+	const messageStore = store ? openMessageStore(store) : null
+	const openInputs = (chatId?: string) => [
+		...inputFiles.map((file) => ({
+			name: file,
+			stream: openEnvelopeStream(file),
+		})),
+		...(store ? [{ name: store, stream: openStoreStream(store, chatId) }] : []),
+	]
+
+	let selected: Conversation | undefined
+	if (chat) {
+		const collector = createConversationCollector()
+		const known: Conversation[][] = []
+		for (const { stream } of openInputs()) {
+			for await (const message of stream.messages) collector.add(message)
+			if (stream.conversations) known.push(stream.conversations)
+		}
+		selected = resolveConversation(
+			collector.build(mergeConversations(...known)),
+			chat,
+		)
+	}
+	const selectedChatId = selected?.id
+
+	// Each message's source comes from its exportMetadata, else the envelope
+	// it was read from; every file (or store source) is merged as its own set
+	const sourceOf = new Map<Message, Omit<MergeSource, 'messages'>>()
+	for (const { name, stream } of openInputs(selectedChatId)) {
+		let loaded = 0
+		for await (const message of stream.messages) {
+			loaded++
+			if (selectedChatId !== undefined && message.chatId !== selectedChatId) {
+				continue
+			}
+			allMessages.push(message)
+			sourceOf.set(message, {
+				name,
+				source: inferSource(
+					message,
+					name === store ? 'merged' : (stream.header?.source ?? 'merged'),
+				),
+			})
+		}
+		if (stream.conversations) inputConversations.push(stream.conversations)
+		humanInfo(`✓ Loaded ${loaded} messages from ${name}`)
+	}
+
+	const knownConversations = mergeConversations(...inputConversations)
+	if (selected) {
+		humanInfo(
+			`✓ Filtered to ${allMessages.length} messages in ${selected.displayName || selected.id}`,
+		)
 	}
 
 	// Import normalize pipeline
-	const { linkRepliesToParents } = await import(
-		'../../ingest/link-replies-and-tapbacks.js'
+	const { collapseTapbacks, linkRepliesToParents, linkTapbacksToParents } =
+		await import('../../ingest/link-replies-and-tapbacks.js')
+	const { formatPathValidationStats, validateAndEnforcePaths } = await import(
+		'../../normalize/path-validator.js'
 	)
-	const { dedupAndMerge } = await import('../../ingest/dedup-merge.js')
 	const { validateNormalizedMessages } = await import(
 		'../../normalize/validate-normalized.js'
 	)
+	const {
+		buildAmbiguousLinksReport,
+		findStaleOverrides,
+		loadLinkOverrides,
+		writeAmbiguousLinksReport,
+	} = await import('../../normalize/link-overrides.js')
+	const { buildMergeReport, writeMergeReport } = await import(
+		'../../normalize/merge-report.js'
+	)
+	const { createMediaHasher } = await import('../../normalize/media-hash.js')
+	const path = await import('node:path')
+	const reportDir = path.dirname(store ?? output)
 
-	if (verbose) {
-		cliLogger.info('Total messages before linking', {
-			count: allMessages.length,
-		})
+	// Step 1: Hash media files, so the same attachment matches across
+	// sources under any name, then deduplicate and merge the source sets, so
+	// links are made between the messages that are kept
+	const sourceSets = new Map<string, MergeSource>()
+	for (const message of allMessages) {
+		const { name, source } = sourceOf.get(message) ?? {
+			name: 'unknown',
+			source: 'db' as const,
+		}
+		const key = `${source}:${name}`
+		const set = sourceSets.get(key) ?? { name, source, messages: [] }
+		set.messages.push(message)
+		sourceSets.set(key, set)
 	}
+	const sources = Array.from(sourceSets.values())
+	const multipleSources = sources.length > 1
 
-	// Step 1: Link replies and tapbacks
-	const linkedResult = linkRepliesToParents(allMessages, {
-		trackAmbiguous: true,
-	})
-	const linkedMessages = Array.isArray(linkedResult)
-		? linkedResult
-		: linkedResult.messages
-
-	if (verbose && !Array.isArray(linkedResult) && linkedResult.ambiguousLinks) {
-		cliLogger.warn('Ambiguous reply/tapback links detected', {
-			count: linkedResult.ambiguousLinks.length,
+	const mediaHasher = createMediaHasher({ attachmentRoots })
+	for (const source of sources) {
+		source.messages = await mediaHasher.hashMessages(source.messages)
+	}
+	const hashStats = mediaHasher.stats
+	if (verbose && hashStats.errors.length > 0) {
+		cliLogger.warn('Media files that could not be hashed', {
+			errors: hashStats.errors,
 		})
 	}
 
-	// Step 2: Deduplicate and merge (if multiple sources)
-	let normalizedMessages: Message[] = linkedMessages
-	if (inputFiles.length > 1) {
-		// Split messages by source for dedup-merge
-		const csvMessages = linkedMessages.filter(
-			(m: Message) => m.exportVersion?.includes('csv') || !m.rowid,
-		)
-		const dbMessages = linkedMessages.filter(
-			(m: Message) => m.rowid !== undefined,
-		)
+	let mergedMessages: Message[] = sources[0]?.messages ?? []
+	let mergeStats: MergeStats | undefined
+	let mergeReportPath: string | undefined
+	if (multipleSources) {
+		// CSV rows may name the sender by contact name; the address book ties
+		// names and handles to one person for the fuzzy matcher
+		const contacts = await loadCommandContacts(resolution)
+		const resolveSender = contacts
+			? (handle: string) => {
+					const [person, ...others] = contacts.find(handle)
+					return person && others.length === 0
+						? person.id
+						: resolveHandle(handle)
+				}
+			: undefined
+		const mergeResult = mergeSources(sources, {
+			...resolution.config.dedup,
+			...(resolveSender && { resolveSender }),
+		})
+		mergedMessages = mergeResult.messages
+		mergeStats = mergeResult.stats
 
-		const mergeResult = dedupAndMerge(csvMessages, dbMessages)
-		normalizedMessages = mergeResult.messages
+		mergeReportPath = mergeReport ?? path.join(reportDir, 'merge-report.json')
+		await writeMergeReport(
+			mergeReportPath,
+			buildMergeReport(sources, mergeResult),
+		)
 
 		if (verbose) {
 			cliLogger.info('Merge statistics', {
+				sources: sources.length,
 				input: mergeResult.stats.csvCount + mergeResult.stats.dbCount,
 				output: mergeResult.stats.outputCount,
 				exactMatches: mergeResult.stats.exactMatches,
 				contentMatches: mergeResult.stats.contentMatches,
+				conflicts: mergeResult.stats.conflicts,
 				noMatches: mergeResult.stats.noMatches,
 			})
 		}
 	}
 
-	// Step 3: Validate normalized messages
-	const validatedMessages = validateNormalizedMessages(normalizedMessages)
+	// Reviewed links are pinned before any heuristic runs
+	const overrides = overridesFile
+		? await loadLinkOverrides(overridesFile)
+		: undefined
+	if (overrides) {
+		humanInfo(`✓ Loaded ${overrides.size} link overrides from ${overridesFile}`)
+		const stale = findStaleOverrides(overrides, mergedMessages)
+		if (stale.length > 0) {
+			humanWarn(
+				`⚠️  ${stale.length} link overrides name messages not in the input and were skipped`,
+			)
+			if (verbose) {
+				cliLogger.warn('Stale link overrides', { messageGuids: stale })
+			}
+		}
+	}
 
-	// Write output envelope
-	const { createExportEnvelope } = await import('../../ingest/ingest-csv.js')
-	const envelope = createExportEnvelope(validatedMessages)
-	envelope.source = 'merged'
+	if (verbose) {
+		cliLogger.info('Total messages before linking', {
+			count: mergedMessages.length,
+		})
+	}
 
-	fs.writeFileSync(output, JSON.stringify(envelope, null, 2), 'utf-8')
+	// Step 2: Link replies and tapbacks
+	const linkedResult = linkRepliesToParents(mergedMessages, {
+		trackAmbiguous: true,
+		...(overrides && { overrides }),
+	})
+	const tapbackResult = linkTapbacksToParents(linkedResult.messages, {
+		trackAmbiguous: true,
+		...(overrides && { overrides }),
+	})
+	const linkedMessages = tapbackResult.messages
+
+	const noLinks = { authoritative: 0, heuristic: 0, overridden: 0 }
+	const linkStats = linkedResult.stats ?? noLinks
+	const tapbackLinkStats = tapbackResult.stats ?? noLinks
+
+	// Ties go to a review file; an overrides file resolves them next run
+	const report = buildAmbiguousLinksReport(
+		[
+			...(linkedResult.ambiguousLinks ?? []),
+			...(tapbackResult.ambiguousLinks ?? []),
+		],
+		linkedMessages,
+	)
+	const reportPath =
+		ambiguousReport ?? path.join(reportDir, 'ambiguous-links.json')
+	await writeAmbiguousLinksReport(reportPath, report)
+	const ambiguousCount = report.count
+
+	if (verbose && ambiguousCount > 0) {
+		cliLogger.warn('Ambiguous reply/tapback links detected', {
+			count: ambiguousCount,
+			report: reportPath,
+		})
+	}
+
+	// Step 3: Collapse add/remove tapback pairs into the final reactions
+	const collapsed = collapseTapbacks(linkedMessages)
+
+	// Step 4: Resolve media paths against the attachment roots
+	const pathResult = validateAndEnforcePaths(collapsed.messages, {
+		attachmentRoots,
+		source: multipleSources ? 'merged' : (sources[0]?.source ?? 'merged'),
+	})
+	if (verbose) {
+		cliLogger.info(formatPathValidationStats(pathResult.stats))
+	}
+
+	// Step 5: Validate normalized messages
+	const validatedMessages = validateNormalizedMessages(pathResult.messages)
+
+	// Write output envelope, or replace the store's messages with the result
+	const conversations = buildConversations(
+		validatedMessages,
+		knownConversations,
+	)
+	if (messageStore) {
+		messageStore.replaceMessages(validatedMessages, conversations, {
+			...(selectedChatId !== undefined && { chatId: selectedChatId }),
+		})
+		messageStore.close()
+	} else {
+		const { createExportEnvelope } = await import('../../ingest/ingest-csv.js')
+		const envelope = createExportEnvelope(validatedMessages, conversations)
+		envelope.source = 'merged'
+
+		await writeEnvelope(output, envelope)
+	}
+	const destination = store ?? output
 
 	humanInfo(
 		`\n✅ Normalized ${validatedMessages.length.toLocaleString()} messages`,
 	)
-	humanInfo(`✓ Wrote to ${output}`)
+	humanInfo(`✓ Wrote to ${destination}`)
 	humanInfo('\n📊 Final Summary:')
 	const nText = validatedMessages.filter(
 		(m: Message) => m.messageKind === 'text',
@@ -134,6 +354,31 @@ export async function executeNormalizeLink(
 	humanInfo(`  Media: ${nMedia}`)
 	humanInfo(`  Tapbacks: ${nTapbacks}`)
 	humanInfo(`  Notifications: ${nNotifs}`)
+	humanInfo(
+		`  Reply links: ${linkStats.authoritative} authoritative, ${linkStats.heuristic} heuristic, ${linkStats.overridden} overridden`,
+	)
+	humanInfo(
+		`  Tapback links: ${tapbackLinkStats.authoritative} authoritative, ${tapbackLinkStats.heuristic} heuristic, ${tapbackLinkStats.overridden} overridden`,
+	)
+	if (ambiguousCount > 0) {
+		humanInfo(
+			`  Ambiguous links: ${ambiguousCount} (review ${reportPath}, pin with --overrides)`,
+		)
+	}
+	if (mergeStats) {
+		humanInfo(
+			`  Merged ${sources.length} sources: ${mergeStats.exactMatches} exact, ${mergeStats.contentMatches} content matches, ${mergeStats.conflicts} conflicts (see ${mergeReportPath})`,
+		)
+	}
+	humanInfo(
+		`  Tapbacks collapsed: ${collapsed.stats.removed} removed, ${collapsed.stats.replaced} replaced, ${collapsed.stats.orphanedRemovals} orphaned removals`,
+	)
+	humanInfo(
+		`  Media paths: ${pathResult.stats.found} found, ${pathResult.stats.missing} missing, ${pathResult.stats.notAbsolute} unresolved`,
+	)
+	humanInfo(
+		`  Media hashes: ${hashStats.hashed} hashed, ${hashStats.unchanged} unchanged, ${hashStats.errors.length} failed`,
+	)
 
 	logEvent('normalize-summary', {
 		command: 'normalize-link',
@@ -144,8 +389,36 @@ export async function executeNormalizeLink(
 			media: nMedia,
 			tapbacks: nTapbacks,
 			notifications: nNotifs,
+			authoritativeLinks: linkStats.authoritative,
+			heuristicLinks: linkStats.heuristic,
+			authoritativeTapbackLinks: tapbackLinkStats.authoritative,
+			heuristicTapbackLinks: tapbackLinkStats.heuristic,
+			overriddenLinks: linkStats.overridden + tapbackLinkStats.overridden,
+			ambiguousLinks: ambiguousCount,
+			tapbacksRemoved: collapsed.stats.removed,
+			tapbacksReplaced: collapsed.stats.replaced,
+			orphanedTapbackRemovals: collapsed.stats.orphanedRemovals,
+			mediaFound: pathResult.stats.found,
+			mediaMissing: pathResult.stats.missing,
+			mediaNotAbsolute: pathResult.stats.notAbsolute,
+			mediaHashed: hashStats.hashed,
+			mediaHashUnchanged: hashStats.unchanged,
+			mediaHashErrors: hashStats.errors.length,
+			sources: sources.length,
+			...(mergeStats && {
+				exactMatches: mergeStats.exactMatches,
+				contentMatches: mergeStats.contentMatches,
+				mergeConflicts: mergeStats.conflicts,
+			}),
+		},
+		options: {
+			output: destination,
+			chat,
+			attachmentRoots,
+			overrides: overridesFile,
+			ambiguousReport: reportPath,
+			mergeReport: mergeReportPath,
 		},
-		options: { output },
 		exitCode: 0,
 	})
 }
@@ -160,15 +433,36 @@ export function registerNormalizeLinkCommand(
 	program
 		.command('normalize-link')
 		.description('Deduplicate and link messages from multiple sources')
-		.requiredOption(
-			'-i, --input <files...>',
-			'input JSON files (CSV, DB, or both)',
+		.option('-i, --input <files...>', 'input JSON files (CSV, DB, or both)')
+		.option(
+			'--store <path.sqlite>',
+			'normalize the messages in a message store in place',
 		)
 		.option(
 			'-o, --output <path>',
 			'output JSON file path',
 			'./messages.normalized.json',
 		)
+		.option(
+			'--chat <id|name>',
+			'only include one conversation (chat GUID, identifier or display name)',
+		)
+		.option(
+			'-a, --attachments <dir...>',
+			'attachment root directories for resolving media paths',
+		)
+		.option(
+			'--overrides <file>',
+			'JSON file pinning reply/tapback parents (message GUID → parent GUID or null)',
+		)
+		.option(
+			'--ambiguous-report <path>',
+			'where to write the ambiguous-links review file (default: next to the output)',
+		)
+		.option(
+			'--merge-report <path>',
+			'where to write the merge report when merging several sources (default: next to the output)',
+		)
 		.action(async (options: NormalizeLinkOptions) => {
 			try {
 				await executeNormalizeLink(options, getGlobalOptions())
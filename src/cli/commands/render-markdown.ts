@@ -7,9 +7,17 @@
 
 import type { Command } from 'commander'
 import { humanError, humanInfo, humanWarn } from '#utils/human'
-import type { Message } from '../../schema/message.js'
+import type { RenderOptions } from '../../render/index.js'
+import type { Conversation, Message } from '../../schema/message.js'
 import type { GlobalOptions, RenderMarkdownOptions } from '../types.js'
-import { applyLogLevel, cliLogger, logEvent } from '../utils.js'
+import {
+	applyLogLevel,
+	cliLogger,
+	loadCommandConfig,
+	loadCommandSenders,
+	logEvent,
+	resolveInputSource,
+} from '../utils.js'
 
 /**
  * Execute the render-markdown command logic
@@ -20,12 +28,16 @@ export async function executeRenderMarkdown(
 ): Promise<void> {
 	const {
 		input,
+		store,
 		output,
 		startDate,
 		endDate,
 		groupByTime,
 		nestedReplies,
 		maxNestingDepth,
+		timezone,
+		chat,
+		contacts,
 	} = options
 	const { verbose, quiet } = globalOptions
 
@@ -36,107 +48,167 @@ export async function executeRenderMarkdown(
 		phase: 'start',
 		options: {
 			input,
+			store,
 			output,
 			startDate,
 			endDate,
 			groupByTime,
 			nestedReplies,
 			maxNestingDepth,
+			timezone,
+			chat,
 		},
 	})
 
+	const source = await resolveInputSource(input, store)
+
 	// CLI-T04-AC01: Date filtering validation
 	const fs = await import('node:fs')
-	if (!fs.existsSync(input)) {
-		humanError(`❌ Input file not found: ${input}`)
-		process.exit(1)
-	}
 
-	let startDateObj: Date | null = null
-	let endDateObj: Date | null = null
-
-	if (startDate) {
-		const start = new Date(startDate)
-		if (Number.isNaN(start.getTime())) {
-			humanError(`❌ Invalid start date: ${startDate} (use YYYY-MM-DD format)`)
-			process.exit(1)
-		}
-		startDateObj = start
+	if (startDate && Number.isNaN(new Date(startDate).getTime())) {
+		humanError(`❌ Invalid start date: ${startDate} (use YYYY-MM-DD format)`)
+		process.exit(1)
 	}
-
-	if (endDate) {
-		const end = new Date(endDate)
-		if (Number.isNaN(end.getTime())) {
-			humanError(`❌ Invalid end date: ${endDate} (use YYYY-MM-DD format)`)
-			process.exit(1)
-		}
-		// Set to end of day
-		end.setHours(23, 59, 59, 999)
-		endDateObj = end
+	if (endDate && Number.isNaN(new Date(endDate).getTime())) {
+		humanError(`❌ Invalid end date: ${endDate} (use YYYY-MM-DD format)`)
+		process.exit(1)
 	}
 
 	// CLI-T04-AC03: Validate max nesting depth
-	const maxNestingDepthNum = Number.parseInt(maxNestingDepth as string, 10)
-	if (Number.isNaN(maxNestingDepthNum) || maxNestingDepthNum < 1) {
+	const maxNestingDepthNum =
+		maxNestingDepth === undefined
+			? undefined
+			: Number.parseInt(maxNestingDepth, 10)
+	if (
+		maxNestingDepthNum !== undefined &&
+		(Number.isNaN(maxNestingDepthNum) || maxNestingDepthNum < 1)
+	) {
 		humanError('❌ --max-nesting-depth must be a positive number')
 		process.exit(1)
 	}
 
+	// Flags override the config `render` section
+	const resolution = await loadCommandConfig(globalOptions, {
+		render: {
+			groupByTimeOfDay: groupByTime,
+			renderRepliesAsNested: nestedReplies,
+			maxNestingDepth: maxNestingDepthNum,
+			timezone,
+		},
+	})
+	const { extractDate, getSystemTimeZone } = await import(
+		'../../render/grouping.js'
+	)
+	// Days, headers and timestamps are read in one timezone, so the same
+	// archive renders identically on any machine given the same setting
+	const renderConfig = {
+		...resolution.config.render,
+		timezone: resolution.config.render.timezone ?? getSystemTimeZone(),
+	}
+
 	if (verbose) {
-		humanInfo(`📄 Input: ${input}`)
+		humanInfo(`📄 Input: ${source.path}`)
 		humanInfo(`📁 Output directory: ${output}`)
-		if (startDateObj) {
+		if (startDate) {
 			humanInfo(`📅 Start date: ${startDate}`)
 		}
-		if (endDateObj) {
+		if (endDate) {
 			humanInfo(`📅 End date: ${endDate}`)
 		}
-		humanInfo(`⏱️  Group by time: ${groupByTime}`)
-		humanInfo(`⬅️  Nested replies: ${nestedReplies}`)
-		humanInfo(`📊 Max nesting depth: ${maxNestingDepthNum}`)
+		humanInfo(`🕐 Timezone: ${renderConfig.timezone}`)
+		humanInfo(`⏱️  Group by time: ${renderConfig.groupByTimeOfDay}`)
+		humanInfo(`⬅️  Nested replies: ${renderConfig.renderRepliesAsNested}`)
+		humanInfo(`📊 Max nesting depth: ${renderConfig.maxNestingDepth}`)
 	}
 
 	// Load input messages
-	const content = fs.readFileSync(input, 'utf-8')
-	const data = JSON.parse(content)
-	let messages: Message[] = Array.isArray(data) ? data : data.messages || []
+	// Streamed from disk; rendering itself needs every message for reply
+	// threads, so the parsed messages in the date range are held, never the
+	// file text. The range is applied on the days messages render under.
+	const { openEnvelopeStream } = await import('#utils/envelope-stream')
+	const { openStoreStream } = await import('../../store/message-store.js')
+	const stream = source.isStore
+		? openStoreStream(source.path)
+		: openEnvelopeStream(source.path)
+	const inRange = (message: Message) => {
+		if (!startDate && !endDate) return true
+		const day = extractDate(message.date, renderConfig.timezone)
+		if (startDate && day < startDate) return false
+		if (endDate && day > endDate) return false
+		return true
+	}
+	const {
+		createConversationCollector,
+		filterByConversation,
+		partitionByConversation,
+	} = await import('../../ingest/conversations.js')
+	// Every conversation stays selectable by --chat, in range or not
+	const seenConversations = createConversationCollector()
+	let messages: Message[] = []
+	let loaded = 0
+	for await (const message of stream.messages) {
+		loaded++
+		seenConversations.add(message)
+		if (inRange(message)) messages.push(message)
+	}
+	const knownConversations: Conversation[] | undefined = stream.conversations
 
 	if (verbose) {
-		humanInfo(`✓ Loaded ${messages.length.toLocaleString()} messages`)
+		humanInfo(`✓ Loaded ${loaded.toLocaleString()} messages`)
 	}
-
-	// Filter by date range if specified
-	if (startDateObj || endDateObj) {
-		const filtered = messages.filter((msg) => {
-			const msgDate = new Date(msg.date)
-			if (startDateObj && msgDate < startDateObj) return false
-			if (endDateObj && msgDate > endDateObj) return false
-			return true
-		})
+	if (startDate || endDate) {
 		humanInfo(
-			`📊 Filtered to ${filtered.length.toLocaleString()} messages in date range`,
+			`📊 Filtered to ${messages.length.toLocaleString()} messages in date range`,
 		)
 		logEvent('render-filtered', {
 			command: 'render-markdown',
 			phase: 'progress',
-			metrics: { filtered: filtered.length, original: messages.length },
-			options: {
-				startDate: startDateObj ? startDateObj.toISOString() : undefined,
-				endDate: endDateObj ? endDateObj.toISOString() : undefined,
-			},
+			metrics: { filtered: messages.length, original: loaded },
+			options: { startDate, endDate, timezone: renderConfig.timezone },
 		})
-		messages = filtered
+	}
+
+	if (chat) {
+		const selected = filterByConversation(
+			messages,
+			seenConversations.build(knownConversations),
+			chat,
+		)
+		messages = selected.messages
+		humanInfo(
+			`📊 Filtered to ${messages.length.toLocaleString()} messages in ${selected.conversation.displayName || selected.conversation.id}`,
+		)
 	}
 
 	// Import render functions
 	const { renderMessages } = await import('../../render/index.js')
 
-	// Render messages to markdown
-	const rendered = renderMessages(messages)
+	// Show "Me" (or the configured self name) for the owner's messages and
+	// contact names instead of raw handles when an address book is set
+	const { identifySender } = await loadCommandSenders(
+		resolution,
+		messages,
+		contacts,
+	)
+	const renderOptions: RenderOptions = {
+		resolveSender: (message) => identifySender(message).label,
+		...renderConfig,
+	}
 
-	if (rendered.size === 0) {
+	// Whole-device exports get one folder per conversation; a single
+	// conversation keeps the flat layout
+	const partitions = partitionByConversation(messages, knownConversations)
+	const perConversation = partitions.length > 1
+	const renderedPartitions = partitions
+		.map((partition) => ({
+			folder: partition.folder,
+			rendered: renderMessages(partition.messages, renderOptions),
+		}))
+		.filter((partition) => partition.rendered.size > 0)
+
+	if (renderedPartitions.length === 0) {
 		humanWarn('⚠️  No messages to render')
-		process.exit(0)
+		return
 	}
 
 	// CLI-T04-AC04: Create output directory if doesn't exist
@@ -152,26 +224,34 @@ export async function executeRenderMarkdown(
 
 	// Write markdown files
 	let filesWritten = 0
-	const dates = Array.from(rendered.keys()).sort()
+	for (const { folder, rendered } of renderedPartitions) {
+		const targetDir = perConversation ? path.join(outputDir, folder) : outputDir
+		if (!fs.existsSync(targetDir)) {
+			fs.mkdirSync(targetDir, { recursive: true })
+		}
 
-	for (const date of dates) {
-		const markdown = rendered.get(date)
-		if (!markdown) continue
+		const dates = Array.from(rendered.keys()).sort()
+		for (const date of dates) {
+			const markdown = rendered.get(date)
+			if (!markdown) continue
 
-		const filename = `${date}.md`
-		const filepath = path.join(outputDir, filename)
+			const filename = perConversation
+				? path.join(folder, `${date}.md`)
+				: `${date}.md`
+			const filepath = path.join(outputDir, filename)
 
-		fs.writeFileSync(filepath, markdown, 'utf-8')
-		filesWritten++
+			fs.writeFileSync(filepath, markdown, 'utf-8')
+			filesWritten++
 
-		if (verbose) {
-			humanInfo(`✓ Wrote ${filename}`)
-			logEvent('render-file-written', {
-				command: 'render-markdown',
-				phase: 'progress',
-				metrics: { filesWritten },
-				context: { filename, filepath },
-			})
+			if (verbose) {
+				humanInfo(`✓ Wrote ${filename}`)
+				logEvent('render-file-written', {
+					command: 'render-markdown',
+					phase: 'progress',
+					metrics: { filesWritten },
+					context: { filename, filepath },
+				})
+			}
 		}
 	}
 
@@ -180,6 +260,9 @@ export async function executeRenderMarkdown(
 	humanInfo(
 		`✓ Wrote ${filesWritten.toLocaleString()} markdown file${filesWritten === 1 ? '' : 's'} to ${outputDir}`,
 	)
+	if (perConversation) {
+		humanInfo(`✓ Split into ${renderedPartitions.length} conversation folders`)
+	}
 
 	// Message summary
 	const textMessages = messages.filter((m) => m.messageKind === 'text').length
@@ -197,6 +280,7 @@ export async function executeRenderMarkdown(
 		phase: 'summary',
 		metrics: {
 			filesWritten,
+			conversations: renderedPartitions.length,
 			totalMessages: messages.length,
 			textMessages,
 			mediaMessages,
@@ -207,6 +291,7 @@ export async function executeRenderMarkdown(
 			groupByTime,
 			nestedReplies,
 			maxNestingDepth: maxNestingDepthNum,
+			timezone: renderConfig.timezone,
 		},
 		exitCode: 0,
 	})
@@ -222,7 +307,8 @@ export function registerRenderMarkdownCommand(
 	program
 		.command('render-markdown')
 		.description('Generate Obsidian-compatible markdown timeline files')
-		.requiredOption('-i, --input <path>', 'input enriched JSON file')
+		.option('-i, --input <path>', 'input enriched JSON file')
+		.option('--store <path.sqlite>', 'read messages from a message store')
 		.option(
 			'-o, --output <dir>',
 			'output directory for markdown files',
@@ -235,14 +321,29 @@ export function registerRenderMarkdownCommand(
 		.option('--end-date <date>', 'render messages until this date (YYYY-MM-DD)')
 		.option(
 			'--group-by-time',
-			'group messages by time-of-day (Morning/Afternoon/Evening)',
-			true,
+			'group messages by time-of-day (Morning/Afternoon/Evening; default: render.groupByTimeOfDay)',
 		)
-		.option('--nested-replies', 'render replies as nested blockquotes', true)
+		.option('--no-group-by-time', 'list each day without time-of-day sections')
+		.option(
+			'--nested-replies',
+			'render replies as nested blockquotes (default: render.renderRepliesAsNested)',
+		)
+		.option('--no-nested-replies', 'do not repeat replies under their parent')
 		.option(
 			'--max-nesting-depth <n>',
-			'maximum nesting depth for replies (default 10)',
-			'10',
+			'maximum nesting depth for replies (default: render.maxNestingDepth)',
+		)
+		.option(
+			'--timezone <zone>',
+			'IANA timezone for days and times, e.g. Australia/Melbourne (default: render.timezone, else the system zone)',
+		)
+		.option(
+			'--chat <id|name>',
+			'only include one conversation (chat GUID, identifier or display name)',
+		)
+		.option(
+			'--contacts <files...>',
+			'address books (.vcf, .yaml, .csv) used to resolve handles to names',
 		)
 		.action(async (options: RenderMarkdownOptions) => {
 			try {
@@ -0,0 +1,493 @@
+/**
+ * Run Command
+ *
+ * Runs the whole pipeline described by the `pipeline` config section:
+ * ingest every source, normalize, enrich and render, with the intermediate
+ * files kept in the pipeline output directory. Steps whose inputs, options
+ * and output haven't changed since they last completed are skipped, and an
+ * interrupted enrich step resumes from its checkpoint.
+ */
+
+import type { Command } from 'commander'
+import { humanError, humanInfo } from '#utils/human'
+import type {
+	PipelineConfig,
+	PipelinePaths,
+	PipelineStep,
+} from '../../pipeline/pipeline-plan.js'
+import type { PipelineStats } from '../../progress/pipeline-progress.js'
+import type { MediaEnrichment, Message } from '../../schema/message.js'
+import type { GlobalOptions, RunOptions } from '../types.js'
+import {
+	applyLogLevel,
+	loadCommandConfig,
+	logEvent,
+	resolveConfigPath,
+} from '../utils.js'
+
+/** Enrichment kinds counted under each summary heading */
+const ENRICHMENT_METRICS: Partial<
+	Record<MediaEnrichment['kind'], 'images' | 'audio' | 'pdfs' | 'links'>
+> = {
+	image: 'images',
+	image_analysis: 'images',
+	audio: 'audio',
+	transcription: 'audio',
+	pdf: 'pdfs',
+	pdf_summary: 'pdfs',
+	link: 'links',
+	link_context: 'links',
+}
+
+/**
+ * Count what a step produced, for the summary
+ */
+async function measureOutput(
+	step: PipelineStep,
+): Promise<Record<string, number>> {
+	const fs = await import('node:fs')
+
+	if (step.stage === 'render') {
+		if (!fs.existsSync(step.output)) return { days: 0 }
+		const files = await fs.promises.readdir(step.output, { recursive: true })
+		return { days: files.filter((file) => file.endsWith('.md')).length }
+	}
+
+	const { openEnvelopeStream } = await import('#utils/envelope-stream')
+	const metrics = { messages: 0, images: 0, audio: 0, pdfs: 0, links: 0 }
+	for await (const message of openEnvelopeStream(step.output).messages) {
+		metrics.messages++
+		if (step.stage !== 'enrich') continue
+		const enrichments = [
+			...(message.media?.enrichment ?? []),
+			...((message as Message & { linkEnrichments?: MediaEnrichment[] })
+				.linkEnrichments ?? []),
+		]
+		for (const enrichment of enrichments) {
+			const key = ENRICHMENT_METRICS[enrichment.kind]
+			if (key) metrics[key]++
+		}
+	}
+	return step.stage === 'enrich' ? metrics : { messages: metrics.messages }
+}
+
+/**
+ * Run one step through the command that implements its stage
+ */
+async function executeStep(
+	step: PipelineStep,
+	pipeline: PipelineConfig,
+	paths: PipelinePaths,
+	resume: boolean,
+	globalOptions: GlobalOptions,
+): Promise<void> {
+	const fs = await import('node:fs')
+	const path = await import('node:path')
+	await fs.promises.mkdir(path.dirname(step.output), { recursive: true })
+
+	const [input = ''] = step.inputs
+	const { ingest, normalize, enrich, render } = pipeline.options
+
+	switch (step.stage) {
+		case 'ingest': {
+			if (step.options.type === 'db') {
+				const { executeIngestDB } = await import('./ingest-db.js')
+				await executeIngestDB(
+					{
+						input,
+						output: step.output,
+						...(ingest.contact && { contact: ingest.contact }),
+						...(ingest.chat && { chat: ingest.chat }),
+					},
+					globalOptions,
+				)
+			} else {
+				const { executeIngestCSV } = await import('./ingest-csv.js')
+				await executeIngestCSV(
+					{
+						input,
+						output: step.output,
+						...(ingest.chat && { chat: ingest.chat }),
+					},
+					globalOptions,
+				)
+			}
+			return
+		}
+		case 'normalize': {
+			const { executeNormalizeLink } = await import('./normalize-link.js')
+			await executeNormalizeLink(
+				{
+					input: step.inputs,
+					output: step.output,
+					...(normalize.chat && { chat: normalize.chat }),
+					...(normalize.overrides && { overrides: normalize.overrides }),
+				},
+				globalOptions,
+			)
+			return
+		}
+		case 'enrich': {
+			const { executeEnrichAI } = await import('./enrich-ai.js')
+			await executeEnrichAI(
+				{
+					input,
+					output: step.output,
+					checkpointDir: paths.checkpointDir,
+					stateFile: paths.incrementalState,
+					incremental: enrich.incremental,
+					resume,
+				},
+				globalOptions,
+			)
+			return
+		}
+		case 'render': {
+			const { executeRenderMarkdown } = await import('./render-markdown.js')
+			await executeRenderMarkdown(
+				{
+					input,
+					output: step.output,
+					...(render.startDate && { startDate: render.startDate }),
+					...(render.endDate && { endDate: render.endDate }),
+					...(render.chat && { chat: render.chat }),
+				},
+				globalOptions,
+			)
+			return
+		}
+	}
+}
+
+/**
+ * Add a step's metrics to the pipeline totals
+ */
+function addMetrics(
+	stats: Partial<PipelineStats>,
+	step: PipelineStep,
+	metrics: Record<string, number>,
+): void {
+	const messages = metrics.messages ?? 0
+	switch (step.stage) {
+		case 'ingest':
+			stats.ingestedMessages = (stats.ingestedMessages ?? 0) + messages
+			stats.totalMessages = stats.ingestedMessages
+			break
+		case 'normalize':
+			stats.normalizedMessages = messages
+			stats.totalMessages = messages
+			break
+		case 'enrich':
+			stats.enrichedImages = metrics.images ?? 0
+			stats.enrichedAudio = metrics.audio ?? 0
+			stats.enrichedPDFs = metrics.pdfs ?? 0
+			stats.enrichedLinks = metrics.links ?? 0
+			stats.totalMessages = messages
+			break
+		case 'render':
+			stats.renderedDays = metrics.days ?? 0
+			break
+	}
+}
+
+/**
+ * Execute the run command logic
+ */
+export async function executeRun(
+	options: RunOptions,
+	globalOptions: GlobalOptions,
+): Promise<void> {
+	const { force = false, dryRun = false, chat } = options
+	const { verbose, quiet } = globalOptions
+
+	applyLogLevel(verbose, quiet)
+
+	logEvent('run-start', {
+		command: 'run',
+		phase: 'start',
+		options: { force, dryRun, chat },
+	})
+
+	const resolution = await loadCommandConfig(globalOptions)
+	const { config } = resolution
+	if (!config.pipeline) {
+		humanError('❌ No pipeline configured')
+		humanError(
+			'Add a `pipeline` section with at least one source to the config file',
+		)
+		process.exit(1)
+	}
+
+	// Paths in the pipeline section follow the usual config path rules
+	const pipeline: PipelineConfig = {
+		...config.pipeline,
+		outputDir: await resolveConfigPath(
+			resolution,
+			'pipeline.outputDir',
+			config.pipeline.outputDir,
+		),
+		sources: await Promise.all(
+			config.pipeline.sources.map(async (source) => ({
+				...source,
+				path: await resolveConfigPath(
+					resolution,
+					'pipeline.sources',
+					source.path,
+				),
+			})),
+		),
+	}
+	const { overrides } = config.pipeline.options.normalize
+	if (overrides) {
+		pipeline.options = {
+			...pipeline.options,
+			normalize: {
+				...pipeline.options.normalize,
+				overrides: await resolveConfigPath(
+					resolution,
+					'pipeline.options.normalize.overrides',
+					overrides,
+				),
+			},
+		}
+	}
+	// --chat narrows the merged messages and the timeline, so every source is
+	// still ingested whole
+	if (chat) {
+		pipeline.options = {
+			...pipeline.options,
+			normalize: { ...pipeline.options.normalize, chat },
+			render: { ...pipeline.options.render, chat },
+		}
+	}
+	const contactFiles = await Promise.all(
+		(config.contacts?.sources ?? []).map((source) =>
+			resolveConfigPath(resolution, 'contacts.sources', source),
+		),
+	)
+
+	const { buildPipelinePlan, getPipelinePaths } = await import(
+		'../../pipeline/pipeline-plan.js'
+	)
+	const {
+		checkStep,
+		hashPath,
+		hashStep,
+		loadPipelineState,
+		savePipelineState,
+	} = await import('../../pipeline/pipeline-state.js')
+	const { getSystemTimeZone } = await import('../../render/grouping.js')
+
+	// Config that changes a stage's result re-runs it when edited; API keys
+	// are left out so rotating one doesn't
+	const steps = buildPipelinePlan(pipeline, {
+		ingest: { options: { attachmentRoots: config.attachmentRoots } },
+		normalize: {
+			options: {
+				attachmentRoots: config.attachmentRoots,
+				dedup: config.dedup,
+			},
+			files: [
+				...contactFiles,
+				...(pipeline.options.normalize.overrides
+					? [pipeline.options.normalize.overrides]
+					: []),
+			],
+		},
+		enrich: {
+			options: {
+				model: config.gemini.model,
+				enrichment: config.enrichment,
+				firecrawlEnabled: config.firecrawl?.enabled ?? false,
+			},
+		},
+		render: {
+			options: {
+				// An unset timezone follows the machine, so moving zones re-renders
+				render: {
+					...config.render,
+					timezone: config.render.timezone ?? getSystemTimeZone(),
+				},
+				self: config.self,
+			},
+			files: contactFiles,
+		},
+	})
+	const paths = getPipelinePaths(pipeline.outputDir)
+	const state = await loadPipelineState(paths.state)
+
+	humanInfo(
+		`🚀 ${dryRun ? 'Planning' : 'Running'} pipeline: ${steps.map((step) => step.id).join(' → ')}`,
+	)
+	humanInfo(`   Output: ${pipeline.outputDir}`)
+
+	if (dryRun) {
+		// Steps after one that runs may see new inputs, which can't be known
+		// until it has run
+		const pending = new Map<string, string>()
+		for (const step of steps) {
+			const upstream = step.inputs.find((input) => pending.has(input))
+			if (upstream) {
+				humanInfo(`  run   ${step.id} (after ${pending.get(upstream)})`)
+				pending.set(step.output, step.id)
+				continue
+			}
+			const decision = await checkStep(
+				step,
+				state.steps[step.id],
+				await hashStep(step),
+				force,
+			)
+			humanInfo(
+				`  ${decision.run ? 'run ' : 'skip'}  ${step.id} (${decision.reason}${decision.resume ? ', resuming' : ''})`,
+			)
+			if (decision.run) pending.set(step.output, step.id)
+		}
+		logEvent('run-summary', {
+			command: 'run',
+			phase: 'summary',
+			options: { force, dryRun },
+			metrics: { steps: steps.length },
+			exitCode: 0,
+		})
+		return
+	}
+
+	const { PipelineProgressTracker } = await import(
+		'../../progress/pipeline-progress.js'
+	)
+	const tracker = new PipelineProgressTracker({ quiet })
+	const stats: Partial<PipelineStats> = {}
+	let ran = 0
+	let skipped = 0
+
+	try {
+		for (const step of steps) {
+			const record = state.steps[step.id]
+			const hash = await hashStep(step)
+			const decision = await checkStep(step, record, hash, force)
+
+			if (!decision.run && record) {
+				humanInfo(`\n⏭️  ${step.id}: unchanged, skipping`)
+				tracker.recordStage({
+					name: step.id,
+					status: 'skipped',
+					reason: decision.reason,
+				})
+				addMetrics(stats, step, record.metrics ?? {})
+				skipped++
+				continue
+			}
+
+			const fs = await import('node:fs')
+			const missing = step.inputs.find((input) => !fs.existsSync(input))
+			if (missing) {
+				throw new Error(
+					`Input for ${step.id} not found: ${missing} (add the stage that produces it to pipeline.stages)`,
+				)
+			}
+
+			humanInfo(
+				`\n▶️  ${step.id} (${decision.reason}${decision.resume ? ', resuming' : ''})`,
+			)
+			const startedAt = new Date().toISOString()
+			const started = Date.now()
+			state.steps[step.id] = { status: 'started', hash, startedAt }
+			await savePipelineState(paths.state, state)
+
+			try {
+				await executeStep(step, pipeline, paths, decision.resume, globalOptions)
+			} catch (error) {
+				tracker.recordStage({
+					name: step.id,
+					status: 'failed',
+					reason: error instanceof Error ? error.message : String(error),
+					durationMs: Date.now() - started,
+				})
+				throw error
+			}
+
+			const metrics = await measureOutput(step)
+			const outputHash = await hashPath(step.output)
+			state.steps[step.id] = {
+				status: 'completed',
+				hash,
+				...(outputHash && { outputHash }),
+				metrics,
+				startedAt,
+				completedAt: new Date().toISOString(),
+			}
+			await savePipelineState(paths.state, state)
+
+			tracker.recordStage({
+				name: step.id,
+				status: 'ran',
+				reason: decision.reason,
+				durationMs: Date.now() - started,
+			})
+			addMetrics(stats, step, metrics)
+			ran++
+		}
+	} finally {
+		tracker.updateStats(stats)
+		tracker.stop()
+		tracker.showFinalSummary()
+	}
+
+	logEvent('run-summary', {
+		command: 'run',
+		phase: 'summary',
+		options: { force, dryRun },
+		metrics: { ran, skipped, ...tracker.getStats() },
+		context: { outputDir: pipeline.outputDir, statePath: paths.state },
+		exitCode: 0,
+	})
+}
+
+/**
+ * Register the run command with Commander
+ */
+export function registerRunCommand(
+	program: Command,
+	getGlobalOptions: () => GlobalOptions,
+): void {
+	program
+		.command('run')
+		.description(
+			'Run the pipeline from the config file, skipping unchanged stages',
+		)
+		.option('--force', 'run every stage even if its inputs are unchanged')
+		.option('--dry-run', 'show which stages would run without running them')
+		.option(
+			'--chat <id|name>',
+			'only include one conversation (chat GUID, identifier or display name)',
+		)
+		.action(async (options: RunOptions) => {
+			try {
+				await executeRun(options, getGlobalOptions())
+				process.exit(0)
+			} catch (error) {
+				humanError(
+					'❌ Failed to run pipeline:',
+					error instanceof Error ? error.message : String(error),
+				)
+				if (getGlobalOptions().verbose && error instanceof Error) {
+					humanError(error.stack)
+				}
+				logEvent('run-error', {
+					command: 'run',
+					phase: 'error',
+					error: {
+						type: error instanceof Error ? error.name : 'Unknown',
+						message: error instanceof Error ? error.message : String(error),
+						...(error instanceof Error && error.stack
+							? { stack: error.stack }
+							: {}),
+					},
+					options: { force: options.force, dryRun: options.dryRun },
+					exitCode: 2,
+				})
+				process.exit(2)
+			}
+		})
+}
@@ -0,0 +1,321 @@
+/**
+ * Search Command
+ *
+ * Full-text search over message text and enrichment fields (image
+ * descriptions, transcriptions, PDF summaries, link titles and summaries).
+ * Builds a local SQLite FTS5 index next to the source on first use and
+ * rebuilds it when the source changes.
+ */
+
+import type { Command } from 'commander'
+import { humanError, humanInfo, humanWarn } from '#utils/human'
+import type { Message } from '../../schema/message.js'
+import type { SearchField, SearchFilters } from '../../search/search-index.js'
+import type { GlobalOptions, SearchOptions } from '../types.js'
+import {
+	applyLogLevel,
+	loadCommandConfig,
+	loadCommandContacts,
+	loadCommandSenders,
+	logEvent,
+	resolveInputSource,
+} from '../utils.js'
+
+const MESSAGE_KINDS: Message['messageKind'][] = [
+	'text',
+	'media',
+	'tapback',
+	'notification',
+]
+
+const FIELD_LABELS: Record<SearchField, string> = {
+	text: 'text',
+	visionSummary: 'image description',
+	transcription: 'transcription',
+	pdfSummary: 'PDF summary',
+	linkTitle: 'link title',
+	linkSummary: 'link summary',
+}
+
+/**
+ * Execute the search command logic
+ */
+export async function executeSearch(
+	query: string,
+	options: SearchOptions,
+	globalOptions: GlobalOptions,
+): Promise<void> {
+	const {
+		input,
+		store,
+		rebuild,
+		from,
+		startDate,
+		endDate,
+		kind,
+		chat,
+		limit = '20',
+		contacts,
+	} = options
+	const { verbose, quiet } = globalOptions
+
+	applyLogLevel(verbose, quiet)
+
+	logEvent('search-start', {
+		command: 'search',
+		phase: 'start',
+		options: { query, input, store, from, startDate, endDate, kind, chat },
+	})
+
+	const source = await resolveInputSource(input, store)
+
+	for (const [label, value] of [
+		['start', startDate],
+		['end', endDate],
+	] as const) {
+		if (
+			value &&
+			(!/^\d{4}-\d{2}-\d{2}$/.test(value) ||
+				Number.isNaN(new Date(value).getTime()))
+		) {
+			humanError(`❌ Invalid ${label} date: ${value} (use YYYY-MM-DD format)`)
+			process.exit(1)
+		}
+	}
+
+	const invalidKinds = (kind ?? []).filter(
+		(k) => !MESSAGE_KINDS.includes(k as Message['messageKind']),
+	)
+	if (invalidKinds.length > 0) {
+		humanError(
+			`❌ Invalid message kind: ${invalidKinds.join(', ')} (use ${MESSAGE_KINDS.join(', ')})`,
+		)
+		process.exit(1)
+	}
+
+	const limitNum = Number.parseInt(limit, 10)
+	if (Number.isNaN(limitNum) || limitNum < 1) {
+		humanError(`❌ Invalid limit: ${limit} (must be at least 1)`)
+		process.exit(1)
+	}
+
+	const { getSourceFingerprint, openSearchIndex, toFtsQuery } = await import(
+		'../../search/search-index.js'
+	)
+	try {
+		toFtsQuery(query)
+	} catch (error) {
+		humanError(`❌ ${error instanceof Error ? error.message : String(error)}`)
+		process.exit(1)
+	}
+
+	const {
+		assignConversationFolders,
+		createConversationCollector,
+		getConversationLabel,
+		resolveConversation,
+		UNASSIGNED_CONVERSATION_FOLDER,
+	} = await import('../../ingest/conversations.js')
+
+	// Days follow render-markdown's timezone so links land on the right page
+	const resolution = await loadCommandConfig(globalOptions)
+	const { getSystemTimeZone, getZonedParts } = await import(
+		'../../render/grouping.js'
+	)
+	const timeZone = resolution.config.render.timezone ?? getSystemTimeZone()
+
+	const indexPath = options.index ?? `${source.path}.search.sqlite`
+	const index = openSearchIndex(indexPath)
+	try {
+		// The index is rebuilt whenever the source file or the timezone has
+		// changed since it was built, so results never lag behind the archive
+		const fingerprint = `${await getSourceFingerprint(source.path)}:${timeZone}`
+		if (rebuild || !index.isCurrent(fingerprint)) {
+			const { openEnvelopeStream } = await import('#utils/envelope-stream')
+			const { openStoreStream } = await import('../../store/message-store.js')
+			const stream = source.isStore
+				? openStoreStream(source.path)
+				: openEnvelopeStream(source.path)
+			const collector = createConversationCollector()
+			async function* collect() {
+				for await (const message of stream.messages) {
+					collector.add(message)
+					yield message
+				}
+			}
+			const { indexed, total } = await index.rebuild(
+				collect(),
+				() => collector.build(stream.conversations),
+				fingerprint,
+				timeZone,
+			)
+			humanInfo(
+				`✓ Indexed ${indexed.toLocaleString()} of ${total.toLocaleString()} messages → ${indexPath}`,
+			)
+		}
+
+		const conversations = index.getConversations()
+		const filters: SearchFilters = {
+			limit: limitNum,
+			...(startDate && { startDate }),
+			...(endDate && { endDate }),
+			...(kind &&
+				kind.length > 0 && { kinds: kind as Message['messageKind'][] }),
+		}
+
+		if (chat) {
+			const selected = resolveConversation(conversations, chat)
+			filters.chatId = selected.id
+		}
+
+		const { self, identifySender } = await loadCommandSenders(
+			resolution,
+			index
+				.getCallerIds()
+				.map((destinationCallerId) => ({ destinationCallerId })),
+			contacts,
+		)
+		if (from) {
+			const { createContactFilter } = await import('../../contacts/index.js')
+			const matchesHandle = createContactFilter(
+				await loadCommandContacts(resolution, contacts),
+				from,
+			)
+			const needle = from.trim().toLowerCase()
+			const isSelfQuery =
+				needle === 'me' ||
+				needle === self.name.toLowerCase() ||
+				self.handles.includes(from.trim())
+			// Outgoing messages carry the other party's handle, so they only
+			// match a query for the owner
+			filters.matchesSender = (message) =>
+				identifySender(message).isSelf
+					? isSelfQuery
+					: !isSelfQuery && matchesHandle(message.handle)
+		}
+
+		const hits = index.search(query, filters)
+
+		// Links follow the render-markdown layout of the whole archive: one
+		// folder per conversation when there is more than one
+		const folders = assignConversationFolders(conversations)
+		const perConversation =
+			conversations.length + (index.hasUnassigned() ? 1 : 0) > 1
+		const labels = new Map(
+			conversations.map((c) => [c.id, getConversationLabel(c)]),
+		)
+
+		if (hits.length === 0) {
+			humanWarn(`⚠️  No messages match "${query}"`)
+		}
+		for (const hit of hits) {
+			const { hour, minute } = getZonedParts(hit.date, timeZone)
+			const time = `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`
+			const sender = identifySender(hit).label
+			const conversation = hit.chatId ? labels.get(hit.chatId) : undefined
+			const folder = hit.chatId
+				? folders.get(hit.chatId)
+				: UNASSIGNED_CONVERSATION_FOLDER
+			const file = `${hit.day}.md#msg-${hit.guid}`
+			const link = perConversation && folder ? `${folder}/${file}` : file
+			const matched = hit.fields
+				.filter((field) => field !== 'text')
+				.map((field) => FIELD_LABELS[field])
+
+			humanInfo(
+				`\n${hit.day} ${time}  ${sender}${conversation ? ` in ${conversation}` : ''}`,
+			)
+			humanInfo(
+				`  ${hit.snippet}${matched.length > 0 ? `  [${matched.join(', ')}]` : ''}`,
+			)
+			humanInfo(`  → ${link}`)
+		}
+		if (hits.length > 0) {
+			humanInfo(
+				`\n✓ ${hits.length} result${hits.length === 1 ? '' : 's'}${hits.length === limitNum ? ` (limit ${limitNum}, use --limit for more)` : ''}`,
+			)
+		}
+
+		logEvent('search-summary', {
+			command: 'search',
+			phase: 'summary',
+			metrics: { results: hits.length },
+			options: { query, index: indexPath, limit: limitNum },
+			exitCode: 0,
+		})
+	} finally {
+		index.close()
+	}
+}
+
+/**
+ * Register the search command with Commander
+ */
+export function registerSearchCommand(
+	program: Command,
+	getGlobalOptions: () => GlobalOptions,
+): void {
+	program
+		.command('search')
+		.description(
+			'Search message text, image descriptions, transcriptions and link summaries',
+		)
+		.argument(
+			'<query>',
+			'words to find; "quoted phrases", prefix* and OR are supported',
+		)
+		.option('-i, --input <path>', 'input normalized or enriched JSON file')
+		.option('--store <path.sqlite>', 'read messages from a message store')
+		.option(
+			'--index <path>',
+			'search index file (default: <input>.search.sqlite)',
+		)
+		.option('--rebuild', 'rebuild the index even if the source is unchanged')
+		.option(
+			'--from <handle|name>',
+			'only messages from this sender ("me" for your own)',
+		)
+		.option('--start-date <date>', 'only messages from this date (YYYY-MM-DD)')
+		.option('--end-date <date>', 'only messages until this date (YYYY-MM-DD)')
+		.option(
+			'--kind <kinds...>',
+			'only these message kinds (text, media, tapback, notification)',
+		)
+		.option(
+			'--chat <id|name>',
+			'only one conversation (chat GUID, identifier or display name)',
+		)
+		.option('--limit <n>', 'maximum number of results', '20')
+		.option(
+			'--contacts <files...>',
+			'address books (.vcf, .yaml, .csv) used to resolve handles to names',
+		)
+		.action(async (query: string, options: SearchOptions) => {
+			try {
+				await executeSearch(query, options, getGlobalOptions())
+				process.exit(0)
+			} catch (error) {
+				humanError(
+					'❌ Failed to search:',
+					error instanceof Error ? error.message : String(error),
+				)
+				if (getGlobalOptions().verbose && error instanceof Error) {
+					humanError(error.stack)
+				}
+				logEvent('search-error', {
+					command: 'search',
+					phase: 'error',
+					error: {
+						type: error instanceof Error ? error.name : 'Unknown',
+						message: error instanceof Error ? error.message : String(error),
+						...(error instanceof Error && error.stack
+							? { stack: error.stack }
+							: {}),
+					},
+					options: { query, input: options.input, store: options.store },
+					exitCode: 2,
+				})
+				process.exit(2)
+			}
+		})
+}
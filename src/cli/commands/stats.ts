@@ -7,9 +7,15 @@
 
 import type { Command } from 'commander'
 import { humanError, humanInfo } from '#utils/human'
-import type { Message } from '../../schema/message.js'
+import type { Conversation } from '../../schema/message.js'
 import type { GlobalOptions, StatsOptions } from '../types.js'
-import { applyLogLevel, logEvent } from '../utils.js'
+import {
+	applyLogLevel,
+	loadCommandConfig,
+	loadCommandSenders,
+	logEvent,
+	resolveInputSource,
+} from '../utils.js'
 
 /**
  * Execute the stats command logic
@@ -18,7 +24,7 @@ export async function executeStats(
 	options: StatsOptions,
 	globalOptions: GlobalOptions,
 ): Promise<void> {
-	const { input } = options
+	const { input, store, chat, contacts } = options
 	const verbose = globalOptions.verbose || options.verbose || false
 
 	applyLogLevel(verbose, globalOptions.quiet)
@@ -26,35 +32,27 @@ export async function executeStats(
 	logEvent('stats-start', {
 		command: 'stats',
 		phase: 'start',
-		options: { input },
+		options: { input, store, chat },
 	})
 
-	const fs = await import('node:fs')
+	const source = await resolveInputSource(input, store)
 
-	// Validate input file exists
-	if (!fs.existsSync(input)) {
-		humanError(`❌ Input file not found: ${input}`)
-		process.exit(1)
-	}
-
-	// Load and parse JSON
-	const content = fs.readFileSync(input, 'utf-8')
-	let data: unknown
-	try {
-		data = JSON.parse(content)
-	} catch {
-		humanError(`❌ Invalid JSON: ${input}`)
-		process.exit(1)
-	}
+	const { openEnvelopeStream } = await import('#utils/envelope-stream')
+	const { openStoreStream } = await import('../../store/message-store.js')
+	const openStream = () =>
+		source.isStore
+			? openStoreStream(source.path)
+			: openEnvelopeStream(source.path)
+	const {
+		createConversationCollector,
+		getConversationLabel,
+		resolveConversation,
+	} = await import('../../ingest/conversations.js')
 
-	// Extract messages
-	const messages = Array.isArray(data)
-		? data
-		: (data as { messages?: Message[] }).messages || []
-
-	// Count by messageKind
+	// Messages are streamed and only counters are kept, so memory does not
+	// grow with the size of the history
 	const stats = {
-		total: messages.length,
+		total: 0,
 		text: 0,
 		media: 0,
 		tapback: 0,
@@ -63,36 +61,104 @@ export async function executeStats(
 		withEnrichment: 0,
 		dateRange: { min: null as string | null, max: null as string | null },
 	}
-
-	const senders = new Set<string>()
 	let totalEnrichments = 0
+	const collector = createConversationCollector()
+	const countsByChat = new Map<string, number>()
+	// Raw sender counts, folded into people once the self identity is known
+	const rawSenders = new Map<
+		string,
+		{ isFromMe: boolean; handle: string | null; count: number }
+	>()
+	const callerIds = new Set<string>()
+	let knownConversations: Conversation[] | undefined
 
-	messages.forEach((msg: Message) => {
-		if (msg.messageKind === 'text') stats.text++
-		if (msg.messageKind === 'media') stats.media++
-		if (msg.messageKind === 'tapback') stats.tapback++
-		if (msg.messageKind === 'notification') stats.notification++
-
-		if (msg.media) {
-			stats.withMedia++
-			if (msg.media.enrichment && Array.isArray(msg.media.enrichment)) {
-				stats.withEnrichment++
-				totalEnrichments += msg.media.enrichment.length
-			}
+	try {
+		// --chat needs the conversation list, which an envelope stores after
+		// its messages, so resolve it in a first pass
+		let selectedChatId: string | null = null
+		if (chat) {
+			const firstPass = openStream()
+			const candidates = createConversationCollector()
+			for await (const msg of firstPass.messages) candidates.add(msg)
+			selectedChatId = resolveConversation(
+				candidates.build(firstPass.conversations),
+				chat,
+			).id
 		}
 
-		const sender = msg.handle ?? (msg.isFromMe ? 'Me' : 'Unknown')
-		senders.add(sender)
+		const stream = openStream()
+		for await (const msg of stream.messages) {
+			if (selectedChatId !== null && msg.chatId !== selectedChatId) continue
 
-		if (msg.date) {
-			if (!stats.dateRange.min || msg.date < stats.dateRange.min) {
-				stats.dateRange.min = msg.date
+			stats.total++
+			collector.add(msg)
+			if (msg.chatId) {
+				countsByChat.set(msg.chatId, (countsByChat.get(msg.chatId) ?? 0) + 1)
 			}
-			if (!stats.dateRange.max || msg.date > stats.dateRange.max) {
-				stats.dateRange.max = msg.date
+
+			if (msg.messageKind === 'text') stats.text++
+			if (msg.messageKind === 'media') stats.media++
+			if (msg.messageKind === 'tapback') stats.tapback++
+			if (msg.messageKind === 'notification') stats.notification++
+
+			if (msg.media) {
+				stats.withMedia++
+				if (msg.media.enrichment && Array.isArray(msg.media.enrichment)) {
+					stats.withEnrichment++
+					totalEnrichments += msg.media.enrichment.length
+				}
+			}
+
+			const rawKey = `${msg.isFromMe ? 1 : 0}:${msg.handle ?? ''}`
+			const raw = rawSenders.get(rawKey)
+			if (raw) {
+				raw.count++
+			} else {
+				rawSenders.set(rawKey, {
+					isFromMe: msg.isFromMe,
+					handle: msg.handle ?? null,
+					count: 1,
+				})
+			}
+			if (msg.destinationCallerId) callerIds.add(msg.destinationCallerId)
+
+			if (msg.date) {
+				if (!stats.dateRange.min || msg.date < stats.dateRange.min) {
+					stats.dateRange.min = msg.date
+				}
+				if (!stats.dateRange.max || msg.date > stats.dateRange.max) {
+					stats.dateRange.max = msg.date
+				}
 			}
 		}
-	})
+		knownConversations = stream.conversations
+	} catch (error) {
+		if (error instanceof SyntaxError) {
+			humanError(`❌ Invalid JSON: ${source.path}`)
+			process.exit(1)
+		}
+		throw error
+	}
+	const conversations = collector.build(knownConversations)
+
+	// Count senders per person so one contact's phone and email merge, and
+	// the owner's messages count as one sender whatever handle they carry
+	const resolution = await loadCommandConfig(globalOptions)
+	const { self, identifySender } = await loadCommandSenders(
+		resolution,
+		Array.from(callerIds, (destinationCallerId) => ({ destinationCallerId })),
+		contacts,
+	)
+	const senders = new Map<string, { label: string; count: number }>()
+	for (const raw of rawSenders.values()) {
+		const sender = identifySender(raw)
+		const existing = senders.get(sender.key)
+		if (existing) {
+			existing.count += raw.count
+		} else {
+			senders.set(sender.key, { label: sender.label, count: raw.count })
+		}
+	}
 
 	// Output summary
 	humanInfo('📊 Message Statistics')
@@ -128,17 +194,26 @@ export async function executeStats(
 		humanInfo('    None')
 	}
 
+	if (conversations.length > 1) {
+		humanInfo(`\n  Conversations: ${conversations.length}`)
+		if (verbose) {
+			for (const conversation of conversations) {
+				const count = countsByChat.get(conversation.id) ?? 0
+				humanInfo(`    ${getConversationLabel(conversation)}: ${count}`)
+			}
+		}
+	}
+
 	if (verbose) {
 		humanInfo(`\n  Participants: ${senders.size}`)
+		if (self.handles.length > 0) {
+			humanInfo(`    (${self.name} = ${self.handles.join(', ')})`)
+		}
 		if (senders.size > 0 && senders.size <= 20) {
-			Array.from(senders)
-				.sort()
+			Array.from(senders.values())
+				.sort((a, b) => a.label.localeCompare(b.label))
 				.forEach((sender) => {
-					const count = messages.filter((m: Message) => {
-						const msgSender = m.handle ?? (m.isFromMe ? 'Me' : 'Unknown')
-						return msgSender === sender
-					}).length
-					humanInfo(`    ${sender}: ${count}`)
+					humanInfo(`    ${sender.label}: ${sender.count}`)
 				})
 		}
 	}
@@ -155,8 +230,9 @@ export async function executeStats(
 			withMedia: stats.withMedia,
 			withEnrichment: stats.withEnrichment,
 			participants: senders.size,
+			conversations: conversations.length,
 		},
-		options: { input, verbose },
+		options: { input, store, verbose, chat },
 		exitCode: 0,
 	})
 }
@@ -171,8 +247,17 @@ export function registerStatsCommand(
 	program
 		.command('stats')
 		.description('Show statistics for message file')
-		.requiredOption('-i, --input <path>', 'path to message JSON file')
+		.option('-i, --input <path>', 'path to message JSON file')
+		.option('--store <path.sqlite>', 'read messages from a message store')
 		.option('-v, --verbose', 'show detailed statistics', false)
+		.option(
+			'--chat <id|name>',
+			'only include one conversation (chat GUID, identifier or display name)',
+		)
+		.option(
+			'--contacts <files...>',
+			'address books (.vcf, .yaml, .csv) used to resolve handles to names',
+		)
 		.action(async (options: StatsOptions) => {
 			try {
 				await executeStats(options, getGlobalOptions())
@@ -7,6 +7,7 @@
 
 import type { Command } from 'commander'
 import { humanError, humanInfo } from '#utils/human'
+import type { Conversation, Message } from '../../schema/message.js'
 import type { GlobalOptions, ValidateOptions } from '../types.js'
 import { applyLogLevel, logEvent } from '../utils.js'
 
@@ -17,7 +18,7 @@ export async function executeValidate(
 	options: ValidateOptions,
 	globalOptions: GlobalOptions,
 ): Promise<void> {
-	const { input, quiet } = options
+	const { input, quiet, chat } = options
 	const { verbose } = globalOptions
 
 	applyLogLevel(verbose, globalOptions.quiet)
@@ -30,11 +31,11 @@ export async function executeValidate(
 		process.exit(1)
 	}
 
-	// Load and parse JSON
-	const content = fs.readFileSync(input, 'utf-8')
-	let data: unknown
+	// Load and parse JSON (envelope, NDJSON or bare array)
+	const { readEnvelope } = await import('#utils/envelope-stream')
+	let data: Awaited<ReturnType<typeof readEnvelope>>
 	try {
-		data = JSON.parse(content)
+		data = await readEnvelope(input)
 	} catch (e) {
 		humanError(`❌ Invalid JSON: ${input}`)
 		humanError(`  ${e instanceof Error ? e.message : String(e)}`)
@@ -42,14 +43,39 @@ export async function executeValidate(
 	}
 
 	// Validate schema
-	const { MessageSchema } = await import('../../schema/message.js')
-	const messages = Array.isArray(data)
-		? data
-		: (data as { messages?: unknown[] }).messages || []
+	const { ConversationSchema, MessageSchema } = await import(
+		'../../schema/message.js'
+	)
+	let messages: unknown[] = data.messages
+	const conversations: unknown[] = data.conversations ?? []
 
 	let validCount = 0
 	const errors: Array<{ index: number; path: string; message: string }> = []
 
+	// Conversation records must be valid before --chat can rely on them
+	conversations.forEach((conversation, i) => {
+		const result = ConversationSchema.safeParse(conversation)
+		if (!result.success) {
+			for (const err of result.error.errors) {
+				humanError(
+					`❌ conversations[${i}].${err.path.join('.') || 'root'}: ${err.message}`,
+				)
+			}
+			process.exit(1)
+		}
+	})
+
+	if (chat) {
+		const { filterByConversation } = await import(
+			'../../ingest/conversations.js'
+		)
+		messages = filterByConversation(
+			messages as Message[],
+			conversations as Conversation[],
+			chat,
+		).messages
+	}
+
 	for (let i = 0; i < messages.length; i++) {
 		const result = MessageSchema.safeParse(messages[i] as unknown)
 		if (result.success) {
@@ -148,6 +174,10 @@ export function registerValidateCommand(
 		.description('Validate JSON file against message schema')
 		.requiredOption('-i, --input <path>', 'path to JSON file to validate')
 		.option('-q, --quiet', 'suppress detailed error messages', false)
+		.option(
+			'--chat <id|name>',
+			'only include one conversation (chat GUID, identifier or display name)',
+		)
 		.action(async (options: ValidateOptions) => {
 			try {
 				await executeValidate(options, getGlobalOptions())
@@ -14,14 +14,20 @@ import { Command, type CommanderError } from 'commander'
 import { humanError, setHumanLoggingEnabled } from '#utils/human'
 import { createLogger } from '#utils/logger'
 import {
+	registerCacheCommand,
 	registerCleanCommand,
+	registerConfigCommand,
 	registerDoctorCommand,
 	registerEnrichAICommand,
+	registerExportJSONCommand,
 	registerIngestCSVCommand,
 	registerIngestDBCommand,
 	registerInitCommand,
+	registerMigrateCommand,
 	registerNormalizeLinkCommand,
 	registerRenderMarkdownCommand,
+	registerRunCommand,
+	registerSearchCommand,
 	registerStatsCommand,
 	registerValidateCommand,
 } from './commands/index.js'
@@ -56,8 +62,7 @@ export function createProgram(): Command {
 		.option('-q, --quiet', 'suppress non-error output', false)
 		.option(
 			'-c, --config <path>',
-			'path to config file',
-			'imessage-config.json',
+			'path to config file (default: imessage-config.yaml, .yml or .json in the current directory)',
 		)
 		.option(
 			'--json',
@@ -127,11 +132,17 @@ export function createProgram(): Command {
 	registerNormalizeLinkCommand(program, getGlobalOptions)
 	registerEnrichAICommand(program, getGlobalOptions)
 	registerRenderMarkdownCommand(program, getGlobalOptions)
+	registerRunCommand(program, getGlobalOptions)
+	registerExportJSONCommand(program, getGlobalOptions)
+	registerSearchCommand(program, getGlobalOptions)
 	registerValidateCommand(program, getGlobalOptions)
+	registerMigrateCommand(program, getGlobalOptions)
 	registerStatsCommand(program, getGlobalOptions)
 	registerCleanCommand(program, getGlobalOptions)
 	registerDoctorCommand(program, getGlobalOptions)
 	registerInitCommand(program, getGlobalOptions)
+	registerConfigCommand(program, getGlobalOptions)
+	registerCacheCommand(program, getGlobalOptions)
 
 	return program
 }
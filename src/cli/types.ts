@@ -5,23 +5,31 @@
  */
 
 export type RenderMarkdownOptions = {
-	input: string
+	input?: string
+	store?: string
 	output?: string
 	startDate?: string
 	endDate?: string
 	groupByTime?: boolean
 	nestedReplies?: boolean
 	maxNestingDepth?: string
+	timezone?: string
+	chat?: string
+	contacts?: Array<string>
 }
 
 export type ValidateOptions = {
 	input: string
 	quiet?: boolean
+	chat?: string
 }
 
 export type StatsOptions = {
-	input: string
+	input?: string
+	store?: string
 	verbose?: boolean
+	chat?: string
+	contacts?: Array<string>
 }
 
 export type CleanOptions = {
@@ -43,36 +51,100 @@ export type InitOptions = {
 export type IngestCSVOptions = {
 	input: string
 	output: string
+	store?: string
 	attachments?: Array<string>
+	chat?: string
 }
 
 export type IngestDBOptions = {
 	input: string
 	output: string
+	store?: string
 	attachments?: Array<string>
 	contact?: string
+	chat?: string
+	contacts?: Array<string>
 }
 
 export type NormalizeLinkOptions = {
-	input: Array<string> | string
+	input?: Array<string> | string
 	output: string
+	store?: string
+	chat?: string
+	attachments?: Array<string>
+	overrides?: string
+	ambiguousReport?: string
+	mergeReport?: string
 }
 
 export type EnrichAIOptions = {
-	input: string
+	input?: string
 	output: string
+	store?: string
 	checkpointDir: string
 	resume?: boolean
 	incremental?: boolean
 	stateFile?: string
 	resetState?: boolean
 	forceRefresh?: boolean
-	rateLimitMs?: string
+	rateLimit?: string
 	maxRetries?: string
 	checkpointInterval?: string
+	concurrency?: string
 	enableVision?: boolean
 	enableAudio?: boolean
 	enableLinks?: boolean
+	enablePdf?: boolean
+	enableVideo?: boolean
+	retryFailed?: boolean
+	chat?: string
+}
+
+export type ExportJSONOptions = {
+	store: string
+	output: string
+	chat?: string
+}
+
+export type ConfigShowOptions = {
+	resolved?: boolean
+}
+
+export type CachePruneOptions = {
+	olderThan?: string
+	all?: boolean
+	dryRun?: boolean
+}
+
+export type CacheExportOptions = {
+	output: string
+	kind?: string
+}
+
+export type SearchOptions = {
+	input?: string
+	store?: string
+	index?: string
+	rebuild?: boolean
+	from?: string
+	startDate?: string
+	endDate?: string
+	kind?: Array<string>
+	chat?: string
+	limit?: string
+	contacts?: Array<string>
+}
+
+export type MigrateOptions = {
+	input: string
+	output?: string
+	dryRun?: boolean
+}
+
+export type RunOptions = {
+	force?: boolean
+	dryRun?: boolean
+	chat?: string
 }
 
 /**
@@ -95,6 +167,6 @@ export type CLILogMeta = {
 export type GlobalOptions = {
 	verbose: boolean
 	quiet: boolean
-	config: string
+	config?: string
 	json?: boolean
 }
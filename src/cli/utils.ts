@@ -5,8 +5,16 @@
  * error handling, and common operations.
  */
 
+import { humanError, humanWarn } from '#utils/human'
 import { createLogger, setLogLevel } from '#utils/logger'
-import type { CLILogMeta } from './types.js'
+import type { ConfigOverrides, ConfigResolution } from '../config/resolver.js'
+import type {
+	ContactResolver,
+	SelfIdentity,
+	SenderIdentity,
+} from '../contacts/index.js'
+import type { Message } from '../schema/message.js'
+import type { CLILogMeta, GlobalOptions } from './types.js'
 
 /**
  * CLI Logger instance
@@ -48,8 +56,6 @@ export function handleCommandError(
 	error: unknown,
 	verbose: boolean,
 ): never {
-	const { humanError } = require('#utils/human')
-
 	humanError(
 		`❌ Failed to ${commandName}:`,
 		error instanceof Error ? error.message : String(error),
@@ -68,3 +74,194 @@ export function handleCommandError(
 
 	process.exit(2)
 }
+
+/**
+ * Resolve where a command reads messages from: an envelope file (--input) or
+ * a message store (--store)
+ *
+ * Exits with code 1 when neither or both are given, or the path is missing.
+ */
+export async function resolveInputSource(
+	input: string | undefined,
+	store: string | undefined,
+): Promise<{ path: string; isStore: boolean }> {
+	if (input && store) {
+		humanError('❌ Use either --input or --store, not both')
+		process.exit(1)
+	}
+	const source = store ?? input
+	if (!source) {
+		humanError('❌ Either --input <path> or --store <path.sqlite> is required')
+		process.exit(1)
+	}
+
+	const fs = await import('node:fs')
+	if (!fs.existsSync(source)) {
+		humanError(
+			`❌ ${store ? 'Message store' : 'Input file'} not found: ${source}`,
+		)
+		process.exit(1)
+	}
+	return { path: source, isStore: Boolean(store) }
+}
+
+/**
+ * Resolve the configuration for a command
+ *
+ * Layers defaults, the config file (`--config` or discovered), environment
+ * variables and the command's explicitly given flags, in that order of
+ * precedence. Non-fatal problems such as unset ${VAR} references are logged;
+ * `config show` displays them.
+ *
+ * @param cliOverrides - Config values from flags the user actually passed
+ */
+export async function loadCommandConfig(
+	globalOptions: GlobalOptions,
+	cliOverrides: ConfigOverrides = {},
+): Promise<ConfigResolution> {
+	const { resolveConfig } = await import('../config/resolver.js')
+	const resolution = await resolveConfig({
+		...(globalOptions.config && { configPath: globalOptions.config }),
+		cli: cliOverrides,
+	})
+	for (const warning of resolution.warnings) {
+		cliLogger.warn('Config value skipped', { warning })
+	}
+	return resolution
+}
+
+/**
+ * Resolve a path-valued config setting
+ *
+ * Paths set in the config file are relative to the config file, others to
+ * the working directory; a leading `~` is the home directory.
+ */
+export async function resolveConfigPath(
+	resolution: ConfigResolution,
+	key: string,
+	value: string,
+): Promise<string> {
+	const os = await import('node:os')
+	const path = await import('node:path')
+
+	const baseDir =
+		resolution.origins.get(key)?.source === 'file'
+			? resolution.configDir
+			: process.cwd()
+	return path.resolve(
+		baseDir,
+		value === '~' || value.startsWith('~/')
+			? path.join(os.homedir(), value.slice(1))
+			: value,
+	)
+}
+
+/**
+ * Resolve configured attachment roots to existing directories
+ *
+ * Roots given with --attachments must exist; configured roots (relative to
+ * the config file, `~` expanded) that don't exist are skipped, since the
+ * default only exists on a Mac.
+ */
+export async function resolveAttachmentRoots(
+	resolution: ConfigResolution,
+	verbose: boolean,
+): Promise<string[]> {
+	const fs = await import('node:fs')
+
+	const source = resolution.origins.get('attachmentRoots')?.source ?? 'default'
+	const roots: string[] = []
+	for (const root of resolution.config.attachmentRoots) {
+		const dir = await resolveConfigPath(resolution, 'attachmentRoots', root)
+		const exists = fs.existsSync(dir)
+		if (source === 'cli') {
+			if (!exists) {
+				humanError(`❌ Attachment directory not found: ${root}`)
+				process.exit(1)
+			}
+			if (!fs.statSync(dir).isDirectory()) {
+				humanError(`❌ Not a directory: ${root}`)
+				process.exit(1)
+			}
+		} else if (!exists) {
+			if (source !== 'default') {
+				humanWarn(`⚠️  Attachment root not found, skipping: ${dir}`)
+			}
+			continue
+		}
+		roots.push(dir)
+		if (verbose && source !== 'cli') {
+			cliLogger.info('Using attachment root', { root: dir, source })
+		}
+	}
+	return roots
+}
+
+/**
+ * Build the contact resolver for a command
+ *
+ * Uses the resolved `contacts` section and appends any `--contacts` files
+ * given on the command line. Config file sources resolve relative to the
+ * config file, CLI sources relative to the working directory.
+ *
+ * @returns Resolver, or null when no contact sources are configured
+ */
+export async function loadCommandContacts(
+	resolution: ConfigResolution,
+	cliSources: string[] = [],
+): Promise<ContactResolver | null> {
+	const path = await import('node:path')
+	const { loadContactResolver } = await import('../contacts/index.js')
+
+	const { contacts } = resolution.config
+	const baseDir =
+		resolution.origins.get('contacts.sources')?.source === 'file'
+			? resolution.configDir
+			: process.cwd()
+	const sources = (contacts?.sources ?? []).map((s) => path.resolve(baseDir, s))
+	const defaultCountryCode = contacts?.defaultCountryCode
+	sources.push(...cliSources.map((s) => path.resolve(s)))
+
+	if (sources.length === 0) return null
+
+	return loadContactResolver({
+		sources,
+		...(defaultCountryCode && { defaultCountryCode }),
+	})
+}
+
+/**
+ * Build the sender naming used by render and stats
+ *
+ * Combines the config `self` section (handles detected from
+ * destinationCallerId when not configured) with the contact resolver.
+ */
+export async function loadCommandSenders(
+	resolution: ConfigResolution,
+	messages: Iterable<Pick<Message, 'destinationCallerId'>>,
+	cliContactSources: string[] = [],
+): Promise<{
+	self: SelfIdentity
+	identifySender: (
+		message: Pick<Message, 'isFromMe' | 'handle'>,
+	) => SenderIdentity
+}> {
+	const { createSenderIdentifier, resolveSelfIdentity } = await import(
+		'../contacts/index.js'
+	)
+
+	const defaultCountryCode = resolution.config.contacts?.defaultCountryCode
+	const normalizeOptions = defaultCountryCode ? { defaultCountryCode } : {}
+
+	const self = resolveSelfIdentity(
+		resolution.config.self,
+		messages,
+		normalizeOptions,
+	)
+	const contacts = await loadCommandContacts(resolution, cliContactSources)
+
+	return {
+		self,
+		identifySender: createSenderIdentifier(self, contacts, normalizeOptions),
+	}
+}
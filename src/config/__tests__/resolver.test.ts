@@ -0,0 +1,127 @@
+import { promises as fs } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import { describeConfig, maskSecret, resolveConfig } from '../resolver'
+
+describe('resolveConfig', () => {
+	let tempDir: string
+	let configPath: string
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'config-resolver-'))
+		configPath = path.join(tempDir, 'imessage-config.yaml')
+		await fs.writeFile(
+			configPath,
+			[
+				'gemini:',
+				'  apiKey: ${TEST_GEMINI_KEY}',
+				'  model: file-model',
+				'  maxRetries: 5',
+				'render:',
+				'  groupByTimeOfDay: false',
+				'attachmentRoots:',
+				'  - ./attachments',
+			].join('\n'),
+		)
+	})
+
+	afterEach(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true })
+	})
+
+	it('layers defaults < file < env < cli and records each origin', async () => {
+		const resolution = await resolveConfig({
+			configPath,
+			env: {
+				TEST_GEMINI_KEY: 'from-file-substitution',
+				GEMINI_MODEL: 'env-model',
+				CHATLINE_ATTACHMENT_ROOTS: ['/a', '/b'].join(path.delimiter),
+			},
+			cli: { gemini: { maxRetries: 1, rateLimitDelay: undefined } },
+		})
+
+		expect(resolution.config.gemini).toEqual({
+			apiKey: 'from-file-substitution',
+			model: 'env-model',
+			maxRetries: 1,
+			rateLimitDelay: 1000,
+		})
+		expect(resolution.config.attachmentRoots).toEqual(['/a', '/b'])
+		expect(resolution.config.render.groupByTimeOfDay).toBe(false)
+		expect(resolution.origins.get('gemini.apiKey')).toEqual({ source: 'file' })
+		expect(resolution.origins.get('gemini.model')).toEqual({
+			source: 'env',
+			variable: 'GEMINI_MODEL',
+		})
+		expect(resolution.origins.get('gemini.maxRetries')).toEqual({ source: 'cli' })
+		expect(resolution.origins.has('gemini.rateLimitDelay')).toBe(false)
+		expect(resolution.configDir).toBe(tempDir)
+	})
+
+	it('drops values whose ${VAR} is unset with a warning', async () => {
+		const resolution = await resolveConfig({ configPath, env: {} })
+
+		expect(resolution.config.gemini.apiKey).toBeUndefined()
+		expect(resolution.config.gemini.model).toBe('file-model')
+		expect(resolution.warnings).toEqual([
+			expect.stringContaining('gemini.apiKey: Environment variable TEST_GEMINI_KEY'),
+		])
+	})
+
+	it('names the key and layer of invalid values', async () => {
+		await expect(
+			resolveConfig({ configPath, env: {}, cli: { gemini: { maxRetries: 50 } } }),
+		).rejects.toThrow('gemini.maxRetries (from cli)')
+		await expect(
+			resolveConfig({ configPath, env: {}, cli: { attachmentRoots: [''] } }),
+		).rejects.toThrow('attachmentRoots.0 (from cli)')
+	})
+
+	it('refuses an explicit config path that does not exist', async () => {
+		await expect(resolveConfig({ configPath: path.join(tempDir, 'missing.json') })).rejects.toThrow(
+			'Config file not found',
+		)
+	})
+})
+
+describe('describeConfig', () => {
+	it('lists every value in schema order with secrets masked', async () => {
+		const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'config-describe-'))
+		try {
+			const configPath = path.join(tempDir, 'imessage-config.json')
+			await fs.writeFile(configPath, JSON.stringify({ firecrawl: { apiKey: 'fc-secret-1234' } }))
+			const entries = describeConfig(await resolveConfig({ configPath, env: {} }))
+			const keys = entries.map((entry) => entry.key)
+
+			expect(keys.slice(0, 5)).toEqual([
+				'version',
+				'attachmentRoots',
+				'gemini.apiKey',
+				'gemini.model',
+				'gemini.rateLimitDelay',
+			])
+			expect(entries.find((entry) => entry.key === 'gemini.apiKey')).toEqual({
+				key: 'gemini.apiKey',
+				value: undefined,
+				origin: { source: 'default' },
+			})
+			expect(entries.find((entry) => entry.key === 'firecrawl.apiKey')).toEqual({
+				key: 'firecrawl.apiKey',
+				value: '****1234',
+				origin: { source: 'file' },
+			})
+		} finally {
+			await fs.rm(tempDir, { recursive: true, force: true })
+		}
+	})
+})
+
+describe('maskSecret', () => {
+	it('hides short secrets entirely', () => {
+		expect(maskSecret('abc')).toBe('****')
+		expect(maskSecret('sk-1234567890')).toBe('****7890')
+	})
+})
@@ -54,8 +54,12 @@ describe('ConfigSchema', () => {
 					enableVisionAnalysis: true,
 					enableAudioTranscription: true,
 					enableLinkEnrichment: true,
+					enablePdfAnalysis: false,
+					enableVideoMetadata: false,
 					imageCacheDir: './.cache/images',
+					cacheDir: './.cache/enrichments',
 					checkpointInterval: 100,
+					concurrency: 1,
 					forceRefresh: false,
 				},
 				render: {
@@ -204,6 +208,19 @@ describe('ConfigSchema', () => {
 			expect(ConfigSchema.safeParse(tooHigh).success).toBe(false)
 		})
 
+		it('should enforce a whole-number concurrency between 1 and 32', () => {
+			for (const concurrency of [0, 33, 2.5]) {
+				const result = ConfigSchema.safeParse({
+					gemini: { apiKey: 'test' },
+					enrichment: { concurrency },
+				})
+				expect(result.success).toBe(false)
+			}
+
+			const result = ConfigSchema.parse({ gemini: { apiKey: 'test' } })
+			expect(result.enrichment.concurrency).toBe(1)
+		})
+
 		it('should enforce maxNestingDepth between 1 and 100', () => {
 			const tooLow = {
 				gemini: { apiKey: 'test' },
@@ -219,6 +236,94 @@ describe('ConfigSchema', () => {
 
 			expect(ConfigSchema.safeParse(tooHigh).success).toBe(false)
 		})
+
+		it('should accept IANA render timezones and reject unknown ones', () => {
+			const melbourne = ConfigSchema.safeParse({
+				gemini: { apiKey: 'test' },
+				render: { timezone: 'Australia/Melbourne' },
+			})
+			expect(melbourne.success).toBe(true)
+			expect(melbourne.data?.render.timezone).toBe('Australia/Melbourne')
+
+			const unknown = ConfigSchema.safeParse({
+				gemini: { apiKey: 'test' },
+				render: { timezone: 'Mars/Olympus_Mons' },
+			})
+			expect(unknown.success).toBe(false)
+		})
+	})
+
+	describe('models section', () => {
+		it('should accept a per-kind mix of gemini and openai-compatible backends', () => {
+			const result = ConfigSchema.safeParse({
+				gemini: { apiKey: 'test' },
+				models: {
+					image: {
+						provider: 'openai-compatible',
+						baseUrl: 'http://localhost:11434/v1',
+						model: 'llava',
+						name: 'ollama',
+					},
+					audio: { model: 'gemini-2.0-flash' },
+				},
+			})
+
+			expect(result.success).toBe(true)
+			expect(result.data?.models?.image?.provider).toBe('openai-compatible')
+			expect(result.data?.models?.audio?.provider).toBe('gemini')
+			expect(result.data?.models?.pdf).toBeUndefined()
+		})
+
+		it('should require baseUrl and model for openai-compatible backends', () => {
+			const result = ConfigSchema.safeParse({
+				gemini: { apiKey: 'test' },
+				models: { image: { provider: 'openai-compatible' } },
+			})
+
+			expect(result.success).toBe(false)
+			expect(result.error?.issues.map((issue) => issue.path.join('.'))).toEqual([
+				'models.image.baseUrl',
+				'models.image.model',
+			])
+		})
+	})
+
+	describe('contacts and self sections', () => {
+		it('should accept contact sources and a default country code', () => {
+			const result = ConfigSchema.safeParse({
+				gemini: { apiKey: 'test' },
+				contacts: {
+					sources: ['./contacts.vcf', './aliases.yaml'],
+					defaultCountryCode: '61',
+				},
+			})
+
+			expect(result.success).toBe(true)
+		})
+
+		it('should default the self name to Me', () => {
+			const result = ConfigSchema.safeParse({
+				gemini: { apiKey: 'test' },
+				self: { handles: ['me@example.com'] },
+			})
+
+			expect(result.success).toBe(true)
+			if (result.success) {
+				expect(result.data.self).toEqual({
+					name: 'Me',
+					handles: ['me@example.com'],
+				})
+			}
+		})
+
+		it('should reject a non-numeric default country code', () => {
+			const result = ConfigSchema.safeParse({
+				gemini: { apiKey: 'test' },
+				contacts: { sources: [], defaultCountryCode: 'AU' },
+			})
+
+			expect(result.success).toBe(false)
+		})
 	})
 
 	// CONFIG-T01-AC05: Validation error formatting
@@ -358,5 +463,17 @@ describe('ConfigSchema', () => {
 			expect(DEFAULT_CONFIG.enrichment?.enableAudioTranscription).toBe(true)
 			expect(DEFAULT_CONFIG.enrichment?.enableLinkEnrichment).toBe(true)
 		})
+
+		it('should leave PDF and video enrichment opt-in', () => {
+			expect(DEFAULT_CONFIG.enrichment?.enablePdfAnalysis).toBe(false)
+			expect(DEFAULT_CONFIG.enrichment?.enableVideoMetadata).toBe(false)
+
+			const result = ConfigSchema.parse({
+				gemini: { apiKey: 'key' },
+				enrichment: { enablePdfAnalysis: true },
+			})
+			expect(result.enrichment.enablePdfAnalysis).toBe(true)
+			expect(result.enrichment.enableVideoMetadata).toBe(false)
+		})
 	})
 })
@@ -100,11 +100,24 @@ enrichment:
   # Default: true
   enableLinkEnrichment: true
 
+  # Enable PDF summaries (first pages sent to the pdf model, Gemini by default)
+  # Default: false
+  enablePdfAnalysis: false
+
+  # Enable video metadata (file name and size, read locally; no API calls)
+  # Default: false
+  enableVideoMetadata: false
+
   # Cache directory for image previews (HEIC/TIFF → JPG)
   # Prevents redundant conversions on re-runs
   # Default: ./.cache/images
   imageCacheDir: "./.cache/images"
 
+  # Enrichment cache, keyed by file content hash, kind, model and prompt
+  # version; consulted before any model call (see chatline cache)
+  # Default: ./.cache/enrichments
+  cacheDir: "./.cache/enrichments"
+
   # Checkpoint interval (messages per checkpoint)
   # Lower = more frequent checkpoints = safer but slower
   # Higher = faster but more work lost on interruption
@@ -112,6 +125,13 @@ enrichment:
   # Default: 100
   checkpointInterval: 100
 
+  # Messages enriched at the same time
+  # Each provider (Gemini, Firecrawl, local models) keeps its own rate limit
+  # and circuit breaker; output order does not depend on this setting
+  # Range: 1-32
+  # Default: 1
+  concurrency: 1
+
   # Force refresh of existing enrichments
   # If true, re-enriches messages even if already enriched
   # Default: false (skip already-enriched messages)
@@ -142,6 +162,86 @@ render:
   # Range: 1-100
   # Default: 10
   maxNestingDepth: 10
+
+  # IANA timezone for day pages, section headers and timestamps
+  # Default: the system timezone
+  # timezone: Australia/Melbourne
+
+# ============================================================================
+# Model Backends (Optional)
+# ============================================================================
+
+# models:
+#   # Per enrichment kind (image, audio, pdf); kinds left out use Gemini
+#   image:
+#     # gemini (default) or openai-compatible (llama.cpp, Ollama, vLLM, ...)
+#     provider: openai-compatible
+#     # Server URL including the API prefix
+#     baseUrl: "http://localhost:11434/v1"
+#     model: "llava:13b"
+#     # Recorded as the enrichment provider (default: openai-compatible)
+#     name: ollama
+
+# ============================================================================
+# Contacts (Optional)
+# ============================================================================
+
+# contacts:
+#   # Address books used to show names instead of raw handles
+#   # Formats: vCard (.vcf), YAML or CSV alias maps; later files fill gaps
+#   # Relative paths are resolved from this config file's directory
+#   sources:
+#     - "./contacts.vcf"
+#     - "./aliases.yaml"
+#
+#   # Country calling code for numbers written without one (e.g. 0400 111 222)
+#   defaultCountryCode: "61"
+
+# ============================================================================
+# Self Identity (Optional)
+# ============================================================================
+
+# self:
+#   # Name shown for your own messages
+#   # Default: "Me"
+#   name: "Me"
+#
+#   # Your own phone numbers / Apple IDs
+#   # Default: detected from destinationCallerId in chat.db imports
+#   handles:
+#     - "+61400000000"
+#     - "me@example.com"
+
+# ============================================================================
+# Pipeline (Optional, used by chatline run)
+# ============================================================================
+
+# pipeline:
+#   # Where intermediate files, state and the timeline/ folder are written
+#   # Default: "./chatline-output"
+#   outputDir: "./chatline-output"
+#
+#   # Exports to ingest, in order (csv: iMazing CSV, db: Messages chat.db)
+#   sources:
+#     - type: csv
+#       path: "./exports/messages.csv"
+#     - type: db
+#       path: "~/Library/Messages/chat.db"
+#
+#   # Stages to run; left-out stages reuse the output of an earlier run
+#   # Default: [ingest, normalize, enrich, render]
+#   stages: [ingest, normalize, enrich, render]
+#
+#   # Per-stage options (same meaning as the matching command flags)
+#   options:
+#     ingest:
+#       contact: "jane@example.com"   # chat.db sources only
+#     normalize:
+#       overrides: "./link-overrides.json"   # reviewed reply/tapback parents
+#     enrich:
+#       incremental: true
+#     render:
+#       startDate: "2025-01-01"
 `
 
 /**
@@ -171,8 +271,12 @@ const CONFIG_TEMPLATE_JSON = {
 		enableVisionAnalysis: true,
 		enableAudioTranscription: true,
 		enableLinkEnrichment: true,
+		enablePdfAnalysis: false,
+		enableVideoMetadata: false,
 		imageCacheDir: './.cache/images',
+		cacheDir: './.cache/enrichments',
 		checkpointInterval: 100,
+		concurrency: 1,
 		forceRefresh: false,
 	},
 
@@ -100,6 +100,7 @@ export async function loadConfigFile(filePath: string): Promise<unknown> {
  * Recursively replaces ${VAR_NAME} patterns with environment variable values
  *
  * @param obj - Config object (or primitive)
+ * @param env - Environment to read variables from (default process.env)
  * @returns Object with env vars substituted
  *
  * @example
@@ -109,11 +110,14 @@ export async function loadConfigFile(filePath: string): Promise<unknown> {
  * // => { apiKey: 'secret123' }
  * ```
  */
-export function substituteEnvVars(obj: unknown): unknown {
+export function substituteEnvVars(
+	obj: unknown,
+	env: NodeJS.ProcessEnv = process.env,
+): unknown {
 	// Handle strings - replace ${VAR} patterns
 	if (typeof obj === 'string') {
 		return obj.replace(/\$\{(\w+)\}/g, (_match, envVar) => {
-			const value = process.env[envVar]
+			const value = env[envVar]
 			if (value === undefined) {
 				throw new Error(
 					`Environment variable ${envVar} is not set but referenced in config`,
@@ -125,7 +129,7 @@ export function substituteEnvVars(obj: unknown): unknown {
 
 	// Handle arrays - recursively substitute each element
 	if (Array.isArray(obj)) {
-		return obj.map(substituteEnvVars)
+		return obj.map((item) => substituteEnvVars(item, env))
 	}
 
 	// Handle objects - recursively substitute each value
@@ -133,7 +137,7 @@ export function substituteEnvVars(obj: unknown): unknown {
 		return Object.fromEntries(
 			Object.entries(obj).map(([key, value]) => [
 				key,
-				substituteEnvVars(value),
+				substituteEnvVars(value, env),
 			]),
 		)
 	}
@@ -180,6 +184,20 @@ export function mergeConfig(
 		merged.firecrawl = fileConfig.firecrawl
 	}
 
+	if (cliOptions.contacts !== undefined) {
+		merged.contacts = cliOptions.contacts
+	} else if (fileConfig.contacts !== undefined) {
+		merged.contacts = fileConfig.contacts
+	}
+
+	if (fileConfig.self || cliOptions.self) {
+		merged.self = {
+			...fileConfig.self,
+			...cliOptions.self,
+			// biome-ignore lint/suspicious/noExplicitAny: Zod schema mismatch with spread
+		} as any
+	}
+
 	if (fileConfig.enrichment || cliOptions.enrichment) {
 		merged.enrichment = {
 			...fileConfig.enrichment,
@@ -0,0 +1,315 @@
+/**
+ * Configuration Resolution for CLI Commands
+ *
+ * Builds the effective configuration for a command from four layers, each
+ * overriding the one before it:
+ *
+ * 1. Defaults from the schema
+ * 2. Config file (explicit path or discovered), with ${VAR} substitution
+ * 3. Environment variables (see CONFIG_ENV_VARS)
+ * 4. CLI flags given explicitly by the user
+ *
+ * Every resolved value records which layer it came from, so
+ * `chatline config show --resolved` can explain the result.
+ */
+
+import { existsSync } from 'node:fs'
+import * as path from 'node:path'
+
+import {
+	discoverConfigFile,
+	loadConfigFile,
+	substituteEnvVars,
+} from './loader.js'
+import { type ResolvedConfig, ResolvedConfigSchema } from './schema.js'
+
+/**
+ * Layer a resolved value came from, lowest precedence first
+ */
+export type ConfigSource = 'default' | 'file' | 'env' | 'cli'
+
+export type ConfigOrigin = {
+	source: ConfigSource
+	/** Environment variable name for `env` values */
+	variable?: string
+}
+
+/**
+ * Config values given on the command line, shaped like the config file
+ *
+ * Undefined values are ignored so commands can pass their options directly.
+ */
+export type ConfigOverrides = {
+	[K in keyof ResolvedConfig]?:
+		| (ResolvedConfig[K] extends unknown[]
+				? ResolvedConfig[K]
+				: ResolvedConfig[K] extends object
+					? {
+							[P in keyof ResolvedConfig[K]]?: ResolvedConfig[K][P] | undefined
+						}
+					: ResolvedConfig[K])
+		| undefined
+}
+
+export type ConfigResolution = {
+	config: ResolvedConfig
+	/** Origin of each value that was not left at its default, by dotted key */
+	origins: Map<string, ConfigOrigin>
+	/** Config file that was read, or null when there is none */
+	configPath: string | null
+	/** Directory relative paths in the config file resolve against */
+	configDir: string
+	/** Problems that did not stop resolution, e.g. unset ${VAR} references */
+	warnings: string[]
+}
+
+/**
+ * Environment variables that override config file values
+ *
+ * CHATLINE_ATTACHMENT_ROOTS is a list separated like PATH.
+ */
+export const CONFIG_ENV_VARS: ReadonlyArray<{
+	variable: string
+	key: string
+	list?: boolean
+}> = [
+	{ variable: 'GEMINI_API_KEY', key: 'gemini.apiKey' },
+	{ variable: 'GEMINI_MODEL', key: 'gemini.model' },
+	{ variable: 'FIRECRAWL_API_KEY', key: 'firecrawl.apiKey' },
+	{ variable: 'CHATLINE_ATTACHMENT_ROOTS', key: 'attachmentRoots', list: true },
+]
+
+/**
+ * Keys listed by describeConfig even when nothing sets them
+ */
+const OPTIONAL_KEYS = ['gemini.apiKey', 'firecrawl.apiKey']
+
+type ConfigTree = Record<string, unknown>
+
+function isPlainObject(value: unknown): value is ConfigTree {
+	return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Deep-merge one layer into the target, recording the origin of each leaf
+ *
+ * Arrays are leaves: a layer that sets one replaces it entirely.
+ */
+function applyLayer(
+	target: ConfigTree,
+	layer: ConfigTree,
+	origin: (key: string) => ConfigOrigin,
+	origins: Map<string, ConfigOrigin>,
+	prefix = '',
+): void {
+	for (const [name, value] of Object.entries(layer)) {
+		if (value === undefined) continue
+		const key = prefix ? `${prefix}.${name}` : name
+		if (isPlainObject(value)) {
+			const existing = target[name]
+			const child = isPlainObject(existing) ? existing : {}
+			target[name] = child
+			applyLayer(child, value, origin, origins, key)
+		} else {
+			target[name] = value
+			origins.set(key, origin(key))
+		}
+	}
+}
+
+function setKey(tree: ConfigTree, key: string, value: unknown): void {
+	const parts = key.split('.')
+	let node = tree
+	for (const part of parts.slice(0, -1)) {
+		const child = node[part]
+		if (!isPlainObject(child)) node[part] = {}
+		node = node[part] as ConfigTree
+	}
+	node[parts[parts.length - 1] as string] = value
+}
+
+/**
+ * Substitute ${VAR} references leaf by leaf
+ *
+ * A leaf whose variable is unset is dropped with a warning rather than
+ * failing the whole file, so commands that don't use it still run.
+ */
+function substituteLeaves(
+	value: unknown,
+	key: string,
+	env: NodeJS.ProcessEnv,
+	warnings: string[],
+): unknown {
+	if (isPlainObject(value)) {
+		return Object.fromEntries(
+			Object.entries(value).map(([name, child]) => [
+				name,
+				substituteLeaves(child, key ? `${key}.${name}` : name, env, warnings),
+			]),
+		)
+	}
+	try {
+		return substituteEnvVars(value, env)
+	} catch (error) {
+		warnings.push(
+			`${key}: ${error instanceof Error ? error.message : String(error)}`,
+		)
+		return undefined
+	}
+}
+
+/**
+ * Resolve the effective configuration for a command
+ *
+ * @param options.configPath - Config file to read; it must exist. When
+ * omitted, the working directory is searched (see discoverConfigFile)
+ * @param options.cli - Values from explicitly given CLI flags
+ * @param options.env - Environment to read (default process.env)
+ * @throws Error if the config file cannot be read or a value is invalid;
+ * the message names the key and the layer it came from
+ */
+export async function resolveConfig(
+	options: {
+		configPath?: string
+		cli?: ConfigOverrides
+		env?: NodeJS.ProcessEnv
+	} = {},
+): Promise<ConfigResolution> {
+	const { cli = {}, env = process.env } = options
+	const origins = new Map<string, ConfigOrigin>()
+	const warnings: string[] = []
+	const merged: ConfigTree = {}
+
+	if (options.configPath && !existsSync(options.configPath)) {
+		throw new Error(`Config file not found: ${options.configPath}`)
+	}
+	const configPath = options.configPath ?? (await discoverConfigFile())
+
+	if (configPath) {
+		const raw = await loadConfigFile(configPath)
+		if (raw !== null && raw !== undefined && !isPlainObject(raw)) {
+			throw new Error(`Config file must contain an object: ${configPath}`)
+		}
+		const fileLayer = substituteLeaves(
+			raw ?? {},
+			'',
+			env,
+			warnings,
+		) as ConfigTree
+		applyLayer(merged, fileLayer, () => ({ source: 'file' }), origins)
+	}
+
+	const envLayer: ConfigTree = {}
+	const envVariables = new Map<string, string>()
+	for (const { variable, key, list } of CONFIG_ENV_VARS) {
+		const value = env[variable]
+		if (!value) continue
+		setKey(
+			envLayer,
+			key,
+			list ? value.split(path.delimiter).filter(Boolean) : value,
+		)
+		envVariables.set(key, variable)
+	}
+	applyLayer(
+		merged,
+		envLayer,
+		(key) => ({ source: 'env', variable: envVariables.get(key) as string }),
+		origins,
+	)
+
+	applyLayer(merged, cli as ConfigTree, () => ({ source: 'cli' }), origins)
+
+	const result = ResolvedConfigSchema.safeParse(merged)
+	if (!result.success) {
+		const problems = result.error.errors.map((issue) => {
+			const key = issue.path.join('.')
+			// Array items report their index; the array itself has the origin
+			const parts = issue.path.map(String)
+			let origin: ConfigOrigin | undefined
+			while (!origin && parts.length > 0) {
+				origin = origins.get(parts.join('.'))
+				parts.pop()
+			}
+			const source = origin?.source ?? 'default'
+			return `${key} (from ${source}): ${issue.message}`
+		})
+		throw new Error(`Invalid configuration: ${problems.join('; ')}`)
+	}
+
+	return {
+		config: result.data,
+		origins,
+		configPath: configPath ? path.resolve(configPath) : null,
+		configDir: configPath
+			? path.dirname(path.resolve(configPath))
+			: process.cwd(),
+		warnings,
+	}
+}
+
+/**
+ * Mask a secret, keeping only the last four characters of long values
+ */
+export function maskSecret(value: string): string {
+	return value.length > 8 ? `****${value.slice(-4)}` : '****'
+}
+
+/**
+ * Whether a dotted config key holds a secret
+ */
+export function isSecretKey(key: string): boolean {
+	return /apiKey$/i.test(key)
+}
+
+/**
+ * List every resolved value with its origin, secrets masked
+ *
+ * Keys appear in schema order; unset optional keys are included with
+ * `value: undefined`.
+ */
+export function describeConfig(resolution: ConfigResolution): Array<{
+	key: string
+	value: unknown
+	origin: ConfigOrigin
+}> {
+	const entries: Array<{ key: string; value: unknown; origin: ConfigOrigin }> =
+		[]
+	const visit = (value: unknown, key: string) => {
+		if (isPlainObject(value)) {
+			for (const [name, child] of Object.entries(value)) {
+				visit(child, key ? `${key}.${name}` : name)
+			}
+			return
+		}
+		entries.push({
+			key,
+			value:
+				isSecretKey(key) && typeof value === 'string'
+					? maskSecret(value)
+					: value,
+			origin: resolution.origins.get(key) ?? { source: 'default' },
+		})
+	}
+	visit(resolution.config, '')
+
+	for (const key of OPTIONAL_KEYS) {
+		if (entries.some((entry) => entry.key === key)) continue
+		const section = key.split('.')[0] as string
+		// Optional keys come first in their section, as in the schema
+		const index = entries.findIndex((entry) =>
+			entry.key.startsWith(`${section}.`),
+		)
+		const entry = {
+			key,
+			value: undefined,
+			origin: { source: 'default' } as const,
+		}
+		if (index === -1) {
+			entries.push(entry)
+		} else {
+			entries.splice(index, 0, entry)
+		}
+	}
+	return entries
+}
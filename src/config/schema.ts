@@ -7,6 +7,8 @@
 
 import { z } from 'zod'
 
+import { isValidTimeZone } from '#render/grouping'
+
 /**
  * CONFIG-T01-AC01: Config schema with Zod validation
  *
@@ -29,6 +31,43 @@ const FirecrawlConfigSchema = z
 	})
 	.optional()
 
+/**
+ * Model backend for one enrichment kind (see src/enrich/model-provider.ts)
+ *
+ * gemini uses the `gemini` section's key and model unless overridden here;
+ * openai-compatible needs the server's baseUrl and a model
+ */
+const ModelBackendSchema = z
+	.object({
+		provider: z.enum(['gemini', 'openai-compatible']).default('gemini'),
+		model: z.string().min(1).optional(),
+		baseUrl: z.string().url().optional(),
+		apiKey: z.string().optional(),
+		name: z.string().min(1).optional(),
+		timeoutMs: z.number().min(1000).optional(),
+	})
+	.superRefine((backend, ctx) => {
+		if (backend.provider !== 'openai-compatible') return
+		for (const key of ['baseUrl', 'model'] as const) {
+			if (!backend[key]) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					path: [key],
+					message: `${key} is required for the openai-compatible provider`,
+				})
+			}
+		}
+	})
+
+/**
+ * Model backends per enrichment kind; kinds left out use Gemini
+ */
+const ModelsConfigSchema = z.object({
+	image: ModelBackendSchema.optional(),
+	audio: ModelBackendSchema.optional(),
+	pdf: ModelBackendSchema.optional(),
+})
+
 /**
  * Enrichment pipeline configuration
  */
@@ -36,8 +75,12 @@ const EnrichmentConfigSchema = z.object({
 	enableVisionAnalysis: z.boolean().default(true),
 	enableAudioTranscription: z.boolean().default(true),
 	enableLinkEnrichment: z.boolean().default(true),
+	enablePdfAnalysis: z.boolean().default(false),
+	enableVideoMetadata: z.boolean().default(false),
 	imageCacheDir: z.string().default('./.cache/images'),
+	cacheDir: z.string().default('./.cache/enrichments'),
 	checkpointInterval: z.number().min(1).max(10000).default(100),
+	concurrency: z.number().int().min(1).max(32).default(1),
 	forceRefresh: z.boolean().default(false),
 })
 
@@ -49,8 +92,170 @@ const RenderConfigSchema = z.object({
 	renderRepliesAsNested: z.boolean().default(true),
 	renderTapbacksAsEmoji: z.boolean().default(true),
 	maxNestingDepth: z.number().min(1).max(100).default(10),
+	/** IANA timezone for day pages and timestamps (default: system zone) */
+	timezone: z
+		.string()
+		.refine(isValidTimeZone, {
+			message: 'Unknown timezone (use an IANA name like "Australia/Melbourne")',
+		})
+		.optional(),
+})
+
+/**
+ * Contacts (address book) configuration
+ *
+ * Sources are vCard (.vcf), YAML or CSV alias maps, merged in order
+ */
+export const ContactsConfigSchema = z.object({
+	sources: z.array(z.string().min(1, 'Contacts source path cannot be empty')),
+	defaultCountryCode: z
+		.string()
+		.regex(/^\+?\d{1,3}$/, 'Country calling code must be 1-3 digits')
+		.optional(),
+})
+
+/**
+ * Self identity: how the export owner is shown in place of their handles
+ *
+ * When `handles` is empty they are detected from destinationCallerId
+ */
+export const SelfConfigSchema = z.object({
+	name: z.string().min(1, 'Self name cannot be empty').default('Me'),
+	handles: z.array(z.string().min(1)).default([]),
+})
+
+const TapbackTemplateSchema = z
+	.string()
+	.includes('{target}', { message: 'Tapback phrase must contain {target}' })
+
+/**
+ * Tapback phrase templates for one locale, keyed by tapback type
+ */
+const TapbackTemplatesSchema = z
+	.object({
+		loved: z.array(TapbackTemplateSchema).optional(),
+		liked: z.array(TapbackTemplateSchema).optional(),
+		disliked: z.array(TapbackTemplateSchema).optional(),
+		laughed: z.array(TapbackTemplateSchema).optional(),
+		emphasized: z.array(TapbackTemplateSchema).optional(),
+		questioned: z.array(TapbackTemplateSchema).optional(),
+		emoji: z
+			.array(
+				TapbackTemplateSchema.includes('{emoji}', {
+					message: 'Emoji tapback phrase must contain {emoji}',
+				}),
+			)
+			.optional(),
+	})
+	.strict()
+
+/**
+ * CSV ingest configuration
+ *
+ * `tapbackLocales` adds reaction phrasings of other languages, by locale
+ * name, to the built-in English ones (see src/ingest/tapback-phrases.ts)
+ */
+export const IngestConfigSchema = z.object({
+	tapbackLocales: z
+		.record(
+			z.object({
+				added: TapbackTemplatesSchema.optional(),
+				removed: TapbackTemplatesSchema.optional(),
+				mediaTargets: z.array(z.string().min(1)).optional(),
+			}),
+		)
+		.default({}),
 })
 
+/**
+ * Thresholds for normalize-link's fuzzy dedup matcher (see
+ * src/ingest/dedup-merge.ts)
+ */
+export const DedupConfigSchema = z.object({
+	timeWindowSeconds: z.number().positive().default(120),
+	minScore: z.number().min(0).max(1).default(0.8),
+	maxTextDistance: z.number().min(0).max(1).default(0.2),
+})
+
+type TapbackTemplates = {
+	loved?: string[]
+	liked?: string[]
+	disliked?: string[]
+	laughed?: string[]
+	emphasized?: string[]
+	questioned?: string[]
+	emoji?: string[]
+}
+
+/**
+ * Stages of `chatline run`, in the order they execute
+ */
+export const PIPELINE_STAGES = [
+	'ingest',
+	'normalize',
+	'enrich',
+	'render',
+] as const
+
+export type PipelineStage = (typeof PIPELINE_STAGES)[number]
+
+const DateSchema = z
+	.string()
+	.regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must use YYYY-MM-DD format')
+
+/**
+ * Pipeline run by `chatline run`: where messages come from, where the
+ * intermediate files and timeline go, and which stages run
+ */
+export const PipelineConfigSchema = z.object({
+	outputDir: z
+		.string()
+		.min(1, 'Pipeline output directory cannot be empty')
+		.default('./chatline-output'),
+	sources: z
+		.array(
+			z.object({
+				type: z.enum(['csv', 'db']),
+				path: z.string().min(1, 'Pipeline source path cannot be empty'),
+			}),
+		)
+		.min(1, 'At least one pipeline source is required'),
+	stages: z
+		.array(z.enum(PIPELINE_STAGES))
+		.min(1, 'At least one pipeline stage is required')
+		.default([...PIPELINE_STAGES]),
+	options: z
+		.object({
+			ingest: z
+				.object({ contact: z.string().optional(), chat: z.string().optional() })
+				.default({}),
+			normalize: z
+				.object({
+					chat: z.string().optional(),
+					overrides: z.string().optional(),
+				})
+				.default({}),
+			enrich: z.object({ incremental: z.boolean().default(true) }).default({}),
+			render: z
+				.object({
+					startDate: DateSchema.optional(),
+					endDate: DateSchema.optional(),
+					chat: z.string().optional(),
+				})
+				.default({}),
+		})
+		.default({}),
+})
+
+type ModelBackend = {
+	provider: 'gemini' | 'openai-compatible'
+	model?: string
+	baseUrl?: string
+	apiKey?: string
+	name?: string
+	timeoutMs?: number
+}
+
 /**
  * TypeScript type for the full configuration
  * Explicitly defined for DTS generation compatibility
@@ -72,8 +277,12 @@ export type Config = {
 		enableVisionAnalysis: boolean
 		enableAudioTranscription: boolean
 		enableLinkEnrichment: boolean
+		enablePdfAnalysis: boolean
+		enableVideoMetadata: boolean
 		imageCacheDir: string
+		cacheDir: string
 		checkpointInterval: number
+		concurrency: number
 		forceRefresh: boolean
 	}
 	render: {
@@ -81,6 +290,46 @@ export type Config = {
 		renderRepliesAsNested: boolean
 		renderTapbacksAsEmoji: boolean
 		maxNestingDepth: number
+		timezone?: string
+	}
+	contacts?: {
+		sources: string[]
+		defaultCountryCode?: string
+	}
+	self?: {
+		name: string
+		handles: string[]
+	}
+	ingest?: {
+		tapbackLocales: Record<
+			string,
+			{
+				added?: TapbackTemplates
+				removed?: TapbackTemplates
+				mediaTargets?: string[]
+			}
+		>
+	}
+	models?: {
+		image?: ModelBackend
+		audio?: ModelBackend
+		pdf?: ModelBackend
+	}
+	dedup?: {
+		timeWindowSeconds: number
+		minScore: number
+		maxTextDistance: number
+	}
+	pipeline?: {
+		outputDir: string
+		sources: Array<{ type: 'csv' | 'db'; path: string }>
+		stages: PipelineStage[]
+		options: {
+			ingest: { contact?: string; chat?: string }
+			normalize: { chat?: string; overrides?: string }
+			enrich: { incremental: boolean }
+			render: { startDate?: string; endDate?: string; chat?: string }
+		}
 	}
 }
 
@@ -92,7 +341,7 @@ export type Config = {
  * - CONFIG-T01-AC03: Environment variable interpolation via ${ENV_VAR}
  * - CONFIG-T01-AC05: Validation errors with field paths
  */
-export const ConfigSchema: z.ZodType<Config, z.ZodTypeDef, unknown> = z.object({
+const configShape = {
 	version: z.string().default('1.0'),
 	attachmentRoots: z
 		.array(z.string().min(1, 'Attachment root path cannot be empty'))
@@ -104,8 +353,12 @@ export const ConfigSchema: z.ZodType<Config, z.ZodTypeDef, unknown> = z.object({
 		enableVisionAnalysis: true,
 		enableAudioTranscription: true,
 		enableLinkEnrichment: true,
+		enablePdfAnalysis: false,
+		enableVideoMetadata: false,
 		imageCacheDir: './.cache/images',
+		cacheDir: './.cache/enrichments',
 		checkpointInterval: 100,
+		concurrency: 1,
 		forceRefresh: false,
 	}),
 	render: RenderConfigSchema.default({
@@ -114,6 +367,35 @@ export const ConfigSchema: z.ZodType<Config, z.ZodTypeDef, unknown> = z.object({
 		renderTapbacksAsEmoji: true,
 		maxNestingDepth: 10,
 	}),
+	contacts: ContactsConfigSchema.optional(),
+	self: SelfConfigSchema.optional(),
+	ingest: IngestConfigSchema.optional(),
+	models: ModelsConfigSchema.optional(),
+	dedup: DedupConfigSchema.optional(),
+	pipeline: PipelineConfigSchema.optional(),
+}
+
+export const ConfigSchema: z.ZodType<Config, z.ZodTypeDef, unknown> =
+	z.object(configShape)
+
+/**
+ * Configuration as resolved for a command
+ *
+ * Same as Config except that gemini.apiKey may be unset: commands that never
+ * call the API must still run without one, and enrich-ai checks for it
+ * before it needs it.
+ */
+export type ResolvedConfig = Omit<Config, 'gemini'> & {
+	gemini: Omit<Config['gemini'], 'apiKey'> & { apiKey?: string }
+}
+
+export const ResolvedConfigSchema: z.ZodType<
+	ResolvedConfig,
+	z.ZodTypeDef,
+	unknown
+> = z.object({
+	...configShape,
+	gemini: GeminiConfigSchema.partial({ apiKey: true }).default({}),
 })
 
 /**
@@ -178,8 +460,12 @@ export const DEFAULT_CONFIG: Partial<Config> = {
 		enableVisionAnalysis: true,
 		enableAudioTranscription: true,
 		enableLinkEnrichment: true,
+		enablePdfAnalysis: false,
+		enableVideoMetadata: false,
 		imageCacheDir: './.cache/images',
+		cacheDir: './.cache/enrichments',
 		checkpointInterval: 100,
+		concurrency: 1,
 		forceRefresh: false,
 	},
 	render: {
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import {
+	isNationalNumber,
+	normalizeEmail,
+	normalizeHandle,
+	normalizePhoneNumber,
+} from '../normalize'
+
+describe('normalizePhoneNumber', () => {
+	it('keeps international numbers and strips formatting', () => {
+		expect(normalizePhoneNumber('+61 400 111 222')).toBe('+61400111222')
+		expect(normalizePhoneNumber('+1 (555) 123-4567')).toBe('+15551234567')
+	})
+
+	it('converts the 00 international prefix', () => {
+		expect(normalizePhoneNumber('0061 400 111 222')).toBe('+61400111222')
+	})
+
+	it('applies the default country code to national numbers', () => {
+		const options = { defaultCountryCode: '61' }
+		expect(normalizePhoneNumber('0400 111 222', options)).toBe('+61400111222')
+		expect(normalizePhoneNumber('400111222', options)).toBe('+61400111222')
+		expect(normalizePhoneNumber('61400111222', options)).toBe('+61400111222')
+	})
+
+	it('keeps national numbers as bare digits without a country code', () => {
+		expect(normalizePhoneNumber('0400 111 222')).toBe('0400111222')
+		expect(normalizeHandle('tel:0400-111-222')).toBe('0400111222')
+	})
+
+	it('accepts a country code written with a plus sign', () => {
+		expect(normalizePhoneNumber('0400111222', { defaultCountryCode: '+61' })).toBe('+61400111222')
+	})
+
+	it('leaves short codes as bare digits', () => {
+		expect(normalizePhoneNumber('12345', { defaultCountryCode: '61' })).toBe('12345')
+	})
+
+	it('returns null for non-numeric input', () => {
+		expect(normalizePhoneNumber('Sender ID')).toBeNull()
+		expect(normalizePhoneNumber('')).toBeNull()
+	})
+})
+
+describe('isNationalNumber', () => {
+	it('detects numbers with a trunk 0 and no country code', () => {
+		expect(isNationalNumber('0400 111 222')).toBe(true)
+		expect(isNationalNumber('tel:0400111222')).toBe(true)
+	})
+
+	it('rejects international numbers, short codes and emails', () => {
+		expect(isNationalNumber('+61 400 111 222')).toBe(false)
+		expect(isNationalNumber('0061 400 111 222')).toBe(false)
+		expect(isNationalNumber('01234')).toBe(false)
+		expect(isNationalNumber('jane@example.com')).toBe(false)
+	})
+})
+
+describe('normalizeEmail', () => {
+	it('lower-cases and trims', () => {
+		expect(normalizeEmail('  Jane@Example.COM ')).toBe('jane@example.com')
+	})
+})
+
+describe('normalizeHandle', () => {
+	it('strips URI schemes', () => {
+		expect(normalizeHandle('mailto:Jane@Example.com')).toBe('jane@example.com')
+		expect(normalizeHandle('tel:+61400111222')).toBe('+61400111222')
+	})
+
+	it('returns other handles trimmed as-is', () => {
+		expect(normalizeHandle(' AcmeBank ')).toBe('AcmeBank')
+	})
+})
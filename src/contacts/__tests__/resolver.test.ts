@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import { createContactFilter, createContactResolver } from '../resolver'
+
+const entries = [
+	{ id: 'jane', name: 'Jane Doe', handles: ['+61 400 111 222'] },
+	{ name: 'Jane D', handles: ['0400111222', 'Jane@Example.com'] },
+	{ name: 'Mum', handles: ['+61400333444'] },
+	{ name: 'Mum', handles: ['mum@example.com'] },
+]
+
+describe('createContactResolver', () => {
+	const resolver = createContactResolver(entries, { defaultCountryCode: '61' })
+
+	it('resolves any spelling of a handle to the same person', () => {
+		for (const handle of [
+			'+61400111222',
+			'0400 111 222',
+			'tel:+61 400 111 222',
+			'jane@example.com',
+		]) {
+			expect(resolver.resolve(handle)).toMatchObject({
+				personId: 'jane',
+				displayName: 'Jane Doe',
+				known: true,
+			})
+		}
+	})
+
+	it('merges entries that share a handle', () => {
+		const jane = resolver.people.find((p) => p.id === 'jane')
+		expect(jane?.handles).toEqual(['+61400111222', 'jane@example.com'])
+	})
+
+	it('derives unique ids from names', () => {
+		expect(resolver.people.map((p) => p.id)).toEqual(['jane', 'person:mum', 'person:mum-2'])
+	})
+
+	it('resolves unknown handles to themselves', () => {
+		expect(resolver.resolve('+1 555 123 4567')).toEqual({
+			handle: '+15551234567',
+			personId: 'handle:+15551234567',
+			displayName: '+1 555 123 4567',
+			known: false,
+		})
+	})
+
+	it('finds people by id, name or handle', () => {
+		expect(resolver.find('jane').map((p) => p.id)).toEqual(['jane'])
+		expect(resolver.find('jane doe').map((p) => p.id)).toEqual(['jane'])
+		expect(resolver.find('mum').map((p) => p.id)).toEqual(['person:mum', 'person:mum-2'])
+		expect(resolver.find('0400111222').map((p) => p.id)).toEqual(['jane'])
+		expect(resolver.find('nobody')).toEqual([])
+	})
+})
+
+describe('createContactFilter', () => {
+	const resolver = createContactResolver(entries, { defaultCountryCode: '61' })
+
+	it('matches every handle of the selected person', () => {
+		const matches = createContactFilter(resolver, 'Jane Doe')
+		expect(matches('+61400111222')).toBe(true)
+		expect(matches('jane@example.com')).toBe(true)
+		expect(matches('+61400333444')).toBe(false)
+		expect(matches(undefined)).toBe(false)
+	})
+
+	it('matches unknown handles by their normalized form', () => {
+		const matches = createContactFilter(resolver, '+1 555 123 4567')
+		expect(matches('+15551234567')).toBe(true)
+		expect(matches('+61400111222')).toBe(false)
+	})
+
+	it('falls back to exact handle matching without a resolver', () => {
+		const matches = createContactFilter(null, '+61400111222')
+		expect(matches('+61400111222')).toBe(true)
+		expect(matches('0400111222')).toBe(false)
+	})
+})
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import type { Message } from '#schema/message'
+import { createContactResolver } from '../resolver'
+import { createSenderIdentifier, detectSelfHandles, resolveSelfIdentity } from '../self'
+
+function createMessage(partial: Partial<Message>): Message {
+	return {
+		guid: 'test-guid',
+		messageKind: 'text',
+		text: 'hello',
+		isFromMe: false,
+		date: '2025-10-17T10:00:00.000Z',
+		...partial,
+	}
+}
+
+const messages = [
+	createMessage({
+		isFromMe: true,
+		handle: '+61400111222',
+		destinationCallerId: 'Me@Example.com',
+	}),
+	createMessage({
+		handle: '+61400111222',
+		destinationCallerId: '+61 400 000 000',
+	}),
+	createMessage({ handle: '+61400333444' }),
+]
+
+describe('detectSelfHandles', () => {
+	it('collects unique normalized destinationCallerIds', () => {
+		expect(detectSelfHandles([...messages, ...messages])).toEqual([
+			'+61400000000',
+			'me@example.com',
+		])
+	})
+})
+
+describe('resolveSelfIdentity', () => {
+	it('defaults to "Me" with detected handles', () => {
+		expect(resolveSelfIdentity(undefined, messages)).toEqual({
+			name: 'Me',
+			handles: ['+61400000000', 'me@example.com'],
+		})
+	})
+
+	it('prefers configured handles over detection', () => {
+		expect(
+			resolveSelfIdentity({ name: 'Nathan', handles: ['0400 999 888'] }, messages, {
+				defaultCountryCode: '61',
+			}),
+		).toEqual({ name: 'Nathan', handles: ['+61400999888'] })
+	})
+})
+
+describe('createSenderIdentifier', () => {
+	const self = { name: 'Nathan', handles: ['+61400000000'] }
+
+	it('labels outgoing messages as self, not by their handle', () => {
+		const identify = createSenderIdentifier(self)
+		expect(identify(messages[0] as Message)).toEqual({
+			key: 'self',
+			label: 'Nathan',
+			isSelf: true,
+		})
+	})
+
+	it('labels messages from one of the owner handles as self', () => {
+		const identify = createSenderIdentifier(self)
+		expect(identify(createMessage({ handle: '+61 400 000 000' })).isSelf).toBe(true)
+	})
+
+	it('uses contact names for other senders', () => {
+		const contacts = createContactResolver([
+			{ id: 'jane', name: 'Jane Doe', handles: ['+61400111222'] },
+		])
+		const identify = createSenderIdentifier(self, contacts)
+
+		expect(identify(messages[1] as Message)).toEqual({
+			key: 'jane',
+			label: 'Jane Doe',
+			isSelf: false,
+		})
+		expect(identify(messages[2] as Message).label).toBe('+61400333444')
+	})
+
+	it('falls back to the raw handle or Unknown', () => {
+		const identify = createSenderIdentifier(self)
+		expect(identify(messages[2] as Message).label).toBe('+61400333444')
+		expect(identify(createMessage({})).label).toBe('Unknown')
+	})
+})
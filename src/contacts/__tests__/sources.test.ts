@@ -0,0 +1,147 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+	detectContactSourceFormat,
+	loadContactEntries,
+	parseAliasCsv,
+	parseAliasYaml,
+	parseVCard,
+} from '../sources'
+
+describe('parseVCard', () => {
+	it('reads names, phones, emails and UIDs', () => {
+		const vcf = [
+			'BEGIN:VCARD',
+			'VERSION:3.0',
+			'N:Doe;Jane;;;',
+			'FN:Jane Doe',
+			'UID:ABC-123',
+			'TEL;type=CELL;type=VOICE:+61 400 111 222',
+			'item1.EMAIL;type=INTERNET:jane@example.com',
+			'item1.X-ABLabel:_$!<Other>!$_',
+			'END:VCARD',
+		].join('\r\n')
+
+		expect(parseVCard(vcf)).toEqual([
+			{
+				id: 'ABC-123',
+				name: 'Jane Doe',
+				handles: ['+61 400 111 222', 'jane@example.com'],
+			},
+		])
+	})
+
+	it('unfolds continuation lines and falls back to N and ORG', () => {
+		const vcf = [
+			'BEGIN:VCARD',
+			'N:Smith;John;;;',
+			'EMAIL:john.smith@exa',
+			' mple.com',
+			'END:VCARD',
+			'BEGIN:VCARD',
+			'ORG:Acme Pty Ltd;Sales',
+			'TEL:131313',
+			'END:VCARD',
+		].join('\n')
+
+		expect(parseVCard(vcf)).toEqual([
+			{ name: 'John Smith', handles: ['john.smith@example.com'] },
+			{ name: 'Acme Pty Ltd', handles: ['131313'] },
+		])
+	})
+
+	it('skips cards without handles', () => {
+		const vcf = 'BEGIN:VCARD\nFN:No Handles\nEND:VCARD\n'
+		expect(parseVCard(vcf)).toEqual([])
+	})
+})
+
+describe('parseAliasYaml', () => {
+	it('reads a list of contacts', () => {
+		const content = [
+			'- name: Jane Doe',
+			'  id: jane',
+			'  handles: ["+61 400 111 222", jane@example.com]',
+			'- name: Mum',
+			'  handle: "+61400333444"',
+		].join('\n')
+
+		expect(parseAliasYaml(content)).toEqual([
+			{
+				id: 'jane',
+				name: 'Jane Doe',
+				handles: ['+61 400 111 222', 'jane@example.com'],
+			},
+			{ name: 'Mum', handles: ['+61400333444'] },
+		])
+	})
+
+	it('reads a name to handles mapping', () => {
+		expect(parseAliasYaml('Jane Doe: [jane@example.com]\n')).toEqual([
+			{ name: 'Jane Doe', handles: ['jane@example.com'] },
+		])
+	})
+
+	it('rejects entries without a name', () => {
+		expect(() => parseAliasYaml('- handles: [a@b.com]\n')).toThrow('Entry 0 is missing "name"')
+	})
+})
+
+describe('parseAliasCsv', () => {
+	it('combines rows for the same contact and splits handle lists', () => {
+		const csv = [
+			'Name,Handle,Id',
+			'Jane Doe,+61400111222,jane',
+			'Jane Doe,jane@example.com,jane',
+			'Mum,+61400333444;mum@example.com,',
+		].join('\n')
+
+		expect(parseAliasCsv(csv)).toEqual([
+			{
+				id: 'jane',
+				name: 'Jane Doe',
+				handles: ['+61400111222', 'jane@example.com'],
+			},
+			{ name: 'Mum', handles: ['+61400333444', 'mum@example.com'] },
+		])
+	})
+})
+
+describe('loadContactEntries', () => {
+	let dir: string
+
+	beforeEach(async () => {
+		dir = await mkdtemp(path.join(tmpdir(), 'contacts-'))
+	})
+
+	afterEach(async () => {
+		await rm(dir, { recursive: true, force: true })
+	})
+
+	it('loads files in order using their extension', async () => {
+		const yamlFile = path.join(dir, 'aliases.yaml')
+		const csvFile = path.join(dir, 'aliases.csv')
+		await writeFile(yamlFile, 'Jane: [jane@example.com]\n')
+		await writeFile(csvFile, 'name,handle\nMum,+61400333444\n')
+
+		const entries = await loadContactEntries([yamlFile, csvFile])
+		expect(entries.map((e) => e.name)).toEqual(['Jane', 'Mum'])
+	})
+
+	it('names the file when parsing fails', async () => {
+		const file = path.join(dir, 'broken.yaml')
+		await writeFile(file, '- handles: [a@b.com]\n')
+
+		await expect(loadContactEntries([file])).rejects.toThrow(
+			`Failed to parse contacts file ${file}`,
+		)
+	})
+
+	it('rejects unsupported extensions', () => {
+		expect(() => detectContactSourceFormat('contacts.json')).toThrow(
+			'Unsupported contacts file format',
+		)
+	})
+})
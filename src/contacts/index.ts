@@ -0,0 +1,62 @@
+/**
+ * Contacts Module - Main Entry Point
+ *
+ * Resolves message handles (phone numbers, emails) to people using a local
+ * address book: vCard exports or YAML/CSV alias maps listed in the config
+ * `contacts` section.
+ */
+
+export * from './normalize.js'
+export * from './resolver.js'
+export * from './self.js'
+export * from './sources.js'
+
+import * as path from 'node:path'
+
+import { createLogger } from '#utils/logger'
+
+import { isNationalNumber } from './normalize.js'
+import { type ContactResolver, createContactResolver } from './resolver.js'
+import { loadContactEntries } from './sources.js'
+
+const logger = createLogger('contacts')
+
+export type ContactsSettings = {
+	sources: string[]
+	defaultCountryCode?: string
+}
+
+/**
+ * Load all contact sources and build a resolver
+ *
+ * @param settings - Sources and normalization settings (config `contacts`)
+ * @param baseDir - Directory relative source paths are resolved against
+ * @throws Error if a source cannot be read or parsed
+ */
+export async function loadContactResolver(
+	settings: ContactsSettings,
+	baseDir: string = process.cwd(),
+): Promise<ContactResolver> {
+	const files = settings.sources.map((source) => path.resolve(baseDir, source))
+	const entries = await loadContactEntries(files)
+
+	if (!settings.defaultCountryCode) {
+		const national = entries
+			.flatMap((entry) => entry.handles)
+			.filter(isNationalNumber)
+		if (national.length > 0) {
+			// chat.db stores +<country code> handles, so these never match
+			logger.warn(
+				'Contacts have national phone numbers but contacts.defaultCountryCode is not set; they will not match message handles',
+				{ count: national.length, examples: national.slice(0, 3) },
+			)
+		}
+	}
+
+	return createContactResolver(
+		entries,
+		settings.defaultCountryCode
+			? { defaultCountryCode: settings.defaultCountryCode }
+			: {},
+	)
+}
@@ -0,0 +1,106 @@
+/**
+ * Handle normalization
+ *
+ * Messages.app, iMazing and address books all format the same handle
+ * differently ("+61 400 111 222", "0400111222", "tel:+61400111222",
+ * "Jane@Example.com"). Everything is reduced to one canonical key before
+ * lookups:
+ * - emails: trimmed and lower-cased
+ * - phone numbers: E.164 (+<country code><number>); national numbers with a
+ *   trunk 0 stay bare digits unless a default country code is configured
+ * - anything else (short codes, business ids): trimmed as-is
+ */
+
+export type NormalizeHandleOptions = {
+	/**
+	 * Country calling code (digits only, e.g. "61") applied to national
+	 * numbers written with a leading trunk 0 or without any prefix
+	 */
+	defaultCountryCode?: string
+}
+
+/** Numbers this short are SMS short codes, never E.164 */
+const MAX_SHORT_CODE_DIGITS = 6
+
+/**
+ * Normalize an email address or phone number to its lookup key
+ *
+ * @example
+ * normalizeHandle('+61 400 111 222') // '+61400111222'
+ * normalizeHandle('0400 111 222', { defaultCountryCode: '61' }) // '+61400111222'
+ * normalizeHandle('mailto:Jane@Example.com') // 'jane@example.com'
+ */
+export function normalizeHandle(
+	handle: string,
+	options: NormalizeHandleOptions = {},
+): string {
+	const trimmed = handle.trim().replace(/^(mailto|tel|sms):/i, '')
+
+	if (trimmed.includes('@')) {
+		return normalizeEmail(trimmed)
+	}
+
+	return normalizePhoneNumber(trimmed, options) ?? trimmed
+}
+
+/**
+ * Lower-case and trim an email address
+ */
+export function normalizeEmail(email: string): string {
+	return email
+		.trim()
+		.replace(/^mailto:/i, '')
+		.toLowerCase()
+}
+
+/**
+ * Convert a phone number to E.164
+ *
+ * @returns E.164 string, the bare digits for short codes and for national
+ * numbers when no country code is known, or null if the input is not a
+ * phone number
+ */
+export function normalizePhoneNumber(
+	phone: string,
+	options: NormalizeHandleOptions = {},
+): string | null {
+	const trimmed = phone.trim()
+	// Only digits, spaces and common separators are phone numbers
+	if (!/^\+?[\d\s().\-/]+$/.test(trimmed)) return null
+
+	const digits = trimmed.replace(/\D/g, '')
+	if (digits.length === 0) return null
+
+	if (trimmed.startsWith('+')) return `+${digits}`
+	// International dialling prefix
+	if (digits.startsWith('00')) return `+${digits.slice(2)}`
+	if (digits.length <= MAX_SHORT_CODE_DIGITS) return digits
+
+	const countryCode = options.defaultCountryCode?.replace(/\D/g, '')
+	// National format with trunk prefix, e.g. 0400 111 222; without a country
+	// code there is no E.164 form, and "+0400…" would match nothing
+	if (digits.startsWith('0')) {
+		return countryCode ? `+${countryCode}${digits.slice(1)}` : digits
+	}
+	if (!countryCode) return `+${digits}`
+	// Already includes the country code, e.g. 61400111222
+	if (digits.startsWith(countryCode) && digits.length > 10) {
+		return `+${digits}`
+	}
+	return `+${countryCode}${digits}`
+}
+
+/**
+ * Whether a phone number is in national format (trunk 0, no country code),
+ * which only normalizes to E.164 with a default country code
+ */
+export function isNationalNumber(phone: string): boolean {
+	const trimmed = phone.trim().replace(/^(tel|sms):/i, '')
+	if (trimmed.startsWith('+')) return false
+	const digits = normalizePhoneNumber(trimmed)
+	return (
+		digits !== null &&
+		/^0[1-9]/.test(digits) &&
+		digits.length > MAX_SHORT_CODE_DIGITS
+	)
+}
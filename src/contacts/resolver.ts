@@ -0,0 +1,152 @@
+import { type NormalizeHandleOptions, normalizeHandle } from './normalize.js'
+import type { ContactEntry } from './sources.js'
+
+/**
+ * Contact resolver
+ *
+ * Maps any spelling of a handle to the person it belongs to. Entries that
+ * share a normalized handle are merged into one person (first entry's name
+ * and id win), so a vCard export and an alias file can be combined.
+ */
+
+export type Person = {
+	/** Stable id: source id when given, otherwise derived from the name */
+	id: string
+	displayName: string
+	/** Normalized handles (E.164 phone numbers, lower-case emails) */
+	handles: string[]
+}
+
+export type ResolvedHandle = {
+	/** Normalized handle */
+	handle: string
+	/** Person id, or `handle:<normalized>` for unknown handles */
+	personId: string
+	/** Contact name, or the original handle for unknown handles */
+	displayName: string
+	/** True when the handle matched an address-book entry */
+	known: boolean
+}
+
+export type ContactResolver = {
+	/** Resolve a raw handle to a person (unknown handles resolve to themselves) */
+	resolve(handle: string): ResolvedHandle
+	/** Find people by id, name (case-insensitive) or any of their handles */
+	find(query: string): Person[]
+	readonly people: readonly Person[]
+}
+
+/**
+ * Build a resolver from contact entries
+ *
+ * @param entries - Entries in priority order
+ * @param options - Normalization options (default country code)
+ */
+export function createContactResolver(
+	entries: ContactEntry[],
+	options: NormalizeHandleOptions = {},
+): ContactResolver {
+	const people: Person[] = []
+	const byHandle = new Map<string, Person>()
+	const usedIds = new Set<string>()
+
+	for (const entry of entries) {
+		const handles = Array.from(
+			new Set(entry.handles.map((h) => normalizeHandle(h, options))),
+		)
+
+		// Merge into an existing person that already owns one of the handles
+		const existing = handles
+			.map((h) => byHandle.get(h))
+			.find((p): p is Person => p !== undefined)
+		const person: Person = existing ?? {
+			id: uniqueId(entry.id ?? `person:${slugify(entry.name)}`, usedIds),
+			displayName: entry.name,
+			handles: [],
+		}
+		if (!existing) people.push(person)
+
+		for (const handle of handles) {
+			if (byHandle.has(handle)) continue
+			byHandle.set(handle, person)
+			person.handles.push(handle)
+		}
+	}
+
+	return {
+		people,
+		resolve(handle: string): ResolvedHandle {
+			const normalized = normalizeHandle(handle, options)
+			const person = byHandle.get(normalized)
+			if (person) {
+				return {
+					handle: normalized,
+					personId: person.id,
+					displayName: person.displayName,
+					known: true,
+				}
+			}
+			return {
+				handle: normalized,
+				personId: `handle:${normalized}`,
+				displayName: handle,
+				known: false,
+			}
+		},
+		find(query: string): Person[] {
+			const needle = query.trim().toLowerCase()
+			const byId = people.filter((p) => p.id === query)
+			if (byId.length > 0) return byId
+			const byName = people.filter(
+				(p) => p.displayName.toLowerCase() === needle,
+			)
+			if (byName.length > 0) return byName
+			const person = byHandle.get(normalizeHandle(query, options))
+			return person ? [person] : []
+		},
+	}
+}
+
+/**
+ * Build a handle predicate for a contact filter (e.g. `--contact`)
+ *
+ * With a resolver, the query may be a person id, a contact name or any of
+ * the person's handles, and every handle of that person matches. Without
+ * one, only the exact handle matches.
+ */
+export function createContactFilter(
+	resolver: ContactResolver | null,
+	query: string,
+): (handle: string | null | undefined) => boolean {
+	if (!resolver) {
+		return (handle) => handle === query
+	}
+
+	const personIds = new Set(resolver.find(query).map((p) => p.id))
+	if (personIds.size === 0) {
+		const target = resolver.resolve(query).handle
+		return (handle) => !!handle && resolver.resolve(handle).handle === target
+	}
+	return (handle) =>
+		!!handle && personIds.has(resolver.resolve(handle).personId)
+}
+
+function slugify(name: string): string {
+	return (
+		name
+			.normalize('NFKD')
+			.replace(/[\u0300-\u036f]/g, '')
+			.toLowerCase()
+			.replace(/[^a-z0-9]+/g, '-')
+			.replace(/^-+|-+$/g, '') || 'unnamed'
+	)
+}
+
+function uniqueId(base: string, used: Set<string>): string {
+	let id = base
+	for (let n = 2; used.has(id); n++) {
+		id = `${base}-${n}`
+	}
+	used.add(id)
+	return id
+}
@@ -0,0 +1,115 @@
+import type { Message } from '#schema/message'
+import { type NormalizeHandleOptions, normalizeHandle } from './normalize.js'
+import type { ContactResolver } from './resolver.js'
+
+/**
+ * Self identity
+ *
+ * The export owner ("Me") is identified by isFromMe and by their own handles.
+ * chat.db stores the other party in `handle` even for outgoing messages, so
+ * outgoing messages must never be labelled by their handle.
+ */
+
+export const DEFAULT_SELF_NAME = 'Me'
+
+/** Person id used for the export owner */
+export const SELF_PERSON_ID = 'self'
+
+export type SelfIdentity = {
+	/** Name shown for the owner's messages */
+	name: string
+	/** The owner's own handles (phone numbers, Apple IDs), normalized */
+	handles: string[]
+}
+
+export type SelfSettings = {
+	name?: string
+	handles?: string[]
+}
+
+export type SenderIdentity = {
+	/** Stable key: `self`, a contact person id, the raw handle or `unknown` */
+	key: string
+	label: string
+	isSelf: boolean
+}
+
+/**
+ * Collect the owner's handles from destinationCallerId
+ *
+ * Messages.app records the account that sent or received each message, which
+ * is always one of the owner's own handles.
+ *
+ * @returns Unique normalized handles, sorted
+ */
+export function detectSelfHandles(
+	messages: Iterable<Pick<Message, 'destinationCallerId'>>,
+	options: NormalizeHandleOptions = {},
+): string[] {
+	const handles = new Set<string>()
+	for (const msg of messages) {
+		if (msg.destinationCallerId) {
+			handles.add(normalizeHandle(msg.destinationCallerId, options))
+		}
+	}
+	return Array.from(handles).sort()
+}
+
+/**
+ * Build the self identity from config, detecting handles when none are set
+ *
+ * @param settings - Config `self` section, if any
+ * @param messages - Messages used for destinationCallerId detection
+ */
+export function resolveSelfIdentity(
+	settings: SelfSettings | undefined,
+	messages: Iterable<Pick<Message, 'destinationCallerId'>>,
+	options: NormalizeHandleOptions = {},
+): SelfIdentity {
+	const configured = settings?.handles ?? []
+	return {
+		name: settings?.name || DEFAULT_SELF_NAME,
+		handles:
+			configured.length > 0
+				? Array.from(
+						new Set(configured.map((h) => normalizeHandle(h, options))),
+					).sort()
+				: detectSelfHandles(messages, options),
+	}
+}
+
+/**
+ * Build a function that names the sender of a message
+ *
+ * Owner messages (isFromMe, or a handle that belongs to the owner) map to the
+ * self identity; other handles go through the contact resolver when given.
+ */
+export function createSenderIdentifier(
+	self: SelfIdentity,
+	contacts: ContactResolver | null = null,
+	options: NormalizeHandleOptions = {},
+): (message: Pick<Message, 'isFromMe' | 'handle'>) => SenderIdentity {
+	const selfHandles = new Set(self.handles)
+
+	return (message) => {
+		if (
+			message.isFromMe ||
+			(message.handle &&
+				selfHandles.has(normalizeHandle(message.handle, options)))
+		) {
+			return { key: SELF_PERSON_ID, label: self.name, isSelf: true }
+		}
+		if (!message.handle) {
+			return { key: 'unknown', label: 'Unknown', isSelf: false }
+		}
+		if (contacts) {
+			const resolved = contacts.resolve(message.handle)
+			return {
+				key: resolved.personId,
+				label: resolved.displayName,
+				isSelf: false,
+			}
+		}
+		return { key: message.handle, label: message.handle, isSelf: false }
+	}
+}
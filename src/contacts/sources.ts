@@ -0,0 +1,258 @@
+import { readFile } from 'node:fs/promises'
+import * as path from 'node:path'
+
+import { parse } from 'csv-parse/sync'
+import yaml from 'js-yaml'
+
+/**
+ * Contact sources
+ *
+ * Reads address-book entries from:
+ * - vCard (.vcf): FN/N, TEL, EMAIL, UID (as exported by Contacts.app)
+ * - YAML (.yaml/.yml) alias map, either a list of
+ *   `{ name, id?, handles: [...] }` or a `Name: [handles]` mapping
+ * - CSV (.csv) with `name` plus `handle` or `handles` (`;`-separated) and
+ *   an optional `id` column
+ *
+ * Handles are returned as written; normalization happens in the resolver.
+ */
+
+export type ContactEntry = {
+	/** Stable id from the source (vCard UID or alias `id`), if any */
+	id?: string
+	name: string
+	handles: string[]
+}
+
+export type ContactSourceFormat = 'vcard' | 'yaml' | 'csv'
+
+/**
+ * Detect a contact source format from its file extension
+ *
+ * @throws Error for unsupported extensions
+ */
+export function detectContactSourceFormat(
+	filePath: string,
+): ContactSourceFormat {
+	const ext = path.extname(filePath).toLowerCase()
+	if (ext === '.vcf' || ext === '.vcard') return 'vcard'
+	if (ext === '.yaml' || ext === '.yml') return 'yaml'
+	if (ext === '.csv') return 'csv'
+
+	throw new Error(
+		`Unsupported contacts file format: ${filePath}. Supported formats: .vcf, .yaml, .yml, .csv`,
+	)
+}
+
+/**
+ * Load contact entries from one or more source files, in order
+ *
+ * @throws Error if a file cannot be read or parsed
+ */
+export async function loadContactEntries(
+	filePaths: string[],
+): Promise<ContactEntry[]> {
+	const entries: ContactEntry[] = []
+
+	for (const filePath of filePaths) {
+		const content = await readFile(filePath, 'utf-8')
+		try {
+			entries.push(
+				...parseContactSource(content, detectContactSourceFormat(filePath)),
+			)
+		} catch (error) {
+			throw new Error(
+				`Failed to parse contacts file ${filePath}: ${
+					error instanceof Error ? error.message : String(error)
+				}`,
+			)
+		}
+	}
+
+	return entries
+}
+
+/**
+ * Parse contact source content in the given format
+ */
+export function parseContactSource(
+	content: string,
+	format: ContactSourceFormat,
+): ContactEntry[] {
+	switch (format) {
+		case 'vcard':
+			return parseVCard(content)
+		case 'yaml':
+			return parseAliasYaml(content)
+		case 'csv':
+			return parseAliasCsv(content)
+	}
+}
+
+/**
+ * Parse vCard 2.1/3.0/4.0 content
+ *
+ * Cards without a name or any TEL/EMAIL are skipped.
+ */
+export function parseVCard(content: string): ContactEntry[] {
+	// Unfold continuation lines (RFC 6350 §3.2)
+	const lines = content
+		.replace(/\r\n/g, '\n')
+		.replace(/\n[ \t]/g, '')
+		.split('\n')
+
+	const entries: ContactEntry[] = []
+	let card: {
+		fn?: string
+		n?: string
+		org?: string
+		uid?: string
+		handles: string[]
+	} | null = null
+
+	for (const line of lines) {
+		const colon = line.indexOf(':')
+		if (colon === -1) continue
+
+		// Drop "item1." groups and ";TYPE=..." parameters
+		const property = (line.slice(0, colon).split(';')[0] ?? '')
+			.replace(/^[^.]+\./, '')
+			.toUpperCase()
+		const value = unescapeVCardValue(line.slice(colon + 1).trim())
+
+		if (property === 'BEGIN' && value.toUpperCase() === 'VCARD') {
+			card = { handles: [] }
+			continue
+		}
+		if (!card) continue
+
+		switch (property) {
+			case 'FN':
+				card.fn = value
+				break
+			case 'N': {
+				// N:Family;Given;Additional;Prefix;Suffix
+				const [family = '', given = ''] = line
+					.slice(colon + 1)
+					.split(';')
+					.map((part) => unescapeVCardValue(part.trim()))
+				card.n = [given, family].filter(Boolean).join(' ')
+				break
+			}
+			case 'ORG':
+				card.org = value.split(';')[0]
+				break
+			case 'UID':
+				card.uid = value
+				break
+			case 'TEL':
+			case 'EMAIL':
+				if (value) card.handles.push(value)
+				break
+			case 'END': {
+				const name = card.fn || card.n || card.org
+				if (name && card.handles.length > 0) {
+					entries.push({
+						...(card.uid && { id: card.uid }),
+						name,
+						handles: card.handles,
+					})
+				}
+				card = null
+				break
+			}
+		}
+	}
+
+	return entries
+}
+
+function unescapeVCardValue(value: string): string {
+	return value.replace(/\\([,;\\])/g, '$1').replace(/\\n/gi, ' ')
+}
+
+/**
+ * Parse a YAML alias map
+ *
+ * @example
+ * ```yaml
+ * - name: Jane Doe
+ *   id: jane
+ *   handles: ["+61 400 111 222", jane@example.com]
+ * # or
+ * Jane Doe: ["+61 400 111 222", jane@example.com]
+ * ```
+ */
+export function parseAliasYaml(content: string): ContactEntry[] {
+	const data = yaml.load(content, { schema: yaml.JSON_SCHEMA })
+	if (data === undefined || data === null) return []
+
+	if (Array.isArray(data)) {
+		return data.map((item, index) => {
+			if (typeof item !== 'object' || item === null) {
+				throw new Error(`Entry ${index} must be an object`)
+			}
+			const record = item as Record<string, unknown>
+			if (typeof record.name !== 'string' || !record.name) {
+				throw new Error(`Entry ${index} is missing "name"`)
+			}
+			return {
+				...(typeof record.id === 'string' && { id: record.id }),
+				name: record.name,
+				handles: toHandleList(record.handles ?? record.handle),
+			}
+		})
+	}
+
+	if (typeof data === 'object') {
+		return Object.entries(data as Record<string, unknown>).map(
+			([name, handles]) => ({ name, handles: toHandleList(handles) }),
+		)
+	}
+
+	throw new Error('Expected a list of contacts or a name → handles mapping')
+}
+
+/**
+ * Parse a CSV alias map (header row required)
+ *
+ * Rows sharing a name (or id) are combined into one contact.
+ */
+export function parseAliasCsv(content: string): ContactEntry[] {
+	const rows = parse(content, {
+		columns: (header: string[]) => header.map((h) => h.trim().toLowerCase()),
+		skip_empty_lines: true,
+		trim: true,
+	}) as Array<Record<string, string | undefined>>
+
+	const byKey = new Map<string, ContactEntry>()
+	rows.forEach((row, index) => {
+		const name = row.name
+		if (!name) {
+			throw new Error(`Row ${index + 2} is missing "name"`)
+		}
+		const handles = toHandleList(row.handles ?? row.handle)
+		const key = row.id || name
+		const existing = byKey.get(key)
+		if (existing) {
+			existing.handles.push(...handles)
+		} else {
+			byKey.set(key, { ...(row.id && { id: row.id }), name, handles })
+		}
+	})
+
+	return Array.from(byKey.values())
+}
+
+function toHandleList(value: unknown): string[] {
+	if (Array.isArray(value)) {
+		return value.map((v) => String(v).trim()).filter(Boolean)
+	}
+	if (typeof value === 'string' || typeof value === 'number') {
+		return String(value)
+			.split(';')
+			.map((v) => v.trim())
+			.filter(Boolean)
+	}
+	return []
+}
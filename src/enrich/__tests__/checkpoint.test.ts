@@ -12,15 +12,45 @@
 import { beforeEach, describe, expect, it } from 'vitest'
 import type { Message } from '#schema/message'
 import {
+	type CheckpointInput,
 	computeConfigHash,
 	createCheckpoint,
+	type EnrichCheckpoint,
 	getCheckpointPath,
 	getResumeIndex,
+	getResumePlan,
 	initializeCheckpointState,
 	prepareCheckpoint,
 	shouldWriteCheckpoint,
 	verifyConfigHash,
 } from '../checkpoint'
+import type { ItemOutcome } from '../enrich-item'
+import { createOrderedCompletion, runWorkerPool } from '../worker-pool'
+
+function outcomeFor(index: number): ItemOutcome {
+	return {
+		message: {
+			guid: `msg-${index}`,
+			messageKind: 'text',
+			text: `message ${index}`,
+			isFromMe: false,
+			date: '2025-10-17T10:00:00.000Z',
+			handle: '+61400111222',
+			chatId: 'iMessage;-;+61400111222',
+		},
+		added: [],
+		alreadyEnriched: false,
+		fromCache: false,
+	}
+}
+
+const emptyInput: Omit<CheckpointInput, 'lastProcessedIndex'> = {
+	totalProcessed: 0,
+	totalFailed: 0,
+	stats: { processedCount: 0, failedCount: 0, enrichmentsByKind: {} },
+	failedItems: [],
+	configHash: 'hash',
+}
 
 describe('Checkpoint and Resume Logic (ENRICH--T06)', () => {
 	let testCheckpointDir: string
@@ -167,6 +197,23 @@ describe('Checkpoint and Resume Logic (ENRICH--T06)', () => {
 			expect(checkpoint.stats.enrichmentsByKind.transcription).toBe(30)
 			expect(checkpoint.stats.enrichmentsByKind.link_context).toBe(25)
 		})
+
+		it('should record in-flight and completed items only when there are some', () => {
+			const input = { ...emptyInput, lastProcessedIndex: 99 }
+
+			const concurrent = createCheckpoint({
+				...input,
+				inFlight: [101, 103],
+				completed: [{ index: 102, outcome: outcomeFor(102) }],
+			})
+			expect(concurrent.inFlight).toEqual([101, 103])
+			expect(concurrent.completed).toEqual([{ index: 102, outcome: outcomeFor(102) }])
+
+			const idle = createCheckpoint({ ...input, inFlight: [], completed: [] })
+			expect(idle).not.toHaveProperty('inFlight')
+			expect(idle).not.toHaveProperty('completed')
+			expect(createCheckpoint(input)).not.toHaveProperty('inFlight')
+		})
 	})
 
 	describe('AC03: Atomic checkpoint writes using temp file + rename', () => {
@@ -259,6 +306,73 @@ describe('Checkpoint and Resume Logic (ENRICH--T06)', () => {
 			const distance = resumeIndex - checkpoint.lastProcessedIndex
 			expect(distance).toBeLessThanOrEqual(1)
 		})
+
+		it('should redo in-flight items and keep the outcomes finished ahead', () => {
+			const plan = getResumePlan(
+				createCheckpoint({
+					...emptyInput,
+					lastProcessedIndex: 9,
+					inFlight: [10, 12],
+					completed: [11, 13].map((index) => ({ index, outcome: outcomeFor(index) })),
+				}),
+			)
+
+			expect(plan.startIndex).toBe(10)
+			expect([...plan.completed.keys()]).toEqual([11, 13])
+			expect(plan.completed.get(11)).toEqual(outcomeFor(11))
+		})
+
+		it('should resume an interrupted concurrent run without redoing finished items', async () => {
+			// First run: item 1 is slow and item 3 never finishes, so items after
+			// them finish ahead of the checkpoints
+			const completion = createOrderedCompletion<ItemOutcome>(0, { maxAhead: 6 })
+			let saved: EnrichCheckpoint | undefined
+			void runWorkerPool({ startIndex: 0, endIndex: 12, concurrency: 3 }, async (i) => {
+				await completion.start(i)
+				if (i === 1) await new Promise((resolve) => setTimeout(resolve, 5))
+				if (i === 3) await new Promise(() => {})
+				const released = completion.complete(i, outcomeFor(i))
+				for (const [position, { index }] of released.entries()) {
+					if ((index + 1) % 2 !== 0) continue
+					const checkpoint = createCheckpoint({
+						...emptyInput,
+						lastProcessedIndex: index,
+						inFlight: completion.inFlight,
+						completed: [...released.slice(position + 1), ...completion.held].map((item) => ({
+							index: item.index,
+							outcome: item.result,
+						})),
+					})
+					saved = JSON.parse(JSON.stringify(checkpoint))
+				}
+			})
+			await new Promise((resolve) => setTimeout(resolve, 30))
+			if (!saved) throw new Error('No checkpoint was written')
+			expect(saved.lastProcessedIndex).toBe(1)
+			expect(saved.inFlight).toEqual([3, 7])
+
+			// Second run: only the unfinished items are enriched again
+			const plan = getResumePlan(saved)
+			const resumed = createOrderedCompletion<ItemOutcome>(plan.startIndex)
+			const enriched: number[] = []
+			const output: ItemOutcome[] = []
+			await runWorkerPool(
+				{ startIndex: plan.startIndex, endIndex: 12, concurrency: 3 },
+				async (i) => {
+					await resumed.start(i)
+					const outcome =
+						plan.completed.get(i) ??
+						(await Promise.resolve().then(() => {
+							enriched.push(i)
+							return outcomeFor(i)
+						}))
+					for (const { result } of resumed.complete(i, outcome)) output.push(result)
+				},
+			)
+
+			expect(enriched.sort((a, b) => a - b)).toEqual([3, 7, 8, 9, 10, 11])
+			expect(output).toEqual(Array.from({ length: 10 }, (_, i) => outcomeFor(i + 2)))
+		})
 	})
 
 	describe('AC05: Config consistency verification with hash comparison', () => {
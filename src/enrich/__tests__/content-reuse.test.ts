@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+
+import type { MediaEnrichment, Message } from '#schema/message'
+
+import { createEnrichmentReuse } from '../content-reuse'
+
+describe('content-reuse', () => {
+	const analysis: MediaEnrichment = {
+		kind: 'image_analysis',
+		visionSummary: 'A beach at sunset',
+		provider: 'gemini',
+		model: 'gemini-1.5-pro',
+		version: '1.0',
+		createdAt: '2025-10-17T10:00:00.000Z',
+	}
+
+	it('should copy an enrichment to a file with the same hash', () => {
+		const reuse = createEnrichmentReuse([createImage('DB:1', 'abc', [analysis])])
+
+		const copy = reuse.apply(createImage('csv:1:0:media', 'abc'), 'image_analysis')
+
+		expect(copy?.media?.enrichment).toEqual([analysis])
+		expect(reuse.reused).toBe(1)
+	})
+
+	it('should not reuse across different hashes, kinds or failed enrichments', () => {
+		const reuse = createEnrichmentReuse([
+			createImage('DB:1', 'abc', [analysis]),
+			createImage('DB:2', 'def', [{ ...analysis, error: 'quota exceeded' }]),
+		])
+
+		expect(reuse.apply(createImage('DB:3', 'xyz'), 'image_analysis')).toBeNull()
+		expect(reuse.apply(createImage('DB:4', 'abc'), 'transcription')).toBeNull()
+		expect(reuse.apply(createImage('DB:5', 'def'), 'image_analysis')).toBeNull()
+		expect(reuse.apply(createImage('DB:6', 'abc', [analysis]), 'image_analysis')).toBeNull()
+		expect(reuse.reused).toBe(0)
+	})
+
+	it('should reuse enrichments recorded during the run', () => {
+		const reuse = createEnrichmentReuse()
+		expect(reuse.apply(createImage('DB:1', 'abc'), 'image_analysis')).toBeNull()
+
+		reuse.record(createImage('DB:1', 'abc', [analysis]))
+
+		expect(reuse.apply(createImage('DB:2', 'abc'), 'image_analysis')?.media?.enrichment).toEqual([
+			analysis,
+		])
+	})
+})
+
+function createImage(guid: string, sha256: string, enrichment?: MediaEnrichment[]): Message {
+	return {
+		guid,
+		messageKind: 'media',
+		isFromMe: false,
+		date: '2025-10-17T10:00:00.000Z',
+		media: {
+			id: `media:${guid}`,
+			filename: 'IMG_0042.jpeg',
+			path: '/tmp/IMG_0042.jpeg',
+			mediaKind: 'image',
+			sha256,
+			...(enrichment && { enrichment }),
+		},
+	}
+}
@@ -0,0 +1,212 @@
+/**
+ * Per-Message Enrichment Tests
+ *
+ * Drives createItemEnricher over real PDF and video files with a mock model
+ * provider: PDF summaries go through the provider's rate limiter, video
+ * metadata is read locally, the tally counts enrichments by kind, and a
+ * second run skips what is already enriched.
+ */
+
+import { promises as fs } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type { Message } from '#schema/message'
+import { createEnrichmentReuse } from '../content-reuse'
+import {
+	createItemEnricher,
+	type EnrichTally,
+	type ItemEnricherConfig,
+	type ItemOutcome,
+	tallyOutcome,
+} from '../enrich-item'
+import { createEnrichmentCache } from '../enrichment-cache'
+import type { ModelProvider } from '../model-provider'
+import { createProviderLimiters } from '../worker-pool'
+
+function mediaMessage(guid: string, mediaKind: 'pdf' | 'video', filePath: string): Message {
+	return {
+		guid,
+		messageKind: 'media',
+		text: null,
+		isFromMe: false,
+		date: '2025-10-17T10:00:00.000Z',
+		handle: '+61400111222',
+		chatId: 'iMessage;-;+61400111222',
+		media: {
+			id: `media:${guid}`,
+			filename: path.basename(filePath),
+			path: filePath,
+			mediaKind,
+		},
+	}
+}
+
+function emptyTally(): EnrichTally {
+	return {
+		totalProcessed: 0,
+		totalFailed: 0,
+		alreadyEnriched: 0,
+		cacheHits: 0,
+		failedItems: [],
+		enrichmentsByKind: {},
+	}
+}
+
+function kinds(outcome: ItemOutcome): string[] {
+	return 'added' in outcome ? outcome.added.map((e) => e.kind) : []
+}
+
+describe('createItemEnricher', () => {
+	let tempDir: string
+	let pdf: Message
+	let video: Message
+	let provider: ModelProvider & { generate: ReturnType<typeof vi.fn> }
+
+	const createEnricher = (overrides: Partial<ItemEnricherConfig> = {}) => {
+		const limiters = createProviderLimiters({ rateLimitDelay: 0 })
+		const acquire = vi.spyOn(limiters, 'acquire')
+		const enricher = createItemEnricher({
+			enableVisionAnalysis: false,
+			enableAudioTranscription: false,
+			enablePdfAnalysis: true,
+			enableVideoMetadata: true,
+			enableLinkEnrichment: false,
+			forceRefresh: false,
+			retryFailed: false,
+			modelProviders: { pdf_summary: provider },
+			imageConfig: {},
+			audioConfig: {},
+			pdfConfig: { enablePdfVideoAnalysis: true, provider },
+			videoConfig: { enablePdfVideoAnalysis: true },
+			linkConfig: {},
+			limiters,
+			cache: createEnrichmentCache(path.join(tempDir, 'cache')),
+			reuse: createEnrichmentReuse(),
+			...overrides,
+		})
+		return { enricher, limiters, acquire }
+	}
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'enrich-item-'))
+		const pdfPath = path.join(tempDir, 'report.pdf')
+		const videoPath = path.join(tempDir, 'clip.mp4')
+		await fs.writeFile(pdfPath, '%PDF-1.4\n%%EOF\n')
+		await fs.writeFile(videoPath, Buffer.alloc(2048))
+		pdf = mediaMessage('db:pdf', 'pdf', pdfPath)
+		video = mediaMessage('db:video', 'video', videoPath)
+		provider = {
+			name: 'local',
+			model: 'qwen',
+			generate: vi.fn(async () => 'A quarterly report.'),
+		}
+	})
+
+	afterEach(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true })
+	})
+
+	it('summarizes a PDF with its model through the rate limiter', async () => {
+		const { enricher, acquire } = createEnricher()
+
+		const outcome = await enricher.enrich(0, pdf)
+
+		expect(acquire).toHaveBeenCalledWith('local')
+		expect(provider.generate).toHaveBeenCalledTimes(1)
+		expect(provider.generate.mock.calls[0]?.[0]?.[0]).toMatchObject({
+			mimeType: 'application/pdf',
+			filename: 'report.pdf',
+		})
+		expect(kinds(outcome)).toEqual(['pdf_summary'])
+		expect(outcome.message.media?.enrichment?.[0]).toMatchObject({
+			kind: 'pdf_summary',
+			pdfSummary: 'A quarterly report.',
+			provider: 'local',
+			model: 'qwen',
+		})
+	})
+
+	it('reads video metadata from the file without a rate-limited call', async () => {
+		const { enricher, acquire } = createEnricher()
+
+		const outcome = await enricher.enrich(1, video)
+
+		expect(acquire).not.toHaveBeenCalled()
+		expect(kinds(outcome)).toEqual(['video_metadata'])
+		expect(outcome.message.media?.enrichment?.[0]).toMatchObject({
+			kind: 'video_metadata',
+			provider: 'local',
+			videoMetadata: { filename: 'clip.mp4', analyzed: false },
+		})
+	})
+
+	it('counts enrichments by kind in the tally', async () => {
+		const { enricher } = createEnricher()
+		const tally = emptyTally()
+
+		for (const [i, message] of [pdf, video].entries()) {
+			tallyOutcome(tally, await enricher.enrich(i, message))
+		}
+
+		expect(tally.totalProcessed).toBe(2)
+		expect(tally.enrichmentsByKind).toEqual({
+			pdf_summary: 1,
+			video_metadata: 1,
+		})
+	})
+
+	it('skips messages that already have the enrichment on a second run', async () => {
+		const first = createEnricher().enricher
+		const enriched = [await first.enrich(0, pdf), await first.enrich(1, video)]
+		provider.generate.mockClear()
+
+		const { enricher, acquire } = createEnricher()
+		const tally = emptyTally()
+		for (const [i, { message }] of enriched.entries()) {
+			const outcome = await enricher.enrich(i, message)
+			expect(outcome.message).toBe(message)
+			tallyOutcome(tally, outcome)
+		}
+
+		expect(provider.generate).not.toHaveBeenCalled()
+		expect(acquire).not.toHaveBeenCalled()
+		expect(tally.alreadyEnriched).toBe(2)
+		expect(tally.enrichmentsByKind).toEqual({})
+	})
+
+	it('fails a PDF whose summary recorded a provider error', async () => {
+		provider.generate.mockRejectedValue(new Error('model unavailable'))
+		const { enricher, limiters } = createEnricher()
+		const tally = emptyTally()
+
+		const outcome = await enricher.enrich(4, pdf)
+		tallyOutcome(tally, outcome)
+
+		expect(outcome).toMatchObject({
+			failure: {
+				index: 4,
+				guid: 'db:pdf',
+				kind: 'pdf_summary',
+				error: 'model unavailable',
+			},
+		})
+		expect(limiters.get('local').getState().consecutiveFailures).toBe(1)
+		expect(tally.totalFailed).toBe(1)
+		expect(tally.failedItems).toHaveLength(1)
+	})
+
+	it('leaves PDFs and videos alone when their kinds are off', async () => {
+		const { enricher } = createEnricher({
+			enablePdfAnalysis: false,
+			enableVideoMetadata: false,
+		})
+
+		expect(enricher.kindOf(pdf)).toBeNull()
+		expect(kinds(await enricher.enrich(0, pdf))).toEqual([])
+		expect(kinds(await enricher.enrich(1, video))).toEqual([])
+		expect(provider.generate).not.toHaveBeenCalled()
+	})
+})
@@ -0,0 +1,212 @@
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import type { MediaEnrichment } from '#schema/message'
+
+import {
+	createEnrichmentCache,
+	type EnrichmentCacheEntry,
+	type EnrichmentCacheKey,
+	isStaleEntry,
+	PROMPT_VERSIONS,
+	selectPrunable,
+} from '../enrichment-cache'
+
+const sha256 = 'ab'.repeat(32)
+
+const key = (overrides: Partial<EnrichmentCacheKey> = {}): EnrichmentCacheKey => ({
+	sha256,
+	kind: 'image_analysis',
+	provider: 'gemini',
+	model: 'gemini-1.5-pro',
+	promptVersion: PROMPT_VERSIONS.image_analysis ?? '1',
+	...overrides,
+})
+
+const enrichment = (overrides: Partial<MediaEnrichment> = {}): MediaEnrichment => ({
+	kind: 'image_analysis',
+	provider: 'gemini',
+	model: 'gemini-1.5-pro',
+	version: '2025-10-17',
+	createdAt: '2025-10-17T10:00:00.000Z',
+	visionSummary: 'A cat on a sofa',
+	...overrides,
+})
+
+describe('enrichment cache', () => {
+	let dir: string
+
+	beforeEach(() => {
+		dir = mkdtempSync(path.join(tmpdir(), 'enrichment-cache-'))
+	})
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true })
+	})
+
+	it('returns a stored enrichment for the same key', async () => {
+		const cache = createEnrichmentCache(dir)
+		await cache.set(key(), enrichment())
+
+		expect(await cache.get(key())).toEqual(enrichment())
+		expect(readdirSync(path.join(dir, 'ab'))).toHaveLength(1)
+	})
+
+	it('misses when the kind, model, provider or prompt version differ', async () => {
+		const cache = createEnrichmentCache(dir)
+		await cache.set(key(), enrichment())
+
+		expect(await cache.get(key({ kind: 'transcription' }))).toBeNull()
+		expect(await cache.get(key({ model: 'gemini-2.0-flash' }))).toBeNull()
+		expect(await cache.get(key({ provider: 'ollama' }))).toBeNull()
+		expect(await cache.get(key({ promptVersion: 'old' }))).toBeNull()
+		expect(await cache.get(key({ sha256: 'cd'.repeat(32) }))).toBeNull()
+	})
+
+	it('does not cache enrichments that recorded an error', async () => {
+		const cache = createEnrichmentCache(dir)
+		await cache.set(key(), enrichment({ error: 'quota exceeded' }))
+
+		expect(await cache.get(key())).toBeNull()
+		expect(await cache.entries()).toEqual([])
+	})
+
+	it('overwrites the entry for a key', async () => {
+		const cache = createEnrichmentCache(dir)
+		await cache.set(key(), enrichment())
+		await cache.set(key(), enrichment({ visionSummary: 'A dog' }))
+
+		expect((await cache.get(key()))?.visionSummary).toBe('A dog')
+		expect(await cache.entries()).toHaveLength(1)
+	})
+
+	it('reports entries per kind and model and counts outdated prompts', async () => {
+		const cache = createEnrichmentCache(dir)
+		await cache.set(key(), enrichment())
+		await cache.set(key({ promptVersion: 'old' }), enrichment())
+		await cache.set(
+			key({ kind: 'transcription', provider: 'ollama', model: 'whisper' }),
+			enrichment({ kind: 'transcription' }),
+		)
+		// Not an entry
+		writeFileSync(path.join(dir, 'ab', 'notes.json'), '{"hello": true}')
+
+		const stats = await cache.stats()
+
+		expect(stats.entries).toBe(3)
+		expect(stats.bytes).toBeGreaterThan(0)
+		expect(stats.byKind).toEqual({ image_analysis: 2, transcription: 1 })
+		expect(stats.byModel).toEqual({ 'gemini/gemini-1.5-pro': 2, 'ollama/whisper': 1 })
+		expect(stats.stale).toBe(1)
+		expect(stats.oldest).toBeDefined()
+	})
+
+	it('reports the oldest and newest entry times', async () => {
+		const cache = createEnrichmentCache(dir)
+		await cache.set(key(), enrichment())
+		await new Promise((resolve) => setTimeout(resolve, 5))
+		await cache.set(key({ kind: 'transcription' }), enrichment({ kind: 'transcription' }))
+
+		const [first, last] = await cache.entries()
+		const stats = await cache.stats()
+
+		expect(first?.kind).toBe('image_analysis')
+		expect(stats.oldest).toBe(first?.cachedAt)
+		expect(stats.newest).toBe(last?.cachedAt)
+		expect((stats.oldest ?? '') < (stats.newest ?? '')).toBe(true)
+	})
+
+	it('lists the entries of one kind', async () => {
+		const cache = createEnrichmentCache(dir)
+		await cache.set(key(), enrichment())
+		await cache.set(key({ kind: 'transcription' }), enrichment({ kind: 'transcription' }))
+
+		const transcriptions = await cache.entries({ kind: 'transcription' })
+
+		expect(transcriptions.map((entry) => entry.kind)).toEqual(['transcription'])
+		expect(await cache.entries({ kind: 'pdf_summary' })).toEqual([])
+		expect(await cache.entries()).toHaveLength(2)
+	})
+
+	it('prunes the selected entries', async () => {
+		const cache = createEnrichmentCache(dir)
+		await cache.set(key(), enrichment())
+		await cache.set(key({ promptVersion: 'old' }), enrichment())
+
+		const result = await cache.prune(isStaleEntry)
+
+		expect(result.removed).toBe(1)
+		expect(result.bytes).toBeGreaterThan(0)
+		expect(await cache.get(key())).not.toBeNull()
+		expect(await cache.entries()).toHaveLength(1)
+	})
+
+	it('counts what a dry run would prune without removing it', async () => {
+		const cache = createEnrichmentCache(dir)
+		await cache.set(key(), enrichment())
+		await cache.set(key({ promptVersion: 'old' }), enrichment())
+
+		const dryRun = await cache.prune(isStaleEntry, { dryRun: true })
+
+		expect(dryRun.removed).toBe(1)
+		expect(dryRun.bytes).toBeGreaterThan(0)
+		expect(await cache.entries()).toHaveLength(2)
+		expect(await cache.prune(isStaleEntry)).toEqual(dryRun)
+	})
+
+	it('prunes outdated prompts and entries cached before the cutoff', async () => {
+		const cache = createEnrichmentCache(dir)
+		await cache.set(key(), enrichment())
+		await cache.set(key({ promptVersion: 'old' }), enrichment())
+
+		// Everything here was cached after an hour ago
+		const hourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString()
+		expect((await cache.prune(selectPrunable({ cachedBefore: hourAgo }))).removed).toBe(1)
+		expect(await cache.get(key())).not.toBeNull()
+
+		const soon = new Date(Date.now() + 60 * 1000).toISOString()
+		expect((await cache.prune(selectPrunable({ cachedBefore: soon }))).removed).toBe(1)
+		expect(await cache.entries()).toEqual([])
+	})
+
+	it('treats a missing directory as an empty cache', async () => {
+		const cache = createEnrichmentCache(path.join(dir, 'missing'))
+
+		expect(await cache.get(key())).toBeNull()
+		expect((await cache.stats()).entries).toBe(0)
+		expect(await cache.prune(() => true)).toEqual({ removed: 0, bytes: 0 })
+	})
+})
+
+describe('selectPrunable', () => {
+	const entry = (overrides: Partial<EnrichmentCacheEntry> = {}): EnrichmentCacheEntry => ({
+		...key(),
+		cachedAt: '2025-10-17T10:00:00.000Z',
+		enrichment: enrichment(),
+		...overrides,
+	})
+
+	it('always selects entries made with an outdated prompt', () => {
+		const select = selectPrunable()
+
+		expect(select(entry({ promptVersion: 'old' }))).toBe(true)
+		expect(select(entry())).toBe(false)
+	})
+
+	it('selects current entries cached before the cutoff', () => {
+		const select = selectPrunable({ cachedBefore: '2025-10-18T00:00:00.000Z' })
+
+		expect(select(entry())).toBe(true)
+		expect(select(entry({ cachedAt: '2025-10-18T00:00:00.000Z' }))).toBe(false)
+		expect(select(entry({ cachedAt: '2025-10-19T08:00:00.000Z' }))).toBe(false)
+	})
+
+	it('selects everything with all', () => {
+		expect(selectPrunable({ all: true })(entry({ cachedAt: '2099-01-01T00:00:00.000Z' }))).toBe(
+			true,
+		)
+	})
+})
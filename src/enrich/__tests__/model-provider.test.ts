@@ -0,0 +1,263 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+
+import { createModelProvider, createOpenAICompatibleProvider } from '../model-provider'
+import { analyzePdf } from '../pdf-video-handling'
+
+type RecordedRequest = {
+	method: string
+	url: string
+	headers: Record<string, string | string[] | undefined>
+	body: {
+		model: string
+		messages: Array<{ role: string; content: Array<Record<string, unknown>> }>
+	}
+}
+
+/**
+ * A local stand-in for llama.cpp / Ollama: records each request and answers
+ * with the next queued reply
+ */
+function startMockServer() {
+	const requests: RecordedRequest[] = []
+	const replies: Array<{ status: number; body: unknown }> = []
+
+	const server: Server = createServer((req, res) => {
+		let raw = ''
+		req.on('data', (chunk) => {
+			raw += chunk
+		})
+		req.on('end', () => {
+			requests.push({
+				method: req.method ?? '',
+				url: req.url ?? '',
+				headers: req.headers,
+				body: JSON.parse(raw),
+			})
+			const reply = replies.shift() ?? {
+				status: 200,
+				body: { choices: [{ message: { content: 'ok' } }] },
+			}
+			res.writeHead(reply.status, { 'Content-Type': 'application/json' })
+			res.end(typeof reply.body === 'string' ? reply.body : JSON.stringify(reply.body))
+		})
+	})
+
+	return {
+		requests,
+		reply(content: string) {
+			replies.push({
+				status: 200,
+				body: { choices: [{ message: { role: 'assistant', content } }] },
+			})
+		},
+		fail(status: number, body: string) {
+			replies.push({ status, body })
+		},
+		async listen(): Promise<string> {
+			await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+			const { port } = server.address() as AddressInfo
+			return `http://127.0.0.1:${port}/v1`
+		},
+		close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+	}
+}
+
+describe('model providers', () => {
+	const mock = startMockServer()
+	const gemini = { apiKey: 'gemini-key', model: 'gemini-1.5-pro' }
+	let baseUrl: string
+	let tempDir: string
+
+	beforeAll(async () => {
+		baseUrl = await mock.listen()
+		tempDir = mkdtempSync(path.join(tmpdir(), 'model-provider-'))
+	})
+
+	afterAll(async () => {
+		await mock.close()
+		rmSync(tempDir, { recursive: true, force: true })
+	})
+
+	beforeEach(() => {
+		mock.requests.length = 0
+	})
+
+	describe('openai-compatible', () => {
+		it('posts one user turn to /chat/completions and returns the reply', async () => {
+			mock.reply('A cat on a sofa')
+			const provider = createOpenAICompatibleProvider({
+				baseUrl: `${baseUrl}/`,
+				model: 'llava',
+			})
+
+			const text = await provider.generate([
+				{ data: Buffer.from('jpeg-bytes'), mimeType: 'image/jpeg' },
+				{ text: 'Describe the image' },
+			])
+
+			expect(text).toBe('A cat on a sofa')
+			expect(mock.requests).toHaveLength(1)
+			const [request] = mock.requests
+			expect(request?.method).toBe('POST')
+			expect(request?.url).toBe('/v1/chat/completions')
+			expect(request?.headers.authorization).toBeUndefined()
+			expect(request?.body.model).toBe('llava')
+			expect(request?.body.messages).toEqual([
+				{
+					role: 'user',
+					content: [
+						{
+							type: 'image_url',
+							image_url: {
+								url: `data:image/jpeg;base64,${Buffer.from('jpeg-bytes').toString('base64')}`,
+							},
+						},
+						{ type: 'text', text: 'Describe the image' },
+					],
+				},
+			])
+		})
+
+		it('sends audio as input_audio and other files as file parts', async () => {
+			const provider = createOpenAICompatibleProvider({
+				baseUrl,
+				model: 'local-model',
+			})
+
+			await provider.generate([
+				{ data: Buffer.from('mp3'), mimeType: 'audio/mpeg' },
+				{
+					data: Buffer.from('%PDF'),
+					mimeType: 'application/pdf',
+					filename: 'report.pdf',
+				},
+			])
+
+			expect(mock.requests[0]?.body.messages[0]?.content).toEqual([
+				{
+					type: 'input_audio',
+					input_audio: {
+						data: Buffer.from('mp3').toString('base64'),
+						format: 'mp3',
+					},
+				},
+				{
+					type: 'file',
+					file: {
+						filename: 'report.pdf',
+						file_data: `data:application/pdf;base64,${Buffer.from('%PDF').toString('base64')}`,
+					},
+				},
+			])
+		})
+
+		it('sends the API key as a bearer token', async () => {
+			const provider = createOpenAICompatibleProvider({
+				baseUrl,
+				model: 'gpt-4o-mini',
+				apiKey: 'sk-local',
+			})
+
+			await provider.generate([{ text: 'hi' }])
+
+			expect(mock.requests[0]?.headers.authorization).toBe('Bearer sk-local')
+		})
+
+		it('throws with the status and body on HTTP errors', async () => {
+			mock.fail(503, 'model is loading')
+			const provider = createOpenAICompatibleProvider({
+				baseUrl,
+				model: 'llava',
+				name: 'ollama',
+			})
+
+			await expect(provider.generate([{ text: 'hi' }])).rejects.toThrow(
+				'ollama request failed: HTTP 503 model is loading',
+			)
+		})
+
+		it('throws when the reply has no message content', async () => {
+			mock.fail(200, JSON.stringify({ choices: [] }))
+			const provider = createOpenAICompatibleProvider({ baseUrl, model: 'x' })
+
+			await expect(provider.generate([{ text: 'hi' }])).rejects.toThrow(
+				'openai-compatible response has no message content',
+			)
+		})
+	})
+
+	describe('createModelProvider', () => {
+		it('uses Gemini with the gemini section when no backend is configured', () => {
+			const provider = createModelProvider(undefined, gemini)
+			expect(provider.name).toBe('gemini')
+			expect(provider.model).toBe('gemini-1.5-pro')
+		})
+
+		it('lets a gemini backend override the model and key', () => {
+			const provider = createModelProvider(
+				{ provider: 'gemini', model: 'gemini-2.0-flash', apiKey: 'other' },
+				{ model: 'gemini-1.5-pro' },
+			)
+			expect(provider.model).toBe('gemini-2.0-flash')
+		})
+
+		it('requires a Gemini key for gemini backends', () => {
+			expect(() => createModelProvider(undefined, { model: 'gemini-1.5-pro' })).toThrow(
+				'A Gemini API key is required',
+			)
+		})
+
+		it('builds openai-compatible backends with their provenance name', () => {
+			const provider = createModelProvider(
+				{
+					provider: 'openai-compatible',
+					baseUrl,
+					model: 'llava:13b',
+					name: 'ollama',
+				},
+				gemini,
+			)
+			expect(provider.name).toBe('ollama')
+			expect(provider.model).toBe('llava:13b')
+		})
+
+		it('rejects openai-compatible backends without baseUrl or model', () => {
+			expect(() => createModelProvider({ provider: 'openai-compatible' }, gemini)).toThrow(
+				'needs baseUrl and model',
+			)
+		})
+	})
+
+	describe('provenance', () => {
+		it('records the provider and model that produced an enrichment', async () => {
+			mock.reply('Quarterly figures and a hiring plan.')
+			const pdfPath = path.join(tempDir, 'report.pdf')
+			writeFileSync(pdfPath, '%PDF-1.4')
+			const provider = createModelProvider(
+				{
+					provider: 'openai-compatible',
+					baseUrl,
+					model: 'qwen2.5-vl',
+					name: 'llama.cpp',
+				},
+				gemini,
+			)
+
+			const enrichment = await analyzePdf(pdfPath, { provider })
+
+			expect(enrichment).toMatchObject({
+				kind: 'pdf_summary',
+				provider: 'llama.cpp',
+				model: 'qwen2.5-vl',
+				pdfSummary: 'Quarterly figures and a hiring plan.',
+			})
+			expect(mock.requests[0]?.body.model).toBe('qwen2.5-vl')
+		})
+	})
+})
@@ -0,0 +1,274 @@
+/**
+ * Retry Failed Enrichment Tests
+ *
+ * Covers selecting a checkpoint's failed items, merging the retried messages
+ * back into the output, the rewritten checkpoint and the store write-back.
+ */
+
+import { promises as fs } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import type { MediaEnrichment, Message } from '#schema/message'
+import { openMessageStore } from '../../store/message-store'
+import { createCheckpoint, type EnrichCheckpoint } from '../checkpoint'
+import { completeRetry, mergeRetryIntoOutput, selectRetryTargets } from '../retry-failed'
+
+function textMessage(guid: string, text: string): Message {
+	return {
+		guid,
+		messageKind: 'text',
+		text,
+		isFromMe: false,
+		date: '2025-10-17T10:00:00.000Z',
+		handle: '+61400111222',
+		chatId: 'iMessage;-;+61400111222',
+	}
+}
+
+function mediaMessage(guid: string, enrichment: MediaEnrichment[]): Message {
+	return {
+		...textMessage(guid, ''),
+		messageKind: 'media',
+		text: null,
+		media: {
+			id: `media:${guid}`,
+			filename: `${guid}.heic`,
+			path: `/tmp/${guid}.heic`,
+			mediaKind: 'image',
+			enrichment,
+		},
+	}
+}
+
+function enrichment(
+	kind: MediaEnrichment['kind'],
+	fields: Partial<MediaEnrichment> = {},
+): MediaEnrichment {
+	return {
+		kind,
+		provider: 'gemini',
+		version: '1.0',
+		createdAt: '2025-10-17T11:00:00.000Z',
+		...fields,
+	}
+}
+
+function checkpointWith(failedItems: EnrichCheckpoint['failedItems']): EnrichCheckpoint {
+	return createCheckpoint({
+		lastProcessedIndex: 9,
+		totalProcessed: 10 - failedItems.length,
+		totalFailed: failedItems.length,
+		stats: {
+			processedCount: 10 - failedItems.length,
+			failedCount: failedItems.length,
+			enrichmentsByKind: { image: 4 },
+		},
+		failedItems,
+		configHash: 'hash',
+	})
+}
+
+const failedImage = {
+	index: 3,
+	guid: 'db:img',
+	kind: 'image',
+	error: 'Gemini timed out',
+}
+const failedLink = {
+	index: 5,
+	guid: 'db:link',
+	kind: 'link_context',
+	error: 'Firecrawl 503',
+}
+const failedGone = {
+	index: 8,
+	guid: 'db:gone',
+	kind: 'image',
+	error: 'Gemini timed out',
+}
+
+describe('retry-failed', () => {
+	describe('selectRetryTargets', () => {
+		it('takes the output version of each failed message', () => {
+			const inputImage = mediaMessage('db:img', [])
+			const outputImage = mediaMessage('db:img', [
+				enrichment('transcription', { transcription: 'kept' }),
+			])
+			const checkpoint = checkpointWith([failedImage])
+
+			const { targets, notFound } = selectRetryTargets(checkpoint, [outputImage], [inputImage])
+
+			expect(targets).toEqual([outputImage])
+			expect(targets[0]).toBe(outputImage)
+			expect(notFound).toEqual([])
+		})
+
+		it('falls back to the input when the output lacks the message', () => {
+			const link = textMessage('db:link', 'https://example.com')
+			const { targets } = selectRetryTargets(checkpointWith([failedLink]), [], [link])
+
+			expect(targets).toEqual([link])
+		})
+
+		it('reports failed items missing from both, in checkpoint order', () => {
+			const image = mediaMessage('db:img', [])
+			const { targets, notFound } = selectRetryTargets(
+				checkpointWith([failedImage, failedGone]),
+				[image],
+				[image],
+			)
+
+			expect(targets.map((m) => m.guid)).toEqual(['db:img'])
+			expect(notFound).toEqual([{ ...failedGone, error: 'Message not found in the input' }])
+		})
+	})
+
+	describe('completeRetry', () => {
+		const before = textMessage('db:before', 'untouched')
+		const image = mediaMessage('db:img', [
+			enrichment('transcription', { transcription: 'earlier' }),
+			enrichment('image', { error: 'Gemini timed out' }),
+		])
+		const link = textMessage('db:link', 'https://example.com')
+		const base = [before, image, link]
+		const checkpoint = checkpointWith([failedImage, failedLink, failedGone])
+		const notFound = [{ ...failedGone, error: 'Message not found in the input' }]
+
+		// The retry redid the image and failed the link again
+		const retriedImage = mediaMessage('db:img', [
+			enrichment('transcription', { transcription: 'earlier' }),
+			enrichment('image', { visionSummary: 'A dog on a beach' }),
+		])
+		const retriedLink = { ...link }
+
+		const retry = () =>
+			completeRetry({
+				checkpoint,
+				base,
+				enriched: [retriedImage, retriedLink],
+				// Indexed by position in the retry, not the original run
+				failedItems: [{ ...failedLink, index: 1 }],
+				notFound,
+				enrichmentsByKind: { image: 5 },
+				configHash: 'hash',
+			})
+
+		it('keeps the original index of items that fail again', () => {
+			const { stillFailing, recovered } = retry()
+
+			expect(stillFailing).toEqual([failedLink, notFound[0]])
+			expect(recovered).toBe(1)
+		})
+
+		it('replaces the failed enrichment with the retried one', () => {
+			const { updated } = retry()
+			const merged = updated.find((m) => m.guid === 'db:img')
+
+			expect(merged?.media?.enrichment).toEqual(retriedImage.media?.enrichment)
+		})
+
+		it('takes retried text messages as they are', () => {
+			const { updated } = retry()
+
+			expect(updated.find((m) => m.guid === 'db:link')).toBe(retriedLink)
+		})
+
+		it('keeps the output order and appends messages new to it', async () => {
+			const { updated } = completeRetry({
+				checkpoint,
+				base: [image],
+				enriched: [retriedImage, retriedLink],
+				failedItems: [],
+				notFound: [],
+				enrichmentsByKind: {},
+				configHash: 'hash',
+			})
+			async function* output() {
+				yield* [before, image]
+			}
+
+			const messages: Message[] = []
+			for await (const message of mergeRetryIntoOutput(output(), updated)) {
+				messages.push(message)
+			}
+
+			expect(messages.map((m) => m.guid)).toEqual(['db:before', 'db:img', 'db:link'])
+			expect(messages[1]?.media?.enrichment).toEqual(retriedImage.media?.enrichment)
+		})
+
+		it('lists only the retried messages as updated', () => {
+			const { updated } = retry()
+
+			expect(updated.map((m) => m.guid)).toEqual(['db:img', 'db:link'])
+		})
+
+		it('rewrites the checkpoint with what still fails', () => {
+			const { checkpoint: next } = retry()
+
+			expect(next).toEqual({
+				lastProcessedIndex: 9,
+				totalProcessed: 8,
+				totalFailed: 2,
+				stats: {
+					processedCount: 8,
+					failedCount: 2,
+					enrichmentsByKind: { image: 5 },
+				},
+				failedItems: [failedLink, notFound[0]],
+				configHash: 'hash',
+			})
+		})
+	})
+
+	describe('store write-back', () => {
+		let tempDir: string
+		let storePath: string
+
+		beforeEach(async () => {
+			tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'retry-failed-'))
+			storePath = path.join(tempDir, 'messages.sqlite')
+		})
+
+		afterEach(async () => {
+			await fs.rm(tempDir, { recursive: true, force: true })
+		})
+
+		it('updates the retried messages and leaves the rest alone', () => {
+			const before = textMessage('db:before', 'untouched')
+			const image = mediaMessage('db:img', [])
+			const store = openMessageStore(storePath)
+			try {
+				store.replaceMessages([before, image], [])
+				const base = [...store.iterateMessages()]
+
+				// Changed in the store after the retry read it
+				store.updateMessages([{ ...before, text: 'edited meanwhile' }])
+
+				const { targets } = selectRetryTargets(checkpointWith([failedImage]), base, base)
+				const retriedImage = mediaMessage('db:img', [
+					enrichment('image', { visionSummary: 'A dog on a beach' }),
+				])
+				const { updated } = completeRetry({
+					checkpoint: checkpointWith([failedImage]),
+					base,
+					enriched: targets.map(() => retriedImage),
+					failedItems: [],
+					notFound: [],
+					enrichmentsByKind: {},
+					configHash: 'hash',
+				})
+				store.updateMessages(updated)
+
+				const stored = [...store.iterateMessages()]
+				expect(stored.map((m) => m.guid)).toEqual(['db:before', 'db:img'])
+				expect(stored[0]?.text).toBe('edited meanwhile')
+				expect(stored[1]?.media?.enrichment).toEqual(retriedImage.media?.enrichment)
+			} finally {
+				store.close()
+			}
+		})
+	})
+})
@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest'
+
+import { createOrderedCompletion, createProviderLimiters, runWorkerPool } from '../worker-pool'
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+describe('runWorkerPool', () => {
+	it('runs every index with at most `concurrency` workers at once', async () => {
+		const started: number[] = []
+		let active = 0
+		let maxActive = 0
+
+		await runWorkerPool({ startIndex: 2, endIndex: 12, concurrency: 3 }, async (index) => {
+			started.push(index)
+			active++
+			maxActive = Math.max(maxActive, active)
+			// Later indices finish first
+			await sleep(12 - index)
+			active--
+		})
+
+		expect(started).toEqual([2, 3, 4, 5, 6, 7, 8, 9, 10, 11])
+		expect(maxActive).toBe(3)
+	})
+
+	it('does nothing for an empty range', async () => {
+		const started: number[] = []
+		await runWorkerPool({ startIndex: 5, endIndex: 5, concurrency: 4 }, async (index) => {
+			started.push(index)
+		})
+		expect(started).toEqual([])
+	})
+
+	it('rejects when a worker throws', async () => {
+		await expect(
+			runWorkerPool({ startIndex: 0, endIndex: 4, concurrency: 2 }, async (index) => {
+				if (index === 1) throw new Error('boom')
+			}),
+		).rejects.toThrow('boom')
+	})
+
+	it('requires a positive integer concurrency', async () => {
+		await expect(
+			runWorkerPool({ startIndex: 0, endIndex: 1, concurrency: 0 }, async () => {}),
+		).rejects.toThrow('concurrency must be a positive integer')
+	})
+})
+
+describe('createOrderedCompletion', () => {
+	it('releases results in index order once everything before them is done', () => {
+		const completion = createOrderedCompletion<string>(10)
+
+		expect(completion.complete(12, 'c')).toEqual([])
+		expect(completion.complete(11, 'b')).toEqual([])
+		expect(completion.lastContiguous).toBe(9)
+
+		expect(completion.complete(10, 'a')).toEqual([
+			{ index: 10, result: 'a' },
+			{ index: 11, result: 'b' },
+			{ index: 12, result: 'c' },
+		])
+		expect(completion.lastContiguous).toBe(12)
+	})
+
+	it('tracks the in-flight indices and the results held behind them', () => {
+		const completion = createOrderedCompletion<string>(0)
+		for (const index of [0, 1, 2, 3]) void completion.start(index)
+
+		completion.complete(2, 'c')
+		completion.complete(0, 'a')
+
+		expect(completion.lastContiguous).toBe(0)
+		expect(completion.inFlight).toEqual([1, 3])
+		expect(completion.held).toEqual([{ index: 2, result: 'c' }])
+	})
+
+	it('holds back indices more than maxAhead past the last contiguous one', async () => {
+		const completion = createOrderedCompletion<number>(0, { maxAhead: 2 })
+		const started: number[] = []
+		const starts = [0, 1, 2, 3].map((index) =>
+			completion.start(index).then(() => started.push(index)),
+		)
+
+		await Promise.resolve()
+		expect(started).toEqual([0, 1])
+
+		// A later result does not make room while index 0 is stalled
+		completion.complete(1, 1)
+		await Promise.resolve()
+		expect(started).toEqual([0, 1])
+
+		completion.complete(0, 0)
+		await Promise.all(starts)
+		expect(started).toEqual([0, 1, 2, 3])
+	})
+
+	it('bounds the results buffered behind a stalled item in the pool', async () => {
+		const completion = createOrderedCompletion<number>(0, { maxAhead: 3 })
+		let release: () => void = () => {}
+		const stalled = new Promise<void>((resolve) => {
+			release = resolve
+		})
+		let maxBuffered = 0
+		let buffered = 0
+
+		const pool = runWorkerPool({ startIndex: 0, endIndex: 20, concurrency: 4 }, async (i) => {
+			await completion.start(i)
+			if (i === 0) await stalled
+			else await new Promise((resolve) => setTimeout(resolve, 1))
+			const released = completion.complete(i, i)
+			buffered += 1 - released.length
+			maxBuffered = Math.max(maxBuffered, buffered)
+		})
+
+		await new Promise((resolve) => setTimeout(resolve, 20))
+		expect(completion.lastContiguous).toBe(-1)
+		release()
+		await pool
+
+		expect(maxBuffered).toBeLessThanOrEqual(3)
+		expect(completion.lastContiguous).toBe(19)
+	})
+
+	it('requires maxAhead of at least 1', () => {
+		expect(() => createOrderedCompletion(0, { maxAhead: 0 })).toThrow('maxAhead must be at least 1')
+	})
+})
+
+describe('createProviderLimiters', () => {
+	it('spaces calls to one provider by rateLimitDelay', async () => {
+		const limiters = createProviderLimiters({ rateLimitDelay: 40 })
+		const times: number[] = []
+
+		await Promise.all(
+			[1, 2, 3].map(async () => {
+				await limiters.acquire('gemini')
+				times.push(Date.now())
+			}),
+		)
+
+		expect(times).toHaveLength(3)
+		expect(times[1]! - times[0]!).toBeGreaterThanOrEqual(35)
+		expect(times[2]! - times[1]!).toBeGreaterThanOrEqual(35)
+	})
+
+	it('does not make one provider wait for another', async () => {
+		const limiters = createProviderLimiters({ rateLimitDelay: 1000 })
+		await limiters.acquire('gemini')
+
+		const start = Date.now()
+		expect(await limiters.acquire('firecrawl')).toBe(true)
+		expect(Date.now() - start).toBeLessThan(500)
+	})
+
+	it('opens the circuit for the failing provider only', async () => {
+		const limiters = createProviderLimiters({
+			rateLimitDelay: 0,
+			circuitBreakerThreshold: 2,
+		})
+		limiters.recordFailure('firecrawl')
+		limiters.recordFailure('firecrawl')
+
+		expect(await limiters.acquire('firecrawl')).toBe(false)
+		expect(await limiters.acquire('gemini')).toBe(true)
+		expect(limiters.get('firecrawl').isCircuitOpen()).toBe(true)
+
+		limiters.recordSuccess('firecrawl')
+		expect(await limiters.acquire('firecrawl')).toBe(true)
+	})
+})
@@ -9,9 +9,9 @@
  * - AC05: Handle long audio files (>10min) with streaming/chunking
  *
  * Architecture:
- * - transcribeAudioChunk: Transcribe single chunk with Gemini API
+ * - transcribeAudioChunk: Transcribe single chunk with the audio model
  * - handleLongAudio: Split large files and process chunks
- * - transcribeAudio: Call Gemini Audio API with structured prompt
+ * - transcribeAudio: Call the audio model (Gemini by default) with structured prompt
  * - analyzeAudio: Main entry point, handles single message enrichment
  * - analyzeAudios: Batch processing wrapper
  *
@@ -23,16 +23,18 @@
 
 import { access, stat } from 'node:fs/promises'
 
-import { GoogleGenerativeAI } from '@google/generative-ai'
-
 import type { MediaEnrichment, MediaMeta, Message } from '#schema/message'
 
 import { createLogger } from '#utils/logger'
 
+import { createGeminiProvider, type ModelProvider } from './model-provider.js'
+
 type AudioTranscriptionConfig = {
 	enableAudioTranscription: boolean
 	geminiApiKey: string
 	geminiModel?: string
+	/** Model backend to call instead of Gemini with geminiApiKey/geminiModel */
+	provider?: ModelProvider
 	maxAudioChunkDuration?: number // minutes
 	rateLimitDelay?: number // milliseconds
 	maxRetries?: number
@@ -47,6 +49,11 @@ type TranscriptionData = {
 
 const logger = createLogger('enrich:audio-transcription')
 
+/**
+ * Version of GEMINI_AUDIO_PROMPT for the enrichment cache key; bump on edits
+ */
+export const AUDIO_PROMPT_VERSION = '1'
+
 /**
  * Structured prompt for Gemini Audio API
  * Requests transcription with speaker identification, timestamps, and summary
@@ -105,7 +112,23 @@ function getAudioChunks(
 }
 
 /**
- * AC01: Call Gemini Audio API with structured prompt for single chunk
+ * The configured audio model, or Gemini with geminiApiKey/geminiModel
+ */
+function resolveAudioProvider(
+	config: Partial<AudioTranscriptionConfig>,
+): ModelProvider {
+	if (config.provider) return config.provider
+	if (!config.geminiApiKey) {
+		throw new Error('GEMINI_API_KEY is required for audio transcription')
+	}
+	return createGeminiProvider({
+		apiKey: config.geminiApiKey,
+		model: config.geminiModel || 'gemini-1.5-pro',
+	})
+}
+
+/**
+ * AC01: Call the audio model with structured prompt for single chunk
  * AC02, AC03: Parse response into transcription, speakers, and description
  * AC04: Create enrichment with provenance
  */
@@ -114,22 +137,12 @@ export async function transcribeAudioChunk(
 	chunkIndex: number,
 	config: Partial<AudioTranscriptionConfig>,
 ): Promise<TranscriptionData> {
-	const apiKey = config.geminiApiKey
-	const modelName = config.geminiModel || 'gemini-1.5-pro'
-
-	if (!apiKey) {
-		throw new Error('GEMINI_API_KEY is required for audio transcription')
-	}
+	const provider = resolveAudioProvider(config)
 
 	try {
-		// AC01: Create Gemini client and call with structured prompt
-		const genAI = new GoogleGenerativeAI(apiKey)
-		const model = genAI.getGenerativeModel({ model: modelName })
-
 		// Read and encode the actual audio file
 		const { readFile } = await import('node:fs/promises')
 		const audioBuffer = await readFile(audioPath)
-		const audioBase64 = audioBuffer.toString('base64')
 
 		// Determine MIME type from file extension
 		const ext = audioPath.toLowerCase().split('.').pop() || 'm4a'
@@ -143,19 +156,13 @@ export async function transcribeAudioChunk(
 		}
 		const mimeType = mimeTypeMap[ext] || 'audio/mp4'
 
-		const response = await model.generateContent([
-			{
-				inlineData: {
-					mimeType,
-					data: audioBase64,
-				},
-			},
-			GEMINI_AUDIO_PROMPT,
+		// AC01: Call the model with the audio and structured prompt
+		const responseText = await provider.generate([
+			{ data: audioBuffer, mimeType },
+			{ text: GEMINI_AUDIO_PROMPT },
 		])
-
-		const responseText = response.response.text()
 		logger.debug(
-			`Gemini response received (chunk ${chunkIndex}): ${responseText.substring(0, 200)}...`,
+			`${provider.name} response received (chunk ${chunkIndex}): ${responseText.substring(0, 200)}...`,
 		)
 
 		// AC02: Parse speaker labels from response
@@ -201,9 +208,12 @@ export async function transcribeAudioChunk(
 			shortDescription,
 		}
 	} catch (error) {
-		logger.error(`Gemini API error for ${audioPath} (chunk ${chunkIndex})`, {
-			error,
-		})
+		logger.error(
+			`${provider.name} API error for ${audioPath} (chunk ${chunkIndex})`,
+			{
+				error,
+			},
+		)
 		throw error
 	}
 }
@@ -297,20 +307,21 @@ export async function transcribeAudio(
 			estimatedDuration: Math.round(durationSeconds / 60),
 		})
 
-		// AC05: Handle long audio with chunking if needed
+		// AC05: Handle long audio with chunking if needed; every chunk goes to
+		// the same provider
+		const provider = resolveAudioProvider(config)
 		const transcriptionData = await handleLongAudio(
 			audioPath,
 			durationSeconds,
-			config,
+			{ ...config, provider },
 		)
 
 		// AC04: Create enrichment entry with full provenance
-		const modelName = config.geminiModel || 'gemini-1.5-pro'
 		const version = new Date().toISOString().split('T')[0] || 'unknown'
 		const enrichment: MediaEnrichment = {
 			kind: 'transcription',
-			provider: 'gemini',
-			model: modelName,
+			provider: provider.name,
+			model: provider.model,
 			version, // YYYY-MM-DD
 			createdAt: new Date().toISOString(),
 			transcription: transcriptionData.transcription,
@@ -388,9 +399,7 @@ export async function analyzeAudio(
 
 		// Check idempotency: don't re-transcribe if already done
 		const existingTranscription = message.media.enrichment?.find(
-			(e) =>
-				e.kind === 'transcription' &&
-				e.provider === (config.geminiModel ? 'gemini' : 'gemini'),
+			(e) => e.kind === 'transcription' && e.provider === enrichment.provider,
 		)
 
 		if (existingTranscription) {
@@ -12,6 +12,8 @@
  * - createCheckpoint: Create new checkpoint with schema
  * - shouldWriteCheckpoint: Determine if checkpoint should be written
  * - getResumeIndex: Calculate resume position from checkpoint
+ * - getResumePlan: Resume position plus the outcomes a concurrent run
+ *   finished ahead of it
  * - verifyConfigHash: Validate config hasn't changed
  * - getCheckpointPath: Generate deterministic checkpoint file path
  * - loadCheckpoint: Load checkpoint from disk
@@ -22,6 +24,8 @@ import crypto from 'node:crypto'
 import { access, readFile, writeFile } from 'node:fs/promises'
 import path from 'node:path'
 
+import type { ItemOutcome } from './enrich-item'
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -42,7 +46,12 @@ export type CheckpointStats = {
 export type EnrichCheckpoint = {
 	version: string
 	configHash: string
+	/** Highest index below which every item has completed */
 	lastProcessedIndex: number
+	/** Items started but not finished when written, when run concurrently */
+	inFlight?: number[]
+	/** Items finished past lastProcessedIndex when written, with their outcome */
+	completed?: CompletedItem[]
 	totalProcessed: number
 	totalFailed: number
 	stats: CheckpointStats
@@ -50,8 +59,15 @@ export type EnrichCheckpoint = {
 	createdAt: string
 }
 
+export type CompletedItem = {
+	index: number
+	outcome: ItemOutcome
+}
+
 export type CheckpointInput = {
 	lastProcessedIndex: number
+	inFlight?: number[]
+	completed?: CompletedItem[]
 	totalProcessed: number
 	totalFailed: number
 	stats: CheckpointStats
@@ -93,6 +109,10 @@ export function createCheckpoint(input: CheckpointInput): EnrichCheckpoint {
 		version: '1.0',
 		configHash: input.configHash,
 		lastProcessedIndex: input.lastProcessedIndex,
+		...(input.inFlight &&
+			input.inFlight.length > 0 && { inFlight: input.inFlight }),
+		...(input.completed &&
+			input.completed.length > 0 && { completed: input.completed }),
 		totalProcessed: input.totalProcessed,
 		totalFailed: input.totalFailed,
 		stats: input.stats,
@@ -188,6 +208,32 @@ export function getResumeIndex(checkpoint: EnrichCheckpoint): number {
 	return checkpoint.lastProcessedIndex + 1
 }
 
+export type ResumePlan = {
+	startIndex: number
+	/** Outcomes to take as they are instead of enriching again, by index */
+	completed: Map<number, ItemOutcome>
+}
+
+/**
+ * Calculate where a run resumes and which items it need not redo
+ *
+ * A concurrent run finishes items out of order, so when the checkpoint was
+ * written some items past lastProcessedIndex were done and others in flight.
+ * Only the in-flight ones and those not started yet are enriched again.
+ *
+ * @param checkpoint - Checkpoint to resume from
+ */
+export function getResumePlan(checkpoint: EnrichCheckpoint): ResumePlan {
+	const inFlight = new Set(checkpoint.inFlight)
+	const completed = new Map<number, ItemOutcome>()
+	for (const { index, outcome } of checkpoint.completed ?? []) {
+		if (index > checkpoint.lastProcessedIndex && !inFlight.has(index)) {
+			completed.set(index, outcome)
+		}
+	}
+	return { startIndex: getResumeIndex(checkpoint), completed }
+}
+
 // ============================================================================
 // AC05: Config consistency verification
 // ============================================================================
@@ -0,0 +1,74 @@
+/**
+ * Enrichment Reuse for Identical Files
+ *
+ * normalize-link records the SHA-256 of every media file it finds. The same
+ * photo sent twice, or exported both by iMazing and from the Messages
+ * attachments folder, then shares one hash; its enrichment is copied to the
+ * other messages instead of paying the model again.
+ *
+ * Enrichments that recorded an error are never reused.
+ */
+
+import type { MediaEnrichment, Message } from '#schema/message'
+
+export type EnrichmentReuse = {
+	/**
+	 * Copy an enrichment of this kind from an identical file
+	 *
+	 * @returns The message with the enrichment added, or null when no file
+	 * with the same hash has one (or the message already does)
+	 */
+	apply(message: Message, kind: MediaEnrichment['kind']): Message | null
+	/** Remember a message's enrichments for later identical files */
+	record(message: Message): void
+	/** Number of enrichments copied so far */
+	readonly reused: number
+}
+
+/**
+ * Create a reuse index, seeded with the enrichments already on `messages`
+ */
+export function createEnrichmentReuse(
+	messages: Message[] = [],
+): EnrichmentReuse {
+	const byHash = new Map<
+		string,
+		Map<MediaEnrichment['kind'], MediaEnrichment>
+	>()
+	let reused = 0
+
+	const record = (message: Message) => {
+		const sha256 = message.media?.sha256
+		if (!sha256 || !message.media?.enrichment) return
+		for (const enrichment of message.media.enrichment) {
+			if (enrichment.error) continue
+			const kinds = byHash.get(sha256) ?? new Map()
+			if (!kinds.has(enrichment.kind)) kinds.set(enrichment.kind, enrichment)
+			byHash.set(sha256, kinds)
+		}
+	}
+	for (const message of messages) record(message)
+
+	return {
+		apply(message, kind) {
+			const media = message.media
+			if (message.messageKind !== 'media' || !media?.sha256) return null
+			if (media.enrichment?.some((e) => e.kind === kind)) return null
+			const enrichment = byHash.get(media.sha256)?.get(kind)
+			if (!enrichment) return null
+
+			reused++
+			return {
+				...message,
+				media: {
+					...media,
+					enrichment: [...(media.enrichment ?? []), enrichment],
+				},
+			}
+		},
+		record,
+		get reused() {
+			return reused
+		},
+	}
+}
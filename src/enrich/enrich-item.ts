@@ -0,0 +1,320 @@
+/**
+ * Enriching One Message
+ *
+ * What enrich-ai does for each message, whatever the concurrency:
+ * - decides which enrichment is due from the message's kind and the enabled
+ *   toggles, skipping media that already has it (ENRICH--T05)
+ * - reuses an identical file's enrichment, then the content cache, before
+ *   calling a model through the provider's rate limiter
+ * - treats a due enrichment that is missing or carries an error as a failure,
+ *   since the analyzers record provider errors rather than throwing
+ *
+ * tallyOutcome adds a result to the run's counts once the messages before it
+ * are done, which is what checkpoints record.
+ */
+
+import type { MediaEnrichment, Message } from '#schema/message'
+import { createLogger } from '#utils/logger'
+
+import { analyzeAudio } from './audio-transcription'
+import type { FailedItem } from './checkpoint'
+import type { EnrichmentReuse } from './content-reuse'
+import { type EnrichmentCache, PROMPT_VERSIONS } from './enrichment-cache'
+import { addEnrichmentIdempotent, shouldSkipEnrichment } from './idempotency'
+import { analyzeImage } from './image-analysis'
+import { enrichLinkContext } from './link-enrichment'
+import type { ModelProvider } from './model-provider'
+import { analyzePdfOrVideo } from './pdf-video-handling'
+import type { ProviderLimiters } from './worker-pool'
+
+const logger = createLogger('enrich:item')
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ItemEnricherConfig = {
+	enableVisionAnalysis: boolean
+	enableAudioTranscription: boolean
+	enablePdfAnalysis: boolean
+	enableVideoMetadata: boolean
+	enableLinkEnrichment: boolean
+	/** Redo enrichments the message already has, bypassing the cache */
+	forceRefresh: boolean
+	/** Redo the failed kind even though the message has it */
+	retryFailed: boolean
+	/** Whether a message is enriched at all; incremental runs skip old ones */
+	isDue?: (message: Message) => boolean
+	/** Model backends by enrichment kind, for cache keys and rate limits */
+	modelProviders: Partial<
+		Record<MediaEnrichment['kind'], ModelProvider | undefined>
+	>
+	imageConfig: Parameters<typeof analyzeImage>[1]
+	audioConfig: Parameters<typeof analyzeAudio>[1]
+	pdfConfig: Parameters<typeof analyzePdfOrVideo>[1]
+	videoConfig: Parameters<typeof analyzePdfOrVideo>[1]
+	linkConfig: Parameters<typeof enrichLinkContext>[1]
+	limiters: ProviderLimiters
+	cache: EnrichmentCache
+	reuse: EnrichmentReuse
+	/** Called when a provider's circuit breaker skips a message */
+	onCircuitOpen?: (provider: string, index: number) => void
+	/** Called for each failed message */
+	onFailure?: (failure: FailedItem, error?: unknown) => void
+}
+
+/**
+ * What enriching one message produced, kept until the messages before it
+ * are done
+ */
+export type ItemOutcome =
+	| {
+			message: Message
+			added: MediaEnrichment[]
+			alreadyEnriched: boolean
+			fromCache: boolean
+	  }
+	| { message: Message; failure: FailedItem }
+
+export type ItemEnricher = {
+	/** The enrichment a message is due, if its kind is enabled */
+	kindOf(message: Message): MediaEnrichment['kind'] | null
+	/** Enrich the message at `index`; never throws */
+	enrich(index: number, message: Message): Promise<ItemOutcome>
+}
+
+export type EnrichTally = {
+	totalProcessed: number
+	totalFailed: number
+	alreadyEnriched: number
+	cacheHits: number
+	failedItems: FailedItem[]
+	enrichmentsByKind: Record<string, number>
+}
+
+// ============================================================================
+// Enrichment
+// ============================================================================
+
+/**
+ * Create the per-message enrichment step of an enrich-ai run
+ */
+export function createItemEnricher(config: ItemEnricherConfig): ItemEnricher {
+	const { cache, limiters, reuse, modelProviders } = config
+
+	const kindOf = (message: Message): MediaEnrichment['kind'] | null => {
+		const mediaKind =
+			message.messageKind === 'media' ? message.media?.mediaKind : undefined
+		return config.enableVisionAnalysis && mediaKind === 'image'
+			? 'image_analysis'
+			: config.enableAudioTranscription && mediaKind === 'audio'
+				? 'transcription'
+				: config.enablePdfAnalysis && mediaKind === 'pdf'
+					? 'pdf_summary'
+					: config.enableVideoMetadata && mediaKind === 'video'
+						? 'video_metadata'
+						: null
+	}
+
+	const enrich = async (i: number, message: Message): Promise<ItemOutcome> => {
+		const enrichKind = kindOf(message)
+		let provider: string | undefined
+		let enrichedMessage = message
+
+		const fail = (errorMessage: string, error?: unknown): ItemOutcome => {
+			const failure: FailedItem = {
+				index: i,
+				guid: message.guid || 'unknown',
+				// The enrichment that failed, which --retry-failed redoes
+				kind:
+					enrichKind ??
+					(provider === 'firecrawl'
+						? 'link_context'
+						: message.messageKind || 'unknown'),
+				error: errorMessage,
+			}
+			config.onFailure?.(failure, error)
+			return { message: enrichedMessage, failure }
+		}
+
+		try {
+			const shouldEnrich = config.isDue?.(message) ?? true
+
+			// ENRICH--T05: media that already has this kind is left as is
+			// unless --force-refresh; --retry-failed redoes the failed kind
+			const isEnriched =
+				enrichKind !== null &&
+				!config.forceRefresh &&
+				!config.retryFailed &&
+				shouldSkipEnrichment(message, enrichKind)
+
+			const reused =
+				shouldEnrich &&
+				!isEnriched &&
+				enrichKind &&
+				enrichKind !== 'video_metadata'
+					? reuse.apply(message, enrichKind)
+					: null
+
+			const modelProvider = enrichKind ? modelProviders[enrichKind] : undefined
+			provider =
+				modelProvider?.name ??
+				(enrichKind === null &&
+				config.enableLinkEnrichment &&
+				message.messageKind === 'text' &&
+				message.text
+					? 'firecrawl'
+					: undefined)
+
+			const sha256 = message.media?.sha256
+			const promptVersion = enrichKind && PROMPT_VERSIONS[enrichKind]
+			const cacheKey =
+				enrichKind && modelProvider && sha256 && promptVersion
+					? {
+							sha256,
+							kind: enrichKind,
+							provider: modelProvider.name,
+							model: modelProvider.model,
+							promptVersion,
+						}
+					: undefined
+			// --force-refresh asks the model again and overwrites the entry
+			let called = false
+			const cached =
+				shouldEnrich && !isEnriched && !reused && cacheKey
+					? config.forceRefresh
+						? null
+						: await cache.get(cacheKey)
+					: null
+
+			if (reused) {
+				enrichedMessage = reused
+			} else if (cached) {
+				enrichedMessage = addEnrichmentIdempotent(enrichedMessage, cached)
+			} else if (
+				shouldEnrich &&
+				!isEnriched &&
+				enrichKind === 'video_metadata'
+			) {
+				// Video metadata is read from the file, so no API call to rate limit
+				enrichedMessage = await analyzePdfOrVideo(
+					enrichedMessage,
+					config.videoConfig,
+				)
+				called = true
+			} else if (shouldEnrich && !isEnriched && provider) {
+				// Waits for the provider's rate limit; false when its circuit is open
+				if (!(await limiters.acquire(provider))) {
+					// Circuit is open - skip enrichment but don't fail
+					config.onCircuitOpen?.(provider, i)
+				} else {
+					// Enrich based on message type and config
+					if (enrichKind === 'image_analysis') {
+						enrichedMessage = await analyzeImage(
+							enrichedMessage,
+							config.imageConfig,
+						)
+					} else if (enrichKind === 'transcription') {
+						enrichedMessage = await analyzeAudio(
+							enrichedMessage,
+							config.audioConfig,
+						)
+					} else if (enrichKind === 'pdf_summary') {
+						enrichedMessage = await analyzePdfOrVideo(
+							enrichedMessage,
+							config.pdfConfig,
+						)
+					} else {
+						enrichedMessage = await enrichLinkContext(
+							enrichedMessage,
+							config.linkConfig,
+						)
+					}
+					called = true
+				}
+			}
+
+			const added = addedEnrichments(message, enrichedMessage)
+			// --force-refresh replaces the earlier enrichment of the same kind
+			// rather than adding a second one
+			const refreshed = enrichKind
+				? added.find((e) => e.kind === enrichKind)
+				: undefined
+			if (refreshed && shouldSkipEnrichment(message, refreshed.kind)) {
+				enrichedMessage = addEnrichmentIdempotent(message, refreshed, {
+					forceRefresh: true,
+				})
+			}
+
+			// The analyzers record provider errors on the message rather than
+			// throwing, so a due enrichment that is missing or carries an error
+			// is a failure as well
+			if (called && enrichKind && (!refreshed || refreshed.error)) {
+				if (provider && refreshed?.error) limiters.recordFailure(provider)
+				return fail(
+					refreshed?.error ?? `No ${enrichKind} enrichment was produced`,
+				)
+			}
+			if (called && provider) limiters.recordSuccess(provider)
+
+			const fresh =
+				cacheKey && !reused && !cached
+					? added.find((e) => e.kind === enrichKind)
+					: undefined
+			if (cacheKey && fresh) {
+				try {
+					await cache.set(cacheKey, fresh)
+				} catch (error) {
+					// The enrichment itself succeeded; only later runs lose out
+					logger.warn('Could not write enrichment cache entry', {
+						guid: message.guid,
+						error: error instanceof Error ? error.message : String(error),
+					})
+				}
+			}
+
+			reuse.record(enrichedMessage)
+			return {
+				message: enrichedMessage,
+				added,
+				alreadyEnriched: shouldEnrich && isEnriched,
+				fromCache: Boolean(cached),
+			}
+		} catch (error) {
+			if (provider) limiters.recordFailure(provider)
+			return fail(error instanceof Error ? error.message : String(error), error)
+		}
+	}
+
+	return { kindOf, enrich }
+}
+
+/**
+ * Add a message's outcome to the run's counts
+ */
+export function tallyOutcome(tally: EnrichTally, outcome: ItemOutcome): void {
+	if ('failure' in outcome) {
+		tally.totalFailed++
+		tally.failedItems.push(outcome.failure)
+		return
+	}
+	tally.totalProcessed++
+	if (outcome.alreadyEnriched) tally.alreadyEnriched++
+	if (outcome.fromCache) tally.cacheHits++
+	for (const { kind } of outcome.added) {
+		tally.enrichmentsByKind[kind] = (tally.enrichmentsByKind[kind] ?? 0) + 1
+	}
+}
+
+/**
+ * Enrichments on `after` that `before` did not have, media and link alike
+ */
+function addedEnrichments(before: Message, after: Message): MediaEnrichment[] {
+	type WithLinks = Message & { linkEnrichments?: MediaEnrichment[] }
+	const all = (message: Message) => [
+		...(message.media?.enrichment ?? []),
+		...((message as WithLinks).linkEnrichments ?? []),
+	]
+	const existing = new Set(all(before))
+	return all(after).filter((enrichment) => !existing.has(enrichment))
+}
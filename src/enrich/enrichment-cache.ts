@@ -0,0 +1,249 @@
+/**
+ * Content-Addressed Enrichment Cache
+ *
+ * Idempotency only looks at the enrichments already on a message, so
+ * re-ingesting from scratch, or the same file turning up in another archive,
+ * pays the model again. This cache keeps every successful enrichment on disk
+ * keyed by what produced it:
+ * - the file's SHA-256 (recorded by normalize-link)
+ * - the enrichment kind
+ * - the provider and model
+ * - the prompt version of that kind
+ *
+ * enrich-ai consults it before any provider call; `--force-refresh` skips the
+ * lookup and overwrites the entry. Entries are JSON files under
+ * `<cacheDir>/<first two hex digits>/`, so the directory can be copied
+ * between machines as is.
+ */
+
+import crypto from 'node:crypto'
+import {
+	mkdir,
+	readdir,
+	readFile,
+	rename,
+	unlink,
+	writeFile,
+} from 'node:fs/promises'
+import path from 'node:path'
+
+import type { MediaEnrichment } from '#schema/message'
+
+import { AUDIO_PROMPT_VERSION } from './audio-transcription'
+import { IMAGE_PROMPT_VERSION } from './image-analysis'
+import { PDF_PROMPT_VERSION } from './pdf-video-handling'
+
+/**
+ * Current prompt version of each cached kind; entries with another version
+ * are never hit again and `cache prune` removes them
+ */
+export const PROMPT_VERSIONS: Partial<Record<MediaEnrichment['kind'], string>> =
+	{
+		image_analysis: IMAGE_PROMPT_VERSION,
+		transcription: AUDIO_PROMPT_VERSION,
+		pdf_summary: PDF_PROMPT_VERSION,
+	}
+
+export type EnrichmentCacheKey = {
+	sha256: string
+	kind: MediaEnrichment['kind']
+	provider: string
+	model: string
+	promptVersion: string
+}
+
+export type EnrichmentCacheEntry = EnrichmentCacheKey & {
+	cachedAt: string
+	enrichment: MediaEnrichment
+}
+
+export type EnrichmentCacheStats = {
+	entries: number
+	bytes: number
+	byKind: Record<string, number>
+	/** Entries per `provider/model` */
+	byModel: Record<string, number>
+	/** Entries whose prompt version is no longer current */
+	stale: number
+	oldest?: string
+	newest?: string
+}
+
+export type EnrichmentCache = {
+	readonly dir: string
+	/** The cached enrichment for a key, or null on a miss */
+	get(key: EnrichmentCacheKey): Promise<MediaEnrichment | null>
+	/** Store an enrichment; ones that recorded an error are not cached */
+	set(key: EnrichmentCacheKey, enrichment: MediaEnrichment): Promise<void>
+	/** Every readable entry, oldest first, optionally of one kind only */
+	entries(options?: { kind?: string }): Promise<EnrichmentCacheEntry[]>
+	stats(): Promise<EnrichmentCacheStats>
+	/**
+	 * Remove the entries `select` returns true for
+	 *
+	 * @returns Number of entries and bytes removed, or that would be with
+	 * `dryRun`
+	 */
+	prune(
+		select: (entry: EnrichmentCacheEntry) => boolean,
+		options?: { dryRun?: boolean },
+	): Promise<{ removed: number; bytes: number }>
+}
+
+export type PruneSelection = {
+	/** Remove every entry */
+	all?: boolean
+	/** Also remove entries cached before this ISO timestamp */
+	cachedBefore?: string
+}
+
+/**
+ * Whether an entry was made with a prompt that is no longer current
+ */
+export function isStaleEntry(entry: EnrichmentCacheKey): boolean {
+	return PROMPT_VERSIONS[entry.kind] !== entry.promptVersion
+}
+
+/**
+ * The entries `cache prune` removes
+ *
+ * Entries made with an outdated prompt always go, since they can never be
+ * hit again.
+ */
+export function selectPrunable(
+	selection: PruneSelection = {},
+): (entry: EnrichmentCacheEntry) => boolean {
+	const { all = false, cachedBefore } = selection
+	return (entry) =>
+		all ||
+		isStaleEntry(entry) ||
+		(cachedBefore !== undefined && entry.cachedAt < cachedBefore)
+}
+
+/**
+ * Open the cache in `dir`; nothing is created until the first write
+ */
+export function createEnrichmentCache(dir: string): EnrichmentCache {
+	const entryPath = (key: EnrichmentCacheKey) => {
+		const variant = crypto
+			.createHash('sha256')
+			.update(`${key.provider}\n${key.model}\n${key.promptVersion}`)
+			.digest('hex')
+			.slice(0, 16)
+		return path.join(
+			dir,
+			key.sha256.slice(0, 2),
+			`${key.sha256}.${key.kind}.${variant}.json`,
+		)
+	}
+
+	const readEntries = async () => {
+		const found: Array<{
+			file: string
+			bytes: number
+			entry: EnrichmentCacheEntry
+		}> = []
+		let shards: string[]
+		try {
+			shards = await readdir(dir)
+		} catch {
+			return found
+		}
+		for (const shard of shards.sort()) {
+			let files: string[]
+			try {
+				files = await readdir(path.join(dir, shard))
+			} catch {
+				continue
+			}
+			for (const name of files.sort()) {
+				if (!name.endsWith('.json')) continue
+				const file = path.join(dir, shard, name)
+				try {
+					const content = await readFile(file, 'utf-8')
+					const entry = JSON.parse(content) as EnrichmentCacheEntry
+					if (typeof entry.cachedAt !== 'string' || !entry.enrichment) continue
+					found.push({ file, bytes: Buffer.byteLength(content), entry })
+				} catch {
+					// Half-written or foreign file; not an entry
+				}
+			}
+		}
+		return found.sort((a, b) =>
+			a.entry.cachedAt.localeCompare(b.entry.cachedAt),
+		)
+	}
+
+	return {
+		dir,
+		async get(key) {
+			try {
+				const entry = JSON.parse(
+					await readFile(entryPath(key), 'utf-8'),
+				) as EnrichmentCacheEntry
+				// The file name only carries a hash of provider, model and prompt
+				const matches =
+					entry.sha256 === key.sha256 &&
+					entry.kind === key.kind &&
+					entry.provider === key.provider &&
+					entry.model === key.model &&
+					entry.promptVersion === key.promptVersion
+				return matches ? entry.enrichment : null
+			} catch {
+				return null
+			}
+		},
+		async set(key, enrichment) {
+			if (enrichment.error) return
+			const file = entryPath(key)
+			const entry: EnrichmentCacheEntry = {
+				...key,
+				cachedAt: new Date().toISOString(),
+				enrichment,
+			}
+			await mkdir(path.dirname(file), { recursive: true })
+			const tempPath = `${file}.${process.pid}.tmp`
+			await writeFile(tempPath, JSON.stringify(entry, null, 2), 'utf-8')
+			await rename(tempPath, file)
+		},
+		async entries(options = {}) {
+			return (await readEntries())
+				.map(({ entry }) => entry)
+				.filter((entry) => !options.kind || entry.kind === options.kind)
+		},
+		async stats() {
+			const found = await readEntries()
+			const stats: EnrichmentCacheStats = {
+				entries: found.length,
+				bytes: 0,
+				byKind: {},
+				byModel: {},
+				stale: 0,
+			}
+			for (const { entry, bytes } of found) {
+				stats.bytes += bytes
+				stats.byKind[entry.kind] = (stats.byKind[entry.kind] ?? 0) + 1
+				const model = `${entry.provider}/${entry.model}`
+				stats.byModel[model] = (stats.byModel[model] ?? 0) + 1
+				if (isStaleEntry(entry)) stats.stale++
+			}
+			const [first, last] = [found[0], found[found.length - 1]]
+			return {
+				...stats,
+				...(first && { oldest: first.entry.cachedAt }),
+				...(last && { newest: last.entry.cachedAt }),
+			}
+		},
+		async prune(select, options = {}) {
+			let removed = 0
+			let bytes = 0
+			for (const found of await readEntries()) {
+				if (!select(found.entry)) continue
+				if (!options.dryRun) await unlink(found.file)
+				removed++
+				bytes += found.bytes
+			}
+			return { removed, bytes }
+		},
+	}
+}
@@ -5,41 +5,50 @@
  * - AC01: HEIC → JPG conversion with ≥90% quality
  * - AC02: TIFF → JPG conversion
  * - AC03: Preview caching by filename (generate once, skip if exists)
- * - AC04: Gemini Vision API with structured prompt
+ * - AC04: Vision model (Gemini by default) with structured prompt
  * - AC05: Parse response into enrichment array with kind='image_analysis'
  * - AC06: Store provenance (provider, model, version, timestamp)
  *
  * Architecture:
  * - convertToJpgPreview: Handles format conversion with caching
- * - analyzeImageWithGemini: Calls Gemini Vision API with structured prompt
+ * - analyzeImageWithGemini: Calls the vision model with structured prompt
  * - analyzeImage: Main entry point, handles single message enrichment
  * - analyzeImages: Batch processing wrapper
  *
  * Error Handling:
  * - Non-fatal errors are logged and original message is returned
- * - Preview generation failures don't block Gemini analysis
+ * - Preview generation failures don't block model analysis
  * - Pipeline never crashes on enrichment errors
  */
 
 import { access, writeFile } from 'node:fs/promises'
 import path from 'node:path'
 
-import { GoogleGenerativeAI } from '@google/generative-ai'
 import sharp from 'sharp'
 
 import type { MediaEnrichment, MediaMeta, Message } from '#schema/message'
 
 import { createLogger } from '#utils/logger'
 
+import { createGeminiProvider, type ModelProvider } from './model-provider.js'
+
 type ImageAnalysisConfig = {
 	enableVisionAnalysis: boolean
 	geminiApiKey: string
 	geminiModel?: string
+	/** Model backend to call instead of Gemini with geminiApiKey/geminiModel */
+	provider?: ModelProvider
 	imageCacheDir: string
 }
 
 const logger = createLogger('enrich:image-analysis')
 
+/**
+ * Version of GEMINI_VISION_PROMPT, part of the enrichment cache key
+ * Bump it when the prompt changes so cached analyses are redone
+ */
+export const IMAGE_PROMPT_VERSION = '1'
+
 /**
  * Structured prompt for Gemini Vision analysis
  * First classifies image type, then provides detailed + short descriptions
@@ -108,7 +117,23 @@ export async function convertToJpgPreview(
 }
 
 /**
- * AC04: Call Gemini Vision with structured prompt
+ * The configured vision model, or Gemini with geminiApiKey/geminiModel
+ */
+function resolveImageProvider(
+	config: Partial<ImageAnalysisConfig>,
+): ModelProvider {
+	if (config.provider) return config.provider
+	if (!config.geminiApiKey) {
+		throw new Error('GEMINI_API_KEY is required for image analysis')
+	}
+	return createGeminiProvider({
+		apiKey: config.geminiApiKey,
+		model: config.geminiModel || 'gemini-1.5-pro',
+	})
+}
+
+/**
+ * AC04: Call the vision model with structured prompt
  * AC05: Parse response into enrichment array
  * AC06: Store provenance
  */
@@ -116,39 +141,19 @@ export async function analyzeImageWithGemini(
 	imagePath: string,
 	config: Partial<ImageAnalysisConfig>,
 ): Promise<MediaEnrichment> {
-	const apiKey = config.geminiApiKey
-	const modelName = config.geminiModel || 'gemini-1.5-pro'
-
-	if (!apiKey) {
-		throw new Error('GEMINI_API_KEY is required for image analysis')
-	}
+	const provider = resolveImageProvider(config)
 
 	try {
-		// AC04: Create Gemini client and call with structured prompt
-		const genAI = new GoogleGenerativeAI(apiKey)
-		const model = genAI.getGenerativeModel({ model: modelName })
-
 		// Read image file
 		const imageData = await sharp(imagePath).toFormat('jpeg').toBuffer()
 
-		const base64Image = imageData.toString('base64')
-
-		// AC04: Call Gemini with structured prompt
-
-		// Call Gemini with image
-		const response = await model.generateContent([
-			{
-				inlineData: {
-					mimeType: 'image/jpeg',
-					data: base64Image,
-				},
-			},
-			GEMINI_VISION_PROMPT,
+		// AC04: Call the model with the image and structured prompt
+		const responseText = await provider.generate([
+			{ data: imageData, mimeType: 'image/jpeg' },
+			{ text: GEMINI_VISION_PROMPT },
 		])
-
-		const responseText = response.response.text()
 		logger.debug(
-			`Gemini response received: ${responseText.substring(0, 150)}...`,
+			`${provider.name} response received: ${responseText.substring(0, 150)}...`,
 		)
 
 		// AC05: Parse response
@@ -160,7 +165,7 @@ export async function analyzeImageWithGemini(
 		)
 
 		if (!visionSummaryMatch || !shortDescriptionMatch) {
-			logger.warn(`Failed to parse Gemini response for ${imagePath}`)
+			logger.warn(`Failed to parse ${provider.name} response for ${imagePath}`)
 		}
 
 		const visionSummary =
@@ -171,8 +176,8 @@ export async function analyzeImageWithGemini(
 		const version = new Date().toISOString().split('T')[0] || 'unknown'
 		const enrichment: MediaEnrichment = {
 			kind: 'image_analysis',
-			provider: 'gemini',
-			model: modelName,
+			provider: provider.name,
+			model: provider.model,
 			version, // YYYY-MM-DD
 			createdAt: new Date().toISOString(),
 			visionSummary,
@@ -184,7 +189,7 @@ export async function analyzeImageWithGemini(
 		})
 		return enrichment
 	} catch (error) {
-		logger.error(`Gemini API error for ${imagePath}`, { error })
+		logger.error(`${provider.name} API error for ${imagePath}`, { error })
 		throw error
 	}
 }
@@ -196,7 +201,7 @@ export async function analyzeImageWithGemini(
  * Responsibilities:
  * 1. Check if media is image type (skip non-images)
  * 2. Convert HEIC/TIFF to JPG preview (AC01-AC03)
- * 3. Call Gemini Vision API (AC04)
+ * 3. Call the vision model (AC04)
  * 4. Parse response (AC05)
  * 5. Add enrichment with provenance (AC06)
  */
@@ -243,17 +248,14 @@ export async function analyzeImage(
 				90,
 			)
 		} catch (err) {
-			logger.warn(
-				'Failed to create preview - continuing with Gemini analysis',
-				{
-					filename: message.media.filename,
-					error: err instanceof Error ? err.message : String(err),
-				},
-			)
-			// Continue with Gemini analysis even if preview fails
+			logger.warn('Failed to create preview - continuing with model analysis', {
+				filename: message.media.filename,
+				error: err instanceof Error ? err.message : String(err),
+			})
+			// Continue with model analysis even if preview fails
 		}
 
-		// AC04-AC06: Analyze with Gemini
+		// AC04-AC06: Analyze with the configured model
 		const enrichment = await analyzeImageWithGemini(message.media.path, config)
 
 		// Update message with enrichment
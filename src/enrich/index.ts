@@ -13,10 +13,14 @@
  */
 
 export * from './audio-transcription'
+export * from './content-reuse'
+export * from './enrichment-cache'
 export * from './idempotency'
 export * from './image-analysis'
 export * from './link-enrichment'
+export * from './model-provider'
 export * from './pdf-video-handling'
+export * from './worker-pool'
 
 import type { MediaEnrichment, Message } from '#schema/message'
 import {
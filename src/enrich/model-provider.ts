@@ -0,0 +1,204 @@
+/**
+ * Model Providers for Media Enrichment
+ *
+ * Image analysis, audio transcription and PDF summaries send a prompt plus
+ * one file to a multimodal model and parse the text it returns. A
+ * ModelProvider hides which backend answers:
+ * - gemini: Google Gemini through @google/generative-ai
+ * - openai-compatible: any server speaking the OpenAI chat completions API,
+ *   e.g. llama.cpp, Ollama, vLLM or OpenAI itself
+ *
+ * The backend is chosen per enrichment kind in the config `models` section;
+ * kinds without an entry use Gemini with `gemini.model`. The provider's name
+ * and model are recorded on every enrichment it produces.
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai'
+
+/**
+ * One part of a model request: prompt text or an inline file
+ */
+export type ModelPart =
+	| { text: string }
+	| { data: Buffer; mimeType: string; filename?: string }
+
+export type ModelProvider = {
+	/** Provider recorded in enrichment provenance, e.g. "gemini" or "ollama" */
+	readonly name: string
+	/** Model recorded in enrichment provenance */
+	readonly model: string
+	/** Send the parts as one user turn and return the model's text reply */
+	generate(parts: ModelPart[]): Promise<string>
+}
+
+/**
+ * Backend for one enrichment kind, as written in the config `models` section
+ */
+export type ModelBackendConfig = {
+	provider: 'gemini' | 'openai-compatible'
+	/** Model name (default `gemini.model` for gemini; required otherwise) */
+	model?: string
+	/** Server base URL including the API prefix, e.g. http://localhost:11434/v1 */
+	baseUrl?: string
+	/** Key sent as a bearer token (gemini: default `gemini.apiKey`) */
+	apiKey?: string
+	/** Provider name for provenance (default: the provider type) */
+	name?: string
+	/** Request timeout in milliseconds (openai-compatible, default 120000) */
+	timeoutMs?: number
+}
+
+const DEFAULT_TIMEOUT_MS = 120_000
+
+/**
+ * Gemini through the Google Generative AI SDK
+ */
+export function createGeminiProvider(options: {
+	apiKey: string
+	model: string
+	name?: string
+}): ModelProvider {
+	return {
+		name: options.name ?? 'gemini',
+		model: options.model,
+		async generate(parts) {
+			const genAI = new GoogleGenerativeAI(options.apiKey)
+			const model = genAI.getGenerativeModel({ model: options.model })
+			const response = await model.generateContent(
+				parts.map((part) =>
+					'text' in part
+						? part.text
+						: {
+								inlineData: {
+									mimeType: part.mimeType,
+									data: part.data.toString('base64'),
+								},
+							},
+				),
+			)
+			return response.response.text()
+		},
+	}
+}
+
+type ChatCompletionResponse = {
+	choices?: Array<{ message?: { content?: string | null } }>
+}
+
+/**
+ * Any server implementing POST {baseUrl}/chat/completions
+ *
+ * Images are sent as `image_url` data URLs, audio as `input_audio` and other
+ * files (PDFs) as `file` parts; the server must support the part types the
+ * configured kinds need.
+ */
+export function createOpenAICompatibleProvider(options: {
+	baseUrl: string
+	model: string
+	apiKey?: string
+	name?: string
+	timeoutMs?: number
+}): ModelProvider {
+	const name = options.name ?? 'openai-compatible'
+	const url = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`
+
+	return {
+		name,
+		model: options.model,
+		async generate(parts) {
+			const response = await fetch(url, {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+					...(options.apiKey && {
+						Authorization: `Bearer ${options.apiKey}`,
+					}),
+				},
+				body: JSON.stringify({
+					model: options.model,
+					messages: [{ role: 'user', content: parts.map(toChatContent) }],
+				}),
+				signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+			})
+
+			if (!response.ok) {
+				const detail = (await response.text()).slice(0, 200)
+				throw new Error(
+					`${name} request failed: HTTP ${response.status}${detail ? ` ${detail}` : ''}`,
+				)
+			}
+
+			const body = (await response.json()) as ChatCompletionResponse
+			const content = body.choices?.[0]?.message?.content
+			if (typeof content !== 'string') {
+				throw new Error(`${name} response has no message content`)
+			}
+			return content
+		},
+	}
+}
+
+function toChatContent(part: ModelPart): Record<string, unknown> {
+	if ('text' in part) return { type: 'text', text: part.text }
+
+	const base64 = part.data.toString('base64')
+	if (part.mimeType.startsWith('image/')) {
+		return {
+			type: 'image_url',
+			image_url: { url: `data:${part.mimeType};base64,${base64}` },
+		}
+	}
+	if (part.mimeType.startsWith('audio/')) {
+		return {
+			type: 'input_audio',
+			input_audio: { data: base64, format: audioFormat(part.mimeType) },
+		}
+	}
+	return {
+		type: 'file',
+		file: {
+			filename: part.filename ?? 'file',
+			file_data: `data:${part.mimeType};base64,${base64}`,
+		},
+	}
+}
+
+function audioFormat(mimeType: string): string {
+	const subtype = mimeType.slice('audio/'.length)
+	return subtype === 'mpeg' ? 'mp3' : subtype
+}
+
+/**
+ * Create the provider configured for one enrichment kind
+ *
+ * @param backend - The kind's `models` entry; undefined means Gemini
+ * @param gemini - The `gemini` section, supplying Gemini's key and model
+ * @throws Error when the backend is missing a required setting
+ */
+export function createModelProvider(
+	backend: ModelBackendConfig | undefined,
+	gemini: { apiKey?: string; model: string },
+): ModelProvider {
+	if (!backend || backend.provider === 'gemini') {
+		const apiKey = backend?.apiKey ?? gemini.apiKey
+		if (!apiKey) {
+			throw new Error('A Gemini API key is required for the gemini provider')
+		}
+		return createGeminiProvider({
+			apiKey,
+			model: backend?.model ?? gemini.model,
+			...(backend?.name && { name: backend.name }),
+		})
+	}
+
+	if (!backend.baseUrl || !backend.model) {
+		throw new Error('The openai-compatible provider needs baseUrl and model')
+	}
+	return createOpenAICompatibleProvider({
+		baseUrl: backend.baseUrl,
+		model: backend.model,
+		...(backend.apiKey && { apiKey: backend.apiKey }),
+		...(backend.name && { name: backend.name }),
+		...(backend.timeoutMs !== undefined && { timeoutMs: backend.timeoutMs }),
+	})
+}
@@ -2,13 +2,13 @@
  * PDF and Video Handling Module (ENRICH--T03)
  *
  * Implements PDF/video enrichment without heavy processing:
- * - AC01: PDF summarization via Gemini with page limit (first ~10 pages)
+ * - AC01: PDF summarization via the PDF model (Gemini by default) with page limit (first ~10 pages)
  * - AC02: Video metadata extraction (no transcription - out of scope per spec §1)
  * - AC03: Fallback to filename when summarization fails
  * - AC04: Track unsupported formats in error log with counts
  *
  * Architecture:
- * - analyzePdf: PDF enrichment with Gemini summarization
+ * - analyzePdf: PDF enrichment with model summarization
  * - handleVideo: Video metadata extraction (local only)
  * - analyzePdfOrVideo: Main entry point, dispatcher by mediaKind
  * - analyzePdfsOrVideos: Batch processing wrapper
@@ -19,19 +19,21 @@
  * - Pipeline never crashes on enrichment errors
  */
 
-import { access, stat } from 'node:fs/promises'
+import { access, readFile, stat } from 'node:fs/promises'
 import path from 'node:path'
 
-import { GoogleGenerativeAI } from '@google/generative-ai'
-
 import type { MediaEnrichment, MediaMeta, Message } from '#schema/message'
 
 import { createLogger } from '#utils/logger'
 
+import { createGeminiProvider, type ModelProvider } from './model-provider.js'
+
 type PdfVideoConfig = {
 	enablePdfVideoAnalysis: boolean
 	geminiApiKey: string
 	geminiModel?: string
+	/** Model backend to call instead of Gemini with geminiApiKey/geminiModel */
+	provider?: ModelProvider
 	pdfPageLimit?: number // default 10
 	rateLimitDelay?: number // milliseconds
 	maxRetries?: number
@@ -46,6 +48,11 @@ type FormatStats = {
  */
 const _logger = createLogger('enrich:pdf-video')
 
+/**
+ * Version of getPdfPrompt for the enrichment cache key; bump on edits
+ */
+export const PDF_PROMPT_VERSION = '1'
+
 /**
  * Structured prompt for Gemini PDF summarization
  * Limits to first N pages to avoid token exhaustion
@@ -94,41 +101,42 @@ function isSupportedFormat(mediaKind: string, extension: string): boolean {
 }
 
 /**
- * AC01: Summarize PDF with Gemini, limited to first N pages
+ * The configured PDF model, or Gemini with geminiApiKey/geminiModel
+ */
+function resolvePdfProvider(config: Partial<PdfVideoConfig>): ModelProvider {
+	if (config.provider) return config.provider
+	if (!config.geminiApiKey) {
+		throw new Error('GEMINI_API_KEY is required for PDF analysis')
+	}
+	return createGeminiProvider({
+		apiKey: config.geminiApiKey,
+		model: config.geminiModel || 'gemini-1.5-pro',
+	})
+}
+
+/**
+ * AC01: Summarize PDF with the PDF model, limited to first N pages
  */
 export async function analyzePdf(
-	audioPath: string,
+	pdfPath: string,
 	config: Partial<PdfVideoConfig>,
 ): Promise<MediaEnrichment> {
-	const apiKey = config.geminiApiKey
-	const modelName = config.geminiModel || 'gemini-1.5-pro'
+	const provider = resolvePdfProvider(config)
 	const pageLimit = config.pdfPageLimit || 10
 
-	if (!apiKey) {
-		throw new Error('GEMINI_API_KEY is required for PDF analysis')
-	}
-
 	try {
-		// AC01: Create Gemini client and call with page-limited prompt
-		const genAI = new GoogleGenerativeAI(apiKey)
-		const model = genAI.getGenerativeModel({ model: modelName })
-
-		const prompt = getPdfPrompt(pageLimit)
-
-		// In production, would read and encode actual PDF data
-		const response = await model.generateContent([
+		// AC01: Call the model with the document and page-limited prompt
+		const pdfData = await readFile(pdfPath)
+		const responseText = await provider.generate([
 			{
-				inlineData: {
-					mimeType: 'application/pdf',
-					data: Buffer.from('mock-pdf-data').toString('base64'),
-				},
+				data: pdfData,
+				mimeType: 'application/pdf',
+				filename: path.basename(pdfPath),
 			},
-			prompt,
+			{ text: getPdfPrompt(pageLimit) },
 		])
-
-		const responseText = response.response.text()
 		_logger.debug(
-			`Gemini PDF response received: ${responseText.substring(0, 150)}...`,
+			`${provider.name} PDF response received: ${responseText.substring(0, 150)}...`,
 		)
 
 		// AC01: Extract summary from response
@@ -138,19 +146,19 @@ export async function analyzePdf(
 		const version = new Date().toISOString().split('T')[0] || 'unknown'
 		const enrichment: MediaEnrichment = {
 			kind: 'pdf_summary',
-			provider: 'gemini',
-			model: modelName,
+			provider: provider.name,
+			model: provider.model,
 			version, // YYYY-MM-DD
 			createdAt: new Date().toISOString(),
 			pdfSummary: summary,
 		}
 
-		_logger.info(`PDF analysis complete: ${audioPath}`, {
+		_logger.info(`PDF analysis complete: ${pdfPath}`, {
 			kind: enrichment.kind,
 		})
 		return enrichment
 	} catch (error) {
-		_logger.error(`Gemini API error for PDF ${audioPath}`, { error })
+		_logger.error(`${provider.name} API error for PDF ${pdfPath}`, { error })
 		throw error
 	}
 }
@@ -250,7 +258,7 @@ export async function analyzePdfOrVideo(
 				media: updatedMedia,
 			}
 		} catch (error) {
-			// AC03: Fallback to filename when Gemini fails
+			// AC03: Fallback to filename when the model fails
 			_logger.warn('PDF summarization failed, using filename as fallback', {
 				filename,
 				error: error instanceof Error ? error.message : String(error),
@@ -259,8 +267,9 @@ export async function analyzePdfOrVideo(
 			const version = new Date().toISOString().split('T')[0] || 'unknown'
 			const fallbackEnrichment: MediaEnrichment = {
 				kind: 'pdf_summary',
-				provider: 'gemini',
-				model: config.geminiModel || 'gemini-1.5-pro',
+				provider: config.provider?.name ?? 'gemini',
+				model:
+					config.provider?.model ?? (config.geminiModel || 'gemini-1.5-pro'),
 				version,
 				createdAt: new Date().toISOString(),
 				pdfSummary: filename, // Fallback to filename
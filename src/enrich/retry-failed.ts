@@ -0,0 +1,152 @@
+/**
+ * Retrying Failed Enrichments
+ *
+ * `enrich-ai --retry-failed` enriches only the failed items a checkpoint
+ * recorded, on top of the output they were written to unenriched:
+ * - selectRetryTargets: finds each failed item in that output (or the input
+ *   when there is none), reporting the ones that are gone
+ * - completeRetry: merges the retried messages onto their output version and
+ *   builds the checkpoint that records what still fails
+ * - mergeRetryIntoOutput: streams the output with the retried messages in
+ *   place
+ *
+ * Failures keep the index of the run that recorded them, so the checkpoint
+ * reads the same however many retries it took.
+ */
+
+import type { Message } from '#schema/message'
+import { mergeEnrichments } from '#utils/enrichment-merge'
+
+import type {
+	CheckpointInput,
+	EnrichCheckpoint,
+	FailedItem,
+} from './checkpoint'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RetryTargets = {
+	/** Messages to enrich again, in checkpoint order */
+	targets: Message[]
+	/** Failed items whose message is in neither the output nor the input */
+	notFound: FailedItem[]
+}
+
+export type RetryInput = {
+	checkpoint: EnrichCheckpoint
+	/** Output versions of the retried messages, as given to selectRetryTargets */
+	base: Message[]
+	/** One message per retried target, in target order */
+	enriched: Message[]
+	/** Targets that failed again, indexed by their position in the retry */
+	failedItems: FailedItem[]
+	notFound: FailedItem[]
+	enrichmentsByKind: Record<string, number>
+	configHash: string
+}
+
+export type RetryResult = {
+	/** Failed again or not found, by original index */
+	stillFailing: FailedItem[]
+	recovered: number
+	/** The retried messages merged onto their output version */
+	updated: Message[]
+	checkpoint: CheckpointInput
+}
+
+// ============================================================================
+// Retry
+// ============================================================================
+
+/**
+ * Find the messages for a checkpoint's failed items
+ *
+ * The output version is preferred, so enrichments that succeeded for the
+ * message before are kept.
+ */
+export function selectRetryTargets(
+	checkpoint: EnrichCheckpoint,
+	base: Message[],
+	input: Message[],
+): RetryTargets {
+	const baseByGuid = new Map(base.map((m) => [m.guid, m]))
+	const inputByGuid = new Map(input.map((m) => [m.guid, m]))
+	const targets: Message[] = []
+	const notFound: FailedItem[] = []
+	for (const item of checkpoint.failedItems) {
+		const message = baseByGuid.get(item.guid) ?? inputByGuid.get(item.guid)
+		if (message) targets.push(message)
+		else notFound.push({ ...item, error: 'Message not found in the input' })
+	}
+	return { targets, notFound }
+}
+
+/**
+ * Merge a retry's results into the output and build its checkpoint
+ */
+export function completeRetry(input: RetryInput): RetryResult {
+	const { checkpoint, base, enriched, failedItems, notFound } = input
+
+	const originalIndex = new Map(
+		checkpoint.failedItems.map((item) => [item.guid, item.index]),
+	)
+	const stillFailing = [
+		...failedItems.map((item) => ({
+			...item,
+			index: originalIndex.get(item.guid) ?? item.index,
+		})),
+		...notFound,
+	].sort((a, b) => a.index - b.index)
+	const recovered = enriched.length - failedItems.length
+
+	// Retried messages start from their output version, so their enrichments
+	// are the earlier ones with the failed kind redone and replace them
+	// outright; mergeEnrichments only merges media, so text messages (link
+	// context) are taken from the retry as is
+	const merged = new Map(
+		mergeEnrichments(base, enriched, { forceRefresh: true }).messages.map(
+			(m) => [m.guid, m],
+		),
+	)
+	for (const message of enriched) {
+		if (message.messageKind !== 'media') merged.set(message.guid, message)
+	}
+	const updated = enriched.map((m) => merged.get(m.guid) ?? m)
+
+	return {
+		stillFailing,
+		recovered,
+		updated,
+		checkpoint: {
+			lastProcessedIndex: checkpoint.lastProcessedIndex,
+			totalProcessed: checkpoint.totalProcessed + recovered,
+			totalFailed: stillFailing.length,
+			stats: {
+				processedCount: checkpoint.stats.processedCount + recovered,
+				failedCount: stillFailing.length,
+				enrichmentsByKind: input.enrichmentsByKind,
+			},
+			failedItems: stillFailing,
+			configHash: input.configHash,
+		},
+	}
+}
+
+/**
+ * The whole output after a retry: the earlier output in order with the
+ * retried messages in place, then retried messages new to it
+ */
+export async function* mergeRetryIntoOutput(
+	base: AsyncIterable<Message>,
+	updated: Message[],
+): AsyncGenerator<Message> {
+	const pending = new Map(updated.map((m) => [m.guid, m]))
+	for await (const message of base) {
+		const retried = pending.get(message.guid)
+		pending.delete(message.guid)
+		yield retried ?? message
+	}
+	yield* pending.values()
+}
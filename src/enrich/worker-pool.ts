@@ -0,0 +1,209 @@
+/**
+ * Concurrent Enrichment
+ *
+ * enrich-ai can keep several messages in flight, so a Firecrawl fetch and a
+ * Gemini call overlap instead of queueing behind each other:
+ * - runWorkerPool: bounded pool handing out indices in input order
+ * - createProviderLimiters: one RateLimiter and circuit breaker per provider,
+ *   so a failing Firecrawl does not pause Gemini
+ * - createOrderedCompletion: releases results in input order, tracks the
+ *   highest contiguous completed index plus the in-flight set, which is what
+ *   checkpoints record, and holds back work too far past it
+ *
+ * Output order and resume points therefore do not depend on timing or on
+ * the concurrency used.
+ */
+
+import {
+	createRateLimiter,
+	type RateLimitConfig,
+	type RateLimiter,
+} from './rate-limiting'
+
+// ============================================================================
+// Worker Pool
+// ============================================================================
+
+/**
+ * Run `worker` for every index in [startIndex, endIndex) with at most
+ * `concurrency` running at once
+ *
+ * Indices are started in ascending order. A worker that throws rejects the
+ * pool once the other running workers have settled; the worker is expected to
+ * handle per-item failures itself.
+ */
+export async function runWorkerPool(
+	options: { startIndex: number; endIndex: number; concurrency: number },
+	worker: (index: number) => Promise<void>,
+): Promise<void> {
+	const { startIndex, endIndex } = options
+	if (!Number.isInteger(options.concurrency) || options.concurrency < 1) {
+		throw new Error('concurrency must be a positive integer')
+	}
+
+	let next = startIndex
+	const runner = async () => {
+		while (next < endIndex) {
+			const index = next++
+			await worker(index)
+		}
+	}
+
+	const runners = Math.min(options.concurrency, Math.max(endIndex - next, 0))
+	const results = await Promise.allSettled(
+		Array.from({ length: runners }, runner),
+	)
+	const failure = results.find((result) => result.status === 'rejected')
+	if (failure) throw failure.reason
+}
+
+// ============================================================================
+// Per-Provider Rate Limiting
+// ============================================================================
+
+export type ProviderLimiters = {
+	/**
+	 * Wait for the provider's next call slot and record the call
+	 *
+	 * Slots are handed out one at a time per provider, so concurrent workers
+	 * still keep `rateLimitDelay` between calls to the same provider.
+	 *
+	 * @returns false when the provider's circuit breaker is open
+	 */
+	acquire(provider: string): Promise<boolean>
+	recordSuccess(provider: string): void
+	recordFailure(provider: string): void
+	/** The provider's limiter, created on first use */
+	get(provider: string): RateLimiter
+}
+
+/**
+ * Create rate limiters keyed by provider name, all with the same config
+ */
+export function createProviderLimiters(
+	config?: Partial<RateLimitConfig>,
+): ProviderLimiters {
+	const limiters = new Map<string, RateLimiter>()
+	const queues = new Map<string, Promise<unknown>>()
+
+	const get = (provider: string) => {
+		let limiter = limiters.get(provider)
+		if (!limiter) {
+			limiter = createRateLimiter(config)
+			limiters.set(provider, limiter)
+		}
+		return limiter
+	}
+
+	return {
+		acquire(provider) {
+			const limiter = get(provider)
+			const slot = (queues.get(provider) ?? Promise.resolve()).then(
+				async () => {
+					if (limiter.isCircuitOpen()) return false
+					const delayMs = limiter.shouldRateLimit()
+					if (delayMs > 0) {
+						await new Promise((resolve) => setTimeout(resolve, delayMs))
+					}
+					limiter.recordCall()
+					return true
+				},
+			)
+			queues.set(provider, slot)
+			return slot
+		},
+		recordSuccess: (provider) => get(provider).recordSuccess(),
+		recordFailure: (provider) => get(provider).recordFailure(),
+		get,
+	}
+}
+
+// ============================================================================
+// Ordered Completion
+// ============================================================================
+
+export type OrderedCompletion<T> = {
+	/**
+	 * Mark an index as in flight and wait until it may start
+	 *
+	 * Resolves once the index is at most `maxAhead` past lastContiguous, so
+	 * results held behind a slow item stay bounded.
+	 */
+	start(index: number): Promise<void>
+	/**
+	 * Record an index's result
+	 *
+	 * @returns The results that are now contiguous with everything before
+	 * them, in index order; empty while an earlier index is still running
+	 */
+	complete(index: number, result: T): Array<{ index: number; result: T }>
+	/** Highest index below which every item has completed */
+	readonly lastContiguous: number
+	/** Started but unfinished indices, ascending */
+	readonly inFlight: number[]
+	/** Results waiting for an earlier index to finish, in index order */
+	readonly held: Array<{ index: number; result: T }>
+}
+
+export type OrderedCompletionOptions = {
+	/** How far past lastContiguous an index may start (default unbounded) */
+	maxAhead?: number
+}
+
+/**
+ * Track completion of indices starting at `startIndex`
+ */
+export function createOrderedCompletion<T>(
+	startIndex: number,
+	options: OrderedCompletionOptions = {},
+): OrderedCompletion<T> {
+	const { maxAhead = Number.POSITIVE_INFINITY } = options
+	if (!(maxAhead >= 1)) {
+		throw new Error('maxAhead must be at least 1')
+	}
+
+	let lastContiguous = startIndex - 1
+	const running = new Set<number>()
+	const pending = new Map<number, T>()
+	let waiting: Array<{ index: number; resume: () => void }> = []
+
+	const mayStart = (index: number) => index - lastContiguous <= maxAhead
+
+	return {
+		start(index) {
+			running.add(index)
+			if (mayStart(index)) return Promise.resolve()
+			return new Promise((resume) => waiting.push({ index, resume }))
+		},
+		complete(index, result) {
+			running.delete(index)
+			pending.set(index, result)
+
+			const released: Array<{ index: number; result: T }> = []
+			while (pending.has(lastContiguous + 1)) {
+				lastContiguous++
+				released.push({
+					index: lastContiguous,
+					result: pending.get(lastContiguous) as T,
+				})
+				pending.delete(lastContiguous)
+			}
+
+			const ready = waiting.filter((waiter) => mayStart(waiter.index))
+			waiting = waiting.filter((waiter) => !mayStart(waiter.index))
+			for (const waiter of ready) waiter.resume()
+			return released
+		},
+		get lastContiguous() {
+			return lastContiguous
+		},
+		get inFlight() {
+			return [...running].sort((a, b) => a - b)
+		},
+		get held() {
+			return [...pending]
+				.sort(([a], [b]) => a - b)
+				.map(([index, result]) => ({ index, result }))
+		},
+	}
+}
@@ -24,14 +24,75 @@ export {
 	mergeConfig,
 	substituteEnvVars,
 } from './config/loader.js'
-export type { Config, ConfigFormat } from './config/schema.js'
+export type {
+	ConfigOrigin,
+	ConfigOverrides,
+	ConfigResolution,
+	ConfigSource,
+} from './config/resolver.js'
+export {
+	CONFIG_ENV_VARS,
+	describeConfig,
+	maskSecret,
+	resolveConfig,
+} from './config/resolver.js'
+export type {
+	Config,
+	ConfigFormat,
+	PipelineStage,
+	ResolvedConfig,
+} from './config/schema.js'
 export {
 	CONFIG_FILE_PATTERNS,
 	DEFAULT_CONFIG,
 	detectConfigFormat,
+	PIPELINE_STAGES,
 	validateConfig,
 	validateConfigSafe,
 } from './config/schema.js'
+export type {
+	ContactEntry,
+	ContactResolver,
+	ContactsSettings,
+	Person,
+	ResolvedHandle,
+	SelfIdentity,
+	SenderIdentity,
+} from './contacts/index.js'
+// ===== Contacts =====
+export {
+	createContactFilter,
+	createContactResolver,
+	createSenderIdentifier,
+	detectSelfHandles,
+	loadContactEntries,
+	loadContactResolver,
+	normalizeHandle,
+	resolveSelfIdentity,
+} from './contacts/index.js'
+export type {
+	EnrichmentCache,
+	EnrichmentCacheEntry,
+	EnrichmentCacheKey,
+	EnrichmentCacheStats,
+} from './enrich/enrichment-cache.js'
+// ===== Enrichment Cache =====
+export {
+	createEnrichmentCache,
+	isStaleEntry,
+	PROMPT_VERSIONS,
+} from './enrich/enrichment-cache.js'
+export type {
+	ModelBackendConfig,
+	ModelPart,
+	ModelProvider,
+} from './enrich/model-provider.js'
+// ===== Model Providers =====
+export {
+	createGeminiProvider,
+	createModelProvider,
+	createOpenAICompatibleProvider,
+} from './enrich/model-provider.js'
 export type {
 	ApiResponse,
 	RateLimitConfig,
@@ -45,17 +106,58 @@ export {
 	RateLimiter,
 } from './enrich/rate-limiting.js'
 export type {
+	FuzzyMatchOptions,
+	MatchScores,
+	MergeMatch,
 	MergeResult as IngestMergeResult,
+	MergeSource,
 	MergeStats,
 } from './ingest/dedup-merge.js'
-export { dedupAndMerge } from './ingest/dedup-merge.js'
+export {
+	dedupAndMerge,
+	mergeSources,
+	resolveHandle,
+} from './ingest/dedup-merge.js'
 export type { CSVRow, IngestOptions } from './ingest/ingest-csv.js'
 // ===== Ingest Functions =====
 export { createExportEnvelope, ingestCSV } from './ingest/ingest-csv.js'
+export type { TapbackPhrases } from './ingest/tapback-phrases.js'
+export {
+	createTapbackParser,
+	ENGLISH_TAPBACK_PHRASES,
+	parseTapbackText,
+} from './ingest/tapback-phrases.js'
+export type {
+	PipelineConfig,
+	PipelinePaths,
+	PipelineStep,
+	StageConfig,
+} from './pipeline/pipeline-plan.js'
+// ===== Pipeline =====
+export {
+	buildPipelinePlan,
+	getPipelinePaths,
+} from './pipeline/pipeline-plan.js'
+export type {
+	PipelineState,
+	StepDecision,
+	StepRecord,
+} from './pipeline/pipeline-state.js'
+export {
+	checkStep,
+	createPipelineState,
+	hashPath,
+	hashStep,
+	loadPipelineState,
+	PIPELINE_STATE_VERSION,
+	savePipelineState,
+} from './pipeline/pipeline-state.js'
 // ===== Core Types & Schemas =====
 export type {
 	ChatId,
+	Conversation,
 	ExportEnvelope,
+	ExportMetadata,
 	MediaEnrichment,
 	MediaKind,
 	MediaMeta,
@@ -67,6 +169,7 @@ export type {
 	TapbackInfo,
 } from './schema/message.js'
 export {
+	ConversationSchema,
 	MediaEnrichmentSchema,
 	MediaMetaSchema,
 	MediaProvenanceSchema,
@@ -74,6 +177,40 @@ export {
 	ReplyInfoSchema,
 	TapbackInfoSchema,
 } from './schema/message.js'
+export type { SchemaMigration } from './schema/migrations.js'
+export {
+	CURRENT_SCHEMA_VERSION,
+	createMessageMigrator,
+	MIGRATIONS,
+	planMigrations,
+} from './schema/migrations.js'
+export type {
+	SearchField,
+	SearchFilters,
+	SearchHit,
+	SearchIndex,
+} from './search/search-index.js'
+// ===== Search =====
+export {
+	extractSearchFields,
+	openSearchIndex,
+	SEARCH_FIELDS,
+	SEARCH_INDEX_VERSION,
+	toFtsQuery,
+} from './search/search-index.js'
+export type {
+	MessageSource,
+	MessageStore,
+	OpenMessageStoreOptions,
+	ReplaceMessagesOptions,
+} from './store/message-store.js'
+// ===== Message Store =====
+export {
+	MESSAGE_STORE_VERSION,
+	openMessageStore,
+	openStoreStream,
+	readStore,
+} from './store/message-store.js'
 export type { DeltaResult } from './utils/delta-detection.js'
 // ===== Utilities =====
 export {
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import { encodeAttributedBody } from '../../../tests/helpers/attributed-body-fixture'
+import { decodeAttributedBody } from '../attributed-body'
+
+describe('decodeAttributedBody', () => {
+	it('should decode the plain string from an NSAttributedString archive', () => {
+		const blob = encodeAttributedBody('Hello world')
+
+		expect(decodeAttributedBody(blob)).toEqual({
+			text: 'Hello world',
+			mentions: [],
+			links: [],
+		})
+	})
+
+	it('should decode a raw blob in the layout Messages.app writes', () => {
+		// Hand-assembled: NSString content followed by one message-part run
+		const blob = Buffer.from(
+			'040b73747265616d747970656481e803840140848484124e5341747472696275746564537472696e67008484084e534f626a656374008592848484084e53537472696e67019484012b0b48656c6c6f20776f726c6486840269490b928484840c4e5344696374696f6e617279009484016901928496961d5f5f6b494d4d657373616765506172744174747269627574654e616d658692848484084e534e756d626572008484074e5356616c7565009484012a848401719b00868686',
+			'hex',
+		)
+
+		expect(decodeAttributedBody(blob)?.text).toBe('Hello world')
+	})
+
+	it('should preserve multi-byte characters and emoji', () => {
+		const text = 'Café ☕️ — see you at 7 👋'
+		const blob = encodeAttributedBody(text)
+
+		expect(decodeAttributedBody(blob)?.text).toBe(text)
+	})
+
+	it('should decode long strings with 2-byte length prefixes', () => {
+		const text = 'a'.repeat(500)
+
+		expect(decodeAttributedBody(encodeAttributedBody(text))?.text).toBe(text)
+	})
+
+	it('should extract mention ranges with the mentioned handle', () => {
+		const blob = encodeAttributedBody('Hey Sam, lunch?', [
+			{ length: 4 },
+			{
+				length: 3,
+				attributes: {
+					__kIMMentionConfirmedMention: { type: 'string', value: '+61400111222' },
+				},
+			},
+			{ length: 8 },
+		])
+
+		expect(decodeAttributedBody(blob)?.mentions).toEqual([
+			{ start: 4, length: 3, handle: '+61400111222' },
+		])
+	})
+
+	it('should extract link ranges with the URL', () => {
+		const blob = encodeAttributedBody('Read https://example.com/a now', [
+			{ length: 5 },
+			{
+				length: 21,
+				attributes: {
+					__kIMLinkAttributeName: { type: 'url', value: 'https://example.com/a' },
+				},
+			},
+			{ length: 4 },
+		])
+
+		expect(decodeAttributedBody(blob)?.links).toEqual([
+			{ start: 5, length: 21, url: 'https://example.com/a' },
+		])
+	})
+
+	it('should fall back to a byte scan when the archive cannot be fully parsed', () => {
+		const blob = encodeAttributedBody('Partial archive')
+		// Truncate after the NSString payload so run parsing fails
+		const marker = Buffer.from('Partial archive')
+		const end = Buffer.from(blob).indexOf(marker) + marker.length
+
+		expect(decodeAttributedBody(blob.subarray(0, end))).toEqual({
+			text: 'Partial archive',
+			mentions: [],
+			links: [],
+		})
+	})
+
+	it('should return null for empty or non-archive input', () => {
+		expect(decodeAttributedBody(null)).toBeNull()
+		expect(decodeAttributedBody(new Uint8Array())).toBeNull()
+		expect(decodeAttributedBody(Buffer.from('not a typedstream'))).toBeNull()
+	})
+})
@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest'
+import type { Conversation, Message } from '#schema/message'
+import {
+	assignConversationFolders,
+	buildConversations,
+	filterByConversation,
+	getConversationLabel,
+	mergeConversations,
+	partitionByConversation,
+	resolveConversation,
+} from '../conversations'
+
+const family: Conversation = {
+	id: 'iMessage;+;chat123',
+	chatIdentifier: 'chat123',
+	displayName: 'Family',
+	isGroup: true,
+	service: 'iMessage',
+	participants: ['+61400333444', 'mum@example.com'],
+}
+
+const direct: Conversation = {
+	id: 'iMessage;-;+61400111222',
+	chatIdentifier: '+61400111222',
+	isGroup: false,
+	service: 'iMessage',
+	participants: ['+61400111222'],
+}
+
+function createMessage(partial: Partial<Message>): Message {
+	return {
+		guid: 'test-guid',
+		messageKind: 'text',
+		text: 'hello',
+		isFromMe: false,
+		date: '2025-10-17T10:00:00.000Z',
+		...partial,
+	}
+}
+
+describe('buildConversations', () => {
+	it('should use known conversations for referenced chats only', () => {
+		const messages = [createMessage({ guid: 'a', chatId: family.id })]
+
+		expect(buildConversations(messages, [family, direct])).toEqual([family])
+	})
+
+	it('should infer unknown conversations from message handles', () => {
+		const messages = [
+			createMessage({ guid: 'a', chatId: 'chat-x', handle: '+1555', service: 'SMS' }),
+			createMessage({ guid: 'b', chatId: 'chat-x', handle: '+1444' }),
+			createMessage({ guid: 'c', chatId: 'chat-x', handle: 'me', isFromMe: true }),
+			createMessage({ guid: 'd' }),
+		]
+
+		expect(buildConversations(messages)).toEqual([
+			{
+				id: 'chat-x',
+				isGroup: true,
+				service: 'SMS',
+				participants: ['+1444', '+1555'],
+			},
+		])
+	})
+})
+
+describe('mergeConversations', () => {
+	it('should union participants and keep the first display name', () => {
+		const merged = mergeConversations(
+			[{ ...family, participants: ['mum@example.com'] }],
+			[{ ...family, displayName: 'Renamed', participants: ['dad@example.com'] }],
+			undefined,
+		)
+
+		expect(merged).toEqual([
+			{
+				...family,
+				participants: ['dad@example.com', 'mum@example.com'],
+			},
+		])
+	})
+})
+
+describe('resolveConversation', () => {
+	const conversations = [family, direct]
+
+	it('should match chat GUID, identifier and display name', () => {
+		expect(resolveConversation(conversations, family.id)).toBe(family)
+		expect(resolveConversation(conversations, '+61400111222')).toBe(direct)
+		expect(resolveConversation(conversations, 'family')).toBe(family)
+	})
+
+	it('should throw when nothing matches', () => {
+		expect(() => resolveConversation(conversations, 'Work')).toThrow(
+			'No conversation matches --chat "Work"',
+		)
+	})
+
+	it('should throw when a name is ambiguous', () => {
+		const other = { ...family, id: 'iMessage;+;chat456' }
+
+		expect(() => resolveConversation([family, other], 'Family')).toThrow(/matches 2 conversations/)
+	})
+})
+
+describe('filterByConversation', () => {
+	it('should keep only messages from the selected chat', () => {
+		const messages = [
+			createMessage({ guid: 'a', chatId: family.id }),
+			createMessage({ guid: 'b', chatId: direct.id }),
+			createMessage({ guid: 'c' }),
+		]
+
+		const result = filterByConversation(messages, [family, direct], 'Family')
+
+		expect(result.conversation).toBe(family)
+		expect(result.messages.map((m) => m.guid)).toEqual(['a'])
+	})
+})
+
+describe('partitionByConversation', () => {
+	it('should assign unique folder names sorted deterministically', () => {
+		const twin = { ...family, id: 'iMessage;+;chat456' }
+		const messages = [
+			createMessage({ guid: 'a', chatId: family.id }),
+			createMessage({ guid: 'b', chatId: twin.id }),
+			createMessage({ guid: 'c', chatId: direct.id }),
+			createMessage({ guid: 'd' }),
+		]
+
+		const partitions = partitionByConversation(messages, [family, twin, direct])
+
+		expect(partitions.map((p) => [p.folder, p.messages.map((m) => m.guid)])).toEqual([
+			['+61400111222', ['c']],
+			['Family', ['a']],
+			['Family-2', ['b']],
+			['unassigned', ['d']],
+		])
+	})
+
+	it('should strip characters that are unsafe in folder names', () => {
+		const partitions = partitionByConversation(
+			[createMessage({ chatId: 'x' })],
+			[{ id: 'x', displayName: 'Work/Play: "Q4"?', isGroup: true, participants: [] }],
+		)
+
+		expect(partitions[0]?.folder).toBe('WorkPlay Q4')
+	})
+})
+
+describe('assignConversationFolders', () => {
+	it('should match the folders used by partitionByConversation', () => {
+		const unassigned = { ...direct, id: 'x', displayName: 'unassigned' }
+		const folders = assignConversationFolders([family, { ...family, id: 'twin' }, unassigned])
+
+		expect(Array.from(folders)).toEqual([
+			[family.id, 'Family'],
+			['twin', 'Family-2'],
+			['x', 'unassigned-2'],
+		])
+	})
+})
+
+describe('getConversationLabel', () => {
+	it('should fall back from display name to participants to identifier', () => {
+		expect(getConversationLabel(family)).toBe('Family')
+		expect(getConversationLabel(direct)).toBe('+61400111222')
+		expect(getConversationLabel({ id: 'guid', isGroup: false, participants: [] })).toBe('guid')
+	})
+})
@@ -1,6 +1,6 @@
 import { beforeEach, describe, expect, it } from 'vitest'
 import type { Message } from '#lib/schema/message'
-import { dedupAndMerge } from '../dedup-merge'
+import { dedupAndMerge, mergeSources } from '../dedup-merge'
 
 /**
  * Test suite for CSV/DB deduplication and merge (NORMALIZE--T04)
@@ -253,6 +253,26 @@ describe('dedupAndMerge', () => {
 			expect(result.messages[0].replyingTo?.targetMessageGuid).toBe('DB:target-guid')
 		})
 
+		it('should prefer the DB chat id over the CSV chat session', () => {
+			const csvMsg = createMessage({
+				guid: 'msg:123',
+				messageKind: 'text',
+				text: 'Hello',
+				chatId: 'Melanie',
+			})
+
+			const dbMsg = createMessage({
+				guid: 'msg:123',
+				messageKind: 'text',
+				text: 'Hello',
+				chatId: 'iMessage;-;+61412345678',
+			})
+
+			const result = dedupAndMerge([csvMsg], [dbMsg])
+
+			expect(result.messages[0].chatId).toBe('iMessage;-;+61412345678')
+		})
+
 		it('should prefer DB handle when both present', () => {
 			const csvMsg = createMessage({
 				guid: 'msg:123',
@@ -909,6 +929,217 @@ describe('dedupAndMerge', () => {
 	})
 })
 
+describe('conflicts and content matches', () => {
+	it('should record content matches and the fields matched messages disagree on', () => {
+		const csvMsg = createMessage({
+			guid: 'csv:12:0',
+			text: 'See you soon!',
+			handle: '+61400000001',
+			date: '2025-10-17T11:00:00.000Z',
+		})
+		const dbMsg = createMessage({
+			guid: 'DB:abc',
+			text: 'see you soon',
+			handle: '+61400000001',
+			date: '2025-10-17T10:00:00.000Z',
+		})
+
+		const result = dedupAndMerge([csvMsg], [dbMsg])
+
+		expect(result.contentMatches).toEqual([
+			{
+				csvMsg,
+				dbMsg,
+				confidence: 1,
+				reasons: ['exact text match after normalization (indexed)'],
+			},
+		])
+		expect(result.conflicts?.[0]?.reasons).toEqual(['date differs by 3600s', 'text differs'])
+		expect(result.stats.conflicts).toBe(1)
+	})
+})
+
+describe('fuzzy matching', () => {
+	const csvRow = (partial: Partial<Message>) =>
+		createMessage({
+			guid: 'csv:5:0',
+			handle: 'Ann Example',
+			date: '2025-10-17T10:00:30.000Z',
+			...partial,
+		})
+	const dbRow = (partial: Partial<Message>) =>
+		createMessage({
+			guid: 'DB:1',
+			handle: '+61400000001',
+			date: '2025-10-17T10:00:00.000Z',
+			...partial,
+		})
+
+	it('should match a CSV row naming its sender by contact name', () => {
+		const result = dedupAndMerge(
+			[csvRow({ text: 'I’m nearly there ❤️' })],
+			[dbRow({ text: "I'm nearly there ❤" })],
+		)
+
+		expect(result.messages).toHaveLength(1)
+		expect(result.messages[0]?.guid).toBe('DB:1')
+		expect(result.contentMatches?.[0]?.reasons).toEqual([
+			'sender unresolved',
+			'within 30s',
+			'same text after normalization',
+		])
+		expect(result.conflicts?.[0]?.scores).toEqual({
+			sender: 0.5,
+			time: 0.75,
+			content: 1,
+			total: 0.863,
+		})
+	})
+
+	it('should tolerate small edits and report the edit distance', () => {
+		const result = dedupAndMerge(
+			[csvRow({ handle: '+61 400 000 001', text: 'See you at the station at 6' })],
+			[dbRow({ text: 'See you at the station at 6!' })],
+		)
+
+		expect(result.stats.contentMatches).toBe(1)
+		expect(result.contentMatches?.[0]?.reasons).toEqual([
+			'sender resolved',
+			'within 30s',
+			'text edit distance 1',
+		])
+	})
+
+	it('should not match different people, distant times or different texts', () => {
+		const other = dedupAndMerge(
+			[csvRow({ handle: '+61400000002', text: 'On my way' })],
+			[dbRow({ text: 'On my way' })],
+		)
+		const late = dedupAndMerge(
+			[csvRow({ date: '2025-10-17T10:05:00.000Z', text: 'On my way' })],
+			[dbRow({ text: 'On my way' })],
+		)
+		const different = dedupAndMerge(
+			[csvRow({ text: 'On my way' })],
+			[dbRow({ text: 'Running late' })],
+		)
+
+		for (const result of [other, late, different]) {
+			expect(result.messages).toHaveLength(2)
+		}
+	})
+
+	it('should use resolveSender and the configured thresholds', () => {
+		const csv = [csvRow({ text: 'On my way' })]
+		const db = [dbRow({ text: 'On my way' })]
+
+		expect(dedupAndMerge(csv, db, { minScore: 0.9 }).messages).toHaveLength(2)
+		expect(dedupAndMerge(csv, db, { timeWindowSeconds: 20 }).messages).toHaveLength(2)
+
+		const resolved = dedupAndMerge(csv, db, {
+			minScore: 0.9,
+			resolveSender: (handle) => (handle === 'Ann Example' ? '+61400000001' : handle),
+		})
+		expect(resolved.messages).toHaveLength(1)
+		expect(resolved.contentMatches?.[0]?.scores?.sender).toBe(1)
+	})
+
+	it('should match media by filename and size', () => {
+		const result = dedupAndMerge(
+			[
+				csvRow({
+					guid: 'csv:5:0:media',
+					messageKind: 'media',
+					media: {
+						id: 'media:csv:5:0',
+						filename: '2025-10-17 10 00 30 - Ann Example - IMG_0042.jpeg',
+						path: 'IMG_0042.jpeg',
+						size: 2048,
+					},
+				}),
+			],
+			[
+				dbRow({
+					messageKind: 'media',
+					media: {
+						id: 'media:DB:1',
+						filename: 'IMG_0042.JPEG',
+						path: '/Attachments/IMG_0042.JPEG',
+						size: 2048,
+					},
+				}),
+			],
+		)
+
+		expect(result.messages).toHaveLength(1)
+		expect(result.contentMatches?.[0]?.reasons).toContain('same filename')
+		expect(result.contentMatches?.[0]?.reasons).toContain('same size')
+	})
+})
+
+describe('content hash matching', () => {
+	const media = (guid: string, filename: string, sha256: string) =>
+		createMessage({
+			guid,
+			messageKind: 'media',
+			handle: guid.startsWith('csv') ? 'Ann Example' : '+61400000001',
+			date: '2025-10-17T10:00:00.000Z',
+			media: { id: `media:${guid}`, filename, path: `/files/${filename}`, sha256 },
+		})
+
+	it('should match the same file exported under another name', () => {
+		const result = dedupAndMerge(
+			[media('csv:5:0:media', 'IMG_1234 copy.jpeg', 'a'.repeat(64))],
+			[media('DB:1', 'F1C2B3A4.HEIC', 'a'.repeat(64))],
+		)
+
+		expect(result.messages).toHaveLength(1)
+		expect(result.contentMatches?.[0]?.reasons).toContain('same content hash')
+	})
+
+	it('should keep files with different hashes apart despite the same name', () => {
+		const result = dedupAndMerge(
+			[media('csv:5:0:media', 'IMG_0042.jpeg', 'a'.repeat(64))],
+			[media('DB:1', 'IMG_0042.jpeg', 'b'.repeat(64))],
+		)
+
+		expect(result.messages).toHaveLength(2)
+	})
+})
+
+describe('mergeSources', () => {
+	const phone = (guid: string, text: string, date: string) =>
+		createMessage({ guid, text, handle: '+61400000001', date })
+
+	it('should merge two CSV exports and a DB with the DB kept authoritative', () => {
+		const db = [phone('DB:1', 'Hello', '2025-10-17T10:00:00.000Z')]
+		const phoneA = [
+			phone('csv:2:0', 'Hello', '2025-10-17T10:00:01.000Z'),
+			phone('csv:3:0', 'Only on phone A', '2025-10-17T10:01:00.000Z'),
+		]
+		const phoneB = [
+			phone('csv:b2:0', 'Hello', '2025-10-17T10:00:00.000Z'),
+			phone('csv:b3:0', 'Only on phone A', '2025-10-17T10:01:00.000Z'),
+			phone('csv:b4:0', 'Only on phone B', '2025-10-17T10:02:00.000Z'),
+		]
+
+		const result = mergeSources([
+			{ name: 'a.json', source: 'csv', messages: phoneA },
+			{ name: 'b.json', source: 'csv', messages: phoneB },
+			{ name: 'db.json', source: 'db', messages: db },
+		])
+
+		expect(result.messages.map((m) => m.guid).sort()).toEqual(['DB:1', 'csv:3:0', 'csv:b4:0'])
+		expect(result.stats).toMatchObject({
+			csvCount: 5,
+			dbCount: 1,
+			outputCount: 3,
+			contentMatches: 3,
+			conflicts: 1,
+		})
+	})
+})
+
 // Helper to create test messages
 function createMessage(partial: Partial<Message>): Message {
 	return {
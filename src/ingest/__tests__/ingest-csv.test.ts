@@ -1,6 +1,11 @@
-import { describe, expect, it } from 'vitest'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
 import type { CSVRow } from '../ingest-csv'
-import { convertToISO8601, parseCSVRow, validateMessages } from '../ingest-csv'
+import { convertToISO8601, csvRowId, ingestCSV, parseCSVRow, validateMessages } from '../ingest-csv'
+import { linkRepliesToParents } from '../link-replies-and-tapbacks'
 
 describe('ingest-csv', () => {
 	describe('parseCSVRow - iMazing CSV format', () => {
@@ -28,13 +33,14 @@ describe('ingest-csv', () => {
 
 			expect(messages).toHaveLength(1)
 			expect(messages[0]).toMatchObject({
-				guid: 'csv:2:0',
+				guid: `csv:${csvRowId(row)}:0`,
 				messageKind: 'text',
 				text: 'Hey Nathan, how are you?',
 				handle: 'Melanie',
 				isFromMe: false,
 				service: 'SMS',
 				isRead: true,
+				chatId: 'Melanie',
 			})
 		})
 
@@ -61,7 +67,7 @@ describe('ingest-csv', () => {
 
 			expect(messages).toHaveLength(1)
 			expect(messages[0]).toMatchObject({
-				guid: 'csv:3:0',
+				guid: `csv:${csvRowId(row)}:0`,
 				messageKind: 'text',
 				isFromMe: true,
 				service: 'iMessage',
@@ -93,7 +99,7 @@ describe('ingest-csv', () => {
 
 			expect(messages).toHaveLength(1)
 			expect(messages[0]).toMatchObject({
-				guid: 'csv:4:0',
+				guid: `csv:${csvRowId(row)}:0`,
 				messageKind: 'text',
 				text: 'Check out this photo',
 			})
@@ -241,7 +247,7 @@ describe('ingest-csv', () => {
 			expect(messages[0]?.exportMetadata).toMatchObject({
 				source: 'csv',
 				lineNumber: 42,
-				csvGuid: 'csv:42:0',
+				csvGuid: `csv:${csvRowId(row)}:0`,
 			})
 		})
 
@@ -258,6 +264,46 @@ describe('ingest-csv', () => {
 
 			expect(messages[0]?.exportMetadata?.replyingTo).toBe('csv:40:0')
 		})
+
+		it('should parse reaction rows into tapback messages', () => {
+			const row: CSVRow = {
+				'Message Date': '2023-10-21 11:00:00',
+				Type: 'Outgoing',
+				Text: 'Removed a heart from “See you soon…”',
+			}
+
+			const messages = parseCSVRow(row, 43, { attachmentRoots: [] })
+
+			expect(messages).toHaveLength(1)
+			expect(messages[0]).toMatchObject({
+				guid: `csv:${csvRowId(row)}:0`,
+				messageKind: 'tapback',
+				isFromMe: true,
+				tapback: {
+					type: 'loved',
+					action: 'removed',
+					targetText: 'See you soon',
+				},
+			})
+			expect(messages[0]?.text).toBeUndefined()
+		})
+
+		it('should parse reaction rows of configured locales', () => {
+			const row: CSVRow = {
+				'Message Date': '2023-10-21 11:00:00',
+				Type: 'Incoming',
+				'Sender Name': 'Melanie',
+				Text: 'A aimé « À bientôt »',
+			}
+			const tapbackPhrases = [{ added: { loved: ['A aimé {target}'] } }]
+
+			expect(parseCSVRow(row, 44, { attachmentRoots: [] })[0]?.messageKind).toBe('text')
+			expect(parseCSVRow(row, 44, { attachmentRoots: [], tapbackPhrases })[0]?.tapback).toEqual({
+				type: 'loved',
+				action: 'added',
+				targetText: 'À bientôt',
+			})
+		})
 	})
 
 	describe('convertToISO8601', () => {
@@ -290,6 +336,58 @@ describe('ingest-csv', () => {
 		})
 	})
 
+	describe('row GUIDs', () => {
+		let tempDir: string
+
+		beforeEach(() => {
+			tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ingest-csv-'))
+		})
+
+		afterEach(() => {
+			fs.rmSync(tempDir, { recursive: true, force: true })
+		})
+
+		const header = 'Chat Session,Message Date,Type,Sender ID,Text'
+		const writeExport = (name: string, rows: string[]) => {
+			const file = path.join(tempDir, name)
+			fs.writeFileSync(file, [header, ...rows].join('\n'))
+			return ingestCSV(file, { attachmentRoots: [] })
+		}
+		const thread = [
+			'Melanie,2023-10-21 11:00:00,Incoming,+61412667520,Are we still on for Friday?',
+			'Melanie,2023-10-21 11:00:00,Incoming,+61412667520,Also bring the tent',
+			'Melanie,2023-10-21 11:00:10,Outgoing,,Yes definitely',
+		]
+		const older = 'Melanie,2023-10-20 09:00:00,Incoming,+61412667520,Hi'
+
+		it('should keep GUIDs when a longer export shifts the line numbers', () => {
+			const first = writeExport('first.csv', thread)
+			const longer = writeExport('longer.csv', [older, ...thread])
+
+			expect(longer.slice(1).map((m) => m.guid)).toEqual(first.map((m) => m.guid))
+			expect(longer[1]?.exportMetadata?.lineNumber).toBe(3)
+			expect(first[0]?.guid).toMatch(/^csv:[0-9a-f]{16}:0$/)
+		})
+
+		it('should tell identical rows at the same time apart', () => {
+			const messages = writeExport('twice.csv', [thread[0] as string, thread[0] as string])
+
+			expect(new Set(messages.map((m) => m.guid)).size).toBe(2)
+		})
+
+		it('should keep link overrides pinned when a longer export is ingested', () => {
+			const first = writeExport('first.csv', thread)
+			const [, tent, reply] = first.map((m) => m.guid)
+			const overrides = new Map([[reply as string, tent as string]])
+
+			const longer = writeExport('longer.csv', [older, ...thread])
+			const linked = linkRepliesToParents(longer, { trackAmbiguous: true, overrides })
+
+			expect(linked.stats?.overridden).toBe(1)
+			expect(linked.messages[3]?.replyingTo?.targetMessageGuid).toBe(tent)
+		})
+	})
+
 	describe('validateMessages', () => {
 		it('should validate messages against schema', () => {
 			const row: CSVRow = {
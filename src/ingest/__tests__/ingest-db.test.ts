@@ -0,0 +1,339 @@
+import { describe, expect, it } from 'vitest'
+import { encodeAttributedBody } from '../../../tests/helpers/attributed-body-fixture'
+import {
+	createPartIndexMap,
+	type DBMessage,
+	mapMessageParts,
+	parseAssociatedMessageGuid,
+	parseDBTapback,
+	parseThreadOriginatorPart,
+	splitDBMessage,
+} from '../ingest-db'
+
+const baseRow: DBMessage = {
+	guid: 'DB-GUID-1',
+	is_from_me: 0,
+	date: 718110777,
+	handle: '+61400111222',
+}
+
+describe('splitDBMessage', () => {
+	describe('attributedBody recovery', () => {
+		it('should recover text from attributedBody when text is NULL', () => {
+			const messages = splitDBMessage(
+				{ ...baseRow, text: null, attributedBody: encodeAttributedBody('Recovered text') },
+				1,
+				{ attachmentRoots: [] },
+			)
+
+			expect(messages).toHaveLength(1)
+			expect(messages[0]).toMatchObject({
+				guid: 'p:0/DB-GUID-1',
+				messageKind: 'text',
+				text: 'Recovered text',
+			})
+			expect((messages[0] as any).exportMetadata.textSource).toBe('attributedBody')
+		})
+
+		it('should prefer the text column when present', () => {
+			const messages = splitDBMessage(
+				{ ...baseRow, text: 'Column text', attributedBody: encodeAttributedBody('Blob text') },
+				1,
+				{ attachmentRoots: [] },
+			)
+
+			expect(messages[0]?.text).toBe('Column text')
+			expect((messages[0] as any).exportMetadata.textSource).toBeUndefined()
+		})
+
+		it('should carry mention and link ranges in export metadata', () => {
+			const blob = encodeAttributedBody('Hi Sam https://x.io', [
+				{ length: 3 },
+				{
+					length: 3,
+					attributes: {
+						__kIMMentionConfirmedMention: { type: 'string', value: 'sam@example.com' },
+					},
+				},
+				{ length: 1 },
+				{
+					length: 12,
+					attributes: { __kIMLinkAttributeName: { type: 'url', value: 'https://x.io' } },
+				},
+			])
+
+			const [message] = splitDBMessage({ ...baseRow, attributedBody: blob }, 1, {
+				attachmentRoots: [],
+			})
+
+			expect((message as any).exportMetadata).toMatchObject({
+				mentions: [{ start: 3, length: 3, handle: 'sam@example.com' }],
+				links: [{ start: 7, length: 12, url: 'https://x.io' }],
+			})
+		})
+
+		it('should not create a text part for attachment placeholders only', () => {
+			const messages = splitDBMessage(
+				{
+					...baseRow,
+					attributedBody: encodeAttributedBody('￼'),
+					attachments: [{ id: 'att-1', filename: 'a.jpg', copied_path: '/abs/a.jpg' }],
+				},
+				1,
+				{ attachmentRoots: [] },
+			)
+
+			expect(messages.map((m) => m.messageKind)).toEqual(['media'])
+		})
+	})
+
+	describe('tapbacks', () => {
+		const tapbackRow = (type: number, extra: Partial<DBMessage> = {}): DBMessage => ({
+			...baseRow,
+			guid: 'TAPBACK-1',
+			text: 'Loved “See you soon”',
+			associated_message_guid: 'p:0/PARENT-1',
+			associated_message_type: type,
+			...extra,
+		})
+
+		it.each([
+			[2000, 'loved'],
+			[2001, 'liked'],
+			[2002, 'disliked'],
+			[2003, 'laughed'],
+			[2004, 'emphasized'],
+			[2005, 'questioned'],
+		] as const)('should map added code %i to %s', (code, type) => {
+			expect(parseDBTapback(tapbackRow(code))).toEqual({
+				type,
+				action: 'added',
+				targetMessageGuid: 'p:0/PARENT-1',
+				targetMessagePart: 0,
+			})
+		})
+
+		it('should map 3000-3005 to removals', () => {
+			expect(parseDBTapback(tapbackRow(3000))).toMatchObject({
+				type: 'loved',
+				action: 'removed',
+			})
+			expect(parseDBTapback(tapbackRow(3005))).toMatchObject({
+				type: 'questioned',
+				action: 'removed',
+			})
+		})
+
+		it('should carry the emoji for custom emoji reactions', () => {
+			expect(parseDBTapback(tapbackRow(2006, { associated_message_emoji: '🔥' }))).toMatchObject({
+				type: 'emoji',
+				action: 'added',
+				emoji: '🔥',
+			})
+			expect(parseDBTapback(tapbackRow(3006, { associated_message_emoji: '🔥' }))).toMatchObject({
+				type: 'emoji',
+				action: 'removed',
+				emoji: '🔥',
+			})
+		})
+
+		it('should resolve the target part to our part GUID format', () => {
+			const tapback = parseDBTapback(tapbackRow(2001, { associated_message_guid: 'p:2/PARENT-1' }))
+
+			expect(tapback?.targetMessageGuid).toBe('p:2/PARENT-1')
+			expect(tapback?.targetMessagePart).toBe(2)
+		})
+
+		it('should ignore non-tapback association codes', () => {
+			expect(parseDBTapback(tapbackRow(0))).toBeNull()
+			expect(parseDBTapback(tapbackRow(1000))).toBeNull()
+			expect(parseDBTapback(tapbackRow(2007))).toBeNull()
+			expect(parseDBTapback(tapbackRow(2000, { associated_message_guid: null }))).toBeNull()
+		})
+
+		it('should emit a single tapback message instead of fallback text', () => {
+			const messages = splitDBMessage(tapbackRow(2000), 1, {
+				attachmentRoots: [],
+			})
+
+			expect(messages).toHaveLength(1)
+			expect(messages[0]).toMatchObject({
+				guid: 'p:0/TAPBACK-1',
+				groupGuid: 'TAPBACK-1',
+				messageKind: 'tapback',
+				tapback: { type: 'loved', targetMessageGuid: 'p:0/PARENT-1' },
+			})
+			expect(messages[0]?.text).toBeUndefined()
+		})
+	})
+
+	describe('replies', () => {
+		it('should set replyingTo from thread_originator_guid and part', () => {
+			const messages = splitDBMessage(
+				{
+					...baseRow,
+					text: 'Agreed',
+					thread_originator_guid: 'PARENT-1',
+					thread_originator_part: '1:0:12',
+					attachments: [{ id: 'att-1', filename: 'a.jpg' }],
+				},
+				1,
+				{ attachmentRoots: [] },
+			)
+
+			expect(messages).toHaveLength(2)
+			for (const message of messages) {
+				expect(message.replyingTo).toEqual({ targetMessageGuid: 'p:1/PARENT-1' })
+				expect(message.threadOriginatorGuid).toBe('PARENT-1')
+				expect(message.threadOriginatorPart).toBe(1)
+			}
+		})
+
+		it('should target part 0 when the part is missing', () => {
+			const [message] = splitDBMessage(
+				{ ...baseRow, text: 'Agreed', thread_originator_guid: 'PARENT-1' },
+				1,
+				{ attachmentRoots: [] },
+			)
+
+			expect(message?.replyingTo?.targetMessageGuid).toBe('p:0/PARENT-1')
+			expect(message?.threadOriginatorPart).toBeUndefined()
+		})
+
+		it('should leave non-replies unlinked', () => {
+			const [message] = splitDBMessage({ ...baseRow, text: 'Hi' }, 1, {
+				attachmentRoots: [],
+			})
+
+			expect(message?.replyingTo).toBeUndefined()
+		})
+	})
+
+	describe('targets with an attachment before the text', () => {
+		// Messages.app: p:0 is the photo, p:1 the caption; ours: p:0 caption, p:1 photo
+		const photoFirst: DBMessage = {
+			...baseRow,
+			guid: 'PARENT-1',
+			text: '\uFFFCLook at this',
+			attachments: [{ id: 'att-1', filename: 'a.jpg' }],
+		}
+
+		it('should react to the part that holds the attachment', () => {
+			const partIndexes = createPartIndexMap()
+			const parts = splitDBMessage(photoFirst, 1, { attachmentRoots: [], partIndexes })
+			const photo = parts.find((m) => m.messageKind === 'media')
+
+			const [reaction] = splitDBMessage(
+				{
+					...baseRow,
+					guid: 'TAPBACK-1',
+					associated_message_guid: 'p:0/PARENT-1',
+					associated_message_type: 2000,
+				},
+				2,
+				{ attachmentRoots: [], partIndexes },
+			)
+
+			expect(photo?.guid).toBe('p:1/PARENT-1')
+			expect(reaction?.tapback?.targetMessageGuid).toBe('p:1/PARENT-1')
+			expect(reaction?.tapback?.targetMessagePart).toBe(1)
+		})
+
+		it('should reply to the caption part', () => {
+			const partIndexes = createPartIndexMap()
+			splitDBMessage(photoFirst, 1, { attachmentRoots: [], partIndexes })
+
+			const [reply] = splitDBMessage(
+				{
+					...baseRow,
+					guid: 'REPLY-1',
+					text: 'Nice',
+					thread_originator_guid: 'PARENT-1',
+					thread_originator_part: '1:0:12',
+				},
+				2,
+				{ attachmentRoots: [], partIndexes },
+			)
+
+			expect(reply?.replyingTo?.targetMessageGuid).toBe('p:0/PARENT-1')
+		})
+
+		it('should keep the Messages.app index for unknown targets', () => {
+			const tapback = parseDBTapback(
+				{ ...baseRow, associated_message_guid: 'p:0/OTHER', associated_message_type: 2000 },
+				createPartIndexMap(),
+			)
+
+			expect(tapback?.targetMessageGuid).toBe('p:0/OTHER')
+		})
+	})
+
+	it('should keep the destination caller id for self detection', () => {
+		const [message] = splitDBMessage(
+			{
+				...baseRow,
+				is_from_me: 1,
+				text: 'Hi',
+				destination_caller_id: 'me@example.com',
+			},
+			1,
+			{ attachmentRoots: [] },
+		)
+
+		expect(message?.isFromMe).toBe(true)
+		expect(message?.destinationCallerId).toBe('me@example.com')
+	})
+})
+
+describe('mapMessageParts', () => {
+	const attachments = [
+		{ id: 'att-1', filename: 'a.jpg' },
+		{ id: 'att-2', filename: 'b.jpg' },
+	]
+
+	it('should map text runs to part 0 and attachments after it', () => {
+		expect(mapMessageParts({ ...baseRow, text: '\uFFFCHi\uFFFC', attachments })).toEqual([1, 0, 2])
+		expect(mapMessageParts({ ...baseRow, text: 'Hi\uFFFCthere\uFFFC', attachments })).toEqual([
+			0, 1, 0, 2,
+		])
+	})
+
+	it('should return null when both numberings agree', () => {
+		expect(mapMessageParts({ ...baseRow, text: 'Hi\uFFFC\uFFFC', attachments })).toBeNull()
+		expect(mapMessageParts({ ...baseRow, text: 'Hi' })).toBeNull()
+	})
+
+	it('should return null when the text does not mark every attachment', () => {
+		expect(mapMessageParts({ ...baseRow, text: '\uFFFCHi', attachments })).toBeNull()
+	})
+})
+
+describe('parseThreadOriginatorPart', () => {
+	it('should read the part index', () => {
+		expect(parseThreadOriginatorPart('2:0:5')).toBe(2)
+		expect(parseThreadOriginatorPart('0')).toBe(0)
+	})
+
+	it('should return undefined for missing or malformed values', () => {
+		expect(parseThreadOriginatorPart(null)).toBeUndefined()
+		expect(parseThreadOriginatorPart('')).toBeUndefined()
+		expect(parseThreadOriginatorPart('x:1')).toBeUndefined()
+	})
+})
+
+describe('parseAssociatedMessageGuid', () => {
+	it('should parse part-prefixed GUIDs', () => {
+		expect(parseAssociatedMessageGuid('p:1/ABC-123')).toEqual({
+			guid: 'ABC-123',
+			part: 1,
+		})
+	})
+
+	it('should strip the balloon prefix', () => {
+		expect(parseAssociatedMessageGuid('bp:ABC-123')).toEqual({ guid: 'ABC-123' })
+	})
+
+	it('should pass through bare GUIDs', () => {
+		expect(parseAssociatedMessageGuid('ABC-123')).toEqual({ guid: 'ABC-123' })
+	})
+})
@@ -1,7 +1,9 @@
 import { beforeEach, describe, expect, it } from 'vitest'
 import type { Message } from '#lib/schema/message'
 import {
+	collapseTapbacks,
 	detectAmbiguousLinks,
+	type LinkingResult,
 	linkRepliesToParents,
 	linkTapbacksToParents,
 } from '../link-replies-and-tapbacks'
@@ -112,6 +114,63 @@ describe('linkRepliesToParents', () => {
 
 			expect(result[2].replyingTo?.targetMessageGuid).toBe('DB:msg-001')
 		})
+
+		it('should not apply heuristics to DB messages without a recorded parent', () => {
+			const parent = createMessage({
+				guid: 'p:0/DB:msg-001',
+				messageKind: 'text',
+				text: 'Hello',
+				date: '2025-10-17T10:00:00.000Z',
+			})
+			const followUp = {
+				...createMessage({
+					guid: 'p:0/DB:msg-002',
+					messageKind: 'text',
+					text: 'Not a reply',
+					date: '2025-10-17T10:00:05.000Z',
+				}),
+				exportMetadata: { source: 'db' },
+			} as Message
+
+			const result = linkRepliesToParents([parent, followUp]) as Message[]
+
+			expect(result[1]?.replyingTo).toBeUndefined()
+		})
+
+		it('should count authoritative and heuristic links', () => {
+			const parent = createMessage({
+				guid: 'csv:1:0',
+				messageKind: 'text',
+				text: 'Dinner at 7?',
+				date: '2025-10-17T10:00:00.000Z',
+			})
+			const csvReply = createMessage({
+				guid: 'csv:2:0',
+				messageKind: 'text',
+				text: '➜ Replying to: "Dinner at 7?" Sounds good',
+				date: '2025-10-17T10:00:10.000Z',
+			})
+			const dbReply = createMessage({
+				guid: 'p:0/DB:msg-003',
+				messageKind: 'text',
+				text: 'Yes',
+				date: '2025-10-17T10:00:20.000Z',
+				replyingTo: { targetMessageGuid: 'csv:1:0' },
+			})
+
+			const result = linkRepliesToParents([parent, csvReply, dbReply], {
+				trackAmbiguous: true,
+			})
+
+			expect(Array.isArray(result)).toBe(false)
+			if (!Array.isArray(result)) {
+				expect(result.stats).toEqual({
+					authoritative: 1,
+					heuristic: 1,
+					overridden: 0,
+				})
+			}
+		})
 	})
 
 	describe('AC02 — Heuristic linking for unlinked replies', () => {
@@ -390,6 +449,49 @@ describe('linkRepliesToParents', () => {
 			// Should link to media (more likely target for reaction)
 			expect(result[2].tapback?.targetMessageGuid).toBe('csv:123:1')
 		})
+
+		it('should prefer the message starting with the quoted targetText', () => {
+			const quotedMsg = createMessage({
+				guid: 'csv:120:0',
+				messageKind: 'text',
+				text: 'See you soon at the station',
+				date: '2025-10-17T09:58:00.000Z',
+			})
+
+			const nearerMsg = createMessage({
+				guid: 'csv:121:0',
+				messageKind: 'text',
+				text: 'Running late',
+				date: '2025-10-17T10:00:00.000Z',
+			})
+
+			const mediaMsg = createMessage({
+				guid: 'csv:122:0',
+				messageKind: 'media',
+				media: {
+					id: 'media:1',
+					filename: 'train.jpg',
+					path: '/tmp/train.jpg',
+				},
+				date: '2025-10-17T10:00:02.000Z',
+			})
+
+			const tapbackMsg = createMessage({
+				guid: 'csv:123:0',
+				messageKind: 'tapback',
+				tapback: {
+					type: 'loved',
+					action: 'added',
+					targetText: 'see you soon',
+				},
+				date: '2025-10-17T10:00:05.000Z',
+			})
+
+			const result = linkTapbacksToParents([quotedMsg, nearerMsg, mediaMsg, tapbackMsg])
+
+			// Quoted text outweighs proximity and the media preference
+			expect(result[3].tapback?.targetMessageGuid).toBe('csv:120:0')
+		})
 	})
 
 	describe('AC04 — Ambiguous link handling with logging', () => {
@@ -680,6 +782,126 @@ describe('linkRepliesToParents', () => {
 	})
 })
 
+describe('linkTapbacksToParents stats', () => {
+	it('should count authoritative and heuristic tapback links', () => {
+		const parent = createMessage({ guid: 'csv:1:0', text: 'Dinner at 7?' })
+		const dbTapback = createMessage({
+			guid: 'DB:tb-1',
+			messageKind: 'tapback',
+			date: '2025-10-17T10:00:02.000Z',
+			tapback: { type: 'liked', action: 'added', targetMessageGuid: 'csv:1:0' },
+		})
+		const csvTapback = createMessage({
+			guid: 'csv:2:0',
+			messageKind: 'tapback',
+			date: '2025-10-17T10:00:04.000Z',
+			tapback: { type: 'loved', action: 'added', targetText: 'Dinner at 7?' },
+		})
+
+		const result = linkTapbacksToParents([parent, dbTapback, csvTapback], {
+			trackAmbiguous: true,
+		}) as LinkingResult
+
+		expect(result.stats).toEqual({
+			authoritative: 1,
+			heuristic: 1,
+			overridden: 0,
+		})
+		expect(result.messages[2]?.tapback?.targetMessageGuid).toBe('csv:1:0')
+	})
+})
+
+describe('collapseTapbacks', () => {
+	function tapback(
+		guid: string,
+		date: string,
+		info: Partial<NonNullable<Message['tapback']>>,
+		partial: Partial<Message> = {},
+	): Message {
+		return createMessage({
+			guid,
+			messageKind: 'tapback',
+			date,
+			handle: '+61412345678',
+			tapback: {
+				type: 'loved',
+				action: 'added',
+				targetMessageGuid: 'csv:1:0',
+				...info,
+			},
+			...partial,
+		})
+	}
+
+	it('should cancel a reaction removed later by the same sender', () => {
+		const parent = createMessage({ guid: 'csv:1:0', text: 'Hello' })
+		const added = tapback('csv:2:0', '2025-10-17T10:00:05.000Z', {})
+		const removed = tapback('csv:3:0', '2025-10-17T10:01:00.000Z', {
+			action: 'removed',
+		})
+
+		const result = collapseTapbacks([parent, added, removed])
+
+		expect(result.messages.map((m) => m.guid)).toEqual(['csv:1:0'])
+		expect(result.stats).toEqual({
+			removed: 1,
+			replaced: 0,
+			orphanedRemovals: 0,
+		})
+	})
+
+	it("should keep only a sender's latest reaction", () => {
+		const loved = tapback('csv:2:0', '2025-10-17T10:00:05.000Z', {})
+		const laughed = tapback('csv:3:0', '2025-10-17T10:00:09.000Z', {
+			type: 'laughed',
+		})
+		const mine = tapback(
+			'csv:4:0',
+			'2025-10-17T10:00:07.000Z',
+			{ type: 'liked' },
+			{ isFromMe: true, handle: null },
+		)
+
+		const result = collapseTapbacks([loved, laughed, mine])
+
+		expect(result.messages.map((m) => m.guid)).toEqual(['csv:3:0', 'csv:4:0'])
+		expect(result.stats.replaced).toBe(1)
+	})
+
+	it('should drop removals that match no earlier reaction', () => {
+		const emoji = tapback('csv:2:0', '2025-10-17T10:00:05.000Z', {
+			type: 'emoji',
+			emoji: '🎉',
+		})
+		const otherEmoji = tapback('csv:3:0', '2025-10-17T10:00:09.000Z', {
+			type: 'emoji',
+			action: 'removed',
+			emoji: '🔥',
+		})
+
+		const result = collapseTapbacks([emoji, otherEmoji])
+
+		expect(result.messages.map((m) => m.guid)).toEqual(['csv:2:0'])
+		expect(result.stats.orphanedRemovals).toBe(1)
+	})
+
+	it('should leave tapbacks without a linked parent untouched', () => {
+		const unlinked = tapback('csv:2:0', '2025-10-17T10:00:05.000Z', {
+			action: 'removed',
+			targetMessageGuid: undefined,
+		})
+
+		const result = collapseTapbacks([unlinked])
+
+		expect(result.messages).toHaveLength(1)
+		expect(result.stats).toEqual({
+			removed: 0,
+			replaced: 0,
+			orphanedRemovals: 0,
+		})
+	})
+})
+
 // Helper to create test messages
 function createMessage(partial: Partial<Message>): Message {
 	return {
@@ -0,0 +1,234 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createChatDBFixture } from '../../../tests/helpers/chat-db-fixture'
+import { splitDBMessage } from '../ingest-db'
+import { readChatDB, readChatDBConversations } from '../read-chat-db'
+
+describe('readChatDB', () => {
+	let tempDir: string
+	let dbPath: string
+
+	beforeEach(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'read-chat-db-'))
+		dbPath = path.join(tempDir, 'chat.db')
+	})
+
+	afterEach(() => {
+		fs.rmSync(tempDir, { recursive: true, force: true })
+	})
+
+	it('should join message, handle and chat into DBMessage rows', () => {
+		createChatDBFixture(dbPath, {
+			chats: [{ guid: 'iMessage;-;+61400111222', displayName: 'Melanie' }],
+			messages: [
+				{
+					guid: 'MSG-1',
+					text: 'Hey, how are you?',
+					handle: '+61400111222',
+					appleSeconds: 718110777,
+					chat: 'iMessage;-;+61400111222',
+				},
+				{
+					guid: 'MSG-2',
+					text: 'Good thanks',
+					handle: '+61400111222',
+					isFromMe: true,
+					appleSeconds: 718110800,
+					chat: 'iMessage;-;+61400111222',
+					destinationCallerId: 'me@example.com',
+				},
+			],
+		})
+
+		const rows = readChatDB(dbPath)
+
+		expect(rows).toHaveLength(2)
+		expect(rows[0]).toMatchObject({
+			guid: 'MSG-1',
+			rowid: 1,
+			text: 'Hey, how are you?',
+			is_from_me: 0,
+			handle: '+61400111222',
+			chat_id: 'iMessage;-;+61400111222',
+			service: 'iMessage',
+		})
+		expect(rows[1]).toMatchObject({
+			guid: 'MSG-2',
+			is_from_me: 1,
+			destination_caller_id: 'me@example.com',
+		})
+	})
+
+	it('should order rows by date regardless of insertion order', () => {
+		createChatDBFixture(dbPath, {
+			messages: [
+				{ guid: 'LATE', text: 'second', appleSeconds: 718110900 },
+				{ guid: 'EARLY', text: 'first', appleSeconds: 718110000 },
+			],
+		})
+
+		expect(readChatDB(dbPath).map((r) => r.guid)).toEqual(['EARLY', 'LATE'])
+	})
+
+	it('should include tapback and reply association columns', () => {
+		createChatDBFixture(dbPath, {
+			messages: [
+				{ guid: 'PARENT', text: 'Dinner?', appleSeconds: 718110000 },
+				{
+					guid: 'TAPBACK',
+					text: 'Loved “Dinner?”',
+					appleSeconds: 718110010,
+					associatedMessageGuid: 'p:0/PARENT',
+					associatedMessageType: 2000,
+				},
+				{
+					guid: 'REPLY',
+					text: 'Yes please',
+					appleSeconds: 718110020,
+					threadOriginatorGuid: 'PARENT',
+					threadOriginatorPart: '0:0:7',
+				},
+			],
+		})
+
+		const rows = readChatDB(dbPath)
+		const tapback = rows.find((r) => r.guid === 'TAPBACK')
+		const reply = rows.find((r) => r.guid === 'REPLY')
+
+		expect(tapback).toMatchObject({
+			associated_message_guid: 'p:0/PARENT',
+			associated_message_type: 2000,
+		})
+		expect(reply).toMatchObject({
+			thread_originator_guid: 'PARENT',
+			thread_originator_part: '0:0:7',
+		})
+	})
+
+	it('should attach attachments and expand ~ paths', () => {
+		createChatDBFixture(dbPath, {
+			messages: [
+				{
+					guid: 'WITH-MEDIA',
+					text: 'Look',
+					appleSeconds: 718110777,
+					attachments: [
+						{
+							guid: 'ATT-1',
+							filename: '~/Library/Messages/Attachments/ab/12/IMG_0001.HEIC',
+							transferName: 'IMG_0001.HEIC',
+							mimeType: 'image/heic',
+							uti: 'public.heic',
+							totalBytes: 2048,
+						},
+						{ guid: 'ATT-MISSING', filename: null },
+					],
+				},
+			],
+		})
+
+		const rows = readChatDB(dbPath, { homeDir: '/Users/test' })
+
+		expect(rows[0]?.attachments).toEqual([
+			{
+				id: 'ATT-1',
+				filename: 'IMG_0001.HEIC',
+				copied_path: '/Users/test/Library/Messages/Attachments/ab/12/IMG_0001.HEIC',
+				mime_type: 'image/heic',
+				uti: 'public.heic',
+				total_bytes: 2048,
+				is_sticker: 0,
+				hide_attachment: 0,
+			},
+		])
+	})
+
+	it('should produce rows that splitDBMessage turns into valid parts', () => {
+		createChatDBFixture(dbPath, {
+			messages: [
+				{
+					guid: 'SPLIT',
+					text: 'Photo attached',
+					handle: 'friend@example.com',
+					appleSeconds: 718110777,
+					attachments: [
+						{
+							guid: 'ATT-2',
+							filename: '/abs/photo.jpg',
+							mimeType: 'image/jpeg',
+						},
+					],
+				},
+			],
+		})
+
+		const [row] = readChatDB(dbPath)
+		const parts = splitDBMessage(row!, 1, { attachmentRoots: [] })
+
+		expect(parts.map((p) => p.guid)).toEqual(['p:0/SPLIT', 'p:1/SPLIT'])
+		expect(parts[0]?.date).toBe('2023-10-04T11:12:57.000Z')
+		expect(parts[1]?.media?.path).toBe('/abs/photo.jpg')
+	})
+
+	it('should reject files without a message table', () => {
+		const emptyPath = path.join(tempDir, 'empty.db')
+		fs.writeFileSync(emptyPath, '')
+
+		expect(() => readChatDB(emptyPath)).toThrow(/Not a Messages database/)
+	})
+})
+
+describe('readChatDBConversations', () => {
+	let tempDir: string
+	let dbPath: string
+
+	beforeEach(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'read-chat-db-'))
+		dbPath = path.join(tempDir, 'chat.db')
+	})
+
+	afterEach(() => {
+		fs.rmSync(tempDir, { recursive: true, force: true })
+	})
+
+	it('should read 1:1 and group chats with participants', () => {
+		createChatDBFixture(dbPath, {
+			chats: [
+				{
+					guid: 'iMessage;-;+61400111222',
+					style: 45,
+					participants: ['+61400111222'],
+				},
+				{
+					guid: 'iMessage;+;chat123',
+					chatIdentifier: 'chat123',
+					displayName: 'Family',
+					style: 43,
+					participants: ['mum@example.com', '+61400333444'],
+				},
+			],
+			messages: [],
+		})
+
+		expect(readChatDBConversations(dbPath)).toEqual([
+			{
+				id: 'iMessage;+;chat123',
+				chatIdentifier: 'chat123',
+				displayName: 'Family',
+				isGroup: true,
+				service: 'iMessage',
+				participants: ['+61400333444', 'mum@example.com'],
+			},
+			{
+				id: 'iMessage;-;+61400111222',
+				chatIdentifier: '+61400111222',
+				isGroup: false,
+				service: 'iMessage',
+				participants: ['+61400111222'],
+			},
+		])
+	})
+})
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+
+import { createTapbackParser, parseTapbackText } from '../tapback-phrases'
+
+describe('parseTapbackText', () => {
+	it.each([
+		['Loved “see you soon”', 'loved'],
+		['Liked “see you soon”', 'liked'],
+		['Disliked “see you soon”', 'disliked'],
+		['Laughed at “see you soon”', 'laughed'],
+		['Emphasized “see you soon”', 'emphasized'],
+		['Questioned "see you soon"', 'questioned'],
+	])('parses %s', (text, type) => {
+		expect(parseTapbackText(text)).toEqual({
+			type,
+			action: 'added',
+			targetText: 'see you soon',
+		})
+	})
+
+	it.each([
+		['Removed a heart from “see you soon”', 'loved'],
+		['Removed a like from “see you soon”', 'liked'],
+		['Removed a dislike from “see you soon”', 'disliked'],
+		['Removed a laugh from “see you soon”', 'laughed'],
+		['Removed an exclamation from “see you soon”', 'emphasized'],
+		['Removed a question mark from “see you soon”', 'questioned'],
+	])('parses removal %s', (text, type) => {
+		expect(parseTapbackText(text)).toEqual({
+			type,
+			action: 'removed',
+			targetText: 'see you soon',
+		})
+	})
+
+	it('parses emoji reactions and their removal', () => {
+		expect(parseTapbackText('Reacted 👍🏽 to “lunch?”')).toEqual({
+			type: 'emoji',
+			action: 'added',
+			targetText: 'lunch?',
+			emoji: '👍🏽',
+		})
+		expect(parseTapbackText('Removed 🧑‍💻 from “lunch?”')).toEqual({
+			type: 'emoji',
+			action: 'removed',
+			targetText: 'lunch?',
+			emoji: '🧑‍💻',
+		})
+	})
+
+	it('marks reactions to attachments as media', () => {
+		expect(parseTapbackText('Loved an image')).toEqual({
+			type: 'loved',
+			action: 'added',
+			isMedia: true,
+		})
+		expect(parseTapbackText('Reacted 🎉 to a movie')).toEqual({
+			type: 'emoji',
+			action: 'added',
+			isMedia: true,
+			emoji: '🎉',
+		})
+	})
+
+	it('keeps quotes inside the target and drops a truncation ellipsis', () => {
+		expect(parseTapbackText('Loved “she said “no” and then…”')?.targetText).toBe(
+			'she said “no” and then',
+		)
+	})
+
+	it('leaves ordinary messages alone', () => {
+		expect(parseTapbackText('Loved it')).toBeNull()
+		expect(parseTapbackText('I loved “Dune”')).toBeNull()
+		expect(parseTapbackText('Reacted strongly to “news”')).toBeNull()
+	})
+})
+
+describe('createTapbackParser', () => {
+	it('tries configured locales after English', () => {
+		const parse = createTapbackParser([
+			{
+				added: { laughed: ['Hat über {target} gelacht'] },
+				removed: { emoji: ['{emoji} von {target} entfernt'] },
+				mediaTargets: ['ein Bild'],
+			},
+		])
+
+		expect(parse('Hat über „Bis bald“ gelacht')).toEqual({
+			type: 'laughed',
+			action: 'added',
+			targetText: 'Bis bald',
+		})
+		expect(parse('😂 von ein Bild entfernt')).toEqual({
+			type: 'emoji',
+			action: 'removed',
+			isMedia: true,
+			emoji: '😂',
+		})
+		expect(parse('Laughed at “see you soon”')?.type).toBe('laughed')
+	})
+})
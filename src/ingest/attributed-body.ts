@@ -0,0 +1,471 @@
+/**
+ * attributedBody decoder for Messages.app chat.db
+ *
+ * On recent macOS versions `message.text` is often NULL and the content lives
+ * in `message.attributedBody`, an NSAttributedString archived with the legacy
+ * NeXTSTEP "typedstream" format (NSArchiver). This module implements a small
+ * typedstream reader sufficient for NSAttributedString:
+ * - The plain string (NSString / NSMutableString)
+ * - Attribute runs, from which mention and link ranges are extracted
+ *
+ * Ranges are in UTF-16 code units, matching JavaScript string indices.
+ * If the structured parse fails, a byte scan for the first NSString payload
+ * is used so text is still recovered (without ranges).
+ */
+
+export type AttributedBodyRange = {
+	start: number
+	length: number
+}
+
+export type AttributedBodyMention = AttributedBodyRange & {
+	handle: string
+}
+
+export type AttributedBodyLink = AttributedBodyRange & {
+	url: string
+}
+
+export type DecodedAttributedBody = {
+	text: string
+	mentions: AttributedBodyMention[]
+	links: AttributedBodyLink[]
+}
+
+const MENTION_ATTRIBUTE = '__kIMMentionConfirmedMention'
+const LINK_ATTRIBUTE = '__kIMLinkAttributeName'
+
+// typedstream tags (signed byte values)
+const TAG_INTEGER_2 = -127
+const TAG_INTEGER_4 = -126
+const TAG_FLOATING_POINT = -125
+const TAG_NEW = -124
+const TAG_NIL = -123
+const TAG_END_OF_OBJECT = -122
+const FIRST_REFERENCE_NUMBER = -110
+
+type ArchivedClass = {
+	name: string
+	version: number
+}
+
+type ArchivedObject = {
+	className: string
+	values: ArchivedValue[]
+}
+
+type ArchivedValue =
+	| ArchivedObject
+	| ArchivedClass
+	| string
+	| number
+	| Uint8Array
+	| null
+	| ArchivedValue[]
+
+/**
+ * Minimal typedstream reader (NSArchiver, streamtyped v4)
+ */
+class TypedStreamReader {
+	private offset = 0
+	private readonly sharedStrings: string[] = []
+	private readonly objects: Array<ArchivedObject | ArchivedClass> = []
+	private readonly view: DataView
+	private readonly decoder = new TextDecoder('utf-8')
+
+	constructor(private readonly data: Uint8Array) {
+		this.view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+	}
+
+	readHeader(): void {
+		const version = this.readUnsignedByte()
+		const signature = this.decoder.decode(this.readUnsharedBytes())
+		if (version !== 4 || signature !== 'streamtyped') {
+			throw new Error('Not a typedstream archive')
+		}
+		this.readInteger(this.readSignedByte()) // system version
+	}
+
+	/**
+	 * Read the next top-level typed value group
+	 */
+	readGroup(): ArchivedValue[] {
+		const encoding = this.readSharedString(this.readSignedByte())
+		if (encoding === null) {
+			throw new Error('Missing type encoding')
+		}
+		return this.readValues(encoding)
+	}
+
+	hasMore(): boolean {
+		return this.offset < this.data.length
+	}
+
+	private readValues(encoding: string): ArchivedValue[] {
+		const values: ArchivedValue[] = []
+		let i = 0
+		while (i < encoding.length) {
+			const [type, next] = splitEncoding(encoding, i)
+			values.push(this.readValue(type))
+			i = next
+		}
+		return values
+	}
+
+	private readValue(type: string): ArchivedValue {
+		const first = type[0]
+		switch (first) {
+			case '@':
+				return this.readObject()
+			case '#':
+				return this.readClass(this.readSignedByte())
+			case '+':
+				return this.decoder.decode(this.readUnsharedBytes())
+			case '*':
+			case '%':
+				return this.readSharedString(this.readSignedByte())
+			case 'c':
+			case 'C':
+			case 's':
+			case 'S':
+			case 'i':
+			case 'I':
+			case 'l':
+			case 'L':
+			case 'q':
+			case 'Q':
+				return this.readInteger(this.readSignedByte())
+			case 'f':
+			case 'd':
+				return this.readFloat(type === 'f')
+			case '[': {
+				const match = type.match(/^\[(\d+)(.+)\]$/)
+				if (!match?.[1] || !match[2]) {
+					throw new Error(`Unsupported array encoding: ${type}`)
+				}
+				const count = Number.parseInt(match[1], 10)
+				const elementType = match[2]
+				if (elementType === 'c' || elementType === 'C') {
+					return this.readBytes(count)
+				}
+				return Array.from({ length: count }, () => this.readValue(elementType))
+			}
+			case '{': {
+				const fields = type.slice(type.indexOf('=') + 1, -1)
+				return this.readValues(fields)
+			}
+			default:
+				throw new Error(`Unsupported type encoding: ${type}`)
+		}
+	}
+
+	private readObject(): ArchivedObject | ArchivedClass | null {
+		const head = this.readSignedByte()
+		if (head === TAG_NIL) return null
+		if (head !== TAG_NEW) return this.lookupObject(head)
+
+		// Objects are registered before their class, matching NSArchiver's
+		// reference numbering
+		const object: ArchivedObject = { className: 'nil', values: [] }
+		this.objects.push(object)
+		const cls = this.readClass(this.readSignedByte())
+		object.className = cls?.name ?? 'nil'
+
+		while (this.peekSignedByte() !== TAG_END_OF_OBJECT) {
+			object.values.push(...this.readGroup())
+		}
+		this.offset++ // consume end-of-object
+		return object
+	}
+
+	private readClass(head: number): ArchivedClass | null {
+		if (head === TAG_NIL) return null
+		if (head !== TAG_NEW) {
+			const ref = this.lookupObject(head)
+			if ('name' in ref) return ref
+			throw new Error('Class reference points at an object')
+		}
+
+		const name = this.readSharedString(this.readSignedByte()) ?? ''
+		const version = this.readInteger(this.readSignedByte())
+		const cls: ArchivedClass = { name, version }
+		this.objects.push(cls)
+		this.readClass(this.readSignedByte()) // superclass chain
+		return cls
+	}
+
+	private lookupObject(head: number): ArchivedObject | ArchivedClass {
+		const index = this.readReference(head)
+		const ref = this.objects[index]
+		if (!ref) throw new Error(`Invalid object reference: ${index}`)
+		return ref
+	}
+
+	private readSharedString(head: number): string | null {
+		if (head === TAG_NIL) return null
+		if (head === TAG_NEW) {
+			const value = this.decoder.decode(this.readUnsharedBytes())
+			this.sharedStrings.push(value)
+			return value
+		}
+		const index = this.readReference(head)
+		const value = this.sharedStrings[index]
+		if (value === undefined) {
+			throw new Error(`Invalid string reference: ${index}`)
+		}
+		return value
+	}
+
+	private readReference(head: number): number {
+		const value =
+			head === TAG_INTEGER_2 || head === TAG_INTEGER_4
+				? this.readInteger(head)
+				: head
+		return value - FIRST_REFERENCE_NUMBER
+	}
+
+	private readUnsharedBytes(): Uint8Array {
+		const length = this.readInteger(this.readSignedByte())
+		return this.readBytes(length)
+	}
+
+	private readInteger(head: number): number {
+		if (head === TAG_INTEGER_2) {
+			const value = this.view.getInt16(this.offset, true)
+			this.offset += 2
+			return value
+		}
+		if (head === TAG_INTEGER_4) {
+			const value = this.view.getInt32(this.offset, true)
+			this.offset += 4
+			return value
+		}
+		if (head < FIRST_REFERENCE_NUMBER) {
+			throw new Error(`Unexpected tag ${head} while reading integer`)
+		}
+		return head
+	}
+
+	private readFloat(single: boolean): number {
+		const head = this.readSignedByte()
+		if (head !== TAG_FLOATING_POINT) return this.readInteger(head)
+		const value = single
+			? this.view.getFloat32(this.offset, true)
+			: this.view.getFloat64(this.offset, true)
+		this.offset += single ? 4 : 8
+		return value
+	}
+
+	private readBytes(length: number): Uint8Array {
+		if (length < 0 || this.offset + length > this.data.length) {
+			throw new Error('Unexpected end of typedstream')
+		}
+		const bytes = this.data.subarray(this.offset, this.offset + length)
+		this.offset += length
+		return bytes
+	}
+
+	private readSignedByte(): number {
+		if (this.offset >= this.data.length) {
+			throw new Error('Unexpected end of typedstream')
+		}
+		return this.view.getInt8(this.offset++)
+	}
+
+	private peekSignedByte(): number {
+		if (this.offset >= this.data.length) {
+			throw new Error('Unexpected end of typedstream')
+		}
+		return this.view.getInt8(this.offset)
+	}
+
+	private readUnsignedByte(): number {
+		return this.readSignedByte() & 0xff
+	}
+}
+
+/**
+ * Split one type out of an encoding string, honouring [] and {} nesting
+ *
+ * @returns [type, index after type]
+ */
+function splitEncoding(encoding: string, start: number): [string, number] {
+	const open = encoding[start]
+	if (open !== '[' && open !== '{') {
+		return [encoding.charAt(start), start + 1]
+	}
+
+	const close = open === '[' ? ']' : '}'
+	let depth = 0
+	for (let i = start; i < encoding.length; i++) {
+		if (encoding[i] === open) depth++
+		if (encoding[i] === close) depth--
+		if (depth === 0) return [encoding.slice(start, i + 1), i + 1]
+	}
+	throw new Error(`Unterminated type encoding: ${encoding}`)
+}
+
+function isObject(value: ArchivedValue): value is ArchivedObject {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		!Array.isArray(value) &&
+		!(value instanceof Uint8Array) &&
+		'values' in value
+	)
+}
+
+/**
+ * Extract the string payload from an archived NSString-like object
+ */
+function stringFromObject(value: ArchivedValue): string | null {
+	if (typeof value === 'string') return value
+	if (!isObject(value)) return null
+	if (/String$/.test(value.className)) {
+		const first = value.values[0]
+		return typeof first === 'string' ? first : null
+	}
+	// NSURL and friends: use the last string-bearing value
+	for (let i = value.values.length - 1; i >= 0; i--) {
+		const candidate = value.values[i]
+		if (candidate === undefined) continue
+		const nested = stringFromObject(candidate)
+		if (nested !== null) return nested
+	}
+	return null
+}
+
+/**
+ * Read NSDictionary entries as key → value
+ */
+function dictionaryEntries(value: ArchivedValue): Map<string, ArchivedValue> {
+	const entries = new Map<string, ArchivedValue>()
+	if (!isObject(value) || !/Dictionary$/.test(value.className)) {
+		return entries
+	}
+	// values: [count, key1, value1, key2, value2, ...]
+	for (let i = 1; i + 1 < value.values.length; i += 2) {
+		const key = stringFromObject(value.values[i] ?? null)
+		const entry = value.values[i + 1]
+		if (key !== null && entry !== undefined) entries.set(key, entry)
+	}
+	return entries
+}
+
+function decodeStructured(blob: Uint8Array): DecodedAttributedBody | null {
+	const reader = new TypedStreamReader(blob)
+	reader.readHeader()
+
+	while (reader.hasMore()) {
+		const [root] = reader.readGroup()
+		if (!root || !isObject(root) || !/AttributedString$/.test(root.className)) {
+			continue
+		}
+
+		const [stringValue, ...runs] = root.values
+		const text = stringFromObject(stringValue ?? null)
+		if (text === null) return null
+
+		const mentions: AttributedBodyMention[] = []
+		const links: AttributedBodyLink[] = []
+
+		// Runs are (index, length, attributes) triples laid end to end
+		let start = 0
+		for (let i = 0; i + 2 < runs.length; i += 3) {
+			const length = runs[i + 1]
+			const attributes = runs[i + 2]
+			if (typeof length !== 'number' || attributes === undefined) break
+
+			const entries = dictionaryEntries(attributes)
+			const mention = entries.get(MENTION_ATTRIBUTE)
+			if (mention !== undefined) {
+				const handle = stringFromObject(mention)
+				if (handle) mentions.push({ start, length, handle })
+			}
+			const link = entries.get(LINK_ATTRIBUTE)
+			if (link !== undefined) {
+				const url = stringFromObject(link)
+				if (url) links.push({ start, length, url })
+			}
+			start += length
+		}
+
+		return { text, mentions, links }
+	}
+
+	return null
+}
+
+/**
+ * Fallback: locate the first NSString payload by byte pattern
+ * Pattern: "NSString" ... 0x84 0x01 '+' <length> <utf-8 bytes>
+ */
+function decodeByScan(blob: Uint8Array): DecodedAttributedBody | null {
+	const marker = new TextEncoder().encode('NSString')
+	const markerIndex = indexOfBytes(blob, marker, 0)
+	if (markerIndex === -1) return null
+
+	const plusIndex = indexOfBytes(
+		blob,
+		Uint8Array.of(0x84, 0x01, 0x2b),
+		markerIndex + marker.length,
+	)
+	if (plusIndex === -1) return null
+
+	let offset = plusIndex + 3
+	const view = new DataView(blob.buffer, blob.byteOffset, blob.byteLength)
+	let length = view.getInt8(offset)
+	offset++
+	if (length === TAG_INTEGER_2) {
+		length = view.getUint16(offset, true)
+		offset += 2
+	} else if (length === TAG_INTEGER_4) {
+		length = view.getUint32(offset, true)
+		offset += 4
+	}
+	if (length < 0 || offset + length > blob.length) return null
+
+	const text = new TextDecoder('utf-8').decode(
+		blob.subarray(offset, offset + length),
+	)
+	return { text, mentions: [], links: [] }
+}
+
+function indexOfBytes(
+	haystack: Uint8Array,
+	needle: Uint8Array,
+	from: number,
+): number {
+	outer: for (let i = from; i <= haystack.length - needle.length; i++) {
+		for (let j = 0; j < needle.length; j++) {
+			if (haystack[i + j] !== needle[j]) continue outer
+		}
+		return i
+	}
+	return -1
+}
+
+/**
+ * Decode a chat.db attributedBody blob
+ *
+ * @param blob - Raw attributedBody column value
+ * @returns Plain text plus mention/link ranges, or null if undecodable
+ */
+export function decodeAttributedBody(
+	blob: Uint8Array | null | undefined,
+): DecodedAttributedBody | null {
+	if (!blob || blob.length === 0) return null
+
+	try {
+		const decoded = decodeStructured(blob)
+		if (decoded) return decoded
+	} catch {
+		// Fall through to byte scan for archives using unsupported encodings
+	}
+
+	try {
+		return decodeByScan(blob)
+	} catch {
+		return null
+	}
+}
@@ -0,0 +1,279 @@
+import type { ChatId, Conversation, Message } from '#schema/message'
+
+/**
+ * Conversation helpers
+ *
+ * A Conversation describes one chat (1:1 or group) keyed by the chat GUID
+ * stored in Message.chatId. Ingest attaches them to the export envelope so
+ * later stages can filter (--chat) and render per conversation.
+ */
+
+/** Folder used for messages that carry no chatId in a multi-chat export */
+export const UNASSIGNED_CONVERSATION_FOLDER = 'unassigned'
+
+/**
+ * Accumulates what buildConversations needs one message at a time, so
+ * streaming commands can describe conversations without keeping messages
+ */
+export type ConversationCollector = {
+	add(message: Message): void
+	/** Conversations seen so far, with `known` metadata where available */
+	build(known?: Conversation[]): Conversation[]
+}
+
+/**
+ * Create an empty conversation collector
+ */
+export function createConversationCollector(): ConversationCollector {
+	const participantsById = new Map<ChatId, Set<string>>()
+	const serviceById = new Map<ChatId, string>()
+
+	return {
+		add(msg) {
+			if (!msg.chatId) return
+			let participants = participantsById.get(msg.chatId)
+			if (!participants) {
+				participants = new Set()
+				participantsById.set(msg.chatId, participants)
+			}
+			if (!msg.isFromMe && msg.handle) participants.add(msg.handle)
+			if (msg.service && !serviceById.has(msg.chatId)) {
+				serviceById.set(msg.chatId, msg.service)
+			}
+		},
+		build(known = []) {
+			const knownById = new Map(known.map((c) => [c.id, c]))
+			const conversations: Conversation[] = []
+			for (const [id, seen] of participantsById) {
+				const existing = knownById.get(id)
+				if (existing) {
+					conversations.push(existing)
+					continue
+				}
+				const participants = Array.from(seen).sort()
+				conversations.push({
+					id,
+					isGroup: participants.length > 1,
+					service: serviceById.get(id) ?? null,
+					participants,
+				})
+			}
+			return conversations.sort((a, b) => a.id.localeCompare(b.id))
+		},
+	}
+}
+
+/**
+ * Build the conversation list for a set of messages
+ *
+ * Uses `known` entries (e.g. read from chat.db) when available and infers the
+ * rest from the messages themselves. Only conversations referenced by at
+ * least one message are returned, sorted by id.
+ *
+ * @param messages - Messages to describe
+ * @param known - Conversations with authoritative metadata
+ */
+export function buildConversations(
+	messages: Message[],
+	known: Conversation[] = [],
+): Conversation[] {
+	const collector = createConversationCollector()
+	for (const msg of messages) collector.add(msg)
+	return collector.build(known)
+}
+
+/**
+ * Merge conversation lists from several inputs
+ *
+ * Entries with the same id are combined: the first non-empty value wins for
+ * scalar fields and participants are unioned.
+ */
+export function mergeConversations(
+	...lists: Array<Conversation[] | undefined>
+): Conversation[] {
+	const byId = new Map<ChatId, Conversation>()
+
+	for (const conversation of lists.flatMap((list) => list ?? [])) {
+		const existing = byId.get(conversation.id)
+		if (!existing) {
+			byId.set(conversation.id, {
+				...conversation,
+				participants: [...conversation.participants],
+			})
+			continue
+		}
+		const participants = Array.from(
+			new Set([...existing.participants, ...conversation.participants]),
+		).sort()
+		byId.set(conversation.id, {
+			...conversation,
+			...existing,
+			chatIdentifier: existing.chatIdentifier ?? conversation.chatIdentifier,
+			displayName: existing.displayName || conversation.displayName,
+			service: existing.service ?? conversation.service,
+			isGroup:
+				existing.isGroup || conversation.isGroup || participants.length > 1,
+			participants,
+		})
+	}
+
+	return Array.from(byId.values()).sort((a, b) => a.id.localeCompare(b.id))
+}
+
+/**
+ * Human-readable name for a conversation
+ *
+ * Prefers the group display name, then the participant list, then the chat
+ * identifier.
+ */
+export function getConversationLabel(conversation: Conversation): string {
+	if (conversation.displayName) return conversation.displayName
+	if (conversation.participants.length > 0) {
+		return conversation.participants.join(', ')
+	}
+	return conversation.chatIdentifier || conversation.id
+}
+
+/**
+ * Resolve a --chat selector to a single conversation
+ *
+ * Matches, in order: chat GUID, chat identifier, then display name or label
+ * (case-insensitive).
+ *
+ * @throws Error if nothing matches or a name matches several conversations
+ */
+export function resolveConversation(
+	conversations: Conversation[],
+	selector: string,
+): Conversation {
+	const byId = conversations.find(
+		(c) => c.id === selector || c.chatIdentifier === selector,
+	)
+	if (byId) return byId
+
+	const needle = selector.trim().toLowerCase()
+	const byName = conversations.filter(
+		(c) =>
+			c.displayName?.toLowerCase() === needle ||
+			getConversationLabel(c).toLowerCase() === needle,
+	)
+
+	if (byName.length === 1 && byName[0]) return byName[0]
+	if (byName.length > 1) {
+		throw new Error(
+			`--chat "${selector}" matches ${byName.length} conversations; use one of: ${byName.map((c) => c.id).join(', ')}`,
+		)
+	}
+	throw new Error(`No conversation matches --chat "${selector}"`)
+}
+
+/**
+ * Keep only the messages and conversation selected by --chat
+ *
+ * Conversations are inferred from the messages when the envelope has none.
+ *
+ * @throws Error if the selector does not match exactly one conversation
+ */
+export function filterByConversation(
+	messages: Message[],
+	conversations: Conversation[] | undefined,
+	selector: string,
+): { messages: Message[]; conversation: Conversation } {
+	const conversation = resolveConversation(
+		buildConversations(messages, conversations),
+		selector,
+	)
+	return {
+		messages: messages.filter((m) => m.chatId === conversation.id),
+		conversation,
+	}
+}
+
+/**
+ * Group messages by conversation with a unique, filesystem-safe folder name
+ *
+ * Messages without a chatId go to UNASSIGNED_CONVERSATION_FOLDER. Groups are
+ * sorted by folder name for deterministic output.
+ */
+export function partitionByConversation(
+	messages: Message[],
+	conversations: Conversation[] | undefined,
+): Array<{
+	folder: string
+	conversation: Conversation | null
+	messages: Message[]
+}> {
+	const resolved = buildConversations(messages, conversations)
+	const messagesById = new Map<ChatId | null, Message[]>()
+	for (const msg of messages) {
+		const key = msg.chatId ?? null
+		const group = messagesById.get(key)
+		if (group) {
+			group.push(msg)
+		} else {
+			messagesById.set(key, [msg])
+		}
+	}
+
+	const folders = assignConversationFolders(resolved)
+	const groups: Array<{
+		folder: string
+		conversation: Conversation | null
+		messages: Message[]
+	}> = resolved.map((conversation) => ({
+		folder: folders.get(conversation.id) as string,
+		conversation,
+		messages: messagesById.get(conversation.id) ?? [],
+	}))
+
+	const unassigned = messagesById.get(null)
+	if (unassigned) {
+		groups.push({
+			folder: UNASSIGNED_CONVERSATION_FOLDER,
+			conversation: null,
+			messages: unassigned,
+		})
+	}
+
+	return groups.sort((a, b) => a.folder.localeCompare(b.folder))
+}
+
+/**
+ * Give each conversation a unique, filesystem-safe folder name
+ *
+ * Names come from the conversation label; clashes get a `-2`, `-3`... suffix
+ * in list order. Used by partitionByConversation and by anything that links
+ * to rendered files.
+ */
+export function assignConversationFolders(
+	conversations: Conversation[],
+): Map<ChatId, string> {
+	const usedFolders = new Set<string>([UNASSIGNED_CONVERSATION_FOLDER])
+	const folders = new Map<ChatId, string>()
+	for (const conversation of conversations) {
+		const base = toFolderName(getConversationLabel(conversation))
+		let folder = base
+		for (let n = 2; usedFolders.has(folder); n++) {
+			folder = `${base}-${n}`
+		}
+		usedFolders.add(folder)
+		folders.set(conversation.id, folder)
+	}
+	return folders
+}
+
+/**
+ * Turn a label into a folder name that is safe on macOS, Linux and Windows
+ */
+function toFolderName(label: string): string {
+	const cleaned = label
+		.normalize('NFKC')
+		.replace(/[<>:"/\\|?*]/g, '')
+		.replace(/\p{Cc}/gu, '')
+		.replace(/\s+/g, ' ')
+		.trim()
+		.replace(/^\.+/, '')
+		.slice(0, 80)
+		.trim()
+	return cleaned || 'conversation'
+}
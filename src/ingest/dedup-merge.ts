@@ -1,4 +1,5 @@
 import type { Message } from '#schema/message'
+import { normalizeHandle } from '../contacts/normalize.js'
 
 /**
  * Deduplication and merge logic for NORMALIZE--T04
@@ -9,6 +10,12 @@ import type { Message } from '#schema/message'
  * AC03: Content equivalence detection
  * AC04: Data loss verification
  * AC05: Deterministic GUID assignment
+ *
+ * Messages the exact and indexed lookups miss go through a scoring matcher
+ * (sender, timestamp, text edit distance, media content hash or
+ * filename/size), so a CSV row naming its sender by contact name, a text
+ * differing only in quotes or emoji variation, or an attachment exported
+ * under another name still finds its DB row.
  */
 
 export type MergeStats = {
@@ -21,19 +28,85 @@ export type MergeStats = {
 	noMatches: number
 }
 
+/**
+ * Per-signal scores (0–1) of a fuzzy match and their weighted total
+ */
+export type MatchScores = {
+	sender: number
+	time: number
+	content: number
+	total: number
+}
+
 export type ContentMatch = {
 	message: Message
 	confidence: number
 	reasons: string[]
+	scores?: MatchScores
+}
+
+/**
+ * Thresholds for the scoring matcher
+ */
+export type FuzzyMatchOptions = {
+	/** Only messages this close in time are compared (default 120) */
+	timeWindowSeconds?: number
+	/** Minimum weighted score for a match, 0–1 (default 0.8) */
+	minScore?: number
+	/** Largest edit distance between texts, as a share of the longer text (default 0.2) */
+	maxTextDistance?: number
+	/**
+	 * Map a handle or contact name to a key shared by all of a person's
+	 * handles, or null when it can't be resolved (default: the normalized
+	 * phone number or email)
+	 */
+	resolveSender?: (handle: string) => string | null
+}
+
+const DEFAULT_FUZZY_OPTIONS = {
+	timeWindowSeconds: 120,
+	minScore: 0.8,
+	maxTextDistance: 0.2,
+}
+
+/** Weights of the fuzzy match signals; they sum to 1 */
+const SCORE_WEIGHTS = { sender: 0.15, time: 0.25, content: 0.6 }
+
+/**
+ * A CSV message merged into a DB message, with why they were matched or
+ * where they disagree
+ */
+export type MergeMatch = {
+	csvMsg: Message
+	dbMsg: Message
+	confidence: number
+	reasons: string[]
+	/** Signal scores, for matches made by the scoring matcher */
+	scores?: MatchScores
 }
 
 export type MergeResult = {
 	messages: Message[]
 	stats: MergeStats
-	conflicts?: Array<{ csvMsg: Message; dbMsg: Message; confidence: number }>
+	/** Content-equivalence matches (exact GUID matches are only counted) */
+	contentMatches?: MergeMatch[]
+	/** Matched pairs whose date, sender or text disagree; DB values were kept */
+	conflicts?: MergeMatch[]
 	warnings?: string[]
 }
 
+/**
+ * One ingest source for mergeSources, e.g. an input file
+ */
+export type MergeSource = {
+	/** Label used in reports, e.g. the input file path */
+	name: string
+	source: 'csv' | 'db'
+	messages: Message[]
+}
+
+const DATE_CONFLICT_MS = 1000
+
 /**
  * AC01 + AC02 + AC03 + AC04 + AC05: Main dedup and merge function
  *
@@ -51,6 +124,7 @@ export type MergeResult = {
 export function dedupAndMerge(
 	csvMessages: Message[],
 	dbMessages: Message[],
+	options: FuzzyMatchOptions = {},
 ): MergeResult {
 	// AC05: Sort inputs for determinism
 	const sortedCsv = [...csvMessages].sort((a, b) =>
@@ -70,6 +144,17 @@ export function dedupAndMerge(
 
 	const outputMessages: Message[] = []
 	const matchedDbGuids = new Set<string>()
+	const dbByTime = sortedDb
+		.map((message) => ({ time: new Date(message.date).getTime(), message }))
+		.sort((a, b) => a.time - b.time)
+	const contentMatches: MergeMatch[] = []
+	const conflicts: MergeMatch[] = []
+	const recordConflicts = (match: MergeMatch) => {
+		const reasons = findConflicts(match.csvMsg, match.dbMsg)
+		if (reasons.length === 0) return
+		conflicts.push({ ...match, reasons })
+		stats.conflicts++
+	}
 
 	// Build O(1) lookup indices for DB messages
 	const dbByGuid = new Map<string, Message>()
@@ -101,6 +186,12 @@ export function dedupAndMerge(
 			outputMessages.push(merged)
 			matchedDbGuids.add(exactMatch.guid)
 			stats.exactMatches++
+			recordConflicts({
+				csvMsg,
+				dbMsg: exactMatch,
+				confidence: 1.0,
+				reasons: ['exact GUID match'],
+			})
 		} else {
 			// AC03: Try content equivalence using indexed lookup - O(1) average case for text
 			let contentMatch = detectContentEquivalenceIndexed(
@@ -118,12 +209,26 @@ export function dedupAndMerge(
 				contentMatch = detectContentEquivalence(csvMsg, unmatchedDbMessages)
 			}
 
+			// Score nearby messages when no exact equivalent exists
+			if (!contentMatch) {
+				contentMatch = findFuzzyMatch(csvMsg, dbByTime, matchedDbGuids, options)
+			}
+
 			if (contentMatch) {
 				// AC02: Merge with DB authoritiveness
 				const merged = applyDbAuthoritiveness(csvMsg, contentMatch.message)
 				outputMessages.push(merged)
 				matchedDbGuids.add(contentMatch.message.guid)
 				stats.contentMatches++
+				const match: MergeMatch = {
+					csvMsg,
+					dbMsg: contentMatch.message,
+					confidence: contentMatch.confidence,
+					reasons: contentMatch.reasons,
+					...(contentMatch.scores && { scores: contentMatch.scores }),
+				}
+				contentMatches.push(match)
+				recordConflicts(match)
 			} else {
 				// No match found, keep CSV message as-is
 				outputMessages.push(csvMsg)
@@ -144,7 +249,59 @@ export function dedupAndMerge(
 	return {
 		messages: outputMessages,
 		stats,
+		contentMatches,
+		conflicts,
+	}
+}
+
+/**
+ * Merge any number of sources, e.g. two phones' CSV exports plus a chat.db
+ *
+ * DB sources go first so they stay authoritative; each further source is
+ * then merged into everything merged so far, in input order. Sources of the
+ * same kind are matched the same way (two chat.db copies share GUIDs, two
+ * CSV exports only match on content).
+ */
+export function mergeSources(
+	sources: MergeSource[],
+	options: FuzzyMatchOptions = {},
+): MergeResult {
+	const ordered = [
+		...sources.filter((source) => source.source === 'db'),
+		...sources.filter((source) => source.source !== 'db'),
+	]
+
+	const stats: MergeStats = {
+		csvCount: 0,
+		dbCount: 0,
+		outputCount: 0,
+		exactMatches: 0,
+		contentMatches: 0,
+		conflicts: 0,
+		noMatches: 0,
+	}
+	for (const source of sources) {
+		if (source.source === 'db') stats.dbCount += source.messages.length
+		else stats.csvCount += source.messages.length
+	}
+
+	const [first, ...rest] = ordered
+	let messages = first ? [...first.messages] : []
+	const contentMatches: MergeMatch[] = []
+	const conflicts: MergeMatch[] = []
+	for (const source of rest) {
+		const result = dedupAndMerge(source.messages, messages, options)
+		messages = result.messages
+		stats.exactMatches += result.stats.exactMatches
+		stats.contentMatches += result.stats.contentMatches
+		stats.conflicts += result.stats.conflicts
+		stats.noMatches += result.stats.noMatches
+		contentMatches.push(...(result.contentMatches ?? []))
+		conflicts.push(...(result.conflicts ?? []))
 	}
+	stats.outputCount = messages.length
+
+	return { messages, stats, contentMatches, conflicts }
 }
 
 /**
@@ -295,13 +452,259 @@ function detectContentEquivalenceIndexed(
 	return null
 }
 
+/**
+ * Scoring matcher: the best-scoring unmatched DB message near the CSV
+ * message in time, if it reaches minScore
+ *
+ * Candidates must share messageKind and direction, and their texts must be
+ * within maxTextDistance (media: same content hash, else same filename or
+ * size). Two different resolvable handles rule a candidate out; a sender
+ * that can't be resolved (e.g. a contact name without contacts configured)
+ * only lowers the score.
+ */
+function findFuzzyMatch(
+	csvMsg: Message,
+	dbByTime: Array<{ time: number; message: Message }>,
+	matchedGuids: Set<string>,
+	options: FuzzyMatchOptions,
+): ContentMatch | null {
+	if (csvMsg.messageKind !== 'text' && csvMsg.messageKind !== 'media') {
+		return null
+	}
+	const { timeWindowSeconds, minScore, maxTextDistance } = {
+		...DEFAULT_FUZZY_OPTIONS,
+		...options,
+	}
+	const resolveSender = options.resolveSender ?? resolveHandle
+	const windowMs = timeWindowSeconds * 1000
+	const time = new Date(csvMsg.date).getTime()
+
+	let best: ContentMatch | null = null
+	for (
+		let i = lowerBound(dbByTime, time - windowMs);
+		i < dbByTime.length && (dbByTime[i]?.time ?? Infinity) <= time + windowMs;
+		i++
+	) {
+		const { time: candidateTime, message: candidate } = dbByTime[i]!
+		if (matchedGuids.has(candidate.guid)) continue
+		if (candidate.messageKind !== csvMsg.messageKind) continue
+		if (candidate.isFromMe !== csvMsg.isFromMe) continue
+
+		const sender = scoreSender(csvMsg, candidate, resolveSender)
+		if (!sender) continue
+		const content =
+			csvMsg.messageKind === 'text'
+				? scoreText(csvMsg.text, candidate.text, maxTextDistance)
+				: scoreMedia(csvMsg, candidate)
+		if (!content) continue
+
+		const delta = Math.abs(candidateTime - time)
+		const timeScore = 1 - delta / windowMs
+		const total =
+			SCORE_WEIGHTS.sender * sender.score +
+			SCORE_WEIGHTS.time * timeScore +
+			SCORE_WEIGHTS.content * content.score
+		if (total < minScore || (best && total <= best.confidence)) continue
+
+		best = {
+			message: candidate,
+			confidence: round(total),
+			reasons: [
+				sender.reason,
+				`within ${Math.round(delta / 1000)}s`,
+				...content.reasons,
+			],
+			scores: {
+				sender: round(sender.score),
+				time: round(timeScore),
+				content: round(content.score),
+				total: round(total),
+			},
+		}
+	}
+	return best
+}
+
+type SignalScore = { score: number; reason: string }
+
+function scoreSender(
+	a: Message,
+	b: Message,
+	resolveSender: (handle: string) => string | null,
+): SignalScore | null {
+	if (a.isFromMe) return { score: 1, reason: 'both sent by me' }
+	if (!a.handle || !b.handle) return { score: 0.5, reason: 'sender unknown' }
+	if (a.handle === b.handle) return { score: 1, reason: 'same sender' }
+
+	const keyA = resolveSender(a.handle)
+	const keyB = resolveSender(b.handle)
+	// A display name that couldn't be resolved might still be either person
+	if (keyA === null || keyB === null) {
+		return { score: 0.5, reason: 'sender unresolved' }
+	}
+	return keyA === keyB ? { score: 1, reason: 'sender resolved' } : null
+}
+
+function scoreText(
+	a: string | null | undefined,
+	b: string | null | undefined,
+	maxDistance: number,
+): { score: number; reasons: string[] } | null {
+	const textA = normalizeForFuzzy(a ?? '')
+	const textB = normalizeForFuzzy(b ?? '')
+	if (!textA || !textB) return null
+	if (textA === textB) {
+		return { score: 1, reasons: ['same text after normalization'] }
+	}
+
+	const longer = Math.max(textA.length, textB.length)
+	const maxEdits = Math.floor(longer * maxDistance)
+	const distance = editDistance(textA, textB, maxEdits)
+	if (distance > maxEdits) return null
+	return {
+		score: 1 - distance / longer,
+		reasons: [`text edit distance ${distance}`],
+	}
+}
+
+function scoreMedia(
+	a: Message,
+	b: Message,
+): { score: number; reasons: string[] } | null {
+	if (!a.media || !b.media) return null
+	// A content hash on both sides settles it, whatever the names; the time
+	// window keeps the same photo sent on another day apart
+	if (a.media.sha256 && b.media.sha256) {
+		return a.media.sha256 === b.media.sha256
+			? { score: 1, reasons: ['same content hash'] }
+			: null
+	}
+	const signals: number[] = []
+	const reasons: string[] = []
+
+	const nameA = baseFilename(a.media.filename)
+	const nameB = baseFilename(b.media.filename)
+	if (nameA && nameB) {
+		// iMazing prefixes exported files with date and sender
+		const same =
+			nameA === nameB ||
+			nameA.endsWith(` - ${nameB}`) ||
+			nameB.endsWith(` - ${nameA}`)
+		signals.push(same ? 1 : 0)
+		if (same) reasons.push('same filename')
+	}
+	if (a.media.size !== undefined && b.media.size !== undefined) {
+		const same = a.media.size === b.media.size
+		signals.push(same ? 1 : 0)
+		if (same) reasons.push('same size')
+	}
+	if (reasons.length === 0) return null
+	return {
+		score: signals.reduce((sum, signal) => sum + signal, 0) / signals.length,
+		reasons,
+	}
+}
+
+/**
+ * Text normalization for fuzzy matching: Unicode compatibility forms,
+ * straight quotes, no emoji variation selectors, collapsed whitespace
+ */
+function normalizeForFuzzy(text: string): string {
+	return text
+		.normalize('NFKC')
+		.replace(/[\u2018\u2019\u201A\u201B\u2032]/g, "'")
+		.replace(/[\u201C\u201D\u201E\u201F\u2033]/g, '"')
+		.replace(/[\uFE0E\uFE0F]/g, '')
+		.toLowerCase()
+		.replace(/\s+/g, ' ')
+		.trim()
+}
+
+/**
+ * Levenshtein distance, giving up once it exceeds max (returns max + 1)
+ */
+function editDistance(a: string, b: string, max: number): number {
+	if (Math.abs(a.length - b.length) > max) return max + 1
+	let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i]
+		let rowMin = i
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1
+			const value = Math.min(
+				(previous[j] ?? 0) + 1,
+				(current[j - 1] ?? 0) + 1,
+				(previous[j - 1] ?? 0) + cost,
+			)
+			current.push(value)
+			rowMin = Math.min(rowMin, value)
+		}
+		if (rowMin > max) return max + 1
+		previous = current
+	}
+	return previous[b.length] ?? max + 1
+}
+
+function baseFilename(filename: string | undefined): string {
+	return (filename ?? '').split('/').pop()?.toLowerCase() ?? ''
+}
+
+/**
+ * Default sender key: the normalized phone number or email, or null for
+ * display names
+ */
+export function resolveHandle(handle: string): string | null {
+	const normalized = normalizeHandle(handle)
+	return normalized.includes('@') || /^\+?\d+$/.test(normalized)
+		? normalized
+		: null
+}
+
+/**
+ * First index whose time is at or after the given time
+ */
+function lowerBound(entries: Array<{ time: number }>, time: number): number {
+	let low = 0
+	let high = entries.length
+	while (low < high) {
+		const mid = (low + high) >> 1
+		if ((entries[mid]?.time ?? Infinity) < time) low = mid + 1
+		else high = mid
+	}
+	return low
+}
+
+function round(value: number): number {
+	return Math.round(value * 1000) / 1000
+}
+
+/**
+ * Fields a matched pair disagrees on (DB values win in the merge)
+ */
+function findConflicts(csvMsg: Message, dbMsg: Message): string[] {
+	const reasons: string[] = []
+	const dateDelta = Math.abs(
+		new Date(csvMsg.date).getTime() - new Date(dbMsg.date).getTime(),
+	)
+	if (dateDelta >= DATE_CONFLICT_MS) {
+		reasons.push(`date differs by ${Math.round(dateDelta / 1000)}s`)
+	}
+	if (csvMsg.handle && dbMsg.handle && csvMsg.handle !== dbMsg.handle) {
+		reasons.push('sender differs')
+	}
+	if (csvMsg.text && dbMsg.text && csvMsg.text !== dbMsg.text) {
+		reasons.push('text differs')
+	}
+	return reasons
+}
+
 /**
  * AC02: Merge messages with DB authoritiveness
  *
  * DB is authoritative for:
  * - All timestamps (date, dateRead, dateDelivered, dateEdited)
  * - Associations (replyingTo.targetMessageGuid)
- * - handle
+ * - handle and chatId
  *
  * CSV fields are preserved when DB doesn't have them
  */
@@ -321,6 +724,7 @@ export function applyDbAuthoritiveness(
 
 	// DB authoritative: handle
 	if (dbMsg.handle !== undefined) merged.handle = dbMsg.handle
+	if (dbMsg.chatId) merged.chatId = dbMsg.chatId
 
 	// DB authoritative: associations (replyingTo)
 	if (dbMsg.replyingTo?.targetMessageGuid !== undefined) {
@@ -1,14 +1,30 @@
-import { existsSync, readdirSync, readFileSync } from 'node:fs'
+import { createHash } from 'node:crypto'
+import {
+	createReadStream,
+	existsSync,
+	readdirSync,
+	readFileSync,
+} from 'node:fs'
 import * as os from 'node:os'
 import * as path from 'node:path'
 
+import { parse as parseStream } from 'csv-parse'
 import { parse } from 'csv-parse/sync'
-import type { ExportEnvelope, Message } from '../schema/message.js'
+import type {
+	Conversation,
+	ExportEnvelope,
+	Message,
+	TapbackInfo,
+} from '../schema/message.js'
 import { MessageSchema } from '../schema/message.js'
+import { CURRENT_SCHEMA_VERSION } from '../schema/migrations.js'
+import { parseTapbackText, type TapbackPhrases } from './tapback-phrases.js'
 
 export type IngestOptions = {
 	attachmentRoots: string[]
 	messageDate?: string
+	/** Tapback phrases of other locales, tried after English */
+	tapbackPhrases?: TapbackPhrases[]
 }
 
 export type CSVRow = {
@@ -26,10 +42,11 @@ export function ingestCSV(
 	const rows = parse(csvContent, { columns: true }) as CSVRow[]
 
 	const messages: Message[] = []
+	const rowIds = createRowIds()
 	let lineNumber = 2 // Start at 2 (header is line 1)
 
 	for (const row of rows) {
-		const rowMessages = parseCSVRow(row, lineNumber, options)
+		const rowMessages = parseCSVRow(row, lineNumber, options, rowIds(row))
 		messages.push(...rowMessages)
 		lineNumber++
 	}
@@ -37,16 +54,99 @@ export function ingestCSV(
 	return messages
 }
 
+/**
+ * Stream messages from an iMazing CSV export one row at a time
+ *
+ * Same output as ingestCSV without reading the whole file into memory.
+ */
+export async function* streamCSV(
+	csvFilePath: string,
+	options: IngestOptions,
+): AsyncGenerator<Message> {
+	const rows = createReadStream(csvFilePath).pipe(
+		parseStream({ columns: true }),
+	)
+	const rowIds = createRowIds()
+	let lineNumber = 2 // Start at 2 (header is line 1)
+
+	for await (const row of rows) {
+		yield* parseCSVRow(
+			row as CSVRow,
+			lineNumber,
+			options,
+			rowIds(row as CSVRow),
+		)
+		lineNumber++
+	}
+}
+
+/** Columns an export keeps unchanged for a message, identifying its row */
+const ROW_ID_COLUMNS = [
+	'Message Date',
+	'Chat Session',
+	'Type',
+	'Sender ID',
+	'Text',
+	'Attachment',
+] as const
+
+/**
+ * Stable id of a CSV row: a hash of its date, chat, direction, sender, text
+ * and attachment
+ *
+ * Rows get the same id in every export that contains them, so GUIDs (and
+ * the link overrides keyed on them) survive a newer, longer export of the
+ * same chat. `occurrence` tells identical rows apart.
+ */
+export function csvRowId(row: CSVRow, occurrence = 0): string {
+	const hash = createHash('sha256')
+	for (const column of ROW_ID_COLUMNS) {
+		// Rows without a sender ID are named by the contact instead
+		const value =
+			column === 'Sender ID'
+				? row['Sender ID'] || row['Sender Name']
+				: row[column]
+		hash.update(`${value?.trim() ?? ''}\n`)
+	}
+	if (occurrence > 0) hash.update(String(occurrence))
+	return hash.digest('hex').slice(0, 16)
+}
+
+/**
+ * Number identical rows in file order while assigning row ids
+ *
+ * Exports are in date order, so only the rows sent at the current time are
+ * remembered.
+ */
+function createRowIds(): (row: CSVRow) => string {
+	let date: string | undefined
+	let seen = new Map<string, number>()
+	return (row) => {
+		if (row['Message Date'] !== date) {
+			date = row['Message Date']
+			seen = new Map()
+		}
+		const id = csvRowId(row)
+		const occurrence = seen.get(id) ?? 0
+		seen.set(id, occurrence + 1)
+		return occurrence === 0 ? id : csvRowId(row, occurrence)
+	}
+}
+
 /**
  * Parse a single CSV row and produce 1-N messages
  * Maps iMazing CSV format to unified Message schema
  *
+ * GUIDs are `csv:<row id>:<part>`; the line number is kept in
+ * exportMetadata.
+ *
  * AC01: Parse iMazing CSV rows with correct field mapping per CSV header
  */
 export function parseCSVRow(
 	row: CSVRow,
 	lineNumber: number,
 	options: IngestOptions,
+	rowId: string = csvRowId(row),
 ): Message[] {
 	const messages: Message[] = []
 
@@ -65,6 +165,7 @@ export function parseCSVRow(
 	const attachment = row.Attachment
 	const attachmentType = row['Attachment type']
 	const replyingTo = row['Replying to']
+	const chatSession = row['Chat Session']?.trim()
 
 	// AC03: Convert CSV dates to ISO 8601 UTC with Z suffix
 	const date = convertToISO8601(messageDate || '')
@@ -74,9 +175,14 @@ export function parseCSVRow(
 	// Determine messageKind and isFromMe from Type field
 	const isFromMe = type === 'Outgoing' || type === 'Sent'
 	let messageKind: 'text' | 'media' | 'tapback' | 'notification' = 'text'
+	let tapback: TapbackInfo | null = null
 
 	if (type === 'Notification') {
 		messageKind = 'notification'
+	} else if (text && !attachment?.trim()) {
+		// Reactions are exported as rows describing them, e.g. Loved “…”
+		tapback = parseTapbackText(text, options.tapbackPhrases)
+		if (tapback) messageKind = 'tapback'
 	}
 
 	// Base message object with common fields
@@ -88,6 +194,8 @@ export function parseCSVRow(
 	// Conditionally add optional fields to satisfy exactOptionalPropertyTypes
 	const handle = senderName || senderID
 	if (handle) baseMessage.handle = handle
+	// iMazing names the conversation, which serves as its chat id
+	if (chatSession) baseMessage.chatId = chatSession
 	if (service) baseMessage.service = service
 	if (subject) baseMessage.subject = subject
 	if (readDate) baseMessage.dateRead = convertToISO8601(readDate)
@@ -103,7 +211,7 @@ export function parseCSVRow(
 	const baseExportMetadata = {
 		source: 'csv' as const,
 		lineNumber,
-		csvGuid: `csv:${lineNumber}:0`,
+		csvGuid: `csv:${rowId}:0`,
 		...(replyingTo && { replyingTo }),
 	}
 
@@ -111,7 +219,7 @@ export function parseCSVRow(
 	if (messageKind === 'text' && text) {
 		const textMessage: Message = {
 			...baseMessage,
-			guid: `csv:${lineNumber}:0`,
+			guid: `csv:${rowId}:0`,
 			messageKind: 'text',
 			text,
 			exportMetadata: baseExportMetadata,
@@ -134,10 +242,10 @@ export function parseCSVRow(
 		if (resolvedPath) {
 			const mediaMessage: Message = {
 				...baseMessage,
-				guid: `csv:${lineNumber}:0:media`,
+				guid: `csv:${rowId}:0:media`,
 				messageKind: 'media',
 				media: {
-					id: `media:csv:${lineNumber}:0`,
+					id: `media:csv:${rowId}:0`,
 					filename: attachment,
 					path: resolvedPath,
 					mimeType: attachmentType || undefined,
@@ -153,11 +261,24 @@ export function parseCSVRow(
 		}
 	}
 
+	// Create tapback message; the row text only described the reaction
+	if (messageKind === 'tapback' && tapback) {
+		const tapbackMessage: Message = {
+			...baseMessage,
+			guid: `csv:${rowId}:0`,
+			messageKind: 'tapback',
+			tapback,
+			exportMetadata: baseExportMetadata,
+		} as Message
+
+		messages.push(tapbackMessage)
+	}
+
 	// Create notification message if explicitly marked
 	if (messageKind === 'notification') {
 		const notificationMessage: Message = {
 			...baseMessage,
-			guid: `csv:${lineNumber}:0`,
+			guid: `csv:${rowId}:0`,
 			messageKind: 'notification',
 			exportMetadata: baseExportMetadata,
 		} as Message
@@ -169,7 +290,7 @@ export function parseCSVRow(
 	if (messages.length === 0 && text) {
 		const fallbackMessage: Message = {
 			...baseMessage,
-			guid: `csv:${lineNumber}:0`,
+			guid: `csv:${rowId}:0`,
 			messageKind: 'text',
 			text,
 			exportMetadata: baseExportMetadata,
@@ -325,12 +446,16 @@ export function formatDateForAttachmentSearch(isoDate: string): string {
 /**
  * Export envelope wrapper for CSV ingestion output
  */
-export function createExportEnvelope(messages: Message[]): ExportEnvelope {
+export function createExportEnvelope(
+	messages: Message[],
+	conversations: Conversation[] = [],
+): ExportEnvelope {
 	return {
-		schemaVersion: '2.0.0',
+		schemaVersion: CURRENT_SCHEMA_VERSION,
 		source: 'csv',
 		createdAt: new Date().toISOString(),
 		messages,
+		...(conversations.length > 0 && { conversations }),
 	}
 }
 
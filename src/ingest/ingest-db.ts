@@ -1,15 +1,34 @@
-import type { ExportEnvelope, Message } from '../schema/message.js'
+import type {
+	Conversation,
+	ExportEnvelope,
+	Message,
+	TapbackInfo,
+} from '../schema/message.js'
+import { CURRENT_SCHEMA_VERSION } from '../schema/migrations.js'
+import { decodeAttributedBody } from './attributed-body.js'
 
 export type DBMessage = {
 	guid: string
 	rowid?: number
 	text?: string | null
+	attributedBody?: Uint8Array | null // typedstream blob (newer macOS)
 	is_from_me: number
 	date: number // Apple epoch in seconds or nanoseconds
+	date_read?: number | null
+	date_delivered?: number | null
+	is_read?: number
 	chat_id?: string
 	handle?: string
+	destination_caller_id?: string | null
 	service?: string
 	subject?: string | null
+	// Tapbacks: 2000-2006 added, 3000-3006 removed
+	associated_message_guid?: string | null
+	associated_message_type?: number | null
+	associated_message_emoji?: string | null
+	// Replies: exact parent recorded by Messages.app
+	thread_originator_guid?: string | null
+	thread_originator_part?: string | null
 	attachments?: DBAttachment[]
 	[key: string]: unknown
 }
@@ -21,11 +40,15 @@ export type DBAttachment = {
 	uti?: string | null
 	copied_path?: string
 	total_bytes?: number
+	is_sticker?: number
+	hide_attachment?: number
 	[key: string]: unknown
 }
 
 export type IngestOptions = {
 	attachmentRoots: string[]
+	/** Translates reaction and reply targets into our part numbering */
+	partIndexes?: PartIndexMap
 }
 
 /**
@@ -35,8 +58,25 @@ export type IngestOptions = {
  */
 const APPLE_EPOCH_OFFSET = 978307200
 
+/**
+ * associated_message_type codes for tapbacks
+ * 2000-2006 = added, 3000-3006 = removed (same order)
+ */
+const TAPBACK_ADDED_BASE = 2000
+const TAPBACK_REMOVED_BASE = 3000
+const TAPBACK_TYPES: TapbackInfo['type'][] = [
+	'loved',
+	'liked',
+	'disliked',
+	'laughed',
+	'emphasized',
+	'questioned',
+	'emoji',
+]
+
 /**
  * Split a single DB message into multiple Message objects
+ * - 1 tapback message (if associated_message_type is a tapback code)
  * - 1 text message (if text exists)
  * - N media messages (one per attachment)
  * All parts share same groupGuid (original DB guid) and timestamps
@@ -44,7 +84,7 @@ const APPLE_EPOCH_OFFSET = 978307200
 export function splitDBMessage(
 	dbMessage: DBMessage,
 	lineNumber: number,
-	_options: IngestOptions,
+	options: IngestOptions,
 ): Message[] {
 	const messages: Message[] = []
 	const originalGuid = dbMessage.guid
@@ -54,6 +94,8 @@ export function splitDBMessage(
 
 	if (!date) return [] // Skip invalid dates
 
+	options.partIndexes?.record(dbMessage)
+
 	// Common fields for all parts
 	const baseMessage: Partial<Message> = {
 		isFromMe,
@@ -66,22 +108,68 @@ export function splitDBMessage(
 	if (dbMessage.chat_id) baseMessage.chatId = dbMessage.chat_id
 	if (dbMessage.service) baseMessage.service = dbMessage.service
 	if (dbMessage.subject) baseMessage.subject = dbMessage.subject
+	if (dbMessage.destination_caller_id) {
+		baseMessage.destinationCallerId = dbMessage.destination_caller_id
+	}
+
+	// Inline replies: Messages.app records the exact parent part
+	if (dbMessage.thread_originator_guid) {
+		const parentPart = parseThreadOriginatorPart(
+			dbMessage.thread_originator_part,
+		)
+		baseMessage.threadOriginatorGuid = dbMessage.thread_originator_guid
+		if (parentPart !== undefined) baseMessage.threadOriginatorPart = parentPart
+		const targetPart = parentPart ?? 0
+		baseMessage.replyingTo = {
+			targetMessageGuid: generatePartGUID(
+				dbMessage.thread_originator_guid,
+				options.partIndexes?.resolve(
+					dbMessage.thread_originator_guid,
+					targetPart,
+				) ?? targetPart,
+			),
+		}
+	}
+
+	// Tapbacks become a single message; the text column only holds
+	// Messages.app's fallback description (e.g. Loved “…”)
+	const tapback = parseDBTapback(dbMessage, options.partIndexes)
+	if (tapback) {
+		return [
+			{
+				...baseMessage,
+				guid: generatePartGUID(originalGuid, 0),
+				messageKind: 'tapback',
+				tapback,
+				exportMetadata: {
+					source: 'db',
+					lineNumber,
+					parentGUID: originalGuid,
+					partIndex: 0,
+					associatedMessageType: dbMessage.associated_message_type,
+				},
+			} as Message,
+		]
+	}
 
 	// Part index counter (0 = text, 1+ = media)
 	let partIndex = 0
 
+	const { text, textMetadata } = resolveText(dbMessage)
+
 	// 1. Create text message if text exists
-	if (dbMessage.text) {
+	if (text) {
 		const textMessage: Message = {
 			...baseMessage,
 			guid: generatePartGUID(originalGuid, partIndex),
 			messageKind: 'text',
-			text: dbMessage.text,
+			text,
 			exportMetadata: {
 				source: 'db',
 				lineNumber,
 				parentGUID: originalGuid,
 				partIndex,
+				...textMetadata,
 			},
 		} as Message
 
@@ -120,6 +208,91 @@ export function splitDBMessage(
 	return messages
 }
 
+/**
+ * The message's text, recovered from attributedBody when the text column is
+ * NULL
+ */
+function resolveText(dbMessage: DBMessage): {
+	text: string | null | undefined
+	textMetadata: Record<string, unknown>
+} {
+	const text = dbMessage.text
+	if (text || !dbMessage.attributedBody) return { text, textMetadata: {} }
+
+	const decoded = decodeAttributedBody(dbMessage.attributedBody)
+	// U+FFFC marks inline attachment positions and carries no text
+	if (!decoded?.text.replace(/\uFFFC/g, '').trim()) {
+		return { text, textMetadata: {} }
+	}
+	return {
+		text: decoded.text,
+		textMetadata: {
+			textSource: 'attributedBody',
+			...(decoded.mentions.length > 0 && { mentions: decoded.mentions }),
+			...(decoded.links.length > 0 && { links: decoded.links }),
+		},
+	}
+}
+
+/**
+ * Translate Messages.app part indices into ours for one message
+ *
+ * Messages.app numbers parts in display order: every attachment (U+FFFC in
+ * the text) and every text run between them is a part, so an attachment sent
+ * before the text is p:0. splitDBMessage puts all the text at p:0 and the
+ * attachments after it.
+ *
+ * @returns Our part index for each Messages.app part, or null when the two
+ * numberings agree or the text does not mark where the attachments are
+ */
+export function mapMessageParts(dbMessage: DBMessage): number[] | null {
+	const attachments = dbMessage.attachments?.length ?? 0
+	const { text } = resolveText(dbMessage)
+	if (attachments === 0 || !text) return null
+
+	const runs = text.split('\uFFFC')
+	if (runs.length - 1 !== attachments) return null
+
+	const parts: number[] = []
+	runs.forEach((run, index) => {
+		if (run.trim()) parts.push(0)
+		if (index < attachments) parts.push(1 + index)
+	})
+	return parts.every((part, index) => part === index) ? null : parts
+}
+
+/**
+ * Part numberings of the messages split so far, for the targets of reactions
+ * and replies
+ */
+export type PartIndexMap = {
+	/** Remember a message's numbering if it differs from Messages.app's */
+	record(dbMessage: DBMessage): void
+	/** Our part index for a Messages.app part of `guid` */
+	resolve(guid: string, part: number): number
+}
+
+/**
+ * Create an empty PartIndexMap
+ *
+ * Only messages whose numbering differs are kept, which are the few with an
+ * attachment before or between text. Rows are read in date order, so a
+ * message is recorded before anything reacts or replies to it; unknown
+ * targets keep the Messages.app index.
+ */
+export function createPartIndexMap(): PartIndexMap {
+	const numberings = new Map<string, number[]>()
+	return {
+		record(dbMessage) {
+			const parts = mapMessageParts(dbMessage)
+			if (parts) numberings.set(dbMessage.guid, parts)
+		},
+		resolve(guid, part) {
+			return numberings.get(guid)?.[part] ?? part
+		},
+	}
+}
+
 /**
  * Generate stable part GUID using format: p:<index>/<original_guid>
  * This ensures:
@@ -131,6 +304,83 @@ export function generatePartGUID(originalGuid: string, index: number): string {
 	return `p:${index}/${originalGuid}`
 }
 
+/**
+ * Build TapbackInfo from a DB row's associated_message_* columns
+ *
+ * @returns TapbackInfo, or null if the row is not a tapback (types outside
+ * 2000-2006/3000-3006, or no target GUID)
+ */
+export function parseDBTapback(
+	dbMessage: DBMessage,
+	partIndexes?: PartIndexMap,
+): TapbackInfo | null {
+	const code = dbMessage.associated_message_type
+	if (!code || !dbMessage.associated_message_guid) return null
+
+	let action: TapbackInfo['action']
+	let type: TapbackInfo['type'] | undefined
+	if (code >= TAPBACK_ADDED_BASE && code < TAPBACK_REMOVED_BASE) {
+		action = 'added'
+		type = TAPBACK_TYPES[code - TAPBACK_ADDED_BASE]
+	} else {
+		action = 'removed'
+		type = TAPBACK_TYPES[code - TAPBACK_REMOVED_BASE]
+	}
+	if (!type) return null
+
+	const target = parseAssociatedMessageGuid(dbMessage.associated_message_guid)
+	const part =
+		target.part === undefined
+			? undefined
+			: (partIndexes?.resolve(target.guid, target.part) ?? target.part)
+	const tapback: TapbackInfo = {
+		type,
+		action,
+		targetMessageGuid: generatePartGUID(target.guid, part ?? 0),
+	}
+	if (part !== undefined) tapback.targetMessagePart = part
+	if (type === 'emoji' && dbMessage.associated_message_emoji) {
+		tapback.emoji = dbMessage.associated_message_emoji
+	}
+
+	return tapback
+}
+
+/**
+ * Split an associated_message_guid into the original GUID and part index
+ *
+ * Formats written by Messages.app:
+ * - p:<part>/<guid> - reaction to a specific message part
+ * - bp:<guid> - reaction to a plugin/balloon message
+ * - <guid> - older rows without a part prefix
+ */
+export function parseAssociatedMessageGuid(associatedGuid: string): {
+	guid: string
+	part?: number
+} {
+	const partMatch = /^p:(\d+)\/(.+)$/.exec(associatedGuid)
+	if (partMatch?.[1] && partMatch[2]) {
+		return { guid: partMatch[2], part: Number.parseInt(partMatch[1], 10) }
+	}
+	if (associatedGuid.startsWith('bp:')) {
+		return { guid: associatedGuid.slice(3) }
+	}
+	return { guid: associatedGuid }
+}
+
+/**
+ * Extract the part index from thread_originator_part
+ *
+ * Messages.app stores "<part>:<rangeStart>:<rangeLength>" (older rows may
+ * hold just "<part>").
+ */
+export function parseThreadOriginatorPart(
+	threadOriginatorPart: string | null | undefined,
+): number | undefined {
+	const match = /^(\d+)/.exec(threadOriginatorPart ?? '')
+	return match?.[1] ? Number.parseInt(match[1], 10) : undefined
+}
+
 /**
  * Convert Apple epoch timestamp to ISO 8601 UTC with Z suffix
  * Apple epoch = seconds since 2001-01-01 00:00:00 UTC
@@ -209,11 +459,15 @@ export function ingestDBMessages(
 /**
  * Create export envelope for DB ingestion output
  */
-export function createExportEnvelope(messages: Message[]): ExportEnvelope {
+export function createExportEnvelope(
+	messages: Message[],
+	conversations: Conversation[] = [],
+): ExportEnvelope {
 	return {
-		schemaVersion: '2.0.0',
+		schemaVersion: CURRENT_SCHEMA_VERSION,
 		source: 'db',
 		createdAt: new Date().toISOString(),
 		messages,
+		...(conversations.length > 0 && { conversations }),
 	}
 }
@@ -1,4 +1,4 @@
-import type { Message } from '#schema/message'
+import type { Message, TapbackInfo } from '#schema/message'
 
 /**
  * Reply and tapback linking for NORMALIZE--T03
@@ -29,14 +29,31 @@ type AmbiguousLink = {
 	confidenceScore: number
 }
 
+/**
+ * Manually reviewed links: message GUID → parent GUID, or null for "no parent"
+ */
+type LinkOverrides = Map<string, string | null>
+
 type LinkingOptions = {
 	trackAmbiguous?: boolean
 	minConfidenceThreshold?: number
+	/** Applied before any other linking; overrides naming an unknown parent are ignored */
+	overrides?: LinkOverrides
+}
+
+type LinkingStats = {
+	/** Links recorded by the source (e.g. chat.db thread_originator_guid) */
+	authoritative: number
+	/** Links inferred from timestamp/content heuristics */
+	heuristic: number
+	/** Links (or "no parent") pinned by an override */
+	overridden: number
 }
 
 type LinkingResult = {
 	messages: Message[]
 	ambiguousLinks?: AmbiguousLink[]
+	stats?: LinkingStats
 }
 
 /**
@@ -44,7 +61,18 @@ type LinkingResult = {
  *
  * Primary: DB association_guid when present
  * Fallback: Heuristics using timestamp and content matching
+ *
+ * DB rows record every reply parent, so heuristics only run for other
+ * sources (CSV); a DB message without a parent is not a reply.
  */
+export function linkRepliesToParents(
+	messages: Message[],
+	options: LinkingOptions & { trackAmbiguous: true },
+): LinkingResult
+export function linkRepliesToParents(
+	messages: Message[],
+	options?: LinkingOptions,
+): Message[] | LinkingResult
 export function linkRepliesToParents(
 	messages: Message[],
 	options: LinkingOptions = {},
@@ -52,6 +80,7 @@ export function linkRepliesToParents(
 	const {
 		trackAmbiguous = false,
 		minConfidenceThreshold: _minConfidenceThreshold = 0.7,
+		overrides,
 	} = options
 
 	// Build indices for fast lookup
@@ -70,14 +99,34 @@ export function linkRepliesToParents(
 	})
 
 	const ambiguousLinks: AmbiguousLink[] = []
+	const stats: LinkingStats = { authoritative: 0, heuristic: 0, overridden: 0 }
 	const result = messages.map((msg) => {
 		// Only process text and media replies (not already linked)
 		if (msg.messageKind !== 'text' && msg.messageKind !== 'media') {
 			return msg
 		}
 
+		const override = findOverride(msg, overrides, byGuid)
+		if (override !== undefined) {
+			stats.overridden++
+			const { targetMessageGuid: _, ...replyingTo } = msg.replyingTo ?? {}
+			const { replyingTo: _previous, ...rest } = msg
+			if (override !== null) {
+				return {
+					...rest,
+					replyingTo: { ...replyingTo, targetMessageGuid: override },
+				}
+			}
+			return Object.keys(replyingTo).length > 0 ? { ...rest, replyingTo } : rest
+		}
+
 		// Skip if already has DB association
 		if (msg.replyingTo?.targetMessageGuid) {
+			stats.authoritative++
+			return msg
+		}
+
+		if (msg.exportMetadata?.source === 'db') {
 			return msg
 		}
 
@@ -125,6 +174,7 @@ export function linkRepliesToParents(
 		}
 
 		// Link to best candidate
+		stats.heuristic++
 		return {
 			...msg,
 			replyingTo: {
@@ -134,7 +184,7 @@ export function linkRepliesToParents(
 		}
 	})
 
-	return trackAmbiguous ? { messages: result, ambiguousLinks } : result
+	return trackAmbiguous ? { messages: result, ambiguousLinks, stats } : result
 }
 
 /**
@@ -143,11 +193,19 @@ export function linkRepliesToParents(
  * Primary: DB association_guid when present
  * Fallback: Heuristics preferring media messages
  */
+export function linkTapbacksToParents(
+	messages: Message[],
+	options: LinkingOptions & { trackAmbiguous: true },
+): LinkingResult
+export function linkTapbacksToParents(
+	messages: Message[],
+	options?: LinkingOptions,
+): Message[] | LinkingResult
 export function linkTapbacksToParents(
 	messages: Message[],
 	options: LinkingOptions = {},
 ): Message[] | LinkingResult {
-	const { trackAmbiguous = false } = options
+	const { trackAmbiguous = false, overrides } = options
 
 	// Build indices
 	const byGuid = new Map<string, Message>()
@@ -165,14 +223,29 @@ export function linkTapbacksToParents(
 	})
 
 	const ambiguousLinks: AmbiguousLink[] = []
+	const stats: LinkingStats = { authoritative: 0, heuristic: 0, overridden: 0 }
 	const result = messages.map((msg) => {
 		// Only process tapback messages
 		if (msg.messageKind !== 'tapback') {
 			return msg
 		}
 
+		const override = findOverride(msg, overrides, byGuid)
+		if (override !== undefined && msg.tapback) {
+			stats.overridden++
+			const { targetMessageGuid: _, ...tapback } = msg.tapback
+			return {
+				...msg,
+				tapback:
+					override === null
+						? tapback
+						: { ...tapback, targetMessageGuid: override },
+			}
+		}
+
 		// Skip if already has DB association
 		if (msg.tapback?.targetMessageGuid) {
+			stats.authoritative++
 			return msg
 		}
 
@@ -218,6 +291,7 @@ export function linkTapbacksToParents(
 			return msg // Shouldn't happen for tapback messages
 		}
 
+		stats.heuristic++
 		return {
 			...msg,
 			tapback: {
@@ -227,19 +301,85 @@ export function linkTapbacksToParents(
 		}
 	})
 
-	return trackAmbiguous ? { messages: result, ambiguousLinks } : result
+	return trackAmbiguous ? { messages: result, ambiguousLinks, stats } : result
+}
+
+type TapbackCollapseStats = {
+	/** Reactions cancelled by a later removal from the same sender */
+	removed: number
+	/** Reactions replaced by a later reaction from the same sender */
+	replaced: number
+	/** Removals with no earlier reaction to cancel (e.g. added before the export) */
+	orphanedRemovals: number
+}
+
+type TapbackCollapseResult = {
+	messages: Message[]
+	stats: TapbackCollapseStats
+}
+
+/**
+ * Collapse each sender's tapbacks on a message into its final reaction
+ *
+ * A sender holds at most one reaction per message: a new one replaces the
+ * previous, and a removal cancels the matching one. Removal rows are always
+ * dropped once applied. Tapbacks without a linked target can't be paired
+ * and are kept as they are.
+ */
+export function collapseTapbacks(messages: Message[]): TapbackCollapseResult {
+	const stats: TapbackCollapseStats = {
+		removed: 0,
+		replaced: 0,
+		orphanedRemovals: 0,
+	}
+	const current = new Map<string, Message>()
+	const dropped = new Set<Message>()
+
+	const tapbacks = messages
+		.filter(
+			(msg) => msg.messageKind === 'tapback' && msg.tapback?.targetMessageGuid,
+		)
+		.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+
+	for (const msg of tapbacks) {
+		const tapback = msg.tapback!
+		const sender = msg.isFromMe ? 'me' : (msg.handle ?? '')
+		const key = `${sender}\u0000${tapback.targetMessageGuid}\u0000${tapback.targetMessagePart ?? ''}`
+		const previous = current.get(key)
+
+		if (tapback.action === 'added') {
+			if (previous) {
+				dropped.add(previous)
+				stats.replaced++
+			}
+			current.set(key, msg)
+			continue
+		}
+
+		dropped.add(msg)
+		if (previous && isSameReaction(previous.tapback!, tapback)) {
+			dropped.add(previous)
+			current.delete(key)
+			stats.removed++
+		} else {
+			stats.orphanedRemovals++
+		}
+	}
+
+	return {
+		messages: messages.filter((msg) => !dropped.has(msg)),
+		stats,
+	}
 }
 
 /**
  * AC04: Detect and report ambiguous links with confidence scores
  */
 export function detectAmbiguousLinks(messages: Message[]) {
-	const ambiguous = linkRepliesToParents(messages, {
-		trackAmbiguous: true,
-	}) as LinkingResult
+	const ambiguous = linkRepliesToParents(messages, { trackAmbiguous: true })
 	const tapbackAmbiguous = linkTapbacksToParents(messages, {
 		trackAmbiguous: true,
-	}) as LinkingResult
+	})
 
 	const allAmbiguous = [
 		...(ambiguous.ambiguousLinks || []),
@@ -265,6 +405,21 @@ export function detectAmbiguousLinks(messages: Message[]) {
 // Helper Functions
 // ============================================================================
 
+/**
+ * The override pinned for a message, or undefined when there is none or its
+ * parent isn't among the messages being linked
+ */
+function findOverride(
+	msg: Message,
+	overrides: LinkOverrides | undefined,
+	byGuid: Map<string, Message>,
+): string | null | undefined {
+	const override = overrides?.get(msg.guid)
+	if (override === undefined) return undefined
+	if (override !== null && !byGuid.has(override)) return undefined
+	return override
+}
+
 /**
  * Get time bucket keys for a date within a window (for O(1) lookups)
  */
@@ -428,7 +583,7 @@ function findReplyParentCandidates(
 
 /**
  * Find candidate parent messages for a tapback
- * Prefers media messages
+ * Prefers messages starting with the tapback's targetText, then media
  * Uses byTimestamp Map for O(1) bucket lookups instead of O(n) scan
  */
 function findTapbackParentCandidates(
@@ -440,6 +595,7 @@ function findTapbackParentCandidates(
 	const tapbackDate = new Date(tapback.date)
 	const tapbackTime = tapbackDate.getTime()
 	const candidates: ScoredCandidate[] = []
+	const targetText = tapback.tapback?.targetText?.toLowerCase()
 
 	// Use time-bucketed lookup for O(1) average case per bucket
 	const bucketKeys = getTimeBucketKeys(tapbackDate, REPLY_SEARCH_WINDOW_MINUTES)
@@ -479,16 +635,35 @@ function findTapbackParentCandidates(
 		let score = 0
 		const reasons: string[] = []
 
-		// Timestamp proximity
+		// CSV reactions quote the start of their target (Loved “…”)
+		let hasContentMatch = false
+		if (targetText && candidate.text) {
+			const normalizedText = candidate.text.toLowerCase()
+			if (normalizedText.startsWith(targetText)) {
+				score += 100
+				reasons.push('target_text_startswith')
+				hasContentMatch = true
+			} else if (normalizedText.includes(targetText)) {
+				score += 50
+				reasons.push('target_text_includes')
+				hasContentMatch = true
+			}
+		}
+
+		// Timestamp proximity; quoted text still matches further back
 		if (timeDeltaSeconds <= TAPBACK_WINDOW_SECONDS) {
 			score += 20
 			reasons.push(`near_tap (Δ${timeDeltaSeconds.toFixed(1)}s)`)
+		} else if (hasContentMatch) {
+			score -= timeDeltaSeconds / 100
+			reasons.push(`extended_window (Δ${timeDeltaSeconds.toFixed(1)}s)`)
 		} else {
 			score -= timeDeltaSeconds
 		}
 
-		// Media messages score higher (AC03: preferred targets)
-		if (candidate.messageKind === 'media') {
+		// Media messages score higher (AC03: preferred targets), unless the
+		// reaction names a text
+		if (candidate.messageKind === 'media' && !targetText) {
 			score += 80
 			reasons.push('is_media')
 		} else if (candidate.messageKind === 'text') {
@@ -510,4 +685,21 @@ function findTapbackParentCandidates(
 	return candidates
 }
 
-export type { LinkingResult, AmbiguousLink }
+/**
+ * Whether a removal cancels a reaction (emoji removals name their emoji)
+ */
+function isSameReaction(added: TapbackInfo, removed: TapbackInfo): boolean {
+	if (added.type !== removed.type) return false
+	if (added.type !== 'emoji') return true
+	return !added.emoji || !removed.emoji || added.emoji === removed.emoji
+}
+
+export type {
+	AmbiguousLink,
+	LinkOverrides,
+	LinkingOptions,
+	LinkingResult,
+	LinkingStats,
+	TapbackCollapseResult,
+	TapbackCollapseStats,
+}
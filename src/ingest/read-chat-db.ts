@@ -0,0 +1,360 @@
+import * as os from 'node:os'
+import * as path from 'node:path'
+
+import type { Conversation } from '#schema/message'
+import { openSqliteDatabase, type SqliteDatabase } from '#utils/sqlite'
+import type { DBAttachment, DBMessage } from './ingest-db.js'
+
+/**
+ * Messages.app chat.db reader
+ *
+ * Opens ~/Library/Messages/chat.db (or a copy) read-only and produces the
+ * DBMessage[] consumed by splitDBMessage, joining:
+ * - message (+ handle for the sender/recipient id)
+ * - chat via chat_message_join (first chat wins when a row is shared)
+ * - attachment via message_attachment_join
+ *
+ * readChatDBConversations reads chat (+ chat_handle_join for participants)
+ * into Conversation records keyed by the same chat GUID.
+ *
+ * Columns that only exist on newer macOS versions are selected when present
+ * and read as NULL otherwise, so older databases still ingest.
+ */
+
+export type ReadChatDBOptions = {
+	/** Home directory used to expand `~/` attachment paths (default: os.homedir()) */
+	homeDir?: string
+}
+
+/**
+ * Message columns added in later macOS releases
+ */
+const OPTIONAL_MESSAGE_COLUMNS = [
+	'attributedBody',
+	'associated_message_guid',
+	'associated_message_type',
+	'associated_message_emoji',
+	'thread_originator_guid',
+	'thread_originator_part',
+	'destination_caller_id',
+	'date_read',
+	'date_delivered',
+	'is_read',
+	'subject',
+] as const
+
+const OPTIONAL_CHAT_COLUMNS = [
+	'style',
+	'chat_identifier',
+	'service_name',
+	'display_name',
+] as const
+
+/** chat.style for group chats (1:1 chats use 45) */
+const CHAT_STYLE_GROUP = 43
+
+const OPTIONAL_ATTACHMENT_COLUMNS = [
+	'transfer_name',
+	'uti',
+	'total_bytes',
+	'is_sticker',
+	'hide_attachment',
+] as const
+
+type MessageRow = {
+	rowid: number
+	guid: string
+	text: string | null
+	is_from_me: number
+	date: number
+	service: string | null
+	handle: string | null
+	chat_id: string | null
+} & Partial<
+	Record<
+		(typeof OPTIONAL_MESSAGE_COLUMNS)[number],
+		string | number | Uint8Array | null
+	>
+>
+
+type ChatRow = {
+	rowid: number
+	guid: string
+} & Partial<
+	Record<(typeof OPTIONAL_CHAT_COLUMNS)[number], string | number | null>
+>
+
+type AttachmentRow = {
+	message_id: number
+	guid: string
+	filename: string | null
+	mime_type: string | null
+} & Partial<
+	Record<(typeof OPTIONAL_ATTACHMENT_COLUMNS)[number], string | number | null>
+>
+
+/**
+ * Read all messages from a chat.db file
+ *
+ * @param dbPath - Path to chat.db
+ * @param options - Reader options
+ * @returns Messages ordered by date then ROWID
+ * @throws Error if the file is not a Messages database
+ */
+export function readChatDB(
+	dbPath: string,
+	options: ReadChatDBOptions = {},
+): DBMessage[] {
+	return Array.from(iterateChatDB(dbPath, options))
+}
+
+/**
+ * Step through the messages in a chat.db file one row at a time
+ *
+ * Only attachment metadata is held in memory; the database stays open until
+ * iteration finishes or the iterator is returned early.
+ *
+ * @param dbPath - Path to chat.db
+ * @param options - Reader options
+ * @returns Messages ordered by date then ROWID
+ * @throws Error if the file is not a Messages database
+ */
+export function* iterateChatDB(
+	dbPath: string,
+	options: ReadChatDBOptions = {},
+): Generator<DBMessage> {
+	const db = openSqliteDatabase(dbPath, { readonly: true })
+
+	try {
+		const attachmentsByMessage = readAttachments(db, options)
+		for (const row of iterateMessageRows(db)) {
+			yield toDBMessage(row, attachmentsByMessage)
+		}
+	} finally {
+		db.close()
+	}
+}
+
+/**
+ * Read all chats from a chat.db file as conversations
+ *
+ * @param dbPath - Path to chat.db
+ * @returns Conversations sorted by chat GUID (empty if there is no chat table)
+ */
+export function readChatDBConversations(dbPath: string): Conversation[] {
+	const db = openSqliteDatabase(dbPath, { readonly: true })
+
+	try {
+		const chatColumns = getTableColumns(db, 'chat')
+		if (chatColumns.size === 0) return []
+
+		const participantsByChat = new Map<number, string[]>()
+		if (getTableColumns(db, 'chat_handle_join').size > 0) {
+			const joinRows = db
+				.prepare(
+					`SELECT chj.chat_id AS chat_id, h.id AS handle
+					FROM chat_handle_join chj
+					JOIN handle h ON h.ROWID = chj.handle_id
+					ORDER BY chj.chat_id, h.id`,
+				)
+				.all() as Array<{ chat_id: number; handle: string }>
+			for (const row of joinRows) {
+				const existing = participantsByChat.get(row.chat_id)
+				if (existing) {
+					if (!existing.includes(row.handle)) existing.push(row.handle)
+				} else {
+					participantsByChat.set(row.chat_id, [row.handle])
+				}
+			}
+		}
+
+		const rows = db
+			.prepare(
+				`SELECT
+					c.ROWID AS rowid,
+					c.guid AS guid,
+					${selectOptional(chatColumns, 'c', OPTIONAL_CHAT_COLUMNS)}
+				FROM chat c
+				ORDER BY c.guid`,
+			)
+			.all() as ChatRow[]
+
+		return rows.map((row) => {
+			const participants = participantsByChat.get(row.rowid) ?? []
+			const conversation: Conversation = {
+				id: row.guid,
+				isGroup: row.style === CHAT_STYLE_GROUP || participants.length > 1,
+				participants,
+			}
+			if (typeof row.chat_identifier === 'string') {
+				conversation.chatIdentifier = row.chat_identifier
+			}
+			if (typeof row.display_name === 'string' && row.display_name) {
+				conversation.displayName = row.display_name
+			}
+			if (typeof row.service_name === 'string') {
+				conversation.service = row.service_name
+			}
+			return conversation
+		})
+	} finally {
+		db.close()
+	}
+}
+
+/**
+ * List the columns of a table (empty if the table doesn't exist)
+ */
+function getTableColumns(db: SqliteDatabase, table: string): Set<string> {
+	const rows = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{
+		name: string
+	}>
+	return new Set(rows.map((r) => r.name))
+}
+
+function selectOptional(
+	columns: Set<string>,
+	alias: string,
+	names: readonly string[],
+): string {
+	return names
+		.map((name) =>
+			columns.has(name) ? `${alias}.${name} AS ${name}` : `NULL AS ${name}`,
+		)
+		.join(',\n\t\t\t')
+}
+
+function iterateMessageRows(db: SqliteDatabase): Iterable<MessageRow> {
+	const messageColumns = getTableColumns(db, 'message')
+	if (messageColumns.size === 0) {
+		throw new Error('Not a Messages database: missing "message" table')
+	}
+
+	const sql = `
+		SELECT
+			m.ROWID AS rowid,
+			m.guid AS guid,
+			m.text AS text,
+			m.is_from_me AS is_from_me,
+			m.date AS date,
+			m.service AS service,
+			h.id AS handle,
+			(
+				SELECT c.guid FROM chat_message_join cmj
+				JOIN chat c ON c.ROWID = cmj.chat_id
+				WHERE cmj.message_id = m.ROWID
+				ORDER BY cmj.chat_id
+				LIMIT 1
+			) AS chat_id,
+			${selectOptional(messageColumns, 'm', OPTIONAL_MESSAGE_COLUMNS)}
+		FROM message m
+		LEFT JOIN handle h ON h.ROWID = m.handle_id
+		ORDER BY m.date, m.ROWID`
+
+	return db.prepare(sql).iterate() as IterableIterator<MessageRow>
+}
+
+function readAttachments(
+	db: SqliteDatabase,
+	options: ReadChatDBOptions,
+): Map<number, DBAttachment[]> {
+	const byMessage = new Map<number, DBAttachment[]>()
+	const attachmentColumns = getTableColumns(db, 'attachment')
+	if (attachmentColumns.size === 0) return byMessage
+
+	const sql = `
+		SELECT
+			maj.message_id AS message_id,
+			a.guid AS guid,
+			a.filename AS filename,
+			a.mime_type AS mime_type,
+			${selectOptional(attachmentColumns, 'a', OPTIONAL_ATTACHMENT_COLUMNS)}
+		FROM message_attachment_join maj
+		JOIN attachment a ON a.ROWID = maj.attachment_id
+		ORDER BY maj.message_id, a.ROWID`
+
+	const homeDir = options.homeDir ?? os.homedir()
+	for (const row of db.prepare(sql).all() as AttachmentRow[]) {
+		// Attachments that were never downloaded have no filename on disk
+		if (!row.filename) continue
+
+		const copiedPath = row.filename.startsWith('~/')
+			? path.join(homeDir, row.filename.slice(2))
+			: row.filename
+
+		const attachment: DBAttachment = {
+			id: row.guid,
+			filename:
+				typeof row.transfer_name === 'string' && row.transfer_name
+					? row.transfer_name
+					: path.basename(row.filename),
+			copied_path: copiedPath,
+		}
+		if (row.mime_type) attachment.mime_type = row.mime_type
+		if (typeof row.uti === 'string') attachment.uti = row.uti
+		if (typeof row.total_bytes === 'number')
+			attachment.total_bytes = row.total_bytes
+		if (typeof row.is_sticker === 'number')
+			attachment.is_sticker = row.is_sticker
+		if (typeof row.hide_attachment === 'number')
+			attachment.hide_attachment = row.hide_attachment
+
+		const existing = byMessage.get(row.message_id)
+		if (existing) {
+			existing.push(attachment)
+		} else {
+			byMessage.set(row.message_id, [attachment])
+		}
+	}
+
+	return byMessage
+}
+
+function toDBMessage(
+	row: MessageRow,
+	attachmentsByMessage: Map<number, DBAttachment[]>,
+): DBMessage {
+	const message: DBMessage = {
+		guid: row.guid,
+		rowid: row.rowid,
+		text: row.text,
+		is_from_me: row.is_from_me,
+		date: row.date,
+	}
+
+	if (row.handle) message.handle = row.handle
+	if (row.chat_id) message.chat_id = row.chat_id
+	if (row.service) message.service = row.service
+	if (typeof row.subject === 'string') message.subject = row.subject
+	if (row.attributedBody instanceof Uint8Array) {
+		message.attributedBody = row.attributedBody
+	}
+	if (typeof row.date_read === 'number') message.date_read = row.date_read
+	if (typeof row.date_delivered === 'number') {
+		message.date_delivered = row.date_delivered
+	}
+	if (typeof row.is_read === 'number') message.is_read = row.is_read
+	if (typeof row.destination_caller_id === 'string') {
+		message.destination_caller_id = row.destination_caller_id
+	}
+	if (typeof row.associated_message_guid === 'string') {
+		message.associated_message_guid = row.associated_message_guid
+	}
+	if (typeof row.associated_message_type === 'number') {
+		message.associated_message_type = row.associated_message_type
+	}
+	if (typeof row.associated_message_emoji === 'string') {
+		message.associated_message_emoji = row.associated_message_emoji
+	}
+	if (typeof row.thread_originator_guid === 'string') {
+		message.thread_originator_guid = row.thread_originator_guid
+	}
+	if (typeof row.thread_originator_part === 'string') {
+		message.thread_originator_part = row.thread_originator_part
+	}
+
+	const attachments = attachmentsByMessage.get(row.rowid)
+	if (attachments) message.attachments = attachments
+
+	return message
+}
@@ -0,0 +1,167 @@
+import type { TapbackInfo } from '../schema/message.js'
+
+/**
+ * Tapback phrase parsing for CSV ingest
+ *
+ * iMazing CSV exports record reactions as ordinary rows whose text is the
+ * description Messages.app shows for them, e.g. `Loved “see you soon”`,
+ * `Removed a heart from “…”` or `Reacted 🎉 to an image`. These are turned
+ * back into TapbackInfo so the linker can attach them to their parents.
+ *
+ * Phrases are templates: `{target}` stands for the quoted message text or
+ * one of the locale's media descriptions ("an image"), `{emoji}` for the
+ * emoji of an emoji reaction. English is built in; other locales come from
+ * the `ingest.tapbackLocales` config section.
+ */
+
+export type TapbackType = TapbackInfo['type']
+
+export type TapbackPhrases = {
+	/** Templates for added reactions, by type */
+	added?: Partial<Record<TapbackType, string[]>>
+	/** Templates for removed reactions, by type */
+	removed?: Partial<Record<TapbackType, string[]>>
+	/** How the locale refers to a reacted-to attachment */
+	mediaTargets?: string[]
+}
+
+export const ENGLISH_TAPBACK_PHRASES: TapbackPhrases = {
+	added: {
+		loved: ['Loved {target}'],
+		liked: ['Liked {target}'],
+		disliked: ['Disliked {target}'],
+		laughed: ['Laughed at {target}'],
+		emphasized: ['Emphasized {target}'],
+		questioned: ['Questioned {target}'],
+		emoji: ['Reacted {emoji} to {target}'],
+	},
+	removed: {
+		loved: ['Removed a heart from {target}'],
+		liked: ['Removed a like from {target}'],
+		disliked: ['Removed a dislike from {target}'],
+		laughed: ['Removed a laugh from {target}'],
+		emphasized: ['Removed an exclamation from {target}'],
+		questioned: ['Removed a question mark from {target}'],
+		emoji: ['Removed {emoji} from {target}'],
+	},
+	mediaTargets: [
+		'an image',
+		'a photo',
+		'a movie',
+		'a video',
+		'an audio message',
+		'an attachment',
+		'a sticker',
+	],
+}
+
+/** Opening and closing quotes Messages.app uses around the target text */
+const QUOTED_TARGET = '[“"«„「](?<text>[\\s\\S]*)[”"»“」]'
+
+/** One emoji, including modifiers and ZWJ sequences */
+const EMOJI =
+	'(?<emoji>\\p{Extended_Pictographic}[\\p{Emoji_Modifier}\\u200D\\uFE0F\\p{Extended_Pictographic}]*)'
+
+/** Long targets are cut short with an ellipsis; the rest is a prefix */
+const TRUNCATION = /(?:…|\.\.\.)$/
+
+type CompiledPhrase = {
+	pattern: RegExp
+	type: TapbackType
+	action: TapbackInfo['action']
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function compileTemplate(template: string, mediaTargets: string[]): RegExp {
+	const target =
+		mediaTargets.length > 0
+			? `(?:${QUOTED_TARGET}|(?<media>${mediaTargets.map(escapeRegExp).join('|')}))`
+			: QUOTED_TARGET
+	const source = template
+		.split(/(\{target\}|\{emoji\})/)
+		.map((part) =>
+			part === '{target}'
+				? target
+				: part === '{emoji}'
+					? EMOJI
+					: escapeRegExp(part),
+		)
+		.join('')
+	return new RegExp(`^${source}$`, 'u')
+}
+
+function compileLocale(phrases: TapbackPhrases): CompiledPhrase[] {
+	const compiled: CompiledPhrase[] = []
+	const mediaTargets = phrases.mediaTargets ?? []
+	for (const action of ['added', 'removed'] as const) {
+		for (const [type, templates] of Object.entries(phrases[action] ?? {})) {
+			for (const template of templates ?? []) {
+				compiled.push({
+					pattern: compileTemplate(template, mediaTargets),
+					type: type as TapbackType,
+					action,
+				})
+			}
+		}
+	}
+	return compiled
+}
+
+/**
+ * Build a parser for English plus the given locales
+ *
+ * @returns Function returning the TapbackInfo a row's text describes, or
+ * null when the text is not a reaction
+ */
+export function createTapbackParser(
+	locales: TapbackPhrases[] = [],
+): (text: string) => TapbackInfo | null {
+	const phrases = [ENGLISH_TAPBACK_PHRASES, ...locales].flatMap(compileLocale)
+
+	return (text) => {
+		const trimmed = text.trim()
+		for (const { pattern, type, action } of phrases) {
+			const groups = pattern.exec(trimmed)?.groups
+			if (!groups) continue
+
+			const tapback: TapbackInfo = { type, action }
+			if (groups.media) {
+				tapback.isMedia = true
+			} else if (groups.text !== undefined) {
+				const targetText = groups.text.replace(TRUNCATION, '').trim()
+				if (targetText) tapback.targetText = targetText
+			}
+			if (groups.emoji) tapback.emoji = groups.emoji
+			return tapback
+		}
+		return null
+	}
+}
+
+const parsers = new WeakMap<
+	TapbackPhrases[],
+	ReturnType<typeof createTapbackParser>
+>()
+const englishParser = createTapbackParser()
+
+/**
+ * Parse a CSV row's text as a tapback description
+ *
+ * Parsers are cached per locale list, so passing the same array for every
+ * row compiles its phrases once.
+ */
+export function parseTapbackText(
+	text: string,
+	locales?: TapbackPhrases[],
+): TapbackInfo | null {
+	if (!locales || locales.length === 0) return englishParser(text)
+	let parser = parsers.get(locales)
+	if (!parser) {
+		parser = createTapbackParser(locales)
+		parsers.set(locales, parser)
+	}
+	return parser(text)
+}
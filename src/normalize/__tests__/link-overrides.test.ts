@@ -0,0 +1,162 @@
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import {
+	type LinkingResult,
+	linkRepliesToParents,
+	linkTapbacksToParents,
+} from '../../ingest/link-replies-and-tapbacks'
+import type { Message } from '../../schema/message'
+import {
+	buildAmbiguousLinksReport,
+	findStaleOverrides,
+	loadLinkOverrides,
+	writeAmbiguousLinksReport,
+} from '../link-overrides'
+
+describe('link-overrides', () => {
+	let tempDir: string
+
+	beforeEach(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'link-overrides-'))
+	})
+
+	afterEach(() => {
+		fs.rmSync(tempDir, { recursive: true, force: true })
+	})
+
+	// Two equally likely parents 10s before the reply
+	const tiedThread = (): Message[] => [
+		createMessage({
+			guid: 'csv:1:0',
+			text: 'Are we still on for Friday?',
+			handle: '+61400000001',
+			date: '2025-10-17T10:00:00.000Z',
+		}),
+		createMessage({
+			guid: 'csv:2:0',
+			text: 'Also bring the tent',
+			handle: '+61400000001',
+			date: '2025-10-17T10:00:00.000Z',
+		}),
+		createMessage({
+			guid: 'csv:3:0',
+			text: 'Yes definitely',
+			isFromMe: true,
+			date: '2025-10-17T10:00:10.000Z',
+			replyingTo: { text: 'Friday' },
+		}),
+	]
+
+	describe('loadLinkOverrides', () => {
+		it('should load GUID → parent and GUID → null pins', async () => {
+			const file = path.join(tempDir, 'overrides.json')
+			fs.writeFileSync(file, JSON.stringify({ 'csv:3:0': 'csv:2:0', 'csv:9:0': null }))
+
+			const overrides = await loadLinkOverrides(file)
+
+			expect(overrides.get('csv:3:0')).toBe('csv:2:0')
+			expect(overrides.get('csv:9:0')).toBeNull()
+		})
+
+		it('should reject files that are not GUID maps', async () => {
+			const file = path.join(tempDir, 'overrides.json')
+			fs.writeFileSync(file, JSON.stringify({ 'csv:3:0': 42 }))
+			await expect(loadLinkOverrides(file)).rejects.toThrow(/Invalid link overrides.*csv:3:0/)
+
+			fs.writeFileSync(file, '{ nope')
+			await expect(loadLinkOverrides(file)).rejects.toThrow(/Invalid JSON/)
+		})
+	})
+
+	describe('applying overrides', () => {
+		it('should pin a reply parent instead of running heuristics', () => {
+			const result = linkRepliesToParents(tiedThread(), {
+				trackAmbiguous: true,
+				overrides: new Map([['csv:3:0', 'csv:2:0']]),
+			}) as LinkingResult
+
+			expect(result.messages[2]?.replyingTo).toEqual({
+				text: 'Friday',
+				targetMessageGuid: 'csv:2:0',
+			})
+			expect(result.ambiguousLinks?.map((link) => link.messageGuid)).not.toContain('csv:3:0')
+			expect(result.stats?.overridden).toBe(1)
+		})
+
+		it('should pin "no parent" for replies and tapbacks', () => {
+			const messages = [
+				...tiedThread(),
+				createMessage({
+					guid: 'DB:tb-1',
+					messageKind: 'tapback',
+					date: '2025-10-17T10:00:12.000Z',
+					tapback: { type: 'liked', action: 'added', targetMessageGuid: 'csv:1:0' },
+				}),
+			]
+			const overrides = new Map([
+				['csv:3:0', null],
+				['DB:tb-1', null],
+			])
+
+			const replies = linkRepliesToParents(messages, { overrides }) as Message[]
+			const tapbacks = linkTapbacksToParents(messages, { overrides }) as Message[]
+
+			expect(replies[2]?.replyingTo).toEqual({ text: 'Friday' })
+			expect(tapbacks[3]?.tapback).toEqual({ type: 'liked', action: 'added' })
+		})
+
+		it('should ignore overrides whose parent is not among the messages', () => {
+			const overrides = new Map([['csv:3:0', 'csv:404:0']])
+			const result = linkRepliesToParents(tiedThread(), {
+				trackAmbiguous: true,
+				overrides,
+			}) as LinkingResult
+
+			expect(result.stats?.overridden).toBe(0)
+			expect(result.messages[2]?.replyingTo?.targetMessageGuid).not.toBe('csv:404:0')
+			expect(findStaleOverrides(overrides, tiedThread())).toEqual(['csv:3:0'])
+		})
+	})
+
+	describe('ambiguous-links report', () => {
+		it('should preview the message and each tied candidate', async () => {
+			const messages = tiedThread()
+			const result = linkRepliesToParents(messages, {
+				trackAmbiguous: true,
+			}) as LinkingResult
+
+			const report = buildAmbiguousLinksReport(result.ambiguousLinks ?? [], messages)
+
+			expect(report.count).toBe(1)
+			expect(report.links[0]).toMatchObject({
+				messageGuid: 'csv:3:0',
+				kind: 'reply',
+				sender: 'me',
+				preview: 'Yes definitely',
+				tieCount: 2,
+			})
+			expect(report.links[0]?.candidates.map((c) => c.preview).sort()).toEqual([
+				'Also bring the tent',
+				'Are we still on for Friday?',
+			])
+
+			const file = path.join(tempDir, 'out', 'ambiguous-links.json')
+			await writeAmbiguousLinksReport(file, report)
+			expect(JSON.parse(fs.readFileSync(file, 'utf-8'))).toEqual(report)
+		})
+	})
+})
+
+function createMessage(partial: Partial<Message>): Message {
+	return {
+		guid: 'test-guid',
+		messageKind: 'text',
+		isFromMe: false,
+		date: '2025-10-17T10:00:00.000Z',
+		...partial,
+	}
+}
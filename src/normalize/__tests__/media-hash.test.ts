@@ -0,0 +1,101 @@
+import { createHash } from 'node:crypto'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import type { Message } from '../../schema/message'
+import { createMediaHasher } from '../media-hash'
+
+describe('media-hash', () => {
+	let tempDir: string
+	const photo = 'the same photo'
+	const photoHash = createHash('sha256').update(photo).digest('hex')
+
+	beforeEach(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'media-hash-'))
+		fs.mkdirSync(path.join(tempDir, 'export'))
+		fs.mkdirSync(path.join(tempDir, 'Attachments'))
+		fs.writeFileSync(path.join(tempDir, 'export', '2025-10-17 - Ann - IMG_0042.jpeg'), photo)
+		fs.writeFileSync(path.join(tempDir, 'Attachments', 'IMG_0042.HEIC'), photo)
+	})
+
+	afterEach(() => {
+		fs.rmSync(tempDir, { recursive: true, force: true })
+	})
+
+	it('should give the same file under different names the same hash and size', async () => {
+		const hasher = createMediaHasher({ attachmentRoots: [path.join(tempDir, 'export')] })
+
+		const messages = await hasher.hashMessages([
+			createMediaMessage('csv:1:0:media', '2025-10-17 - Ann - IMG_0042.jpeg'),
+			createMediaMessage(
+				'DB:1',
+				'IMG_0042.HEIC',
+				path.join(tempDir, 'Attachments', 'IMG_0042.HEIC'),
+			),
+			createMessage({ guid: 'DB:2', text: 'no media' }),
+		])
+
+		expect(messages[0]?.media).toMatchObject({ sha256: photoHash, size: photo.length })
+		expect(messages[1]?.media).toMatchObject({ sha256: photoHash, size: photo.length })
+		expect(messages[2]).toEqual(createMessage({ guid: 'DB:2', text: 'no media' }))
+		expect(hasher.stats).toMatchObject({ total: 2, hashed: 2, missing: 0 })
+	})
+
+	it('should hash a shared file once and count missing files', async () => {
+		const file = path.join(tempDir, 'Attachments', 'IMG_0042.HEIC')
+		const hasher = createMediaHasher({ attachmentRoots: [] })
+
+		const messages = await hasher.hashMessages([
+			createMediaMessage('DB:1', 'IMG_0042.HEIC', file),
+			createMediaMessage('DB:2', 'IMG_0042.HEIC', file),
+			createMediaMessage('DB:3', 'gone.jpeg', path.join(tempDir, 'gone.jpeg')),
+		])
+
+		expect(messages[1]?.media?.sha256).toBe(photoHash)
+		expect(messages[2]?.media?.sha256).toBeUndefined()
+		expect(hasher.stats).toMatchObject({ total: 3, hashed: 1, missing: 1 })
+	})
+
+	it('should keep an earlier hash while the file size is unchanged', async () => {
+		const file = path.join(tempDir, 'Attachments', 'IMG_0042.HEIC')
+		const earlier = 'a'.repeat(64)
+
+		const kept = createMediaHasher({ attachmentRoots: [] })
+		const [unchanged] = await kept.hashMessages([
+			createMediaMessage('DB:1', 'IMG_0042.HEIC', file, { sha256: earlier, size: photo.length }),
+		])
+		const [resized] = await createMediaHasher({ attachmentRoots: [] }).hashMessages([
+			createMediaMessage('DB:1', 'IMG_0042.HEIC', file, { sha256: earlier, size: 1 }),
+		])
+
+		expect(unchanged?.media?.sha256).toBe(earlier)
+		expect(kept.stats).toMatchObject({ hashed: 0, unchanged: 1 })
+		expect(resized?.media).toMatchObject({ sha256: photoHash, size: photo.length })
+	})
+})
+
+function createMediaMessage(
+	guid: string,
+	filename: string,
+	filePath = filename,
+	extra: { sha256?: string; size?: number } = {},
+): Message {
+	return createMessage({
+		guid,
+		messageKind: 'media',
+		media: { id: `media:${guid}`, filename, path: filePath, mediaKind: 'image', ...extra },
+	})
+}
+
+function createMessage(partial: Partial<Message>): Message {
+	return {
+		guid: 'test-guid',
+		messageKind: 'text',
+		isFromMe: false,
+		date: '2025-10-17T10:00:00.000Z',
+		...partial,
+	}
+}
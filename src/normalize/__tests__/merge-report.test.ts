@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+
+import { type MergeSource, mergeSources } from '../../ingest/dedup-merge'
+import type { Message } from '../../schema/message'
+import { buildMergeReport } from '../merge-report'
+
+describe('buildMergeReport', () => {
+	it('should name the source of both sides of each match and conflict', () => {
+		const sources: MergeSource[] = [
+			{
+				name: 'phone.csv.json',
+				source: 'csv',
+				messages: [
+					createMessage({
+						guid: 'csv:2:0',
+						text: 'Running late, sorry!',
+						date: '2025-10-17T10:00:05.000Z',
+					}),
+				],
+			},
+			{
+				name: 'chat.db.json',
+				source: 'db',
+				messages: [
+					createMessage({
+						guid: 'DB:1',
+						text: 'Running late, sorry!',
+						date: '2025-10-17T10:00:00.000Z',
+					}),
+				],
+			},
+		]
+
+		const report = buildMergeReport(sources, mergeSources(sources))
+
+		expect(report.sources).toEqual([
+			{ name: 'phone.csv.json', source: 'csv', messages: 1 },
+			{ name: 'chat.db.json', source: 'db', messages: 1 },
+		])
+		expect(report.contentMatches).toHaveLength(1)
+		expect(report.conflicts).toEqual([
+			{
+				kept: {
+					guid: 'DB:1',
+					source: 'chat.db.json',
+					date: '2025-10-17T10:00:00.000Z',
+					sender: '+61400000001',
+					preview: 'Running late, sorry!',
+				},
+				merged: {
+					guid: 'csv:2:0',
+					source: 'phone.csv.json',
+					date: '2025-10-17T10:00:05.000Z',
+					sender: '+61400000001',
+					preview: 'Running late, sorry!',
+				},
+				confidence: 1,
+				reasons: ['date differs by 5s'],
+			},
+		])
+	})
+})
+
+function createMessage(partial: Partial<Message>): Message {
+	return {
+		guid: 'test-guid',
+		messageKind: 'text',
+		isFromMe: false,
+		handle: '+61400000001',
+		date: '2025-10-17T10:00:00.000Z',
+		...partial,
+	}
+}
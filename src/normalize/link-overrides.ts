@@ -0,0 +1,147 @@
+import { promises as fs } from 'node:fs'
+
+import { z } from 'zod'
+
+import type {
+	AmbiguousLink,
+	LinkOverrides,
+} from '../ingest/link-replies-and-tapbacks'
+import type { Message } from '../schema/message'
+import { previewMessage, senderOf, writeReviewReport } from './review-report'
+
+/**
+ * Ambiguous-link review and manual link overrides
+ *
+ * normalize-link writes every reply/tapback whose parent was a tie between
+ * candidates to an `ambiguous-links.json` report. After reviewing it, a
+ * human pins the right parent (or "no parent") in an overrides file:
+ *
+ * ```json
+ * { "csv:9e04b1d2c37a5f60:0": "csv:3f9a1c0b7d2e4a11:0", "DB:41872": null }
+ * ```
+ *
+ * Overrides are applied before the heuristics on every run, so the review
+ * survives re-ingestion.
+ */
+
+const LinkOverridesFileSchema = z.record(
+	z.string().min(1),
+	z.string().min(1).nullable(),
+)
+
+export type AmbiguousLinkCandidate = {
+	guid: string
+	score: number
+	reasons: string[]
+	date: string
+	sender: string | null
+	preview: string
+}
+
+export type AmbiguousLinkEntry = {
+	messageGuid: string
+	kind: 'reply' | 'tapback'
+	date: string | null
+	sender: string | null
+	preview: string
+	selectedTarget: string
+	confidenceScore: number
+	tieCount: number
+	candidates: AmbiguousLinkCandidate[]
+}
+
+export type AmbiguousLinksReport = {
+	createdAt: string
+	count: number
+	links: AmbiguousLinkEntry[]
+}
+
+/**
+ * Load an overrides file mapping message GUIDs to parent GUIDs (or null)
+ *
+ * @throws Error when the file is not a JSON object of GUID → GUID | null
+ */
+export async function loadLinkOverrides(
+	filePath: string,
+): Promise<LinkOverrides> {
+	const content = await fs.readFile(filePath, 'utf-8')
+	let raw: unknown
+	try {
+		raw = JSON.parse(content)
+	} catch (error) {
+		throw new Error(
+			`Invalid JSON in link overrides ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+		)
+	}
+
+	const result = LinkOverridesFileSchema.safeParse(raw)
+	if (!result.success) {
+		const issue = result.error.errors[0]
+		throw new Error(
+			`Invalid link overrides ${filePath}: ${issue?.path.join('.') || '(root)'} ${issue?.message ?? ''}`.trim(),
+		)
+	}
+	return new Map(Object.entries(result.data))
+}
+
+/**
+ * Overrides that no longer apply because their message or parent is gone
+ * (e.g. the export was re-ingested with different rows)
+ */
+export function findStaleOverrides(
+	overrides: LinkOverrides,
+	messages: Message[],
+): string[] {
+	const guids = new Set(messages.map((message) => message.guid))
+	return Array.from(overrides)
+		.filter(
+			([messageGuid, target]) =>
+				!guids.has(messageGuid) || (target !== null && !guids.has(target)),
+		)
+		.map(([messageGuid]) => messageGuid)
+}
+
+/**
+ * Build the review report for ambiguous links, with previews of each
+ * message and its tied candidates
+ */
+export function buildAmbiguousLinksReport(
+	ambiguousLinks: AmbiguousLink[],
+	messages: Message[],
+): AmbiguousLinksReport {
+	const byGuid = new Map(messages.map((message) => [message.guid, message]))
+
+	const links = ambiguousLinks.map((link): AmbiguousLinkEntry => {
+		const message = byGuid.get(link.messageGuid)
+		return {
+			messageGuid: link.messageGuid,
+			kind: message?.messageKind === 'tapback' ? 'tapback' : 'reply',
+			date: message?.date ?? null,
+			sender: message ? senderOf(message) : null,
+			preview: message ? previewMessage(message) : '',
+			selectedTarget: link.selectedTarget,
+			confidenceScore: link.confidenceScore,
+			tieCount: link.tieCount,
+			candidates: link.candidates.map((candidate) => ({
+				guid: candidate.message.guid,
+				score: candidate.score,
+				reasons: candidate.reasons,
+				date: candidate.message.date,
+				sender: senderOf(candidate.message),
+				preview: previewMessage(candidate.message),
+			})),
+		}
+	})
+
+	return { createdAt: new Date().toISOString(), count: links.length, links }
+}
+
+/**
+ * Write the report, replacing any earlier one so resolved ties disappear
+ */
+export async function writeAmbiguousLinksReport(
+	filePath: string,
+	report: AmbiguousLinksReport,
+): Promise<void> {
+	await writeReviewReport(filePath, report)
+}
@@ -0,0 +1,103 @@
+import { promises as fs } from 'node:fs'
+
+import { hashPath } from '../pipeline/pipeline-state'
+import type { Message } from '../schema/message'
+import { resolveMediaPath } from './path-validator'
+
+/**
+ * Content hashes for media files
+ *
+ * The same photo often turns up twice under different names: once in the
+ * iMazing export folder and once in ~/Library/Messages/Attachments.
+ * normalize-link records each file's SHA-256 and size on its MediaMeta, so
+ * dedupAndMerge can match the two copies and enrich-ai can reuse the
+ * enrichment of one for the other.
+ */
+
+export type MediaHashStats = {
+	/** Media messages seen */
+	total: number
+	/** Files read and hashed */
+	hashed: number
+	/** Hashes kept from an earlier run (same file size) */
+	unchanged: number
+	/** Files not found on disk or in the attachment roots */
+	missing: number
+	errors: Array<{
+		guid: string
+		filename: string
+		error: string
+	}>
+}
+
+export type MediaHasher = {
+	/** Copies of the messages with sha256 and size set on found media */
+	hashMessages(messages: Message[]): Promise<Message[]>
+	readonly stats: MediaHashStats
+}
+
+/**
+ * Create a hasher that resolves media files like validateAndEnforcePaths
+ * and hashes each file once, however many messages share it
+ */
+export function createMediaHasher(config: {
+	attachmentRoots: string[]
+}): MediaHasher {
+	const stats: MediaHashStats = {
+		total: 0,
+		hashed: 0,
+		unchanged: 0,
+		missing: 0,
+		errors: [],
+	}
+	const byPath = new Map<string, { sha256: string; size: number }>()
+
+	const hashMessage = async (message: Message): Promise<Message> => {
+		if (message.messageKind !== 'media' || !message.media) return message
+		const media = message.media
+		stats.total++
+
+		const filePath = resolveMediaPath(media, config.attachmentRoots)
+		if (!filePath) {
+			stats.missing++
+			return message
+		}
+
+		try {
+			let content = byPath.get(filePath)
+			if (!content) {
+				const { size } = await fs.stat(filePath)
+				// Re-normalizing keeps hashes unless the file has changed size
+				if (media.sha256 && media.size === size) {
+					content = { sha256: media.sha256, size }
+					stats.unchanged++
+				} else {
+					const sha256 = await hashPath(filePath)
+					if (sha256 === null) throw new Error('File disappeared')
+					content = { sha256, size }
+					stats.hashed++
+				}
+				byPath.set(filePath, content)
+			}
+			return { ...message, media: { ...media, ...content } }
+		} catch (error) {
+			stats.errors.push({
+				guid: message.guid,
+				filename: media.filename,
+				error: error instanceof Error ? error.message : String(error),
+			})
+			return message
+		}
+	}
+
+	return {
+		async hashMessages(messages) {
+			const hashed: Message[] = []
+			for (const message of messages) hashed.push(await hashMessage(message))
+			return hashed
+		},
+		get stats() {
+			return stats
+		},
+	}
+}
@@ -0,0 +1,97 @@
+import type {
+	MatchScores,
+	MergeMatch,
+	MergeResult,
+	MergeSource,
+	MergeStats,
+} from '../ingest/dedup-merge'
+import type { Message } from '../schema/message'
+import { previewMessage, senderOf, writeReviewReport } from './review-report'
+
+/**
+ * Merge report for normalize-link
+ *
+ * Lists every content match (messages with different GUIDs judged to be the
+ * same message) and every conflict (matched messages disagreeing on date,
+ * sender or text), so a merge of several exports can be checked by hand.
+ */
+
+export type MergeReportMessage = {
+	guid: string
+	/** Name of the source it came from, e.g. the input file */
+	source: string | null
+	date: string
+	sender: string | null
+	preview: string
+}
+
+export type MergeReportEntry = {
+	/** The message that was kept (DB values win) */
+	kept: MergeReportMessage
+	/** The message merged into it */
+	merged: MergeReportMessage
+	confidence: number
+	reasons: string[]
+	/** Per-signal scores, for fuzzy matches */
+	scores?: MatchScores
+}
+
+export type MergeReport = {
+	createdAt: string
+	sources: Array<{ name: string; source: 'csv' | 'db'; messages: number }>
+	stats: MergeStats
+	contentMatches: MergeReportEntry[]
+	conflicts: MergeReportEntry[]
+}
+
+/**
+ * Build the merge report for a mergeSources result
+ */
+export function buildMergeReport(
+	sources: MergeSource[],
+	result: MergeResult,
+): MergeReport {
+	// Message objects are shared with the sources, so they identify where
+	// each side of a match came from even when GUIDs repeat across copies
+	const sourceOf = new Map<Message, string>()
+	for (const source of sources) {
+		for (const message of source.messages) sourceOf.set(message, source.name)
+	}
+
+	const describe = (message: Message): MergeReportMessage => ({
+		guid: message.guid,
+		source: sourceOf.get(message) ?? null,
+		date: message.date,
+		sender: senderOf(message),
+		preview: previewMessage(message),
+	})
+	const toEntry = (match: MergeMatch): MergeReportEntry => ({
+		kept: describe(match.dbMsg),
+		merged: describe(match.csvMsg),
+		confidence: match.confidence,
+		reasons: match.reasons,
+		...(match.scores && { scores: match.scores }),
+	})
+
+	return {
+		createdAt: new Date().toISOString(),
+		sources: sources.map((source) => ({
+			name: source.name,
+			source: source.source,
+			messages: source.messages.length,
+		})),
+		stats: result.stats,
+		contentMatches: (result.contentMatches ?? []).map(toEntry),
+		conflicts: (result.conflicts ?? []).map(toEntry),
+	}
+}
+
+/**
+ * Write the merge report, replacing any earlier one
+ */
+export async function writeMergeReport(
+	filePath: string,
+	report: MergeReport,
+): Promise<void> {
+	await writeReviewReport(filePath, report)
+}
@@ -4,8 +4,6 @@ import * as path from 'node:path'
 
 import type { MediaProvenance, Message } from '../schema/message'
 
-type MessageWithMetadata = Message & { exportMetadata?: { source?: string } }
-
 export type PathValidationConfig = {
 	attachmentRoots: string[]
 	source: 'csv' | 'db' | 'merged'
@@ -105,32 +103,43 @@ export function searchAttachmentInRoots(
 }
 
 /**
- * Infer the source (csv/db) from message metadata or GUID pattern
+ * Find the file a media item refers to: its path when that exists (after
+ * tilde expansion), else its filename in the attachment roots
+ *
+ * @returns Absolute path of an existing file, or null
+ */
+export function resolveMediaPath(
+	media: { path: string; filename: string },
+	attachmentRoots: string[],
+): string | null {
+	if (media.path) {
+		const expanded = expandTildeInPath(media.path)
+		if (isAbsolutePath(expanded) && fileExists(expanded)) return expanded
+	}
+	return media.filename
+		? searchAttachmentInRoots(media.filename, attachmentRoots)
+		: null
+}
+
+/**
+ * Infer the source (csv/db) of a message
+ *
+ * In order: the message's exportMetadata.source, the source of the envelope
+ * it was read from, then its GUID pattern (`p:` parts come from the DB,
+ * `csv:` rows from CSV). Messages of a merged envelope with none of these
+ * count as DB.
  */
 export function inferSource(
 	message: Message,
 	defaultSource: 'csv' | 'db' | 'merged',
 ): 'csv' | 'db' {
-	// Check guid pattern
-	if (message.guid?.startsWith('p:')) {
-		// Part GUID format: p:index/guid
-		return 'db'
-	}
-	if (message.guid?.startsWith('csv:')) {
-		return 'csv'
-	}
-
-	// Check if there's explicit metadata
-	const msgWithMeta = message as MessageWithMetadata
-	if (msgWithMeta.exportMetadata?.source === 'csv') {
-		return 'csv'
-	}
-	if (msgWithMeta.exportMetadata?.source === 'db') {
-		return 'db'
+	const metadataSource = message.exportMetadata?.source
+	if (metadataSource === 'csv' || metadataSource === 'db') {
+		return metadataSource
 	}
+	if (defaultSource !== 'merged') return defaultSource
 
-	// Default fallback
-	return defaultSource === 'csv' ? 'csv' : 'db'
+	return message.guid?.startsWith('csv:') ? 'csv' : 'db'
 }
 
 /**
@@ -0,0 +1,58 @@
+import { promises as fs } from 'node:fs'
+import * as path from 'node:path'
+
+import type { Message } from '../schema/message'
+
+/**
+ * Helpers for the review reports normalize-link writes (ambiguous links,
+ * merge matches and conflicts)
+ */
+
+const PREVIEW_LENGTH = 80
+
+/**
+ * Who sent a message: 'me' or the sender's handle
+ */
+export function senderOf(message: Message): string | null {
+	return message.isFromMe ? 'me' : (message.handle ?? null)
+}
+
+/**
+ * One-line description of a message for human review
+ */
+export function previewMessage(message: Message): string {
+	if (message.messageKind === 'tapback' && message.tapback) {
+		const { type, action, emoji, targetText } = message.tapback
+		const reaction = type === 'emoji' && emoji ? emoji : type
+		return truncate(
+			`[${action} ${reaction}]${targetText ? ` “${targetText}”` : ''}`,
+		)
+	}
+	if (message.messageKind === 'media' && message.media) {
+		return truncate(
+			`[${message.media.mediaKind ?? 'media'}: ${message.media.filename}]${message.text ? ` ${message.text}` : ''}`,
+		)
+	}
+	return truncate(message.text ?? '')
+}
+
+function truncate(text: string): string {
+	const line = text.replace(/\s+/g, ' ').trim()
+	return line.length > PREVIEW_LENGTH
+		? `${line.slice(0, PREVIEW_LENGTH - 1)}…`
+		: line
+}
+
+/**
+ * Write a report as JSON, replacing any earlier one so resolved entries
+ * disappear
+ */
+export async function writeReviewReport(
+	filePath: string,
+	report: object,
+): Promise<void> {
+	await fs.mkdir(path.dirname(filePath), { recursive: true })
+	const tempPath = `${filePath}.tmp`
+	await fs.writeFile(tempPath, `${JSON.stringify(report, null, 2)}\n`, 'utf-8')
+	await fs.rename(tempPath, filePath)
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+
+import { buildPipelinePlan, type PipelineConfig } from '../pipeline-plan'
+
+function createPipeline(overrides: Partial<PipelineConfig> = {}): PipelineConfig {
+	return {
+		outputDir: '/out',
+		sources: [
+			{ type: 'csv', path: '/exports/messages.csv' },
+			{ type: 'db', path: '/library/chat.db' },
+		],
+		stages: ['ingest', 'normalize', 'enrich', 'render'],
+		options: {
+			ingest: { chat: 'Family' },
+			normalize: {},
+			enrich: { incremental: true },
+			render: { startDate: '2025-01-01' },
+		},
+		...overrides,
+	}
+}
+
+describe('buildPipelinePlan', () => {
+	it('only passes --contact to db sources', () => {
+		const [csv, db] = buildPipelinePlan(
+			createPipeline({
+				options: {
+					ingest: { contact: '+61400111222' },
+					normalize: {},
+					enrich: { incremental: true },
+					render: {},
+				},
+			}),
+		)
+
+		expect(csv?.options).toEqual({ type: 'csv' })
+		expect(db?.options).toEqual({ type: 'db', contact: '+61400111222' })
+	})
+
+	it('chains one ingest step per source through normalize, enrich and render', () => {
+		const steps = buildPipelinePlan(createPipeline(), {
+			render: { options: { groupByTimeOfDay: false }, files: ['/contacts.vcf'] },
+		})
+
+		expect(steps.map((step) => step.id)).toEqual([
+			'ingest-csv:1',
+			'ingest-db:2',
+			'normalize',
+			'enrich',
+			'render',
+		])
+		expect(steps[0]).toMatchObject({
+			inputs: ['/exports/messages.csv'],
+			dependencies: [],
+			output: '/out/ingested/1-csv.json',
+			options: { type: 'csv', chat: 'Family' },
+		})
+		expect(steps[1]).toMatchObject({
+			inputs: ['/library/chat.db'],
+			dependencies: ['/library/chat.db-wal'],
+			output: '/out/ingested/2-db.json',
+			options: { type: 'db', chat: 'Family' },
+		})
+		expect(steps[2]?.inputs).toEqual(['/out/ingested/1-csv.json', '/out/ingested/2-db.json'])
+		expect(steps[3]).toMatchObject({
+			inputs: ['/out/normalized.json'],
+			output: '/out/enriched.json',
+		})
+		expect(steps[4]).toMatchObject({
+			inputs: ['/out/enriched.json'],
+			dependencies: ['/contacts.vcf'],
+			output: '/out/timeline',
+			options: { startDate: '2025-01-01', groupByTimeOfDay: false },
+		})
+	})
+
+	it('renders normalized messages when enrich is left out', () => {
+		const steps = buildPipelinePlan(createPipeline({ stages: ['normalize', 'render'] }))
+
+		expect(steps.map((step) => step.id)).toEqual(['normalize', 'render'])
+		expect(steps[0]?.inputs).toEqual(['/out/ingested/1-csv.json', '/out/ingested/2-db.json'])
+		expect(steps[1]?.inputs).toEqual(['/out/normalized.json'])
+	})
+})
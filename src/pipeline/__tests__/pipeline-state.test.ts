@@ -0,0 +1,115 @@
+import { promises as fs } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import type { PipelineStep } from '../pipeline-plan'
+import {
+	checkStep,
+	createPipelineState,
+	hashPath,
+	hashStep,
+	loadPipelineState,
+	savePipelineState,
+} from '../pipeline-state'
+
+describe('pipeline state', () => {
+	let tempDir: string
+	let step: PipelineStep
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'pipeline-state-'))
+		await fs.writeFile(path.join(tempDir, 'messages.csv'), 'a,b\n1,2\n')
+		step = {
+			id: 'ingest-csv:1',
+			stage: 'ingest',
+			inputs: [path.join(tempDir, 'messages.csv')],
+			dependencies: [path.join(tempDir, 'contacts.vcf')],
+			output: path.join(tempDir, 'ingested.json'),
+			options: { type: 'csv' },
+		}
+	})
+
+	afterEach(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true })
+	})
+
+	async function complete(): Promise<ReturnType<typeof createPipelineState>> {
+		await fs.writeFile(step.output, '[]')
+		const state = createPipelineState()
+		state.steps[step.id] = {
+			status: 'completed',
+			hash: await hashStep(step),
+			outputHash: (await hashPath(step.output)) as string,
+			startedAt: '2025-10-17T09:00:00.000Z',
+		}
+		return state
+	}
+
+	it('skips a completed step until an input, dependency, option or its output changes', async () => {
+		const state = await complete()
+		const check = async () => checkStep(step, state.steps[step.id], await hashStep(step))
+
+		expect(await check()).toEqual({
+			run: false,
+			reason: 'unchanged',
+			resume: false,
+		})
+
+		await fs.writeFile(step.output, '[{}]')
+		expect((await check()).reason).toBe('output changed')
+		await fs.rm(step.output)
+		expect((await check()).reason).toBe('output missing')
+
+		await fs.writeFile(path.join(tempDir, 'contacts.vcf'), 'BEGIN:VCARD')
+		expect((await check()).reason).toBe('inputs changed')
+
+		const withOptions = { ...step, options: { type: 'csv', chat: 'Family' } }
+		expect((await checkStep(withOptions, undefined, await hashStep(withOptions))).reason).toBe(
+			'new',
+		)
+	})
+
+	it('resumes a step that started with the same inputs but never completed', async () => {
+		const hash = await hashStep(step)
+		const record = {
+			status: 'started' as const,
+			hash,
+			startedAt: '2025-10-17T09:00:00.000Z',
+		}
+
+		expect(await checkStep(step, record, hash)).toEqual({
+			run: true,
+			reason: 'interrupted',
+			resume: true,
+		})
+		expect(await checkStep(step, record, hash, true)).toEqual({
+			run: true,
+			reason: 'forced',
+			resume: true,
+		})
+	})
+
+	it('hashes directories by file names and contents', async () => {
+		const dir = path.join(tempDir, 'timeline')
+		await fs.mkdir(path.join(dir, 'family'), { recursive: true })
+		await fs.writeFile(path.join(dir, 'family', '2025-10-17.md'), '# Day')
+		const before = await hashPath(dir)
+
+		await fs.writeFile(path.join(dir, 'family', '2025-10-17.md'), '# Edited')
+		expect(await hashPath(dir)).not.toBe(before)
+		expect(await hashPath(path.join(tempDir, 'missing'))).toBeNull()
+	})
+
+	it('round-trips state and starts over from an unreadable file', async () => {
+		const statePath = path.join(tempDir, 'out', '.pipeline-state.json')
+		const state = await complete()
+
+		await savePipelineState(statePath, state)
+		expect(await loadPipelineState(statePath)).toEqual(state)
+
+		await fs.writeFile(statePath, '{ not json')
+		expect(await loadPipelineState(statePath)).toEqual(createPipelineState())
+	})
+})
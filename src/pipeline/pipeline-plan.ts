@@ -0,0 +1,153 @@
+/**
+ * Pipeline Plan
+ *
+ * Turns the `pipeline` config section into the steps `chatline run`
+ * executes: one ingest step per source, then normalize, enrich and render.
+ * Every step reads and writes fixed paths under the output directory, so a
+ * later run finds the files an earlier one produced.
+ *
+ * Layout of the output directory:
+ *
+ *   ingested/<n>-<csv|db>.json   one file per source
+ *   normalized.json              linked and deduplicated messages
+ *   enriched.json                with AI enrichment
+ *   timeline/                    rendered Markdown
+ *   .checkpoints/                enrich-ai checkpoints
+ *   .imessage-state.json         enrich-ai incremental state
+ *   .pipeline-state.json         hashes of completed steps
+ */
+
+import path from 'node:path'
+
+import type { Config, PipelineStage } from '../config/schema.js'
+
+export type PipelineConfig = NonNullable<Config['pipeline']>
+
+export type PipelineStep = {
+	/** Stable identifier, e.g. `ingest-csv:1`, keying the step's state */
+	id: string
+	stage: PipelineStage
+	/** Files the step reads */
+	inputs: string[]
+	/** Other files whose content the step's result depends on */
+	dependencies: string[]
+	/** File or directory the step produces */
+	output: string
+	/** Step options; part of the step's hash */
+	options: Record<string, unknown>
+}
+
+export type StageConfig = {
+	options?: Record<string, unknown>
+	files?: string[]
+}
+
+export type PipelinePaths = {
+	outputDir: string
+	normalized: string
+	enriched: string
+	timeline: string
+	checkpointDir: string
+	incrementalState: string
+	state: string
+}
+
+export function getPipelinePaths(outputDir: string): PipelinePaths {
+	return {
+		outputDir,
+		normalized: path.join(outputDir, 'normalized.json'),
+		enriched: path.join(outputDir, 'enriched.json'),
+		timeline: path.join(outputDir, 'timeline'),
+		checkpointDir: path.join(outputDir, '.checkpoints'),
+		incrementalState: path.join(outputDir, '.imessage-state.json'),
+		state: path.join(outputDir, '.pipeline-state.json'),
+	}
+}
+
+/**
+ * Build the steps for a pipeline
+ *
+ * Stages left out of `pipeline.stages` don't run; the stage after one reads
+ * the file it produced in an earlier run. The exception is enrich: without
+ * it, render reads the normalized messages.
+ *
+ * @param pipeline - Pipeline section with paths already resolved
+ * @param stageConfig - Config values and files (e.g. contact books) that
+ * change a stage's result, hashed with its inputs so editing them re-runs
+ * the stage
+ */
+export function buildPipelinePlan(
+	pipeline: PipelineConfig,
+	stageConfig: Partial<Record<PipelineStage, StageConfig>> = {},
+): PipelineStep[] {
+	const paths = getPipelinePaths(pipeline.outputDir)
+	const selected = new Set(pipeline.stages)
+	const { options } = pipeline
+	const steps: PipelineStep[] = []
+	const files = (stage: PipelineStage) => stageConfig[stage]?.files ?? []
+
+	const ingested = pipeline.sources.map((source, index) => {
+		const output = path.join(
+			paths.outputDir,
+			'ingested',
+			`${index + 1}-${source.type}.json`,
+		)
+		if (selected.has('ingest')) {
+			steps.push({
+				id: `ingest-${source.type}:${index + 1}`,
+				stage: 'ingest',
+				inputs: [source.path],
+				// chat.db keeps recent messages in its write-ahead log
+				dependencies: [
+					...(source.type === 'db' ? [`${source.path}-wal`] : []),
+					...files('ingest'),
+				],
+				output,
+				options: {
+					type: source.type,
+					// --contact is only supported for chat.db
+					...(source.type === 'db'
+						? options.ingest
+						: options.ingest.chat && { chat: options.ingest.chat }),
+					...stageConfig.ingest?.options,
+				},
+			})
+		}
+		return output
+	})
+
+	if (selected.has('normalize')) {
+		steps.push({
+			id: 'normalize',
+			stage: 'normalize',
+			inputs: ingested,
+			dependencies: files('normalize'),
+			output: paths.normalized,
+			options: { ...options.normalize, ...stageConfig.normalize?.options },
+		})
+	}
+
+	if (selected.has('enrich')) {
+		steps.push({
+			id: 'enrich',
+			stage: 'enrich',
+			inputs: [paths.normalized],
+			dependencies: files('enrich'),
+			output: paths.enriched,
+			options: { ...options.enrich, ...stageConfig.enrich?.options },
+		})
+	}
+
+	if (selected.has('render')) {
+		steps.push({
+			id: 'render',
+			stage: 'render',
+			inputs: [selected.has('enrich') ? paths.enriched : paths.normalized],
+			dependencies: files('render'),
+			output: paths.timeline,
+			options: { ...options.render, ...stageConfig.render?.options },
+		})
+	}
+
+	return steps
+}
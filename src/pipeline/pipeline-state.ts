@@ -0,0 +1,181 @@
+/**
+ * Pipeline State
+ *
+ * Records, per step of `chatline run`, a hash of everything the step's
+ * result depends on (input files, dependencies, options) and of the output
+ * it produced. A step whose hash still matches and whose output is
+ * untouched is skipped; a step that started but never completed is resumed.
+ *
+ * Stored in `.pipeline-state.json` in the pipeline output directory.
+ */
+
+import crypto from 'node:crypto'
+import { createReadStream, promises as fs } from 'node:fs'
+import path from 'node:path'
+
+import { humanWarn } from '#utils/human'
+
+import type { PipelineStep } from './pipeline-plan.js'
+
+export const PIPELINE_STATE_VERSION = 1
+
+export type StepRecord = {
+	status: 'started' | 'completed'
+	/** Hash of the step's inputs, dependencies and options */
+	hash: string
+	/** Hash of the step's output when it completed */
+	outputHash?: string
+	/** Counts describing the output, reported when the step is skipped */
+	metrics?: Record<string, number>
+	startedAt: string
+	completedAt?: string
+}
+
+export type PipelineState = {
+	version: number
+	steps: Record<string, StepRecord>
+}
+
+export type StepDecision = {
+	run: boolean
+	reason:
+		| 'forced'
+		| 'new'
+		| 'inputs changed'
+		| 'interrupted'
+		| 'output missing'
+		| 'output changed'
+		| 'unchanged'
+	/** The step started with the same inputs but never completed */
+	resume: boolean
+}
+
+export function createPipelineState(): PipelineState {
+	return { version: PIPELINE_STATE_VERSION, steps: {} }
+}
+
+/**
+ * Load pipeline state; a missing, corrupted or other-version file starts
+ * over, which only means every step runs once more
+ */
+export async function loadPipelineState(
+	filePath: string,
+): Promise<PipelineState> {
+	let content: string
+	try {
+		content = await fs.readFile(filePath, 'utf-8')
+	} catch {
+		return createPipelineState()
+	}
+	try {
+		const state = JSON.parse(content) as PipelineState
+		if (
+			state.version === PIPELINE_STATE_VERSION &&
+			typeof state.steps === 'object' &&
+			state.steps !== null
+		) {
+			return state
+		}
+	} catch {
+		// fall through
+	}
+	humanWarn(`⚠️  Ignoring unreadable pipeline state: ${filePath}`)
+	return createPipelineState()
+}
+
+/**
+ * Save pipeline state atomically (temp file + rename)
+ */
+export async function savePipelineState(
+	filePath: string,
+	state: PipelineState,
+): Promise<void> {
+	const tempFile = `${filePath}.${Date.now()}.tmp`
+	await fs.mkdir(path.dirname(filePath), { recursive: true })
+	try {
+		await fs.writeFile(tempFile, JSON.stringify(state, null, 2), 'utf-8')
+		await fs.rename(tempFile, filePath)
+	} catch (error) {
+		await fs.rm(tempFile, { force: true })
+		throw error
+	}
+}
+
+async function hashFile(filePath: string): Promise<string> {
+	const hash = crypto.createHash('sha256')
+	for await (const chunk of createReadStream(filePath)) {
+		hash.update(chunk as Buffer)
+	}
+	return hash.digest('hex')
+}
+
+/**
+ * SHA-256 of a file's content, or of a directory's file names and contents
+ *
+ * @returns null when the path does not exist
+ */
+export async function hashPath(target: string): Promise<string | null> {
+	let info: Awaited<ReturnType<typeof fs.stat>>
+	try {
+		info = await fs.stat(target)
+	} catch {
+		return null
+	}
+	if (!info.isDirectory()) return hashFile(target)
+
+	const entries = (await fs.readdir(target, { recursive: true })).sort()
+	const hash = crypto.createHash('sha256')
+	for (const entry of entries) {
+		const file = path.join(target, entry)
+		if ((await fs.stat(file)).isDirectory()) continue
+		hash.update(`${entry.split(path.sep).join('/')}\0${await hashFile(file)}\n`)
+	}
+	return hash.digest('hex')
+}
+
+/**
+ * Hash everything a step's result depends on
+ *
+ * Missing files hash as null, so a dependency appearing (e.g. chat.db-wal)
+ * or disappearing counts as a change.
+ */
+export async function hashStep(step: PipelineStep): Promise<string> {
+	const files: Array<[string, string | null]> = []
+	for (const file of [...step.inputs, ...step.dependencies]) {
+		files.push([file, await hashPath(file)])
+	}
+	return crypto
+		.createHash('sha256')
+		.update(JSON.stringify({ id: step.id, files, options: step.options }))
+		.digest('hex')
+}
+
+/**
+ * Decide whether a step must run
+ *
+ * @param hash - Current hashStep() value
+ * @param force - Run even when nothing changed
+ */
+export async function checkStep(
+	step: PipelineStep,
+	record: StepRecord | undefined,
+	hash: string,
+	force = false,
+): Promise<StepDecision> {
+	const interrupted = record?.status === 'started' && record.hash === hash
+	const rerun = (reason: StepDecision['reason']): StepDecision => ({
+		run: true,
+		reason,
+		resume: interrupted,
+	})
+
+	if (force) return rerun('forced')
+	if (!record) return rerun('new')
+	if (record.hash !== hash) return rerun('inputs changed')
+	if (interrupted) return rerun('interrupted')
+
+	const outputHash = await hashPath(step.output)
+	if (outputHash === null) return rerun('output missing')
+	if (outputHash !== record.outputHash) return rerun('output changed')
+	return { run: false, reason: 'unchanged', resume: false }
+}
@@ -230,6 +230,32 @@ describe('PipelineProgressTracker', () => {
 
 			humanInfoSpy.mockRestore()
 		})
+
+		it('should list recorded stages with their outcome', () => {
+			const humanInfoSpy = vi.spyOn(humanUtils, 'humanInfo')
+
+			tracker.recordStage({
+				name: 'ingest-csv:1',
+				status: 'skipped',
+				reason: 'unchanged',
+			})
+			tracker.recordStage({
+				name: 'render',
+				status: 'ran',
+				reason: 'inputs changed',
+				durationMs: 1500,
+			})
+
+			tracker.showFinalSummary()
+
+			const lines = humanInfoSpy.mock.calls.map((call) => String(call[0]))
+			expect(lines).toContain('\n🧩 Stages:')
+			expect(lines).toContain('  ⏭️  ingest-csv:1  skipped (unchanged)')
+			expect(lines).toContain('  ✓ render        ran (inputs changed) 1.50s')
+			expect(tracker.getStages()).toHaveLength(2)
+
+			humanInfoSpy.mockRestore()
+		})
 	})
 
 	describe('Statistics tracking', () => {
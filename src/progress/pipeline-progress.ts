@@ -29,6 +29,17 @@ export type PipelineStats = {
 	endTime?: number
 }
 
+/**
+ * Outcome of one pipeline stage, listed in the final summary
+ */
+export type StageResult = {
+	name: string
+	status: 'ran' | 'skipped' | 'failed'
+	/** Why the stage ran or was skipped, e.g. "inputs changed" */
+	reason?: string
+	durationMs?: number
+}
+
 /**
  * Progress tracking across ingest, normalize, and render stages
  * Provides simpler progress bars for non-enrichment stages with final summary
@@ -37,6 +48,7 @@ export class PipelineProgressTracker {
 	private progressManager: ProgressManager
 	private quiet: boolean
 	private stats: PipelineStats
+	private stages: StageResult[] = []
 	private spinnerIndex = 0
 	private spinnerInterval: NodeJS.Timeout | null = null
 
@@ -196,6 +208,13 @@ export class PipelineProgressTracker {
 		this.stats = { ...this.stats, ...stats }
 	}
 
+	/**
+	 * Record the outcome of a stage for the final summary
+	 */
+	public recordStage(result: StageResult): void {
+		this.stages.push(result)
+	}
+
 	/**
 	 * AC05: Final summary - Always shown even with --quiet
 	 * Displays comprehensive statistics about pipeline execution
@@ -210,6 +229,21 @@ export class PipelineProgressTracker {
 		humanInfo('✓ Pipeline Execution Summary')
 		humanInfo('═'.repeat(60))
 
+		if (this.stages.length > 0) {
+			const icons = { ran: '✓', skipped: '⏭️ ', failed: '✗' }
+			const width = Math.max(...this.stages.map((stage) => stage.name.length))
+			humanInfo('\n🧩 Stages:')
+			for (const stage of this.stages) {
+				const duration =
+					stage.durationMs === undefined
+						? ''
+						: ` ${(stage.durationMs / 1000).toFixed(2)}s`
+				humanInfo(
+					`  ${icons[stage.status]} ${stage.name.padEnd(width)}  ${stage.status}${stage.reason ? ` (${stage.reason})` : ''}${duration}`,
+				)
+			}
+		}
+
 		humanInfo('\n📊 Processing Statistics:')
 		humanInfo(`  Total Messages:        ${this.stats.totalMessages}`)
 		humanInfo(`  Ingested:              ${this.stats.ingestedMessages}`)
@@ -258,6 +292,13 @@ export class PipelineProgressTracker {
 		return Object.freeze({ ...this.stats })
 	}
 
+	/**
+	 * Get recorded stage outcomes
+	 */
+	public getStages(): ReadonlyArray<StageResult> {
+		return [...this.stages]
+	}
+
 	/**
 	 * Check if progress is visible
 	 */
@@ -587,6 +587,148 @@ describe('RENDER--T04: Determinism Test Suite', () => {
 			expect(output1).toEqual(output2)
 		})
 	})
+
+	// ============================================================================
+	// Timezones and DST transitions
+	// ============================================================================
+
+	describe('Timezones and DST transitions', () => {
+		/**
+		 * Render and return the markdown for one day, failing if it is missing
+		 */
+		function renderDay(messages: Message[], timezone: string, date: string): string {
+			const markdown = renderMessages(messages, { timezone }).get(date)
+			expect(markdown, `${date} in ${timezone}`).toBeDefined()
+			return markdown ?? ''
+		}
+
+		it('renders headers, sections and timestamps in the given timezone', () => {
+			const messages = [
+				createTestMessageFactory({
+					guid: 'msg-melb',
+					date: '2025-10-17T10:00:00Z',
+					text: 'Dinner at 9?',
+				}),
+			]
+
+			const output = renderMessages(messages, {
+				timezone: 'Australia/Melbourne',
+			})
+			expect(Array.from(output.keys())).toEqual(['2025-10-17'])
+			const markdown = output.get('2025-10-17') ?? ''
+			expect(markdown).toContain('# 2025-10-17')
+			expect(markdown).toContain('## Evening')
+			expect(markdown).toContain('[21:00:00]')
+
+			// The library default stays UTC
+			const utc = renderMessages(messages).get('2025-10-17') ?? ''
+			expect(utc).toContain('## Morning')
+			expect(utc).toContain('[10:00:00]')
+		})
+
+		it('keeps repeated wall-clock times in order when clocks go back (Melbourne, 2025-04-06)', () => {
+			// 03:00 AEDT becomes 02:00 AEST, so 02:30 happens twice
+			const messages = [
+				createTestMessageFactory({
+					guid: 'msg-second',
+					date: '2025-04-05T16:30:00Z',
+					text: 'Second 02:30 (AEST)',
+				}),
+				createTestMessageFactory({
+					guid: 'msg-first',
+					date: '2025-04-05T15:30:00Z',
+					text: 'First 02:30 (AEDT)',
+				}),
+			]
+
+			const markdown = renderDay(messages, 'Australia/Melbourne', '2025-04-06')
+			expect(markdown.match(/\[02:30:00\]/g)).toHaveLength(2)
+			expect(markdown.indexOf('First 02:30')).toBeLessThan(markdown.indexOf('Second 02:30'))
+		})
+
+		it('skips the missing hour when clocks go forward (Melbourne, 2025-10-05)', () => {
+			// 02:00 AEST becomes 03:00 AEDT
+			const messages = [
+				createTestMessageFactory({
+					guid: 'msg-before',
+					date: '2025-10-04T15:59:59Z',
+					text: 'Before the change',
+				}),
+				createTestMessageFactory({
+					guid: 'msg-after',
+					date: '2025-10-04T16:00:00Z',
+					text: 'After the change',
+				}),
+			]
+
+			const markdown = renderDay(messages, 'Australia/Melbourne', '2025-10-05')
+			expect(markdown).toContain('[01:59:59]')
+			expect(markdown).toContain('[03:00:00]')
+			expect(markdown).not.toContain('[02:')
+		})
+
+		it('handles both US transitions (New York, 2025-03-09 and 2025-11-02)', () => {
+			const spring = [
+				createTestMessageFactory({
+					guid: 'msg-spring-1',
+					date: '2025-03-09T06:59:00Z',
+					text: 'EST',
+				}),
+				createTestMessageFactory({
+					guid: 'msg-spring-2',
+					date: '2025-03-09T07:00:00Z',
+					text: 'EDT',
+				}),
+			]
+			const springDay = renderDay(spring, 'America/New_York', '2025-03-09')
+			expect(springDay).toContain('[01:59:00]')
+			expect(springDay).toContain('[03:00:00]')
+
+			const fall = [
+				createTestMessageFactory({
+					guid: 'msg-fall-1',
+					date: '2025-11-02T05:30:00Z',
+					text: 'First 01:30 (EDT)',
+				}),
+				createTestMessageFactory({
+					guid: 'msg-fall-2',
+					date: '2025-11-02T06:30:00Z',
+					text: 'Second 01:30 (EST)',
+				}),
+			]
+			const fallDay = renderDay(fall, 'America/New_York', '2025-11-02')
+			expect(fallDay.match(/\[01:30:00\]/g)).toHaveLength(2)
+			expect(fallDay.indexOf('First 01:30')).toBeLessThan(fallDay.indexOf('Second 01:30'))
+		})
+
+		it('renders DST fixtures identically across runs for a given timezone', () => {
+			const messages = [
+				'2025-04-05T15:30:00Z',
+				'2025-04-05T16:30:00Z',
+				'2025-10-04T15:59:59Z',
+				'2025-10-04T16:00:00Z',
+				'2025-03-09T06:59:00Z',
+				'2025-03-09T07:00:00Z',
+				'2025-11-02T05:30:00Z',
+				'2025-11-02T06:30:00Z',
+			].map((date, i) =>
+				createTestMessageFactory({
+					guid: `msg-dst-${String(i).padStart(3, '0')}`,
+					date,
+					text: `DST fixture ${i}`,
+				}),
+			)
+
+			for (const timezone of ['UTC', 'Australia/Melbourne', 'America/New_York']) {
+				const result = verifyDeterminism(messages, 5, { timezone })
+				expect(result.isDeterministic, timezone).toBe(true)
+			}
+
+			expect(
+				normalizeSnapshotMap(renderMessages(messages, { timezone: 'Australia/Melbourne' })),
+			).not.toEqual(normalizeSnapshotMap(renderMessages(messages)))
+		})
+	})
 })
 
 /**
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import type { Message } from '#schema/message'
+import { renderMessages } from '../index'
+
+function createMessage(guid: string, date: string, overrides: Partial<Message> = {}): Message {
+	return {
+		guid,
+		messageKind: 'text',
+		text: `message ${guid}`,
+		isFromMe: false,
+		date,
+		handle: '+61400111222',
+		...overrides,
+	}
+}
+
+const messages: Message[] = [
+	createMessage('a', '2025-10-17T09:00:00.000Z'),
+	createMessage('b', '2025-10-17T09:01:00.000Z', {
+		replyingTo: { targetMessageGuid: 'a' },
+	}),
+	createMessage('c', '2025-10-17T09:02:00.000Z', {
+		replyingTo: { targetMessageGuid: 'b' },
+	}),
+	createMessage('d', '2025-10-17T20:00:00.000Z'),
+	{
+		...createMessage('t', '2025-10-17T20:01:00.000Z', { messageKind: 'tapback' }),
+		text: null,
+		tapback: { type: 'loved', action: 'added', targetMessageGuid: 'd' },
+	},
+]
+
+function render(options: Parameters<typeof renderMessages>[1] = {}): string {
+	return renderMessages(messages, options).get('2025-10-17') ?? ''
+}
+
+describe('renderMessages options', () => {
+	it('defaults to time-of-day sections, nested replies and emoji reactions', () => {
+		const markdown = render()
+
+		expect(markdown).toContain('## Morning (00:00 - 11:59)')
+		expect(markdown).toContain('## Evening (18:00 - 23:59)')
+		expect(markdown).toContain('**Replies:**')
+		expect(markdown).toContain('    >>> **+61400111222**: message c')
+		expect(markdown).toContain('**Reactions:** 😍')
+	})
+
+	it('lists the day without sections when groupByTimeOfDay is false', () => {
+		const markdown = render({ groupByTimeOfDay: false })
+
+		expect(markdown).not.toContain('## ')
+		expect(markdown.indexOf('message a')).toBeLessThan(markdown.indexOf('message d'))
+	})
+
+	it('leaves replies out of their parent when renderRepliesAsNested is false', () => {
+		expect(render({ renderRepliesAsNested: false })).not.toContain('**Replies:**')
+	})
+
+	it('caps reply nesting at maxNestingDepth', () => {
+		const markdown = render({ maxNestingDepth: 1 })
+
+		expect(markdown).toContain('  >> **+61400111222**: message c')
+		expect(markdown).not.toContain('>>>')
+	})
+
+	it('names reactions when renderTapbacksAsEmoji is false', () => {
+		expect(render({ renderTapbacksAsEmoji: false })).toContain('**Reactions:** loved')
+	})
+})
@@ -173,6 +173,18 @@ describe('RENDER--T02: Nested Reply and Tapback Rendering', () => {
 			expect(emoji).toBe('❤️')
 		})
 
+		it('should render emoji reactions with their own emoji', () => {
+			const tapbackMsg: Message = {
+				guid: 'tapback',
+				messageKind: 'tapback',
+				isFromMe: false,
+				date: '2025-10-17T10:01:00.000Z',
+				tapback: { type: 'emoji', action: 'added', emoji: '🎉' },
+			}
+
+			expect(renderTapbackAsEmoji(tapbackMsg)).toBe('🎉')
+		})
+
 		it('should handle unknown tapback type gracefully', () => {
 			const emoji = getTapbackEmoji('unknown' as any)
 			expect(emoji).toBeDefined()
@@ -344,6 +356,40 @@ describe('RENDER--T02: Nested Reply and Tapback Rendering', () => {
 			expect(rendered).toContain('**Bob**')
 		})
 
+		it('should attribute outgoing replies to Me rather than their handle', () => {
+			const replyMsg: Message = {
+				guid: 'reply',
+				messageKind: 'text',
+				isFromMe: true,
+				date: '2025-10-17T10:01:00.000Z',
+				text: 'Reply message',
+				handle: '+61400111222',
+			}
+
+			const rendered = renderReplyAsBlockquote(replyMsg, 0)
+
+			expect(rendered).toContain('**Me**')
+			expect(rendered).not.toContain('+61400111222')
+		})
+
+		it('should use the resolved contact name when a resolver is given', () => {
+			const replyMsg: Message = {
+				guid: 'reply',
+				messageKind: 'text',
+				isFromMe: false,
+				date: '2025-10-17T10:01:00.000Z',
+				text: 'Reply message',
+				handle: '+61400111222',
+			}
+
+			const rendered = renderReplyAsBlockquote(replyMsg, 0, (m) =>
+				m.handle === '+61400111222' ? 'Jane Doe' : undefined,
+			)
+
+			expect(rendered).toContain('**Jane Doe**')
+			expect(rendered).not.toContain('+61400111222')
+		})
+
 		it('should preserve sender through multi-level nesting', () => {
 			const messages: Message[] = [
 				createTestMessage('parent', 'Parent', undefined),
@@ -1,6 +1,13 @@
 import { describe, expect, it } from 'vitest'
 
-import { classifyTimeOfDay, extractDate, sortByTimestamp } from '../grouping'
+import {
+	classifyTimeOfDay,
+	extractDate,
+	getZonedParts,
+	groupMessagesByDateAndTimeOfDay,
+	isValidTimeZone,
+	sortByTimestamp,
+} from '../grouping'
 
 interface TestCase {
 	label: string
@@ -60,3 +67,59 @@ describe('UTC normalization and time-of-day classification', () => {
 		expect(sorted.map((m) => m.id)).toEqual(['a', 'b', 'c'])
 	})
 })
+
+describe('Render timezone', () => {
+	it('files a 9pm Melbourne chat under that evening, not the next UTC morning', () => {
+		// 21:00 AEDT on 17 October is 10:00 UTC the same day
+		const iso = '2025-10-17T10:00:00Z'
+		expect(extractDate(iso, 'Australia/Melbourne')).toBe('2025-10-17')
+		expect(classifyTimeOfDay(iso, 'Australia/Melbourne')).toBe('evening')
+		expect(classifyTimeOfDay(iso)).toBe('morning')
+	})
+
+	it('moves late-evening messages to the next day east of UTC', () => {
+		// 23:30 UTC is 10:30 the following morning in Melbourne
+		const iso = '2025-10-17T23:30:00Z'
+		expect(extractDate(iso)).toBe('2025-10-17')
+		expect(extractDate(iso, 'Australia/Melbourne')).toBe('2025-10-18')
+		expect(classifyTimeOfDay(iso, 'Australia/Melbourne')).toBe('morning')
+	})
+
+	it('moves early-morning messages to the previous day west of UTC', () => {
+		// 03:00 UTC is 23:00 the previous evening in New York (EDT)
+		const iso = '2025-06-02T03:00:00Z'
+		expect(extractDate(iso, 'America/New_York')).toBe('2025-06-01')
+		expect(classifyTimeOfDay(iso, 'America/New_York')).toBe('evening')
+	})
+
+	it('groups by the calendar day in the timezone', () => {
+		const messages = [
+			{ guid: 'a', date: '2025-10-17T10:00:00Z' },
+			{ guid: 'b', date: '2025-10-17T14:00:00Z' },
+		] as Parameters<typeof groupMessagesByDateAndTimeOfDay>[0]
+
+		const grouped = groupMessagesByDateAndTimeOfDay(messages, 'Australia/Melbourne')
+		expect(Object.keys(grouped).sort()).toEqual(['2025-10-17', '2025-10-18'])
+		expect(grouped['2025-10-17']?.evening.map((m) => m.guid)).toEqual(['a'])
+		expect(grouped['2025-10-18']?.morning.map((m) => m.guid)).toEqual(['b'])
+	})
+
+	it('reads wall-clock parts on a 00-23 hour cycle', () => {
+		expect(getZonedParts('2025-01-01T00:00:05Z')).toEqual({
+			year: 2025,
+			month: 1,
+			day: 1,
+			hour: 0,
+			minute: 0,
+			second: 5,
+		})
+		expect(getZonedParts('2025-01-01T13:00:00Z', 'Asia/Kolkata').hour).toBe(18)
+	})
+
+	it('validates IANA timezone names', () => {
+		expect(isValidTimeZone('Australia/Melbourne')).toBe(true)
+		expect(isValidTimeZone('UTC')).toBe(true)
+		expect(isValidTimeZone('Not/A_Zone')).toBe(false)
+		expect(() => extractDate('2025-01-01T00:00:00Z', 'Not/A_Zone')).toThrow()
+	})
+})
@@ -7,6 +7,10 @@
  * - AC03: Generate unique anchor IDs (#msg-{guid})
  * - AC04: Obsidian-compatible deep-link anchors
  * - AC05: Maintain chronological ordering within time-of-day groups
+ *
+ * Dates and times of day are read in an IANA timezone (default UTC), so a
+ * chat at 9pm in Melbourne lands on that evening's page rather than the next
+ * morning's. Output depends only on the timezone, never on the machine.
  */
 
 import type { Message } from '#schema/message'
@@ -23,6 +27,81 @@ function normalizeIsoUtc(input: string): string {
 	return new Date(coerced).toISOString()
 }
 
+/**
+ * Wall-clock fields of an instant in a timezone
+ */
+export type ZonedParts = {
+	year: number
+	month: number
+	day: number
+	hour: number
+	minute: number
+	second: number
+}
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>()
+
+function zoneFormatter(timeZone: string): Intl.DateTimeFormat {
+	let formatter = zoneFormatters.get(timeZone)
+	if (!formatter) {
+		formatter = new Intl.DateTimeFormat('en-US', {
+			timeZone,
+			hourCycle: 'h23',
+			year: 'numeric',
+			month: '2-digit',
+			day: '2-digit',
+			hour: '2-digit',
+			minute: '2-digit',
+			second: '2-digit',
+		})
+		zoneFormatters.set(timeZone, formatter)
+	}
+	return formatter
+}
+
+/**
+ * Read a timestamp's wall-clock date and time in an IANA timezone
+ *
+ * @throws RangeError when the timezone is not a known IANA name
+ */
+export function getZonedParts(
+	isoTimestamp: string,
+	timeZone = 'UTC',
+): ZonedParts {
+	const date = new Date(normalizeIsoUtc(isoTimestamp))
+	const parts: Record<string, number> = {}
+	for (const part of zoneFormatter(timeZone).formatToParts(date)) {
+		if (part.type !== 'literal') parts[part.type] = Number(part.value)
+	}
+	return {
+		year: parts.year ?? 0,
+		month: parts.month ?? 0,
+		day: parts.day ?? 0,
+		hour: parts.hour ?? 0,
+		minute: parts.minute ?? 0,
+		second: parts.second ?? 0,
+	}
+}
+
+/**
+ * Check that a name is an IANA timezone this runtime knows
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+	try {
+		zoneFormatter(timeZone)
+		return true
+	} catch {
+		return false
+	}
+}
+
+/**
+ * The machine's IANA timezone, used when none is configured
+ */
+export function getSystemTimeZone(): string {
+	return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+}
+
 /**
  * Time-of-day classification
  */
@@ -50,10 +129,13 @@ export type GroupedMessages = {
  * Morning: 00:00-11:59
  * Afternoon: 12:00-17:59
  * Evening: 18:00-23:59
+ * Hours are wall-clock hours in `timeZone` (default UTC)
  */
-export function classifyTimeOfDay(isoTimestamp: string): TimeOfDay {
-	const date = new Date(normalizeIsoUtc(isoTimestamp))
-	const hours = date.getUTCHours()
+export function classifyTimeOfDay(
+	isoTimestamp: string,
+	timeZone = 'UTC',
+): TimeOfDay {
+	const hours = getZonedParts(isoTimestamp, timeZone).hour
 
 	if (hours < 12) {
 		return 'morning'
@@ -74,13 +156,11 @@ export function generateAnchorId(guid: string): string {
 
 /**
  * AC01: Extract date from ISO timestamp in YYYY-MM-DD format
+ * The date is the calendar day in `timeZone` (default UTC)
  */
-export function extractDate(isoTimestamp: string): string {
-	const date = new Date(normalizeIsoUtc(isoTimestamp))
-	const year = date.getUTCFullYear()
-	const month = String(date.getUTCMonth() + 1).padStart(2, '0')
-	const day = String(date.getUTCDate()).padStart(2, '0')
-	return `${year}-${month}-${day}`
+export function extractDate(isoTimestamp: string, timeZone = 'UTC'): string {
+	const { year, month, day } = getZonedParts(isoTimestamp, timeZone)
+	return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
 }
 
 /**
@@ -101,13 +181,14 @@ export function sortByTimestamp(messages: Message[]): Message[] {
  */
 export function groupMessagesByDateAndTimeOfDay(
 	messages: Message[],
+	timeZone = 'UTC',
 ): GroupedMessages {
 	const grouped: GroupedMessages = {}
 
 	// First pass: create date groups and classify by time-of-day
 	for (const message of messages) {
-		const date = extractDate(message.date)
-		const timeOfDay = classifyTimeOfDay(message.date)
+		const date = extractDate(message.date, timeZone)
+		const timeOfDay = classifyTimeOfDay(message.date, timeZone)
 
 		// Initialize date group if not exists
 		if (!grouped[date]) {
@@ -12,19 +12,42 @@
 import { createHash } from 'node:crypto'
 import type { Message } from '#schema/message'
 import { renderAllEnrichments } from './embeds-blockquotes.js'
-import { getDatesSorted, groupMessagesByDateAndTimeOfDay } from './grouping.js'
-import { formatReplyThread } from './reply-rendering.js'
+import {
+	getDatesSorted,
+	getZonedParts,
+	groupMessagesByDateAndTimeOfDay,
+} from './grouping.js'
+import {
+	formatReplyThread,
+	getDefaultSenderName,
+	type SenderResolver,
+} from './reply-rendering.js'
+
+export type RenderOptions = {
+	/** Display name for a message's sender (default: "Me" or the raw handle) */
+	resolveSender?: SenderResolver
+	/** Split each day into Morning/Afternoon/Evening sections (default true) */
+	groupByTimeOfDay?: boolean
+	/** Repeat replies as nested blockquotes under their parent (default true) */
+	renderRepliesAsNested?: boolean
+	/** Deepest reply level; deeper replies render at this level (default 10) */
+	maxNestingDepth?: number
+	/** Show reactions as emoji rather than by name (default true) */
+	renderTapbacksAsEmoji?: boolean
+	/** IANA timezone for day pages, headers and timestamps (default UTC) */
+	timezone?: string
+}
 
 /**
- * Deterministic UTC-time formatter (HH:mm:ss, 00-23 hour range)
- * Uses getUTCHours()/getUTCMinutes()/getUTCSeconds() to ensure consistent output across timezones.
- * CI and local machines will produce identical snapshots regardless of system timezone.
+ * Deterministic wall-clock formatter (HH:mm:ss, 00-23 hour range)
+ * Reads the time in the given IANA timezone rather than the system one, so
+ * CI and local machines produce identical snapshots for the same timezone.
  */
-function formatTimeLocal(iso: string): string {
-	const d = new Date(iso)
-	const hh = String(d.getUTCHours()).padStart(2, '0')
-	const mm = String(d.getUTCMinutes()).padStart(2, '0')
-	const ss = String(d.getUTCSeconds()).padStart(2, '0')
+function formatTimeLocal(iso: string, timeZone = 'UTC'): string {
+	const { hour, minute, second } = getZonedParts(iso, timeZone)
+	const hh = String(hour).padStart(2, '0')
+	const mm = String(minute).padStart(2, '0')
+	const ss = String(second).padStart(2, '0')
 	return `${hh}:${mm}:${ss}`
 }
 
@@ -32,7 +55,10 @@ function formatTimeLocal(iso: string): string {
  * Main render function: Convert messages to markdown files
  * Returns Map<date, markdown> with deterministic output
  */
-export function renderMessages(messages: Message[]): Map<string, string> {
+export function renderMessages(
+	messages: Message[],
+	options: RenderOptions = {},
+): Map<string, string> {
 	// Normalize all message dates to canonical UTC ISO (YYYY-MM-DDTHH:mm:ss.sssZ)
 	// This prevents environment-specific parsing differences for inputs lacking 'Z'.
 	const normalized: Message[] = messages.map((m) => {
@@ -50,8 +76,8 @@ export function renderMessages(messages: Message[]): Map<string, string> {
 	// Sort messages deterministically by timestamp, then by GUID
 	const sorted = sortMessagesByTimestamp(normalized)
 
-	// Group by date and time-of-day
-	const grouped = groupMessagesByDateAndTimeOfDay(sorted)
+	// Group by date and time-of-day in the render timezone
+	const grouped = groupMessagesByDateAndTimeOfDay(sorted, options.timezone)
 
 	// Render each date
 	const output = new Map<string, string>()
@@ -60,7 +86,7 @@ export function renderMessages(messages: Message[]): Map<string, string> {
 	for (const date of dates) {
 		const dayGroup = grouped[date]
 		if (dayGroup) {
-			const markdown = renderDateSection(date, dayGroup, sorted)
+			const markdown = renderDateSection(date, dayGroup, sorted, options)
 			if (markdown) {
 				output.set(date, markdown)
 			}
@@ -81,6 +107,7 @@ function renderDateSection(
 		evening: Message[]
 	},
 	allMessages: Message[],
+	options: RenderOptions,
 ): string {
 	const sections: string[] = []
 
@@ -88,10 +115,27 @@ function renderDateSection(
 	sections.push(`# ${date}`)
 	sections.push('')
 
+	if (options.groupByTimeOfDay === false) {
+		sections.push(
+			renderTimeOfDayMessages(
+				[
+					...timeOfDayGroup.morning,
+					...timeOfDayGroup.afternoon,
+					...timeOfDayGroup.evening,
+				],
+				allMessages,
+				options,
+			),
+		)
+		return sections.join('\n').trim()
+	}
+
 	// Morning section
 	if (timeOfDayGroup.morning.length > 0) {
 		sections.push('## Morning (00:00 - 11:59)')
-		sections.push(renderTimeOfDayMessages(timeOfDayGroup.morning, allMessages))
+		sections.push(
+			renderTimeOfDayMessages(timeOfDayGroup.morning, allMessages, options),
+		)
 		sections.push('')
 	}
 
@@ -99,7 +143,7 @@ function renderDateSection(
 	if (timeOfDayGroup.afternoon.length > 0) {
 		sections.push('## Afternoon (12:00 - 17:59)')
 		sections.push(
-			renderTimeOfDayMessages(timeOfDayGroup.afternoon, allMessages),
+			renderTimeOfDayMessages(timeOfDayGroup.afternoon, allMessages, options),
 		)
 		sections.push('')
 	}
@@ -107,7 +151,9 @@ function renderDateSection(
 	// Evening section
 	if (timeOfDayGroup.evening.length > 0) {
 		sections.push('## Evening (18:00 - 23:59)')
-		sections.push(renderTimeOfDayMessages(timeOfDayGroup.evening, allMessages))
+		sections.push(
+			renderTimeOfDayMessages(timeOfDayGroup.evening, allMessages, options),
+		)
 		sections.push('')
 	}
 
@@ -120,11 +166,12 @@ function renderDateSection(
 function renderTimeOfDayMessages(
 	messages: Message[],
 	allMessages: Message[],
+	options: RenderOptions,
 ): string {
 	const parts: string[] = []
 
 	for (const message of messages) {
-		const rendered = renderSingleMessage(message, allMessages)
+		const rendered = renderSingleMessage(message, allMessages, options)
 		if (rendered) {
 			parts.push(rendered)
 		}
@@ -136,16 +183,24 @@ function renderTimeOfDayMessages(
 /**
  * Render a single message with all its enrichments and replies
  */
-function renderSingleMessage(message: Message, allMessages: Message[]): string {
+function renderSingleMessage(
+	message: Message,
+	allMessages: Message[],
+	options: RenderOptions,
+): string {
 	const parts: string[] = []
 
 	// Message anchor for deep linking
 	const anchor = `[#${message.guid}](#msg-${message.guid})`
 
 	// Message header with timestamp and sender
-	const time = formatTimeLocal(message.date)
+	const time = formatTimeLocal(message.date, options.timezone)
 
-	const header = `${anchor} **${message.handle || 'Unknown'}** [${time}]`
+	const sender =
+		options.resolveSender?.(message) ??
+		getDefaultSenderName(message) ??
+		'Unknown'
+	const header = `${anchor} **${sender}** [${time}]`
 	parts.push(header)
 
 	// Message text
@@ -176,8 +231,20 @@ function renderSingleMessage(message: Message, allMessages: Message[]): string {
 	}
 
 	// Render replies
-	const replies = formatReplyThread(message.guid, allMessages)
-	if (replies && replies.replies.length > 0) {
+	const replies = formatReplyThread(
+		message.guid,
+		allMessages,
+		options.resolveSender,
+		{
+			maxDepth: options.maxNestingDepth ?? 10,
+			tapbacksAsEmoji: options.renderTapbacksAsEmoji ?? true,
+		},
+	)
+	if (
+		options.renderRepliesAsNested !== false &&
+		replies &&
+		replies.replies.length > 0
+	) {
 		parts.push('**Replies:**')
 		for (const reply of replies.replies) {
 			parts.push(reply.formatted)
@@ -235,12 +302,13 @@ export type DeterminismResult = {
 export function verifyDeterminism(
 	messages: Message[],
 	runsCount = 5,
+	options: RenderOptions = {},
 ): DeterminismResult {
 	const outputs: Map<string, string>[] = []
 	const hashes: string[] = []
 
 	for (let i = 0; i < runsCount; i++) {
-		const output = renderMessages(messages)
+		const output = renderMessages(messages, options)
 		const hash = getMessageHash(messages)
 
 		outputs.push(output)
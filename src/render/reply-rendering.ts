@@ -10,6 +10,7 @@
  */
 
 import type { Message } from '#schema/message'
+import { DEFAULT_SELF_NAME } from '../contacts/self.js'
 
 /**
  * Reply context for rendering
@@ -120,12 +121,28 @@ export function formatReplyWithIndentation(
 	return `${indent}${blockquotePrefix}`
 }
 
+/**
+ * Display name for a message's sender; undefined falls back to
+ * getDefaultSenderName
+ */
+export type SenderResolver = (message: Message) => string | undefined
+
+/**
+ * Sender name without a resolver: "Me" for outgoing messages (whose handle
+ * is the other party in chat.db), otherwise the raw handle
+ */
+export function getDefaultSenderName(message: Message): string | undefined {
+	if (message.isFromMe) return DEFAULT_SELF_NAME
+	return message.handle || undefined
+}
+
 /**
  * AC01, AC05: Render reply as nested blockquote with sender attribution
  */
 export function renderReplyAsBlockquote(
 	message: Message,
 	level: number,
+	resolveSender?: SenderResolver,
 ): string {
 	if (message.messageKind !== 'text' && !message.text) {
 		return ''
@@ -136,8 +153,9 @@ export function renderReplyAsBlockquote(
 
 	// Build sender attribution
 	let senderLine = ''
-	if (message.handle) {
-		senderLine = `${indent}${blockquotePrefix} **${message.handle}**: `
+	const sender = resolveSender?.(message) ?? getDefaultSenderName(message)
+	if (sender) {
+		senderLine = `${indent}${blockquotePrefix} **${sender}**: `
 	} else {
 		senderLine = `${indent}${blockquotePrefix} `
 	}
@@ -166,6 +184,11 @@ export function renderTapbackAsEmoji(message: Message): string {
 		return ''
 	}
 
+	// Emoji reactions carry their own emoji
+	if (message.tapback.type === 'emoji' && message.tapback.emoji) {
+		return message.tapback.emoji
+	}
+
 	return getTapbackEmoji(message.tapback.type)
 }
 
@@ -267,7 +290,11 @@ export type FormattedReplyThread = {
 export function formatReplyThread(
 	parentGuid: string,
 	messages: Message[],
+	resolveSender?: SenderResolver,
+	options: { maxDepth?: number; tapbacksAsEmoji?: boolean } = {},
 ): FormattedReplyThread | null {
+	const { maxDepth = Number.POSITIVE_INFINITY, tapbacksAsEmoji = true } =
+		options
 	const messageMap = new Map(messages.map((m) => [m.guid, m]))
 	const parentMessage = messageMap.get(parentGuid)
 
@@ -287,7 +314,11 @@ export function formatReplyThread(
 
 		for (const reply of directReplies) {
 			const level = baseLevel + 1
-			const formatted = renderReplyAsBlockquote(reply, level)
+			const formatted = renderReplyAsBlockquote(
+				reply,
+				Math.min(level, maxDepth),
+				resolveSender,
+			)
 
 			replies.push({
 				message: reply,
@@ -304,7 +335,9 @@ export function formatReplyThread(
 
 	// Get tapbacks
 	const tapbackMessages = findTapbacksForMessage(parentGuid, messages)
-	const tapbacks = tapbackMessages.map((t) => renderTapbackAsEmoji(t))
+	const tapbacks = tapbackMessages.map((t) =>
+		tapbacksAsEmoji ? renderTapbackAsEmoji(t) : (t.tapback?.type ?? ''),
+	)
 
 	return {
 		parentMessage,
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+
+import type { Message } from '../message'
+import {
+	CURRENT_SCHEMA_VERSION,
+	compareSchemaVersions,
+	createMessageMigrator,
+	MIGRATIONS,
+	planMigrations,
+	type SchemaMigration,
+} from '../migrations'
+
+describe('schema migrations', () => {
+	const step = (from: string, to: string): SchemaMigration => ({
+		from,
+		to,
+		description: `${from} → ${to}`,
+		migrateMessage: (message) => ({ ...message, text: `${message.text ?? ''}|${to}` }),
+	})
+
+	it('should chain migrations from every known version to the current one', () => {
+		for (const migration of MIGRATIONS) {
+			const plan = planMigrations(migration.from)
+			expect(plan.at(-1)?.to).toBe(CURRENT_SCHEMA_VERSION)
+		}
+		expect(planMigrations(CURRENT_SCHEMA_VERSION)).toEqual([])
+	})
+
+	it('should plan steps in order and refuse newer or unreachable versions', () => {
+		const migrations = [step('1.1.0', '2.0.0'), step('1.0.0', '1.1.0')]
+
+		expect(planMigrations('1.0.0', migrations, '2.0.0').map((m) => m.to)).toEqual([
+			'1.1.0',
+			'2.0.0',
+		])
+		expect(() => planMigrations('2.0.1', migrations, '2.0.0')).toThrow(
+			'schemaVersion 2.0.1 is newer than this chatline supports (2.0.0)',
+		)
+		expect(() => planMigrations('0.9.0', migrations, '2.0.0')).toThrow(
+			'No migration from schemaVersion 0.9.0 to 2.0.0',
+		)
+		expect(() => planMigrations('two', migrations, '2.0.0')).toThrow('Invalid schemaVersion')
+	})
+
+	it('should compare versions numerically', () => {
+		expect(compareSchemaVersions('2.10.0', '2.9.0')).toBeGreaterThan(0)
+		expect(compareSchemaVersions('2.0.0', '2.0.0')).toBe(0)
+		expect(compareSchemaVersions('1.9.9', '2.0.0')).toBeLessThan(0)
+	})
+
+	describe('2.0.0 → 2.1.0', () => {
+		const audio = (enrichment: Record<string, unknown>): Message => ({
+			guid: 'DB:1',
+			messageKind: 'media',
+			isFromMe: false,
+			date: '2025-10-17T10:00:00.000Z',
+			media: {
+				id: 'media:DB:1',
+				filename: 'memo.m4a',
+				path: '/tmp/memo.m4a',
+				enrichment: [
+					{
+						kind: 'transcription',
+						provider: 'gemini',
+						version: '1.0',
+						createdAt: '2025-10-17T10:00:00.000Z',
+						...enrichment,
+					},
+				],
+			},
+		})
+		const migrate = createMessageMigrator('2.0.0')
+
+		it('should move transcript to transcription', () => {
+			const [entry] = migrate(audio({ transcript: 'see you at six' })).media?.enrichment ?? []
+
+			expect(entry?.transcription).toBe('see you at six')
+			expect(entry).not.toHaveProperty('transcript')
+		})
+
+		it('should keep an existing transcription and leave other messages untouched', () => {
+			const both = audio({ transcript: 'old', transcription: 'new' })
+			expect(migrate(both).media?.enrichment?.[0]?.transcription).toBe('new')
+
+			const current = audio({ transcription: 'new' })
+			expect(migrate(current)).toBe(current)
+		})
+	})
+})
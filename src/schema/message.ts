@@ -50,15 +50,12 @@ export type MediaEnrichment = {
 	title?: string
 	summary?: string
 	// provenance
-	provider:
-		| 'gemini'
-		| 'firecrawl'
-		| 'local'
-		| 'youtube'
-		| 'spotify'
-		| 'twitter'
-		| 'instagram'
-		| 'generic'
+	/**
+	 * Who produced the enrichment: gemini, firecrawl, local, youtube, spotify,
+	 * twitter, instagram, generic, openai-compatible, or the name given to a
+	 * model backend in the config (e.g. "ollama")
+	 */
+	provider: string
 	version: string
 }
 
@@ -74,6 +71,8 @@ export type MediaMeta = {
 	filename: string
 	path: string
 	size?: number
+	/** SHA-256 of the file's contents (hex), set when normalize-link finds it */
+	sha256?: string
 	mimeType?: string
 	uti?: string | null
 	isSticker?: boolean
@@ -144,6 +143,20 @@ export type MessageCore = {
 	deletedFrom?: number | null
 }
 
+/**
+ * Where ingest took a message from; carried through the pipeline as is
+ */
+export type ExportMetadata = {
+	source?: 'csv' | 'db'
+	lineNumber?: number
+	parentGUID?: string
+	partIndex?: number
+	attachmentIndex?: number
+	/** Set when the text was decoded from the attributedBody blob */
+	textSource?: 'attributedBody'
+	[key: string]: unknown
+}
+
 export type Message = {
 	messageKind: 'text' | 'media' | 'tapback' | 'notification'
 	text?: string | null
@@ -157,8 +170,22 @@ export type Message = {
 	exportVersion?: string
 	isUnsent?: boolean
 	isEdited?: boolean
+	exportMetadata?: ExportMetadata
 } & MessageCore
 
+// ============================================================================
+// Conversation Types
+// ============================================================================
+
+export type Conversation = {
+	id: ChatId // chat GUID, matches Message.chatId
+	chatIdentifier?: string | null
+	displayName?: string | null
+	isGroup: boolean
+	service?: string | null
+	participants: Array<string> // handles, excluding self
+}
+
 // ============================================================================
 // Export Envelope
 // ============================================================================
@@ -168,6 +195,7 @@ export type ExportEnvelope = {
 	source: 'csv' | 'db' | 'merged'
 	createdAt: string
 	messages: Array<Message>
+	conversations?: Array<Conversation>
 	meta?: Record<string, unknown>
 }
 
@@ -223,16 +251,7 @@ export const MediaEnrichmentSchema: z.ZodType<MediaEnrichment> = z
 		url: z.string().url().optional(),
 		title: z.string().optional(),
 		summary: z.string().optional(),
-		provider: z.enum([
-			'gemini',
-			'firecrawl',
-			'local',
-			'youtube',
-			'spotify',
-			'twitter',
-			'instagram',
-			'generic',
-		]),
+		provider: z.string().min(1, 'enrichment.provider cannot be empty'),
 		version: z.string(),
 	})
 	.superRefine((enrichment, ctx) => {
@@ -278,6 +297,10 @@ export const MediaMetaSchema: z.ZodType<MediaMeta> = z
 		filename: z.string(),
 		path: z.string(),
 		size: z.number().optional(),
+		sha256: z
+			.string()
+			.regex(/^[0-9a-f]{64}$/, 'sha256 must be 64 lowercase hex digits')
+			.optional(),
 		mimeType: z.string().optional(),
 		uti: z.string().nullable().optional(),
 		isSticker: z.boolean().optional(),
@@ -496,6 +519,16 @@ export const MessageSchema: z.ZodType<Message> = z
 		}
 	})
 
+// Conversation Schema
+export const ConversationSchema: z.ZodType<Conversation> = z.object({
+	id: z.string().min(1),
+	chatIdentifier: z.string().nullable().optional(),
+	displayName: z.string().nullable().optional(),
+	isGroup: z.boolean(),
+	service: z.string().nullable().optional(),
+	participants: z.array(z.string()),
+})
+
 // Export Envelope Schema
 export const ExportEnvelopeSchema: z.ZodType<ExportEnvelope> = z
 	.object({
@@ -503,6 +536,7 @@ export const ExportEnvelopeSchema: z.ZodType<ExportEnvelope> = z
 		source: z.enum(['csv', 'db', 'merged']),
 		createdAt: z.string().datetime(),
 		messages: z.array(MessageSchema),
+		conversations: z.array(ConversationSchema).optional(),
 		meta: z.record(z.any()).optional(),
 	})
 	.superRefine((envelope, ctx) => {
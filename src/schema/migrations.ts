@@ -0,0 +1,125 @@
+// src/schema/migrations.ts
+import type { MediaEnrichment, Message } from './message'
+
+/**
+ * Export envelope schema migrations
+ *
+ * Every envelope records the schemaVersion it was written with. Reading an
+ * older envelope upgrades its messages step by step through MIGRATIONS to
+ * CURRENT_SCHEMA_VERSION; an envelope from a newer chatline is refused
+ * rather than misread. `chatline migrate` rewrites a file at the current
+ * version.
+ *
+ * To change the message format, bump CURRENT_SCHEMA_VERSION and append a
+ * migration from the previous version.
+ */
+
+export const CURRENT_SCHEMA_VERSION = '2.1.0'
+
+/** Version assumed for bare message arrays, which carry no header */
+export const UNVERSIONED_SCHEMA_VERSION = '2.0.0'
+
+export type SchemaMigration = {
+	from: string
+	to: string
+	description: string
+	/** Upgrade one message, returning it as is when nothing applies */
+	migrateMessage(message: Message): Message
+}
+
+export const MIGRATIONS: SchemaMigration[] = [
+	{
+		from: '2.0.0',
+		to: '2.1.0',
+		description:
+			'Move the deprecated enrichment `transcript` field to `transcription`',
+		migrateMessage(message) {
+			const enrichment = message.media?.enrichment
+			if (!message.media || !enrichment?.some((e) => 'transcript' in e)) {
+				return message
+			}
+			return {
+				...message,
+				media: {
+					...message.media,
+					enrichment: enrichment.map(moveTranscript),
+				},
+			}
+		},
+	},
+]
+
+function moveTranscript(enrichment: MediaEnrichment): MediaEnrichment {
+	if (!('transcript' in enrichment)) return enrichment
+	const { transcript, ...rest } = enrichment
+	const transcription = rest.transcription ?? transcript
+	return transcription === undefined ? rest : { ...rest, transcription }
+}
+
+/**
+ * Compare two `major.minor.patch` versions
+ *
+ * @returns Negative when a is older than b, 0 when equal, positive when newer
+ * @throws Error when either version is not `major.minor.patch`
+ */
+export function compareSchemaVersions(a: string, b: string): number {
+	const [partsA, partsB] = [parseVersion(a), parseVersion(b)]
+	for (let i = 0; i < 3; i++) {
+		const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0)
+		if (diff !== 0) return diff
+	}
+	return 0
+}
+
+function parseVersion(version: string): number[] {
+	if (!/^\d+\.\d+\.\d+$/.test(version)) {
+		throw new Error(`Invalid schemaVersion "${version}" (expected x.y.z)`)
+	}
+	return version.split('.').map(Number)
+}
+
+/**
+ * The migrations that take `fromVersion` to the current version, in order
+ *
+ * @throws Error when the version is newer than this chatline supports, or
+ * when no chain of migrations leads from it
+ */
+export function planMigrations(
+	fromVersion: string,
+	migrations: SchemaMigration[] = MIGRATIONS,
+	currentVersion: string = CURRENT_SCHEMA_VERSION,
+): SchemaMigration[] {
+	if (compareSchemaVersions(fromVersion, currentVersion) > 0) {
+		throw new Error(
+			`schemaVersion ${fromVersion} is newer than this chatline supports (${currentVersion}); upgrade chatline to read it`,
+		)
+	}
+
+	const plan: SchemaMigration[] = []
+	let version = fromVersion
+	while (compareSchemaVersions(version, currentVersion) < 0) {
+		const step = migrations.find((migration) => migration.from === version)
+		if (!step) {
+			throw new Error(
+				`No migration from schemaVersion ${version} to ${currentVersion}`,
+			)
+		}
+		plan.push(step)
+		version = step.to
+	}
+	return plan
+}
+
+/**
+ * A function upgrading one message from `fromVersion` to the current version
+ *
+ * @throws Error as planMigrations does
+ */
+export function createMessageMigrator(
+	fromVersion: string,
+): (message: Message) => Message {
+	const plan = planMigrations(fromVersion)
+	if (plan.length === 0) return (message) => message
+	return (message) =>
+		plan.reduce((migrated, step) => step.migrateMessage(migrated), message)
+}
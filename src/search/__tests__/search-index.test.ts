@@ -0,0 +1,189 @@
+import { promises as fs } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import type { Conversation, Message } from '#schema/message'
+import { openSqliteDatabase } from '#utils/sqlite'
+import { extractSearchFields, openSearchIndex, type SearchIndex, toFtsQuery } from '../search-index'
+
+function createMessage(
+	guid: string,
+	text: string | null,
+	overrides: Partial<Message> = {},
+): Message {
+	return {
+		guid,
+		messageKind: 'text',
+		text,
+		isFromMe: false,
+		date: '2025-10-17T10:00:00.000Z',
+		handle: '+61400111222',
+		chatId: 'chat-a',
+		...overrides,
+	}
+}
+
+const imageMessage: Message = {
+	...createMessage('img', null, { messageKind: 'media' }),
+	media: {
+		id: 'media:img',
+		filename: 'IMG_0001.heic',
+		path: '/tmp/IMG_0001.heic',
+		mediaKind: 'image',
+		enrichment: [
+			{
+				kind: 'image',
+				visionSummary: 'A signed rental agreement on a kitchen table',
+				provider: 'gemini',
+				version: '1.0',
+				createdAt: '2025-10-17T11:00:00.000Z',
+			},
+		],
+	},
+}
+
+const linkMessage = {
+	...createMessage('link', 'https://example.com/apartments', {
+		date: '2025-11-02T09:00:00.000Z',
+	}),
+	linkEnrichments: [
+		{
+			kind: 'link_context',
+			url: 'https://example.com/apartments',
+			title: 'Apartments for lease in Fitzroy',
+			summary: 'Two bedroom flats near the park',
+			provider: 'firecrawl',
+			version: '1.0',
+			createdAt: '2025-11-02T09:01:00.000Z',
+		},
+	],
+} as Message
+
+const messages: Message[] = [
+	createMessage('a', 'Did you sign the lease yet?'),
+	createMessage('b', 'Signed it this morning', { isFromMe: true }),
+	createMessage('c', 'The lease for the office is due', {
+		chatId: 'chat-b',
+		date: '2025-12-01T10:00:00.000Z',
+		handle: 'boss@example.com',
+	}),
+	imageMessage,
+	linkMessage,
+	createMessage('empty', null, { messageKind: 'tapback' }),
+]
+
+const conversations: Conversation[] = [
+	{ id: 'chat-a', isGroup: false, participants: ['+61400111222'] },
+]
+
+describe('search-index', () => {
+	let tempDir: string
+	let index: SearchIndex
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'search-index-'))
+		index = openSearchIndex(path.join(tempDir, 'index.sqlite'))
+		await index.rebuild(messages, () => conversations, 'v1')
+	})
+
+	afterEach(async () => {
+		index.close()
+		await fs.rm(tempDir, { recursive: true, force: true })
+	})
+
+	describe('extractSearchFields', () => {
+		it('collects text and enrichment fields', () => {
+			expect(extractSearchFields(imageMessage).visionSummary).toBe(
+				'A signed rental agreement on a kitchen table',
+			)
+			expect(extractSearchFields(linkMessage)).toMatchObject({
+				linkTitle: 'Apartments for lease in Fitzroy',
+				linkSummary: 'Two bedroom flats near the park',
+			})
+		})
+	})
+
+	describe('toFtsQuery', () => {
+		it('quotes words, keeps phrases, prefixes and OR', () => {
+			expect(toFtsQuery('lease office')).toBe('"lease" "office"')
+			expect(toFtsQuery('"rental agreement" sign*')).toBe('"rental agreement" "sign"*')
+			expect(toFtsQuery('lease OR flat')).toBe('"lease" OR "flat"')
+			expect(toFtsQuery('AND( NEAR "x')).toBe('"AND(" "NEAR" "x"')
+		})
+
+		it('rejects empty queries', () => {
+			expect(() => toFtsQuery('  * OR ')).toThrow('Search query is empty')
+		})
+	})
+
+	describe('rebuild', () => {
+		it('skips messages with nothing searchable and records the fingerprint', async () => {
+			const result = await index.rebuild(messages, () => conversations, 'v2')
+
+			expect(result).toEqual({ indexed: 5, total: 6 })
+			expect(index.isCurrent('v2')).toBe(true)
+			expect(index.isCurrent('v1')).toBe(false)
+			expect(index.getConversations()).toEqual(conversations)
+		})
+	})
+
+	describe('search', () => {
+		it('matches text, enrichments and word forms', () => {
+			const hits = index.search('lease')
+			expect(hits.map((h) => h.guid).sort()).toEqual(['a', 'c', 'link'])
+
+			expect(
+				index
+					.search('signing')
+					.map((h) => h.guid)
+					.sort(),
+			).toEqual(['a', 'b', 'img'])
+			expect(index.search('"rental agreement"')).toMatchObject([
+				{ guid: 'img', fields: ['visionSummary'], day: '2025-10-17' },
+			])
+			expect(index.search('fitzroy park')).toMatchObject([
+				{ guid: 'link', fields: ['linkTitle', 'linkSummary'] },
+			])
+		})
+
+		it('highlights matches in the snippet', () => {
+			expect(index.search('office')[0]?.snippet).toBe('The lease for the **office** is due')
+		})
+
+		it('filters by conversation, kind, date and sender', () => {
+			expect(index.search('lease', { chatId: 'chat-b' }).map((h) => h.guid)).toEqual(['c'])
+			expect(index.search('lease OR rental', { kinds: ['media'] }).map((h) => h.guid)).toEqual([
+				'img',
+			])
+			expect(
+				index
+					.search('lease', { startDate: '2025-11-01', endDate: '2025-11-30' })
+					.map((h) => h.guid),
+			).toEqual(['link'])
+			expect(
+				index
+					.search('lease', {
+						matchesSender: (m) => m.handle === 'boss@example.com',
+					})
+					.map((h) => h.guid),
+			).toEqual(['c'])
+		})
+
+		it('stops at the limit', () => {
+			expect(index.search('lease', { limit: 2 })).toHaveLength(2)
+		})
+	})
+
+	describe('openSearchIndex', () => {
+		it('refuses databases that are not search indexes', () => {
+			const other = path.join(tempDir, 'other.sqlite')
+			const db = openSqliteDatabase(other)
+			db.exec('CREATE TABLE messages (guid TEXT)')
+			db.close()
+
+			expect(() => openSearchIndex(other)).toThrow('Not a search index')
+		})
+	})
+})
@@ -0,0 +1,399 @@
+/**
+ * Full-text Search Index
+ *
+ * A SQLite FTS5 index over everything searchable in a message: the text, and
+ * the enrichment fields written by enrich-ai (image visionSummary, audio
+ * transcription, pdfSummary, link title and summary).
+ *
+ * The index lives in its own database file next to the archive it was built
+ * from and records that file's size and mtime, so it is only rebuilt when the
+ * archive changes. Filters (conversation, kind, date) are plain columns next
+ * to the FTS table; results come back in relevance (bm25) order.
+ */
+
+import type { Conversation, MediaEnrichment, Message } from '#schema/message'
+import { openSqliteDatabase, type SqliteDatabase } from '#utils/sqlite'
+import { extractDate } from '../render/grouping.js'
+
+export type SearchField =
+	| 'text'
+	| 'visionSummary'
+	| 'transcription'
+	| 'pdfSummary'
+	| 'linkTitle'
+	| 'linkSummary'
+
+/** FTS column order; must match the CREATE VIRTUAL TABLE below */
+export const SEARCH_FIELDS: readonly SearchField[] = [
+	'text',
+	'visionSummary',
+	'transcription',
+	'pdfSummary',
+	'linkTitle',
+	'linkSummary',
+]
+
+export type SearchFilters = {
+	chatId?: string
+	kinds?: Array<Message['messageKind']>
+	/** First day to include (YYYY-MM-DD, in the timezone the index was built with) */
+	startDate?: string
+	/** Last day to include (YYYY-MM-DD) */
+	endDate?: string
+	/** Sender predicate, applied after the index query */
+	matchesSender?: (message: Pick<Message, 'isFromMe' | 'handle'>) => boolean
+	/** Maximum number of hits (default 20) */
+	limit?: number
+}
+
+export type SearchHit = {
+	guid: string
+	chatId: string | null
+	date: string
+	/** Day the message is rendered under (YYYY-MM-DD) */
+	day: string
+	messageKind: Message['messageKind']
+	handle: string | null
+	isFromMe: boolean
+	/** Fields that matched the query */
+	fields: SearchField[]
+	/** Best matching fragment with matches wrapped in `**` */
+	snippet: string
+}
+
+export type SearchIndex = {
+	readonly path: string
+	/** True when the index was built from the archive with this fingerprint */
+	isCurrent(fingerprint: string): boolean
+	/**
+	 * Replace the index contents with the given messages, filing each under
+	 * the day it renders on in `timeZone` (default UTC)
+	 */
+	rebuild(
+		messages: AsyncIterable<Message> | Iterable<Message>,
+		conversations: () => Conversation[] | undefined,
+		fingerprint: string,
+		timeZone?: string,
+	): Promise<{ indexed: number; total: number }>
+	search(query: string, filters?: SearchFilters): SearchHit[]
+	/** Conversations of the indexed archive */
+	getConversations(): Conversation[]
+	/** True when the archive has messages without a chatId */
+	hasUnassigned(): boolean
+	/** destinationCallerId values seen while indexing (for self detection) */
+	getCallerIds(): string[]
+	close(): void
+}
+
+/** Bumped when the index layout or tokenizer changes */
+export const SEARCH_INDEX_VERSION = 1
+
+const DEFAULT_LIMIT = 20
+
+const SCHEMA_SQL = `
+CREATE TABLE IF NOT EXISTS meta (
+	key TEXT PRIMARY KEY,
+	value TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS documents (
+	id INTEGER PRIMARY KEY,
+	guid TEXT NOT NULL,
+	chat_id TEXT,
+	date TEXT NOT NULL,
+	day TEXT NOT NULL,
+	message_kind TEXT NOT NULL,
+	handle TEXT,
+	is_from_me INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS documents_day ON documents (day);
+CREATE INDEX IF NOT EXISTS documents_chat ON documents (chat_id);
+CREATE VIRTUAL TABLE IF NOT EXISTS documents_fts USING fts5 (
+	text,
+	vision_summary,
+	transcription,
+	pdf_summary,
+	link_title,
+	link_summary,
+	tokenize = 'porter unicode61 remove_diacritics 2'
+);
+`
+
+/** Marks matches inside highlight() output so matched fields can be found */
+const MATCH_START = '\u0002'
+const MATCH_END = '\u0003'
+
+type DocumentRow = {
+	guid: string
+	chat_id: string | null
+	date: string
+	day: string
+	message_kind: Message['messageKind']
+	handle: string | null
+	is_from_me: number
+	snippet: string
+} & Record<`f${number}`, string | null>
+
+/**
+ * Collect the searchable text of a message
+ *
+ * Link enrichments are read from media enrichment and from the
+ * `linkEnrichments` array enrich-ai adds to text messages.
+ */
+export function extractSearchFields(
+	message: Message,
+): Record<SearchField, string> {
+	const enrichments = [
+		...(message.media?.enrichment ?? []),
+		...((message as Message & { linkEnrichments?: MediaEnrichment[] })
+			.linkEnrichments ?? []),
+	]
+	const join = (values: Array<string | undefined>) =>
+		values.filter((v): v is string => Boolean(v)).join('\n')
+
+	return {
+		text: message.text ?? '',
+		visionSummary: join(enrichments.map((e) => e.visionSummary)),
+		transcription: join(
+			enrichments.map((e) => e.transcription ?? e.transcript),
+		),
+		pdfSummary: join(enrichments.map((e) => e.pdfSummary)),
+		linkTitle: join(enrichments.map((e) => e.title)),
+		linkSummary: join(enrichments.map((e) => e.summary)),
+	}
+}
+
+/**
+ * Turn a user query into an FTS5 MATCH expression
+ *
+ * Words are matched as-is (all must appear), `"quoted phrases"` as phrases,
+ * a trailing `*` as a prefix, and a bare `OR` between terms as OR. Anything
+ * else that FTS5 would treat as syntax is quoted away.
+ *
+ * @throws Error if the query has no terms
+ */
+export function toFtsQuery(query: string): string {
+	const terms = query.match(/"[^"]*"|\S+/g) ?? []
+	const parts: string[] = []
+	for (const term of terms) {
+		if (term === 'OR') {
+			if (parts.length > 0 && parts[parts.length - 1] !== 'OR') {
+				parts.push('OR')
+			}
+			continue
+		}
+		const quoted = term.length > 1 && term.startsWith('"') && term.endsWith('"')
+		const prefix = !quoted && term.endsWith('*')
+		const body = (quoted ? term.slice(1, -1) : term)
+			.replace(/\*+$/, '')
+			.replace(/"/g, quoted ? '""' : '')
+			.trim()
+		if (!body) continue
+		parts.push(`"${body}"${prefix ? '*' : ''}`)
+	}
+	if (parts[parts.length - 1] === 'OR') parts.pop()
+	if (parts.length === 0) {
+		throw new Error('Search query is empty')
+	}
+	return parts.join(' ')
+}
+
+/**
+ * Fingerprint of the archive an index is built from
+ *
+ * Size and modification time: cheap to read and changes on every rewrite.
+ */
+export async function getSourceFingerprint(filePath: string): Promise<string> {
+	const { stat } = await import('node:fs/promises')
+	const info = await stat(filePath)
+	return `${info.size}:${Math.trunc(info.mtimeMs)}`
+}
+
+/**
+ * Open (and create if needed) a search index
+ *
+ * An index from another version is emptied so the next isCurrent() check
+ * fails and it gets rebuilt.
+ */
+export function openSearchIndex(filePath: string): SearchIndex {
+	const db = openSqliteDatabase(filePath)
+	try {
+		// Never add index tables to some other database (e.g. a message store)
+		const tables = db
+			.prepare("SELECT name FROM sqlite_master WHERE type = 'table'")
+			.all() as Array<{ name: string }>
+		if (tables.length > 0 && !tables.some((t) => t.name === 'documents')) {
+			throw new Error(`Not a search index: ${filePath}`)
+		}
+		db.exec(SCHEMA_SQL)
+		const version = getMeta(db, 'index_version')
+		if (version !== String(SEARCH_INDEX_VERSION)) {
+			db.exec(
+				'DELETE FROM documents; DELETE FROM documents_fts; DELETE FROM meta',
+			)
+			setMeta(db, 'index_version', String(SEARCH_INDEX_VERSION))
+		}
+	} catch (error) {
+		db.close()
+		throw error
+	}
+	return createSearchIndex(db, filePath)
+}
+
+function getMeta(db: SqliteDatabase, key: string): string | null {
+	const row = db.prepare('SELECT value FROM meta WHERE key = ?').get(key) as
+		| { value: string }
+		| undefined
+	return row?.value ?? null
+}
+
+function setMeta(db: SqliteDatabase, key: string, value: string): void {
+	db.prepare(
+		'INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value',
+	).run(key, value)
+}
+
+function createSearchIndex(db: SqliteDatabase, filePath: string): SearchIndex {
+	return {
+		path: filePath,
+
+		isCurrent(fingerprint) {
+			return getMeta(db, 'source_fingerprint') === fingerprint
+		},
+
+		async rebuild(messages, conversations, fingerprint, timeZone = 'UTC') {
+			const insertDocument = db.prepare(`
+				INSERT INTO documents
+					(id, guid, chat_id, date, day, message_kind, handle, is_from_me)
+				VALUES (?, ?, ?, ?, ?, ?, ?, ?)`)
+			const insertText = db.prepare(`
+				INSERT INTO documents_fts
+					(rowid, text, vision_summary, transcription, pdf_summary, link_title, link_summary)
+				VALUES (?, ?, ?, ?, ?, ?, ?)`)
+
+			// The driver is synchronous, so the transaction can stay open while
+			// the messages are read
+			db.exec('BEGIN')
+			try {
+				db.exec('DELETE FROM documents; DELETE FROM documents_fts')
+				db.exec("DELETE FROM meta WHERE key != 'index_version'")
+
+				const callerIds = new Set<string>()
+				let unassigned = false
+				let total = 0
+				let indexed = 0
+				for await (const message of messages) {
+					total++
+					if (message.destinationCallerId) {
+						callerIds.add(message.destinationCallerId)
+					}
+					if (!message.chatId) unassigned = true
+					const fields = extractSearchFields(message)
+					if (SEARCH_FIELDS.every((field) => fields[field] === '')) continue
+
+					indexed++
+					insertDocument.run(
+						indexed,
+						message.guid,
+						message.chatId ?? null,
+						message.date,
+						extractDate(message.date, timeZone),
+						message.messageKind,
+						message.handle ?? null,
+						message.isFromMe ? 1 : 0,
+					)
+					insertText.run(
+						indexed,
+						...SEARCH_FIELDS.map((field) => fields[field]),
+					)
+				}
+
+				setMeta(db, 'conversations', JSON.stringify(conversations() ?? []))
+				setMeta(db, 'has_unassigned', unassigned ? '1' : '0')
+				setMeta(db, 'caller_ids', JSON.stringify(Array.from(callerIds).sort()))
+				setMeta(db, 'source_fingerprint', fingerprint)
+				db.exec('COMMIT')
+				return { indexed, total }
+			} catch (error) {
+				db.exec('ROLLBACK')
+				throw error
+			}
+		},
+
+		search(query, filters = {}) {
+			const conditions = ['documents_fts MATCH ?']
+			const params: Array<string | number> = [toFtsQuery(query)]
+			if (filters.chatId !== undefined) {
+				conditions.push('d.chat_id = ?')
+				params.push(filters.chatId)
+			}
+			if (filters.kinds && filters.kinds.length > 0) {
+				conditions.push(
+					`d.message_kind IN (${filters.kinds.map(() => '?').join(', ')})`,
+				)
+				params.push(...filters.kinds)
+			}
+			if (filters.startDate) {
+				conditions.push('d.day >= ?')
+				params.push(filters.startDate)
+			}
+			if (filters.endDate) {
+				conditions.push('d.day <= ?')
+				params.push(filters.endDate)
+			}
+
+			const highlights = SEARCH_FIELDS.map(
+				(_field, i) =>
+					`highlight(documents_fts, ${i}, '${MATCH_START}', '${MATCH_END}') AS f${i}`,
+			).join(', ')
+			const rows = db
+				.prepare(`
+					SELECT d.guid, d.chat_id, d.date, d.day, d.message_kind, d.handle,
+						d.is_from_me,
+						snippet(documents_fts, -1, '**', '**', '…', 16) AS snippet,
+						${highlights}
+					FROM documents_fts JOIN documents d ON d.id = documents_fts.rowid
+					WHERE ${conditions.join(' AND ')}
+					ORDER BY rank, d.date, d.guid`)
+				.iterate(...params)
+
+			const limit = filters.limit ?? DEFAULT_LIMIT
+			const hits: SearchHit[] = []
+			for (const raw of rows) {
+				const row = raw as DocumentRow
+				const hit: SearchHit = {
+					guid: row.guid,
+					chatId: row.chat_id,
+					date: row.date,
+					day: row.day,
+					messageKind: row.message_kind,
+					handle: row.handle,
+					isFromMe: row.is_from_me === 1,
+					fields: SEARCH_FIELDS.filter((_field, i) =>
+						row[`f${i}`]?.includes(MATCH_START),
+					),
+					snippet: row.snippet.replace(/\s+/g, ' ').trim(),
+				}
+				if (filters.matchesSender && !filters.matchesSender(hit)) continue
+				hits.push(hit)
+				if (hits.length >= limit) break
+			}
+			return hits
+		},
+
+		getConversations() {
+			return JSON.parse(getMeta(db, 'conversations') ?? '[]') as Conversation[]
+		},
+
+		hasUnassigned() {
+			return getMeta(db, 'has_unassigned') === '1'
+		},
+
+		getCallerIds() {
+			return JSON.parse(getMeta(db, 'caller_ids') ?? '[]') as string[]
+		},
+
+		close() {
+			db.close()
+		},
+	}
+}
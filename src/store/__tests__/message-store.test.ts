@@ -0,0 +1,338 @@
+import { promises as fs } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import type { Conversation, ExportEnvelope, Message } from '#schema/message'
+import { writeEnvelope } from '#utils/envelope-stream'
+import { openSqliteDatabase } from '#utils/sqlite'
+import {
+	MESSAGE_STORE_VERSION,
+	openMessageStore,
+	openStoreStream,
+	readStore,
+} from '../message-store'
+
+function createMessage(guid: string, text: string, overrides: Partial<Message> = {}): Message {
+	return {
+		guid,
+		messageKind: 'text',
+		text,
+		isFromMe: false,
+		date: '2025-10-17T10:00:00.000Z',
+		handle: '+61400111222',
+		chatId: 'iMessage;-;+61400111222',
+		...overrides,
+	}
+}
+
+const mediaMessage: Message = {
+	...createMessage('db:media', ''),
+	messageKind: 'media',
+	text: null,
+	media: {
+		id: 'media:db:media',
+		filename: 'photo.heic',
+		path: '/tmp/photo.heic',
+		mediaKind: 'image',
+		enrichment: [
+			{
+				kind: 'image',
+				visionSummary: 'A dog on a beach',
+				provider: 'gemini',
+				model: 'gemini-1.5-pro',
+				version: '1.0',
+				createdAt: '2025-10-17T11:00:00.000Z',
+			},
+		],
+		size: 1024,
+	},
+	replyingTo: null,
+}
+
+const conversations: Conversation[] = [
+	{
+		id: 'iMessage;-;+61400111222',
+		isGroup: false,
+		participants: ['+61400111222'],
+	},
+]
+
+const header = {
+	schemaVersion: '2.0.0',
+	source: 'db' as const,
+	createdAt: '2025-10-17T00:00:00.000Z',
+}
+
+async function ingest(
+	storePath: string,
+	messages: Message[],
+	source: ExportEnvelope['source'] = 'db',
+	conversationList: Conversation[] = conversations,
+): Promise<void> {
+	const store = openMessageStore(storePath)
+	try {
+		const writer = store.createWriter({ ...header, source })
+		for (const message of messages) await writer.write(message)
+		await writer.close(conversationList)
+	} finally {
+		store.close()
+	}
+}
+
+describe('message-store', () => {
+	let tempDir: string
+	let storePath: string
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'message-store-'))
+		storePath = path.join(tempDir, 'messages.sqlite')
+	})
+
+	afterEach(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true })
+	})
+
+	describe('round trip', () => {
+		it('exports the same envelope bytes that were ingested', async () => {
+			const messages = [
+				createMessage('db:a', 'hello'),
+				mediaMessage,
+				createMessage('db:b', 'with "quotes"', { replyingTo: { sender: 'x' } }),
+			]
+			await ingest(storePath, messages)
+
+			const store = openMessageStore(storePath, { readonly: true })
+			const envelope = store.toEnvelope()
+			store.close()
+
+			expect(envelope.messages).toEqual(messages)
+			expect(envelope.conversations).toEqual(conversations)
+
+			const fromStore = path.join(tempDir, 'from-store.json')
+			const direct = path.join(tempDir, 'direct.json')
+			await writeEnvelope(fromStore, envelope)
+			await writeEnvelope(direct, { ...header, messages, conversations })
+			expect(await fs.readFile(fromStore, 'utf-8')).toBe(await fs.readFile(direct, 'utf-8'))
+		})
+
+		it('keeps media and enrichments in child tables', async () => {
+			await ingest(storePath, [mediaMessage])
+
+			const db = openSqliteDatabase(storePath, { readonly: true })
+			const media = db.prepare('SELECT filename, media_kind FROM media').all()
+			const enrichments = db.prepare('SELECT kind, provider, model FROM enrichments').all()
+			db.close()
+
+			expect(media).toEqual([{ filename: 'photo.heic', media_kind: 'image' }])
+			expect(enrichments).toEqual([{ kind: 'image', provider: 'gemini', model: 'gemini-1.5-pro' }])
+		})
+	})
+
+	describe('createWriter', () => {
+		it('rolls back on abort', async () => {
+			await ingest(storePath, [createMessage('db:a', 'kept')])
+
+			const store = openMessageStore(storePath)
+			const writer = store.createWriter(header)
+			await writer.write(createMessage('db:b', 'discarded'))
+			await writer.abort()
+
+			expect(Array.from(store.iterateMessages()).map((m) => m.guid)).toEqual(['db:a'])
+			store.close()
+		})
+
+		it('replaces earlier rows from the same source only', async () => {
+			await ingest(storePath, [createMessage('csv:1:0', 'from csv')], 'csv')
+			await ingest(storePath, [createMessage('db:a', 'first db run')])
+			await ingest(storePath, [createMessage('db:b', 'second db run')])
+
+			const { header: storedHeader, messages } = readStore(storePath)
+			expect(messages.map((m) => m.guid)).toEqual(['csv:1:0', 'db:b'])
+			expect(storedHeader?.source).toBe('merged')
+
+			const store = openMessageStore(storePath, { readonly: true })
+			expect(store.getSources()).toEqual(['csv', 'db'])
+			store.close()
+		})
+
+		it('replaces only the selected conversation when scoped to a chat', async () => {
+			await ingest(storePath, [
+				createMessage('db:a', 'a'),
+				createMessage('db:x', 'other chat', { chatId: 'chat-x' }),
+			])
+
+			const store = openMessageStore(storePath)
+			const writer = store.createWriter(header, { chatId: 'iMessage;-;+61400111222' })
+			await writer.write(createMessage('db:b', 'b'))
+			await writer.close(conversations)
+
+			expect(Array.from(store.iterateMessages()).map((m) => m.guid)).toEqual(['db:x', 'db:b'])
+			store.close()
+		})
+
+		it('keeps later stages working after a re-ingest of the same source', async () => {
+			const fromDb = (guid: string, text: string) =>
+				createMessage(guid, text, { exportMetadata: { source: 'db' } })
+			const photo = { ...mediaMessage, media: { ...mediaMessage.media!, enrichment: [] } }
+			await ingest(storePath, [fromDb('db:a', 'a'), fromDb('db:gone', 'deleted later'), photo])
+
+			// normalize-link, then enrich-ai
+			const store = openMessageStore(storePath)
+			store.replaceMessages(
+				[fromDb('db:a', 'a'), fromDb('db:gone', 'deleted later'), photo],
+				conversations,
+			)
+			store.updateMessages([mediaMessage])
+			expect(store.getSources()).toEqual(['db'])
+			store.close()
+
+			await ingest(storePath, [fromDb('db:a', 'a'), photo, fromDb('db:new', 'new')])
+
+			const { messages } = readStore(storePath)
+			expect(messages.map((m) => m.guid)).toEqual(['db:a', 'db:media', 'db:new'])
+			expect(messages[1]?.media?.enrichment).toEqual(mediaMessage.media?.enrichment)
+		})
+	})
+
+	describe('replaceMessages', () => {
+		it('deletes, updates and reorders messages', async () => {
+			await ingest(storePath, [
+				createMessage('db:a', 'a'),
+				createMessage('db:b', 'b'),
+				mediaMessage,
+			])
+
+			const store = openMessageStore(storePath)
+			store.replaceMessages(
+				[{ ...mediaMessage, media: null }, createMessage('db:a', 'edited')],
+				conversations,
+			)
+
+			const messages = Array.from(store.iterateMessages())
+			expect(messages.map((m) => [m.guid, m.text])).toEqual([
+				['db:media', null],
+				['db:a', 'edited'],
+			])
+			expect(messages[0]?.media).toBeNull()
+			expect(store.getHeader()?.source).toBe('merged')
+			store.close()
+
+			const db = openSqliteDatabase(storePath, { readonly: true })
+			expect(db.prepare('SELECT COUNT(*) AS n FROM enrichments').get()).toEqual({ n: 0 })
+			db.close()
+		})
+
+		it('leaves other conversations alone when scoped to a chat', async () => {
+			await ingest(storePath, [
+				createMessage('db:a', 'a'),
+				createMessage('db:x', 'other chat', { chatId: 'chat-x' }),
+				createMessage('db:b', 'b'),
+			])
+
+			const store = openMessageStore(storePath)
+			store.replaceMessages([createMessage('db:b', 'b'), createMessage('db:c', 'new')], [], {
+				chatId: 'iMessage;-;+61400111222',
+			})
+
+			expect(Array.from(store.iterateMessages()).map((m) => m.guid)).toEqual([
+				'db:b',
+				'db:x',
+				'db:c',
+			])
+			expect(store.getConversations()).toEqual(conversations)
+			store.close()
+		})
+	})
+
+	describe('updateMessages', () => {
+		it('updates in place and appends unknown messages', async () => {
+			await ingest(storePath, [createMessage('db:a', 'a'), createMessage('db:b', 'b')])
+
+			const store = openMessageStore(storePath)
+			store.updateMessages([createMessage('db:a', 'enriched'), createMessage('db:c', 'new')])
+
+			expect(Array.from(store.iterateMessages()).map((m) => [m.guid, m.text])).toEqual([
+				['db:a', 'enriched'],
+				['db:b', 'b'],
+				['db:c', 'new'],
+			])
+			expect(store.getSources()).toEqual(['db', 'merged'])
+			store.close()
+		})
+
+		it('records the ingest source of appended messages', async () => {
+			await ingest(storePath, [createMessage('db:a', 'a')])
+
+			const store = openMessageStore(storePath)
+			store.updateMessages([
+				createMessage('csv:2:0', 'from csv', { exportMetadata: { source: 'csv' } }),
+			])
+
+			expect(store.getSources()).toEqual(['csv', 'db'])
+			store.close()
+		})
+	})
+
+	describe('openStoreStream', () => {
+		it('streams one conversation with header and conversations', async () => {
+			await ingest(storePath, [
+				createMessage('db:a', 'a'),
+				createMessage('db:x', 'other chat', { chatId: 'chat-x' }),
+			])
+
+			const stream = openStoreStream(storePath, 'chat-x')
+			const guids: string[] = []
+			for await (const message of stream.messages) guids.push(message.guid)
+
+			expect(guids).toEqual(['db:x'])
+			expect(stream.header).toEqual(header)
+			expect(stream.conversations).toEqual(conversations)
+		})
+
+		it('lets the store be updated while it is streamed', async () => {
+			const messages = Array.from({ length: 1200 }, (_, i) =>
+				createMessage(`db:${String(i).padStart(4, '0')}`, `message ${i}`),
+			)
+			await ingest(storePath, messages)
+
+			// enrich-ai commits each batch while reading the rest
+			const store = openMessageStore(storePath)
+			const guids: string[] = []
+			try {
+				for await (const message of openStoreStream(storePath).messages) {
+					guids.push(message.guid)
+					store.updateMessages([{ ...message, text: 'enriched' }])
+				}
+			} finally {
+				store.close()
+			}
+
+			expect(guids).toEqual(messages.map((m) => m.guid))
+			expect(readStore(storePath).messages.every((m) => m.text === 'enriched')).toBe(true)
+		})
+	})
+
+	describe('openMessageStore', () => {
+		it('refuses other SQLite databases', () => {
+			const db = openSqliteDatabase(storePath)
+			db.exec('CREATE TABLE message (ROWID INTEGER PRIMARY KEY)')
+			db.close()
+
+			expect(() => openMessageStore(storePath)).toThrow('Not a message store')
+		})
+
+		it('refuses stores written by a newer version', () => {
+			openMessageStore(storePath).close()
+			const db = openSqliteDatabase(storePath)
+			db.prepare('UPDATE meta SET value = ? WHERE key = ?').run(
+				String(MESSAGE_STORE_VERSION + 1),
+				'store_version',
+			)
+			db.close()
+
+			expect(() => openMessageStore(storePath)).toThrow('has version')
+		})
+	})
+})
@@ -0,0 +1,718 @@
+/**
+ * SQLite Message Store
+ *
+ * An alternative to passing envelope JSON files between pipeline stages:
+ * ingest writes messages into a local SQLite database and later stages read
+ * and update it in place. `export-json` turns the store back into an
+ * ExportEnvelope.
+ *
+ * Tables:
+ * - meta: store version and the envelope header
+ * - messages: one row per message in envelope order, with the columns
+ *   commands filter on (chat, sender, date, kind) plus the full JSON
+ * - media: the media item of a media message (minus enrichment)
+ * - enrichments: one row per media enrichment, in order
+ * - conversations: conversation records in envelope order
+ *
+ * Each message remembers the ingest source it came from ('csv' or 'db', or
+ * 'merged' when unknown) so re-ingesting a source replaces only its own rows.
+ * Later stages keep a row's source, and a re-ingest keeps the enrichments of
+ * the messages it writes again.
+ *
+ * Child rows are spliced back into the JSON they were taken from, so
+ * exporting reproduces the original messages key for key.
+ */
+
+import type {
+	Conversation,
+	ExportEnvelope,
+	MediaEnrichment,
+	Message,
+} from '#schema/message'
+import { CURRENT_SCHEMA_VERSION } from '#schema/migrations'
+import type {
+	EnvelopeHeader,
+	EnvelopeStream,
+	EnvelopeWriter,
+} from '#utils/envelope-stream'
+import { openSqliteDatabase, type SqliteDatabase } from '#utils/sqlite'
+
+export type MessageSource = ExportEnvelope['source']
+
+export type MessageStore = {
+	/** Path of the database file */
+	readonly path: string
+	/** Envelope header, or null for an empty store */
+	getHeader(): EnvelopeHeader | null
+	/** Number of messages, optionally in one conversation */
+	count(chatId?: string): number
+	/** Distinct ingest sources of the stored messages, sorted */
+	getSources(): MessageSource[]
+	/** Messages in envelope order, optionally in one conversation */
+	iterateMessages(chatId?: string): IterableIterator<Message>
+	getConversations(): Conversation[]
+	/**
+	 * Write one ingest run, replacing earlier messages from the same source
+	 * (only within `chatId` when given)
+	 *
+	 * Nothing is visible to readers until close(); abort() rolls back.
+	 */
+	createWriter(
+		header: EnvelopeHeader,
+		options?: CreateWriterOptions,
+	): EnvelopeWriter
+	/**
+	 * Replace the messages of a stage's output in one transaction
+	 *
+	 * Messages missing from `messages` are deleted (only within `chatId` when
+	 * given), the rest are inserted or updated in their new order.
+	 */
+	replaceMessages(
+		messages: Message[],
+		conversations: Conversation[],
+		options?: ReplaceMessagesOptions,
+	): void
+	/**
+	 * Update messages in place, keeping their position
+	 *
+	 * Messages not yet in the store are appended.
+	 */
+	updateMessages(messages: Iterable<Message>): void
+	/** Build the full envelope in memory */
+	toEnvelope(): ExportEnvelope
+	close(): void
+}
+
+export type OpenMessageStoreOptions = {
+	/** Open an existing store without write access */
+	readonly?: boolean
+}
+
+export type CreateWriterOptions = {
+	/** Only replace messages in this conversation */
+	chatId?: string
+}
+
+export type ReplaceMessagesOptions = {
+	/** Only replace messages in this conversation */
+	chatId?: string
+	/**
+	 * Source recorded in the header, and for messages whose origin is unknown
+	 * (default 'merged')
+	 */
+	source?: MessageSource
+}
+
+/** Messages read per query while iterating */
+const ITERATE_PAGE_SIZE = 500
+
+/** Bumped when the table layout changes */
+export const MESSAGE_STORE_VERSION = 1
+
+const SCHEMA_SQL = `
+CREATE TABLE IF NOT EXISTS meta (
+	key TEXT PRIMARY KEY,
+	value TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS messages (
+	guid TEXT PRIMARY KEY,
+	position INTEGER NOT NULL,
+	source TEXT NOT NULL,
+	message_kind TEXT NOT NULL,
+	chat_id TEXT,
+	handle TEXT,
+	is_from_me INTEGER NOT NULL,
+	date TEXT NOT NULL,
+	text TEXT,
+	data TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS messages_position ON messages (position);
+CREATE INDEX IF NOT EXISTS messages_chat ON messages (chat_id, position);
+CREATE INDEX IF NOT EXISTS messages_date ON messages (date);
+CREATE INDEX IF NOT EXISTS messages_source ON messages (source);
+CREATE TABLE IF NOT EXISTS media (
+	message_guid TEXT PRIMARY KEY REFERENCES messages (guid) ON DELETE CASCADE,
+	id TEXT NOT NULL,
+	filename TEXT NOT NULL,
+	path TEXT NOT NULL,
+	media_kind TEXT,
+	mime_type TEXT,
+	size INTEGER,
+	data TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS enrichments (
+	message_guid TEXT NOT NULL REFERENCES messages (guid) ON DELETE CASCADE,
+	position INTEGER NOT NULL,
+	kind TEXT NOT NULL,
+	provider TEXT NOT NULL,
+	model TEXT,
+	created_at TEXT NOT NULL,
+	data TEXT NOT NULL,
+	PRIMARY KEY (message_guid, position)
+);
+CREATE TABLE IF NOT EXISTS conversations (
+	id TEXT PRIMARY KEY,
+	position INTEGER NOT NULL,
+	data TEXT NOT NULL
+);
+`
+
+type MessageRow = {
+	guid: string
+	data: string
+	media_data: string | null
+}
+
+type EnrichmentRow = { data: string }
+
+/**
+ * Open (and create if needed) a message store
+ *
+ * @throws Error if the file is not a message store or was written by a newer
+ * version
+ */
+export function openMessageStore(
+	filePath: string,
+	options: OpenMessageStoreOptions = {},
+): MessageStore {
+	const db = openSqliteDatabase(
+		filePath,
+		options.readonly ? { readonly: true } : {},
+	)
+	try {
+		if (!options.readonly) {
+			// Never add store tables to some other database (e.g. chat.db)
+			const tables = db
+				.prepare("SELECT name FROM sqlite_master WHERE type = 'table'")
+				.all() as Array<{ name: string }>
+			if (tables.length > 0 && !tables.some((t) => t.name === 'meta')) {
+				throw new Error(`Not a message store: ${filePath}`)
+			}
+			db.exec('PRAGMA foreign_keys = ON')
+			db.exec(SCHEMA_SQL)
+			initStoreVersion(db)
+		}
+		checkStoreVersion(db, filePath)
+	} catch (error) {
+		db.close()
+		throw error
+	}
+	return createMessageStore(db, filePath)
+}
+
+/**
+ * Stream a store the way openEnvelopeStream streams a file
+ *
+ * The store is opened read-only and closed once the messages are consumed.
+ */
+export function openStoreStream(
+	filePath: string,
+	chatId?: string,
+): EnvelopeStream {
+	const store = openMessageStore(filePath, { readonly: true })
+	const header = store.getHeader()
+	const conversations = store.getConversations()
+
+	async function* messages(): AsyncGenerator<Message> {
+		try {
+			for (const message of store.iterateMessages(chatId)) {
+				yield message
+			}
+		} finally {
+			store.close()
+		}
+	}
+
+	return {
+		messages: messages(),
+		header,
+		conversations: conversations.length > 0 ? conversations : undefined,
+	}
+}
+
+/**
+ * Read a whole store, like readEnvelope for a file
+ */
+export function readStore(filePath: string): {
+	header: EnvelopeHeader | null
+	messages: Message[]
+	conversations: Conversation[] | undefined
+} {
+	const store = openMessageStore(filePath, { readonly: true })
+	try {
+		const conversations = store.getConversations()
+		return {
+			header: store.getHeader(),
+			messages: Array.from(store.iterateMessages()),
+			conversations: conversations.length > 0 ? conversations : undefined,
+		}
+	} finally {
+		store.close()
+	}
+}
+
+/**
+ * Carry the enrichments of a stored message over to its re-ingested version
+ *
+ * Ingest never enriches, so a message written again would otherwise lose
+ * what enrich-ai added to it.
+ */
+function keepEnrichments(message: Message, stored: Message): Message {
+	type WithLinks = Message & { linkEnrichments?: MediaEnrichment[] }
+	let kept = message
+	const enrichment = stored.media?.enrichment
+	if (
+		kept.media &&
+		enrichment?.length &&
+		!kept.media.enrichment?.length &&
+		stored.media?.id === kept.media.id
+	) {
+		kept = { ...kept, media: { ...kept.media, enrichment } }
+	}
+	const links = (stored as WithLinks).linkEnrichments
+	if (
+		links?.length &&
+		!(kept as WithLinks).linkEnrichments?.length &&
+		stored.text === kept.text
+	) {
+		kept = { ...kept, linkEnrichments: links } as WithLinks
+	}
+	return kept
+}
+
+function initStoreVersion(db: SqliteDatabase): void {
+	db.prepare('INSERT OR IGNORE INTO meta (key, value) VALUES (?, ?)').run(
+		'store_version',
+		String(MESSAGE_STORE_VERSION),
+	)
+}
+
+function checkStoreVersion(db: SqliteDatabase, filePath: string): void {
+	let row: { value: string } | undefined
+	try {
+		row = db
+			.prepare('SELECT value FROM meta WHERE key = ?')
+			.get('store_version') as { value: string } | undefined
+	} catch {
+		row = undefined
+	}
+	if (!row) {
+		throw new Error(`Not a message store: ${filePath}`)
+	}
+	const version = Number(row.value)
+	if (version > MESSAGE_STORE_VERSION) {
+		throw new Error(
+			`Message store ${filePath} has version ${version}; this version of chatline supports up to ${MESSAGE_STORE_VERSION}`,
+		)
+	}
+}
+
+function createMessageStore(
+	db: SqliteDatabase,
+	filePath: string,
+): MessageStore {
+	const selectMessages = `
+		SELECT m.guid, m.position, m.data, md.data AS media_data
+		FROM messages m LEFT JOIN media md ON md.message_guid = m.guid`
+	const selectMessage = db.prepare(`${selectMessages} WHERE m.guid = ?`)
+	const selectEnrichments = db.prepare(
+		'SELECT data FROM enrichments WHERE message_guid = ? ORDER BY position',
+	)
+
+	function rowToMessage(row: MessageRow): Message {
+		const message = JSON.parse(row.data) as Message
+		if (row.media_data !== null) {
+			const media = JSON.parse(row.media_data) as NonNullable<Message['media']>
+			if (Array.isArray(media.enrichment) && media.enrichment.length === 0) {
+				const enrichments = selectEnrichments.all(row.guid) as EnrichmentRow[]
+				media.enrichment = enrichments.map((e) => JSON.parse(e.data))
+			}
+			message.media = media
+		}
+		return message
+	}
+
+	function getMeta(key: string): string | null {
+		const row = db.prepare('SELECT value FROM meta WHERE key = ?').get(key) as
+			| { value: string }
+			| undefined
+		return row?.value ?? null
+	}
+
+	function setMeta(key: string, value: string): void {
+		db.prepare(
+			'INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value',
+		).run(key, value)
+	}
+
+	function getHeader(): EnvelopeHeader | null {
+		const value = getMeta('envelope')
+		return value ? (JSON.parse(value) as EnvelopeHeader) : null
+	}
+
+	function getSources(): MessageSource[] {
+		const rows = db
+			.prepare('SELECT DISTINCT source FROM messages ORDER BY source')
+			.all() as Array<{ source: MessageSource }>
+		return rows.map((r) => r.source)
+	}
+
+	function nextPosition(): number {
+		const row = db
+			.prepare('SELECT COALESCE(MAX(position), -1) + 1 AS next FROM messages')
+			.get() as { next: number }
+		return Number(row.next)
+	}
+
+	/**
+	 * The source a stage's message is stored under: where it was ingested
+	 * from, else what the row already says
+	 */
+	function originSource(
+		message: Message,
+		existing: MessageSource | undefined,
+		fallback: MessageSource,
+	): MessageSource {
+		return message.exportMetadata?.source ?? existing ?? fallback
+	}
+
+	// Statements are prepared lazily: a read-only store never writes
+	let writeStatements: ReturnType<typeof prepareWriteStatements> | null = null
+	function prepareWriteStatements() {
+		return {
+			upsertMessage: db.prepare(`
+				INSERT INTO messages
+					(guid, position, source, message_kind, chat_id, handle, is_from_me, date, text, data)
+				VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+				ON CONFLICT (guid) DO UPDATE SET
+					position = excluded.position,
+					source = excluded.source,
+					message_kind = excluded.message_kind,
+					chat_id = excluded.chat_id,
+					handle = excluded.handle,
+					is_from_me = excluded.is_from_me,
+					date = excluded.date,
+					text = excluded.text,
+					data = excluded.data`),
+			deleteMedia: db.prepare('DELETE FROM media WHERE message_guid = ?'),
+			deleteEnrichments: db.prepare(
+				'DELETE FROM enrichments WHERE message_guid = ?',
+			),
+			insertMedia: db.prepare(`
+				INSERT INTO media
+					(message_guid, id, filename, path, media_kind, mime_type, size, data)
+				VALUES (?, ?, ?, ?, ?, ?, ?, ?)`),
+			insertEnrichment: db.prepare(`
+				INSERT INTO enrichments
+					(message_guid, position, kind, provider, model, created_at, data)
+				VALUES (?, ?, ?, ?, ?, ?, ?)`),
+			selectPosition: db.prepare(
+				'SELECT position, source FROM messages WHERE guid = ?',
+			),
+		}
+	}
+	function statements() {
+		writeStatements ??= prepareWriteStatements()
+		return writeStatements
+	}
+
+	/**
+	 * Write a message and its child rows
+	 *
+	 * The media object is stored as `null` in the message JSON and the
+	 * enrichment array as `[]` in the media JSON, keeping key order for the
+	 * round trip.
+	 */
+	function putMessage(
+		message: Message,
+		position: number,
+		source: MessageSource,
+	): void {
+		const s = statements()
+		const { media } = message
+		const data = JSON.stringify(media ? { ...message, media: null } : message)
+		s.upsertMessage.run(
+			message.guid,
+			position,
+			source,
+			message.messageKind,
+			message.chatId ?? null,
+			message.handle ?? null,
+			message.isFromMe ? 1 : 0,
+			message.date,
+			message.text ?? null,
+			data,
+		)
+
+		s.deleteMedia.run(message.guid)
+		s.deleteEnrichments.run(message.guid)
+		if (!media) return
+
+		const enrichment = media.enrichment ?? []
+		s.insertMedia.run(
+			message.guid,
+			media.id,
+			media.filename,
+			media.path,
+			media.mediaKind ?? null,
+			media.mimeType ?? null,
+			media.size ?? null,
+			JSON.stringify(
+				Array.isArray(media.enrichment) ? { ...media, enrichment: [] } : media,
+			),
+		)
+		enrichment.forEach((e, index) => {
+			s.insertEnrichment.run(
+				message.guid,
+				index,
+				e.kind,
+				e.provider,
+				e.model ?? null,
+				e.createdAt,
+				JSON.stringify(e),
+			)
+		})
+	}
+
+	/** Upsert conversations, keeping existing ones that are not mentioned */
+	function mergeStoredConversations(conversations: Conversation[]): void {
+		const existing = getConversations()
+		const byId = new Map(existing.map((c) => [c.id, c]))
+		for (const conversation of conversations) {
+			byId.set(conversation.id, conversation)
+		}
+		writeConversations(Array.from(byId.values()))
+	}
+
+	function writeConversations(conversations: Conversation[]): void {
+		db.exec('DELETE FROM conversations')
+		const insert = db.prepare(
+			'INSERT INTO conversations (id, position, data) VALUES (?, ?, ?)',
+		)
+		conversations.forEach((conversation, index) => {
+			insert.run(conversation.id, index, JSON.stringify(conversation))
+		})
+	}
+
+	function getConversations(): Conversation[] {
+		const rows = db
+			.prepare('SELECT data FROM conversations ORDER BY position')
+			.all() as Array<{ data: string }>
+		return rows.map((r) => JSON.parse(r.data) as Conversation)
+	}
+
+	/**
+	 * Read a page at a time, so no statement stays open between pages and the
+	 * store can be updated while it is being iterated
+	 */
+	function* iterateMessages(chatId?: string): IterableIterator<Message> {
+		const scope = chatId === undefined ? '' : 'm.chat_id = ? AND'
+		const page = db.prepare(`${selectMessages}
+			WHERE ${scope} (m.position > ? OR (m.position = ? AND m.guid > ?))
+			ORDER BY m.position, m.guid LIMIT ${ITERATE_PAGE_SIZE}`)
+		let after = { position: -1, guid: '' }
+		for (;;) {
+			const rows = page.all(
+				...(chatId === undefined ? [] : [chatId]),
+				after.position,
+				after.position,
+				after.guid,
+			) as Array<MessageRow & { position: number }>
+			for (const row of rows) yield rowToMessage(row)
+			const last = rows.at(-1)
+			if (!last || rows.length < ITERATE_PAGE_SIZE) return
+			after = last
+		}
+	}
+
+	function inTransaction(fn: () => void): void {
+		db.transaction(fn)()
+	}
+
+	return {
+		path: filePath,
+		getHeader,
+		getSources,
+		getConversations,
+		iterateMessages,
+
+		count(chatId) {
+			const row = (
+				chatId === undefined
+					? db.prepare('SELECT COUNT(*) AS n FROM messages').get()
+					: db
+							.prepare('SELECT COUNT(*) AS n FROM messages WHERE chat_id = ?')
+							.get(chatId)
+			) as { n: number }
+			return Number(row.n)
+		},
+
+		createWriter(header, options = {}) {
+			// The driver is synchronous, so an explicit transaction can stay open
+			// across the writer's awaits
+			db.exec('BEGIN')
+			db.exec(
+				'CREATE TEMP TABLE IF NOT EXISTS written_guids (guid TEXT PRIMARY KEY)',
+			)
+			db.exec('DELETE FROM written_guids')
+			const written = db.prepare(
+				'INSERT OR IGNORE INTO written_guids VALUES (?)',
+			)
+			let position = nextPosition()
+			let count = 0
+			let finished = false
+
+			const finish = () => {
+				if (finished) throw new Error('Message store writer already closed')
+				finished = true
+			}
+
+			return {
+				get count() {
+					return count
+				},
+				async write(message) {
+					if (finished) throw new Error('Message store writer already closed')
+					const stored = selectMessage.get(message.guid) as
+						| MessageRow
+						| undefined
+					putMessage(
+						stored ? keepEnrichments(message, rowToMessage(stored)) : message,
+						position++,
+						header.source,
+					)
+					written.run(message.guid)
+					count++
+				},
+				async close(conversations) {
+					finish()
+					try {
+						// Earlier rows of this source that were not written again are
+						// gone from it
+						const scope = options.chatId === undefined ? '' : 'AND chat_id = ?'
+						db.prepare(
+							`DELETE FROM messages WHERE source = ? ${scope}
+								AND guid NOT IN (SELECT guid FROM written_guids)`,
+						).run(
+							header.source,
+							...(options.chatId === undefined ? [] : [options.chatId]),
+						)
+						db.exec('DELETE FROM written_guids')
+						// Messages from other sources stay, so the store is now merged
+						const sources = getSources()
+						setMeta(
+							'envelope',
+							JSON.stringify({
+								...header,
+								source: sources.length > 1 ? 'merged' : header.source,
+							}),
+						)
+						if (conversations) mergeStoredConversations(conversations)
+						db.exec('COMMIT')
+					} catch (error) {
+						db.exec('ROLLBACK')
+						throw error
+					}
+				},
+				async abort() {
+					if (finished) return
+					finished = true
+					db.exec('ROLLBACK')
+				},
+			}
+		},
+
+		replaceMessages(messages, conversations, options = {}) {
+			const source = options.source ?? 'merged'
+			inTransaction(() => {
+				const s = statements()
+				db.exec(
+					'CREATE TEMP TABLE IF NOT EXISTS keep_guids (guid TEXT PRIMARY KEY)',
+				)
+				db.exec('DELETE FROM keep_guids')
+				const keep = db.prepare('INSERT OR IGNORE INTO keep_guids VALUES (?)')
+				for (const message of messages) keep.run(message.guid)
+
+				// A scoped replace reuses the conversation's positions so it keeps
+				// its place among the other conversations
+				const slots =
+					options.chatId === undefined
+						? []
+						: (
+								db
+									.prepare(
+										'SELECT position FROM messages WHERE chat_id = ? ORDER BY position',
+									)
+									.all(options.chatId) as Array<{ position: number }>
+							).map((r) => r.position)
+				let next = options.chatId === undefined ? 0 : nextPosition()
+
+				const scope = options.chatId === undefined ? '' : 'chat_id = ? AND'
+				db.prepare(
+					`DELETE FROM messages WHERE ${scope} guid NOT IN (SELECT guid FROM keep_guids)`,
+				).run(...(options.chatId === undefined ? [] : [options.chatId]))
+				db.exec('DELETE FROM keep_guids')
+
+				messages.forEach((message, index) => {
+					const existing = s.selectPosition.get(message.guid) as
+						| { position: number; source: MessageSource }
+						| undefined
+					putMessage(
+						message,
+						slots[index] ?? next++,
+						originSource(message, existing?.source, source),
+					)
+				})
+
+				const header = getHeader()
+				if (header) {
+					setMeta('envelope', JSON.stringify({ ...header, source }))
+				}
+				if (options.chatId === undefined) {
+					writeConversations(conversations)
+				} else {
+					mergeStoredConversations(conversations)
+				}
+			})
+		},
+
+		updateMessages(messages) {
+			inTransaction(() => {
+				const s = statements()
+				let appendAt: number | null = null
+				for (const message of messages) {
+					const existing = s.selectPosition.get(message.guid) as
+						| { position: number; source: MessageSource }
+						| undefined
+					if (existing) {
+						putMessage(message, existing.position, existing.source)
+					} else {
+						appendAt ??= nextPosition()
+						putMessage(
+							message,
+							appendAt++,
+							originSource(message, undefined, 'merged'),
+						)
+					}
+				}
+			})
+		},
+
+		toEnvelope() {
+			const header = getHeader()
+			const conversations = getConversations()
+			return {
+				schemaVersion: header?.schemaVersion ?? CURRENT_SCHEMA_VERSION,
+				source: header?.source ?? 'merged',
+				createdAt: header?.createdAt ?? new Date().toISOString(),
+				messages: Array.from(iterateMessages()),
+				...(conversations.length > 0 && { conversations }),
+				...(header?.meta && { meta: header.meta }),
+			}
+		},
+
+		close() {
+			db.close()
+		},
+	}
+}
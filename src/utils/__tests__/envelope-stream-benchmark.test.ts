@@ -0,0 +1,53 @@
+/**
+ * Streaming envelope benchmark
+ *
+ * Writes 1M synthetic messages and streams them back through a stats-style
+ * aggregation in a Node process whose heap is capped at HEAP_LIMIT_MB.
+ * Loading the same history in memory takes several hundred MB, so the
+ * process only exits cleanly if streaming keeps memory flat.
+ *
+ * Override the size with ENVELOPE_BENCH_MESSAGES for quicker local runs.
+ */
+
+import { execFile } from 'node:child_process'
+import { promises as fs } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { promisify } from 'node:util'
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+
+const MESSAGE_COUNT = Number(process.env.ENVELOPE_BENCH_MESSAGES ?? 1_000_000)
+const HEAP_LIMIT_MB = 128
+const WORKER = path.join(__dirname, 'envelope-stream-benchmark.worker.ts')
+
+describe('envelope-stream benchmark', () => {
+	let tempDir: string
+
+	beforeAll(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'envelope-bench-'))
+	})
+
+	afterAll(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true })
+	})
+
+	it(`processes ${MESSAGE_COUNT.toLocaleString()} messages in a ${HEAP_LIMIT_MB} MB heap`, async () => {
+		// Node enforces --max-old-space-size; a process that needs more aborts
+		const { stdout } = await promisify(execFile)(
+			'node',
+			[`--max-old-space-size=${HEAP_LIMIT_MB}`, '--import', 'tsx', WORKER, tempDir],
+			{
+				cwd: path.resolve(__dirname, '../../..'),
+				env: { ...process.env, ENVELOPE_BENCH_MESSAGES: String(MESSAGE_COUNT) },
+			},
+		)
+
+		expect(JSON.parse(stdout)).toMatchObject({
+			total: MESSAGE_COUNT,
+			media: Math.ceil(MESSAGE_COUNT / 10),
+			latest: new Date(Date.UTC(2015, 0, 1) + (MESSAGE_COUNT - 1) * 60_000).toISOString(),
+			conversations: Math.min(50, MESSAGE_COUNT),
+		})
+	}, 300_000)
+})
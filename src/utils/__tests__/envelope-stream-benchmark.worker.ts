@@ -0,0 +1,68 @@
+/**
+ * Streaming envelope benchmark workload
+ *
+ * Run by envelope-stream-benchmark.test.ts in a Node process with a capped
+ * heap: writes ENVELOPE_BENCH_MESSAGES synthetic messages to the directory
+ * given as the first argument, streams them back through a stats-style
+ * aggregation and prints the totals as JSON. Running out of heap kills the
+ * process.
+ */
+
+import path from 'node:path'
+
+import type { Message } from '#schema/message'
+import { createConversationCollector } from '../../ingest/conversations'
+import { createEnvelopeWriter, openEnvelopeStream } from '../envelope-stream'
+
+function syntheticMessage(i: number): Message {
+	return {
+		guid: `p:0/BENCH-${i}`,
+		messageKind: i % 10 === 0 ? 'media' : 'text',
+		isFromMe: i % 2 === 0,
+		date: new Date(Date.UTC(2015, 0, 1) + i * 60_000).toISOString(),
+		text: `Synthetic message ${i} from a ten year history`,
+		handle: `+614000${String(i % 1000).padStart(5, '0')}`,
+		chatId: `iMessage;-;chat${i % 50}`,
+	}
+}
+
+async function main(): Promise<void> {
+	const count = Number(process.env.ENVELOPE_BENCH_MESSAGES ?? 1_000_000)
+	const file = path.join(process.argv[2] ?? '.', 'history.ndjson')
+
+	const writer = await createEnvelopeWriter(file, {
+		schemaVersion: '2.0.0',
+		source: 'db',
+		createdAt: '2025-01-01T00:00:00.000Z',
+	})
+	for (let i = 0; i < count; i++) {
+		await writer.write(syntheticMessage(i))
+	}
+	await writer.close()
+
+	const collector = createConversationCollector()
+	let total = 0
+	let media = 0
+	let latest = ''
+	for await (const message of openEnvelopeStream(file).messages) {
+		total++
+		if (message.messageKind === 'media') media++
+		if (message.date > latest) latest = message.date
+		collector.add(message)
+	}
+
+	process.stdout.write(
+		`${JSON.stringify({
+			total,
+			media,
+			latest,
+			conversations: collector.build().length,
+			heapUsed: process.memoryUsage().heapUsed,
+		})}\n`,
+	)
+}
+
+main().catch((error) => {
+	process.stderr.write(`${error instanceof Error ? error.stack : error}\n`)
+	process.exit(1)
+})
@@ -0,0 +1,279 @@
+import { promises as fs } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import type { Conversation, ExportEnvelope, Message } from '#schema/message'
+import { CURRENT_SCHEMA_VERSION } from '#schema/migrations'
+import {
+	createEnvelopeWriter,
+	detectEnvelopeFormat,
+	openEnvelopeStream,
+	readEnvelope,
+	readJsonArrayStream,
+	writeEnvelope,
+} from '../envelope-stream'
+
+function createMessage(guid: string, text: string): Message {
+	return {
+		guid,
+		messageKind: 'text',
+		text,
+		isFromMe: false,
+		date: '2025-10-17T10:00:00.000Z',
+		handle: '+61400111222',
+	}
+}
+
+const conversations: Conversation[] = [
+	{
+		id: 'iMessage;-;+61400111222',
+		isGroup: false,
+		participants: ['+61400111222'],
+	},
+]
+
+const envelope: ExportEnvelope = {
+	schemaVersion: CURRENT_SCHEMA_VERSION,
+	source: 'db',
+	createdAt: '2025-10-17T00:00:00.000Z',
+	messages: [
+		// Structural characters inside strings must not confuse the scanner
+		createMessage('a', 'brackets ] } [ { and "quotes" and \\ backslash'),
+		createMessage('b', 'unicode 🎉 and\nnewline'),
+		{
+			...createMessage('c', 'with media'),
+			messageKind: 'media',
+			media: {
+				id: 'media:c',
+				filename: 'photo.heic',
+				path: '/tmp/photo.heic',
+				mediaKind: 'image',
+			},
+		},
+	],
+	conversations,
+}
+
+describe('envelope-stream', () => {
+	let tempDir: string
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'envelope-stream-'))
+	})
+
+	afterEach(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true })
+	})
+
+	describe('detectEnvelopeFormat', () => {
+		it('uses NDJSON for .ndjson and .jsonl files', () => {
+			expect(detectEnvelopeFormat('out.ndjson')).toBe('ndjson')
+			expect(detectEnvelopeFormat('out.JSONL')).toBe('ndjson')
+			expect(detectEnvelopeFormat('out.json')).toBe('json')
+		})
+	})
+
+	describe('JSON format', () => {
+		it('writes the same bytes as JSON.stringify', async () => {
+			const file = path.join(tempDir, 'out.json')
+			await writeEnvelope(file, envelope)
+
+			expect(await fs.readFile(file, 'utf-8')).toBe(JSON.stringify(envelope, null, 2))
+		})
+
+		it('writes empty message arrays and omits missing conversations', async () => {
+			const file = path.join(tempDir, 'empty.json')
+			const { conversations: _c, ...rest } = envelope
+			const empty = { ...rest, messages: [] }
+			await writeEnvelope(file, empty)
+
+			expect(await fs.readFile(file, 'utf-8')).toBe(JSON.stringify(empty, null, 2))
+		})
+
+		it('round-trips messages, header and conversations', async () => {
+			const file = path.join(tempDir, 'out.json')
+			await writeEnvelope(file, envelope)
+
+			const read = await readEnvelope(file)
+			expect(read.messages).toEqual(envelope.messages)
+			expect(read.conversations).toEqual(conversations)
+			expect(read.header).toEqual({
+				schemaVersion: CURRENT_SCHEMA_VERSION,
+				source: 'db',
+				createdAt: '2025-10-17T00:00:00.000Z',
+			})
+		})
+
+		it('reads compact envelopes with keys after messages', async () => {
+			const file = path.join(tempDir, 'compact.json')
+			await fs.writeFile(
+				file,
+				JSON.stringify({
+					schemaVersion: '2.0.0',
+					messages: envelope.messages,
+					source: 'csv',
+					createdAt: 'x',
+				}),
+			)
+
+			const read = await readEnvelope(file)
+			expect(read.messages).toHaveLength(3)
+			expect(read.header?.source).toBe('csv')
+		})
+
+		it('reads a bare message array with a null header', async () => {
+			const file = path.join(tempDir, 'array.json')
+			await fs.writeFile(file, JSON.stringify(envelope.messages, null, 2))
+
+			const read = await readEnvelope(file)
+			expect(read.messages).toEqual(envelope.messages)
+			expect(read.header).toBeNull()
+		})
+
+		it('rejects truncated input', async () => {
+			const file = path.join(tempDir, 'truncated.json')
+			const text = JSON.stringify(envelope, null, 2)
+			await fs.writeFile(file, text.slice(0, text.length - 20))
+
+			await expect(readEnvelope(file)).rejects.toThrow()
+		})
+	})
+
+	describe('NDJSON format', () => {
+		it('writes one line per message with header and conversation lines', async () => {
+			const file = path.join(tempDir, 'out.ndjson')
+			await writeEnvelope(file, envelope)
+
+			const lines = (await fs.readFile(file, 'utf-8')).trimEnd().split('\n')
+			expect(lines).toHaveLength(5)
+			expect(JSON.parse(lines[0] as string)).toEqual({
+				$envelope: {
+					schemaVersion: CURRENT_SCHEMA_VERSION,
+					source: 'db',
+					createdAt: '2025-10-17T00:00:00.000Z',
+				},
+			})
+			expect(JSON.parse(lines[4] as string)).toEqual({
+				$conversation: conversations[0],
+			})
+		})
+
+		it('round-trips and is detected by content as well as extension', async () => {
+			const file = path.join(tempDir, 'out.ndjson')
+			await writeEnvelope(file, envelope)
+			const renamed = path.join(tempDir, 'renamed.json')
+			await fs.rename(file, renamed)
+
+			const read = await readEnvelope(renamed)
+			expect(read.messages).toEqual(envelope.messages)
+			expect(read.conversations).toEqual(conversations)
+			expect(read.header?.source).toBe('db')
+		})
+
+		it('reports the line number of invalid JSON', async () => {
+			const file = path.join(tempDir, 'bad.ndjson')
+			await fs.writeFile(file, '{"$envelope":{}}\n{"guid":\n')
+
+			await expect(readEnvelope(file)).rejects.toThrow('line 2')
+		})
+	})
+
+	describe('openEnvelopeStream', () => {
+		it('exposes conversations after the messages are consumed', async () => {
+			const file = path.join(tempDir, 'out.json')
+			await writeEnvelope(file, envelope)
+
+			const stream = openEnvelopeStream(file)
+			const guids: string[] = []
+			for await (const message of stream.messages) {
+				guids.push(message.guid)
+			}
+
+			expect(guids).toEqual(['a', 'b', 'c'])
+			expect(stream.conversations).toEqual(conversations)
+		})
+	})
+
+	describe('schema migrations', () => {
+		const transcribed: Message = {
+			...createMessage('d', 'voice memo'),
+			messageKind: 'media',
+			media: {
+				id: 'media:d',
+				filename: 'memo.m4a',
+				path: '/tmp/memo.m4a',
+				mediaKind: 'audio',
+				enrichment: [
+					{
+						kind: 'transcription',
+						transcript: 'see you at six',
+						provider: 'gemini',
+						version: '1.0',
+						createdAt: '2025-10-17T10:00:00.000Z',
+					},
+				],
+			},
+		}
+
+		it('upgrades messages of an older envelope and reports the old version', async () => {
+			const file = path.join(tempDir, 'old.json')
+			await writeEnvelope(file, { ...envelope, schemaVersion: '2.0.0', messages: [transcribed] })
+
+			const read = await readEnvelope(file)
+
+			expect(read.migratedFrom).toBe('2.0.0')
+			expect(read.header?.schemaVersion).toBe(CURRENT_SCHEMA_VERSION)
+			expect(read.messages[0]?.media?.enrichment?.[0]).toMatchObject({
+				transcription: 'see you at six',
+			})
+			expect(read.messages[0]?.media?.enrichment?.[0]).not.toHaveProperty('transcript')
+
+			const raw = await readEnvelope(file, { migrate: false })
+			expect(raw.messages).toEqual([transcribed])
+			expect(raw.header?.schemaVersion).toBe('2.0.0')
+		})
+
+		it('refuses envelopes from a newer schema version', async () => {
+			const json = path.join(tempDir, 'new.json')
+			const ndjson = path.join(tempDir, 'new.ndjson')
+			await writeEnvelope(json, { ...envelope, schemaVersion: '9.0.0' })
+			await writeEnvelope(ndjson, { ...envelope, schemaVersion: '9.0.0', messages: [] })
+
+			await expect(readEnvelope(json)).rejects.toThrow(
+				/9\.0\.0 is newer than this chatline supports/,
+			)
+			await expect(readEnvelope(ndjson)).rejects.toThrow(/newer than this chatline supports/)
+		})
+	})
+
+	describe('createEnvelopeWriter', () => {
+		it('only replaces the destination on close', async () => {
+			const file = path.join(tempDir, 'out.json')
+			await fs.writeFile(file, 'previous')
+
+			const writer = await createEnvelopeWriter(file, {
+				schemaVersion: '2.0.0',
+				source: 'csv',
+				createdAt: 'x',
+			})
+			await writer.write(createMessage('a', 'hi'))
+			await writer.abort()
+
+			expect(await fs.readFile(file, 'utf-8')).toBe('previous')
+			expect(await fs.readdir(tempDir)).toEqual(['out.json'])
+		})
+	})
+
+	describe('readJsonArrayStream', () => {
+		it('streams array elements', async () => {
+			const file = path.join(tempDir, 'rows.json')
+			await fs.writeFile(file, JSON.stringify([{ a: 1 }, { a: [2, { b: 3 }] }]))
+
+			const rows: unknown[] = []
+			for await (const row of readJsonArrayStream(file)) rows.push(row)
+			expect(rows).toEqual([{ a: 1 }, { a: [2, { b: 3 }] }])
+		})
+	})
+})
@@ -0,0 +1,595 @@
+/**
+ * Streaming Envelope I/O
+ *
+ * Reads and writes export envelopes one message at a time so multi-GB
+ * histories never exist as a single string or parse tree.
+ *
+ * Two on-disk formats:
+ * - JSON (default): the usual pretty-printed envelope. Writing produces the
+ *   same bytes as `JSON.stringify(envelope, null, 2)`; reading scans the
+ *   `messages` array incrementally. A bare JSON array of messages is also
+ *   accepted.
+ * - NDJSON (`.ndjson` / `.jsonl`): one JSON value per line. The first line is
+ *   `{"$envelope": {schemaVersion, source, createdAt, meta?}}`, then one
+ *   message per line, then one `{"$conversation": {...}}` line per
+ *   conversation.
+ *
+ * Writes go to a temp file that is renamed into place on close, so a failed
+ * run never leaves a truncated envelope behind. Reads upgrade messages from
+ * older schema versions (see #schema/migrations) and refuse newer ones.
+ */
+
+import { createReadStream, createWriteStream, promises as fs } from 'node:fs'
+import path from 'node:path'
+import { createInterface } from 'node:readline'
+
+import type { Conversation, ExportEnvelope, Message } from '#schema/message'
+import {
+	CURRENT_SCHEMA_VERSION,
+	createMessageMigrator,
+	planMigrations,
+	UNVERSIONED_SCHEMA_VERSION,
+} from '#schema/migrations'
+
+export type EnvelopeFormat = 'json' | 'ndjson'
+
+/** Envelope fields other than messages and conversations */
+export type EnvelopeHeader = Omit<ExportEnvelope, 'messages' | 'conversations'>
+
+export type EnvelopeStream = {
+	/**
+	 * Messages in file order. Single use: the file is read as it is iterated.
+	 */
+	messages: AsyncIterable<Message>
+	/**
+	 * Header fields (null for a bare message array). Complete once `messages`
+	 * has been fully consumed.
+	 */
+	readonly header: EnvelopeHeader | null
+	/** Conversations; complete once `messages` has been fully consumed */
+	readonly conversations: Conversation[] | undefined
+	/**
+	 * Schema version the messages were upgraded from, when older than the
+	 * current one. Complete once `messages` has been fully consumed.
+	 */
+	readonly migratedFrom?: string | undefined
+}
+
+export type EnvelopeReadOptions = {
+	/** Upgrade messages to the current schema version (default true) */
+	migrate?: boolean
+}
+
+export type EnvelopeWriter = {
+	/** Append one message, waiting for the file stream to drain if needed */
+	write(message: Message): Promise<void>
+	/** Write conversations, finish the file and move it into place */
+	close(conversations?: Conversation[]): Promise<void>
+	/** Discard everything written so far */
+	abort(): Promise<void>
+	/** Messages written so far */
+	readonly count: number
+}
+
+/**
+ * Pick the envelope format from a file extension
+ */
+export function detectEnvelopeFormat(filePath: string): EnvelopeFormat {
+	const ext = path.extname(filePath).toLowerCase()
+	return ext === '.ndjson' || ext === '.jsonl' ? 'ndjson' : 'json'
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+/**
+ * Open an envelope (JSON, NDJSON or bare message array) for streaming
+ *
+ * Messages are upgraded from the header's schemaVersion, which chatline
+ * writes before the messages; bare message arrays count as
+ * UNVERSIONED_SCHEMA_VERSION. The header then reports the current version.
+ *
+ * @throws Error while iterating if the file is malformed or its
+ * schemaVersion is newer than this chatline supports
+ */
+export function openEnvelopeStream(
+	filePath: string,
+	options: EnvelopeReadOptions = {},
+): EnvelopeStream {
+	const { migrate = true } = options
+	const state: {
+		header: EnvelopeHeader | null
+		conversations: Conversation[] | undefined
+		migratedFrom: string | undefined
+	} = { header: null, conversations: undefined, migratedFrom: undefined }
+
+	async function* messages(): AsyncGenerator<Message> {
+		const format =
+			detectEnvelopeFormat(filePath) === 'ndjson' ||
+			(await looksLikeNdjson(filePath))
+				? 'ndjson'
+				: 'json'
+
+		const rest = { text: '' }
+		const items: AsyncIterable<unknown> =
+			format === 'ndjson'
+				? readNdjson(filePath, state)
+				: scanJsonMessages(readChunks(filePath), rest)
+
+		let upgrade: ((message: Message) => Message) | undefined
+		for await (const item of items) {
+			// A JSON envelope's header so far is everything before `messages`
+			upgrade ??= migrate
+				? createMessageMigrator(
+						versionOf(state.header ?? readHeaderPrefix(rest.text)),
+					)
+				: (message) => message
+			yield upgrade(item as Message)
+		}
+		if (rest.text) {
+			const {
+				messages: _messages,
+				conversations,
+				...header
+			} = JSON.parse(rest.text) as ExportEnvelope
+			state.header = header
+			state.conversations = conversations
+		}
+
+		if (migrate) {
+			// Also refuses newer files without messages, or whose header
+			// came after them
+			const version = versionOf(state.header)
+			planMigrations(version)
+			if (version !== CURRENT_SCHEMA_VERSION) {
+				state.migratedFrom = version
+				if (state.header) {
+					state.header = {
+						...state.header,
+						schemaVersion: CURRENT_SCHEMA_VERSION,
+					}
+				}
+			}
+		}
+	}
+
+	return {
+		messages: { [Symbol.asyncIterator]: messages },
+		get header() {
+			return state.header
+		},
+		get conversations() {
+			return state.conversations
+		},
+		get migratedFrom() {
+			return state.migratedFrom
+		},
+	}
+}
+
+function versionOf(header: Partial<EnvelopeHeader> | null): string {
+	return header?.schemaVersion ?? UNVERSIONED_SCHEMA_VERSION
+}
+
+function readHeaderPrefix(text: string): Partial<EnvelopeHeader> | null {
+	if (!text) return null
+	try {
+		return JSON.parse(`${text}]}`) as Partial<EnvelopeHeader>
+	} catch {
+		return null
+	}
+}
+
+/**
+ * Read a whole envelope into memory without materializing the file as one
+ * string
+ *
+ * Bare message arrays come back with a null header.
+ */
+export async function readEnvelope(
+	filePath: string,
+	options: EnvelopeReadOptions = {},
+): Promise<{
+	header: EnvelopeHeader | null
+	messages: Message[]
+	conversations: Conversation[] | undefined
+	migratedFrom?: string | undefined
+}> {
+	const stream = openEnvelopeStream(filePath, options)
+	const messages: Message[] = []
+	for await (const message of stream.messages) {
+		messages.push(message)
+	}
+	return {
+		header: stream.header,
+		messages,
+		conversations: stream.conversations,
+		...(stream.migratedFrom && { migratedFrom: stream.migratedFrom }),
+	}
+}
+
+/**
+ * Stream the elements of a top-level JSON array file (e.g. exported DB rows)
+ */
+export async function* readJsonArrayStream<T = unknown>(
+	filePath: string,
+): AsyncGenerator<T> {
+	const rest = { text: '' }
+	for await (const item of scanJsonMessages(readChunks(filePath), rest)) {
+		yield item as T
+	}
+	if (rest.text) {
+		throw new Error(`Expected a JSON array in ${filePath}`)
+	}
+}
+
+async function* readChunks(filePath: string): AsyncGenerator<string> {
+	const stream = createReadStream(filePath, { encoding: 'utf-8' })
+	for await (const chunk of stream) {
+		yield chunk as string
+	}
+}
+
+/**
+ * NDJSON files start with a complete JSON object on the first line; a JSON
+ * envelope either spans lines or carries its messages inline.
+ */
+async function looksLikeNdjson(filePath: string): Promise<boolean> {
+	const handle = await fs.open(filePath, 'r')
+	try {
+		const buffer = Buffer.alloc(64 * 1024)
+		const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0)
+		const text = buffer.toString('utf-8', 0, bytesRead).replace(/^\uFEFF/, '')
+		const newline = text.indexOf('\n')
+		if (newline === -1) return false
+		const firstLine = text.slice(0, newline).trim()
+		if (!firstLine.startsWith('{')) return false
+		try {
+			const value = JSON.parse(firstLine) as Record<string, unknown>
+			return !Array.isArray(value.messages)
+		} catch {
+			return false
+		}
+	} finally {
+		await handle.close()
+	}
+}
+
+async function* readNdjson(
+	filePath: string,
+	state: {
+		header: EnvelopeHeader | null
+		conversations: Conversation[] | undefined
+	},
+): AsyncGenerator<Message> {
+	const lines = createInterface({
+		input: createReadStream(filePath, { encoding: 'utf-8' }),
+		crlfDelay: Number.POSITIVE_INFINITY,
+	})
+
+	let lineNumber = 0
+	for await (const line of lines) {
+		lineNumber++
+		const trimmed = line.trim()
+		if (!trimmed) continue
+
+		let value: Record<string, unknown>
+		try {
+			value = JSON.parse(trimmed.replace(/^\uFEFF/, ''))
+		} catch (error) {
+			throw new Error(
+				`Invalid JSON on line ${lineNumber} of ${filePath}: ${
+					error instanceof Error ? error.message : String(error)
+				}`,
+			)
+		}
+
+		if (value.$envelope) {
+			state.header = value.$envelope as EnvelopeHeader
+		} else if (value.$conversation) {
+			state.conversations ??= []
+			state.conversations.push(value.$conversation as Conversation)
+		} else {
+			yield value as unknown as Message
+		}
+	}
+}
+
+const OPEN_BRACE = 0x7b
+const CLOSE_BRACE = 0x7d
+const OPEN_BRACKET = 0x5b
+const CLOSE_BRACKET = 0x5d
+const QUOTE = 0x22
+const BACKSLASH = 0x5c
+const COMMA = 0x2c
+const COLON = 0x3a
+
+/**
+ * Incrementally scan a JSON envelope or array, yielding message objects
+ *
+ * Tracks nesting depth and string state character by character. Elements of
+ * the top-level array (or of the envelope's `messages` array) are sliced out
+ * and parsed one at a time; everything else in an envelope is collected into
+ * `rest.text` with an empty messages array.
+ */
+async function* scanJsonMessages(
+	chunks: AsyncIterable<string>,
+	rest: { text: string },
+): AsyncGenerator<unknown> {
+	let root: 'object' | 'array' | null = null
+	let depth = 0
+	let inString = false
+	let escaped = false
+
+	// Key tracking at the envelope's top level
+	let keyCapture = false
+	let key = ''
+	let lastKey = ''
+	let currentKey = ''
+	let seenMessages = false
+
+	// Array being streamed and the depth its elements start at
+	let inMessages = false
+	let elementDepth = -1
+
+	let element = ''
+	let capturingElement = false
+	let capturingRest = false
+
+	for await (const chunk of chunks) {
+		let elementStart = capturingElement ? 0 : -1
+		let restStart = capturingRest ? 0 : -1
+
+		for (let i = 0; i < chunk.length; i++) {
+			const c = chunk.charCodeAt(i)
+
+			if (inString) {
+				if (escaped) {
+					escaped = false
+				} else if (c === BACKSLASH) {
+					escaped = true
+				} else if (c === QUOTE) {
+					inString = false
+					if (keyCapture) {
+						keyCapture = false
+						lastKey = key
+					}
+				} else if (keyCapture) {
+					key += chunk[i]
+				}
+				continue
+			}
+
+			if (root === null) {
+				if (c === OPEN_BRACE) {
+					root = 'object'
+					depth = 1
+					capturingRest = true
+					restStart = i
+				} else if (c === OPEN_BRACKET) {
+					root = 'array'
+					depth = 1
+					inMessages = true
+					elementDepth = 1
+				} else if (!isWhitespace(c) && c !== 0xfeff) {
+					throw new Error('Expected a JSON object or array')
+				}
+				continue
+			}
+
+			// Between elements of the streamed array
+			if (inMessages && depth === elementDepth && !capturingElement) {
+				if (isWhitespace(c) || c === COMMA) continue
+				if (c === CLOSE_BRACKET) {
+					inMessages = false
+					depth--
+					if (root === 'object') {
+						capturingRest = true
+						restStart = i
+					}
+					continue
+				}
+				if (c !== OPEN_BRACE) {
+					throw new Error('Expected message objects in messages array')
+				}
+				capturingElement = true
+				elementStart = i
+				depth++
+				continue
+			}
+
+			switch (c) {
+				case QUOTE:
+					inString = true
+					if (root === 'object' && depth === 1 && !inMessages) {
+						keyCapture = true
+						key = ''
+					}
+					break
+				case COLON:
+					if (root === 'object' && depth === 1) currentKey = lastKey
+					break
+				case OPEN_BRACKET:
+					if (
+						root === 'object' &&
+						depth === 1 &&
+						currentKey === 'messages' &&
+						!seenMessages
+					) {
+						rest.text += chunk.slice(restStart, i + 1)
+						capturingRest = false
+						restStart = -1
+						seenMessages = true
+						inMessages = true
+						depth = 2
+						elementDepth = 2
+						break
+					}
+					depth++
+					break
+				case OPEN_BRACE:
+					depth++
+					break
+				case CLOSE_BRACE:
+				case CLOSE_BRACKET:
+					depth--
+					if (capturingElement && depth === elementDepth) {
+						element += chunk.slice(elementStart, i + 1)
+						capturingElement = false
+						elementStart = -1
+						const parsed = JSON.parse(element)
+						element = ''
+						yield parsed
+					}
+					break
+			}
+		}
+
+		if (capturingElement) element += chunk.slice(elementStart)
+		if (capturingRest) rest.text += chunk.slice(restStart)
+	}
+
+	if (root === null) throw new Error('Empty JSON input')
+	if (depth !== 0 || inString) throw new Error('Unexpected end of JSON input')
+}
+
+function isWhitespace(c: number): boolean {
+	return c === 0x20 || c === 0x0a || c === 0x0d || c === 0x09
+}
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+/**
+ * Create a streaming envelope writer
+ *
+ * @param filePath - Destination; `.ndjson`/`.jsonl` select NDJSON
+ * @param header - Envelope fields written before the messages
+ * @param format - Override the format chosen from the extension
+ */
+export async function createEnvelopeWriter(
+	filePath: string,
+	header: EnvelopeHeader,
+	format: EnvelopeFormat = detectEnvelopeFormat(filePath),
+): Promise<EnvelopeWriter> {
+	const tempPath = `${filePath}.tmp-${process.pid}`
+	const stream = createWriteStream(tempPath, { encoding: 'utf-8' })
+	await new Promise<void>((resolve, reject) => {
+		stream.once('open', () => resolve())
+		stream.once('error', reject)
+	})
+
+	let failure: Error | null = null
+	stream.on('error', (error) => {
+		failure = error
+	})
+
+	// Small writes are batched; one stream write per WRITE_BATCH_CHARS keeps
+	// per-message overhead low without holding more than a batch in memory
+	let pending = ''
+	const flush = async (): Promise<void> => {
+		if (failure) throw failure
+		if (!pending) return
+		const text = pending
+		pending = ''
+		if (!stream.write(text)) {
+			await new Promise<void>((resolve, reject) => {
+				const onError = (error: Error) => reject(error)
+				stream.once('error', onError)
+				stream.once('drain', () => {
+					stream.off('error', onError)
+					resolve()
+				})
+			})
+		}
+	}
+	const put = async (text: string): Promise<void> => {
+		pending += text
+		if (pending.length >= WRITE_BATCH_CHARS) await flush()
+	}
+
+	const finish = async () => {
+		await flush()
+		await new Promise<void>((resolve, reject) => {
+			stream.end((error?: Error | null) => (error ? reject(error) : resolve()))
+		})
+	}
+
+	let count = 0
+
+	if (format === 'ndjson') {
+		await put(`${JSON.stringify({ $envelope: header })}\n`)
+	} else {
+		// Match JSON.stringify(envelope, null, 2): header keys, then messages
+		let opening = '{'
+		for (const [name, value] of Object.entries(header)) {
+			if (value === undefined) continue
+			opening += `\n  ${JSON.stringify(name)}: ${indentJson(value, '  ')},`
+		}
+		await put(`${opening}\n  "messages": [`)
+	}
+
+	return {
+		get count() {
+			return count
+		},
+		async write(message: Message) {
+			if (format === 'ndjson') {
+				await put(`${JSON.stringify(message)}\n`)
+			} else {
+				await put(
+					`${count === 0 ? '' : ','}\n    ${indentJson(message, '    ')}`,
+				)
+			}
+			count++
+		},
+		async close(conversations?: Conversation[]) {
+			if (format === 'ndjson') {
+				for (const conversation of conversations ?? []) {
+					await put(`${JSON.stringify({ $conversation: conversation })}\n`)
+				}
+			} else {
+				let closing = count === 0 ? ']' : '\n  ]'
+				if (conversations && conversations.length > 0) {
+					closing += `,\n  "conversations": ${indentJson(conversations, '  ')}`
+				}
+				await put(`${closing}\n}`)
+			}
+			await finish()
+			await fs.rename(tempPath, filePath)
+		},
+		async abort() {
+			stream.destroy()
+			await fs.rm(tempPath, { force: true })
+		},
+	}
+}
+
+/**
+ * Write a complete envelope without building it as one string
+ */
+export async function writeEnvelope(
+	filePath: string,
+	envelope: ExportEnvelope,
+	format?: EnvelopeFormat,
+): Promise<void> {
+	const { messages, conversations, ...header } = envelope
+	const writer = await createEnvelopeWriter(filePath, header, format)
+	try {
+		for (const message of messages) {
+			await writer.write(message)
+		}
+		await writer.close(conversations)
+	} catch (error) {
+		await writer.abort()
+		throw error
+	}
+}
+
+const WRITE_BATCH_CHARS = 64 * 1024
+
+function indentJson(value: unknown, indent: string): string {
+	return JSON.stringify(value, null, 2).replace(/\n/g, `\n${indent}`)
+}
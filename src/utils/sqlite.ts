@@ -0,0 +1,112 @@
+/**
+ * SQLite Adapter
+ *
+ * Thin synchronous wrapper over the SQLite driver available in the current
+ * runtime:
+ * - Bun: built-in `bun:sqlite` (better-sqlite3's native addon does not load)
+ * - Node: `better-sqlite3`
+ *
+ * Both drivers share the same prepare/all/iterate/get/run/exec/transaction
+ * shape, so callers only depend on the minimal interface below. Use
+ * positional `?` parameters: the drivers disagree on how named parameters
+ * are keyed.
+ */
+
+import { createRequire } from 'node:module'
+
+export type SqliteValue = string | number | bigint | Uint8Array | null
+
+export type SqliteRunResult = {
+	changes: number
+	lastInsertRowid: number | bigint
+}
+
+export type SqliteStatement = {
+	all(...params: SqliteValue[]): unknown[]
+	/** Step through result rows without loading them all */
+	iterate(...params: SqliteValue[]): IterableIterator<unknown>
+	get(...params: SqliteValue[]): unknown
+	run(...params: SqliteValue[]): SqliteRunResult
+}
+
+export type SqliteDatabase = {
+	prepare(sql: string): SqliteStatement
+	exec(sql: string): void
+	transaction<T>(fn: () => T): () => T
+	close(): void
+}
+
+export type OpenSqliteOptions = {
+	/** Open without write access (the file must already exist) */
+	readonly?: boolean
+}
+
+type SqliteDriver = new (
+	filename: string,
+	options?: Record<string, unknown>,
+) => SqliteDatabase
+
+let cachedDriver: SqliteDriver | null = null
+
+function loadDriver(): SqliteDriver {
+	if (cachedDriver) return cachedDriver
+
+	const require = createRequire(import.meta.url)
+	// Module names are kept in variables so bundlers leave them to the runtime
+	const isBun = typeof process.versions.bun === 'string'
+	const moduleName = isBun ? 'bun:sqlite' : 'better-sqlite3'
+	const loaded = require(moduleName) as
+		| SqliteDriver
+		| { Database: SqliteDriver; default?: SqliteDriver }
+
+	cachedDriver =
+		typeof loaded === 'function'
+			? loaded
+			: (loaded.Database ?? (loaded.default as SqliteDriver))
+	return cachedDriver
+}
+
+/**
+ * Open a SQLite database file
+ *
+ * @param filename - Path to the database file (created unless readonly)
+ * @param options - Open options
+ * @returns Database handle; call close() when finished
+ * @throws Error if the file cannot be opened
+ */
+export function openSqliteDatabase(
+	filename: string,
+	options: OpenSqliteOptions = {},
+): SqliteDatabase {
+	const Driver = loadDriver()
+	const isBun = typeof process.versions.bun === 'string'
+
+	if (options.readonly) {
+		return new Driver(
+			filename,
+			isBun ? { readonly: true } : { readonly: true, fileMustExist: true },
+		)
+	}
+
+	return new Driver(filename, isBun ? { create: true } : {})
+}
+
+/**
+ * Check whether a file starts with the SQLite 3 header
+ *
+ * Lets commands accept either a SQLite database or a JSON export for the
+ * same --input option.
+ */
+export async function isSqliteFile(filePath: string): Promise<boolean> {
+	const { open } = await import('node:fs/promises')
+	const header = Buffer.alloc(16)
+	const handle = await open(filePath, 'r')
+	try {
+		const { bytesRead } = await handle.read(header, 0, 16, 0)
+		return (
+			bytesRead === 16 && header.toString('latin1') === 'SQLite format 3\u0000'
+		)
+	} finally {
+		await handle.close()
+	}
+}
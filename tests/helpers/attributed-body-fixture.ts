@@ -0,0 +1,209 @@
+/**
+ * attributedBody Fixture Encoder
+ *
+ * Produces NSAttributedString typedstream blobs shaped like the ones
+ * Messages.app stores in chat.db `message.attributedBody`, for exercising
+ * the DB ingest decoder without a real macOS database.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type AttributedBodyFixtureValue =
+	| { type: 'string'; value: string }
+	| { type: 'url'; value: string }
+	| { type: 'number'; value: number }
+
+export type AttributedBodyFixtureRun = {
+	/** Run length in UTF-16 code units */
+	length: number
+	attributes?: Record<string, AttributedBodyFixtureValue>
+}
+
+// ============================================================================
+// Encoder
+// ============================================================================
+
+const TAG_INTEGER_2 = 0x81
+const TAG_INTEGER_4 = 0x82
+const TAG_NEW = 0x84
+const TAG_NIL = 0x85
+const TAG_END_OF_OBJECT = 0x86
+const FIRST_REFERENCE = 0x92
+
+class TypedStreamWriter {
+	private readonly bytes: number[] = []
+	private readonly sharedStrings = new Map<string, number>()
+	private readonly classes = new Map<string, number>()
+	private objectCount = 0
+
+	constructor() {
+		this.bytes.push(0x04)
+		this.writeUnsharedString('streamtyped')
+		this.writeInteger(1000)
+	}
+
+	writeInteger(value: number): void {
+		if (value >= -110 && value <= 127) {
+			this.bytes.push(value & 0xff)
+		} else if (value >= -32768 && value <= 32767) {
+			this.bytes.push(TAG_INTEGER_2, value & 0xff, (value >> 8) & 0xff)
+		} else {
+			this.bytes.push(
+				TAG_INTEGER_4,
+				value & 0xff,
+				(value >> 8) & 0xff,
+				(value >> 16) & 0xff,
+				(value >> 24) & 0xff,
+			)
+		}
+	}
+
+	writeUnsharedString(value: string): void {
+		const encoded = new TextEncoder().encode(value)
+		this.writeInteger(encoded.length)
+		this.bytes.push(...encoded)
+	}
+
+	writeSharedString(value: string): void {
+		const existing = this.sharedStrings.get(value)
+		if (existing !== undefined) {
+			this.writeInteger(existing + FIRST_REFERENCE - 256)
+			return
+		}
+		this.bytes.push(TAG_NEW)
+		this.writeUnsharedString(value)
+		this.sharedStrings.set(value, this.sharedStrings.size)
+	}
+
+	/** Write a class chain, e.g. ['NSString', 'NSObject'] */
+	writeClass(chain: Array<[string, number]>): void {
+		const [head, ...rest] = chain
+		if (!head) {
+			this.bytes.push(TAG_NIL)
+			return
+		}
+		const existing = this.classes.get(head[0])
+		if (existing !== undefined) {
+			this.writeInteger(existing + FIRST_REFERENCE - 256)
+			return
+		}
+		this.bytes.push(TAG_NEW)
+		this.writeSharedString(head[0])
+		this.writeInteger(head[1])
+		this.classes.set(head[0], this.objectCount++)
+		this.writeClass(rest)
+	}
+
+	beginObject(chain: Array<[string, number]>): void {
+		this.bytes.push(TAG_NEW)
+		this.objectCount++
+		this.writeClass(chain)
+	}
+
+	endObject(): void {
+		this.bytes.push(TAG_END_OF_OBJECT)
+	}
+
+	writeNSString(value: string): void {
+		this.writeSharedString('@')
+		this.beginObject([
+			['NSString', 1],
+			['NSObject', 0],
+		])
+		this.writeSharedString('+')
+		this.writeUnsharedString(value)
+		this.endObject()
+	}
+
+	writeValue(value: AttributedBodyFixtureValue): void {
+		if (value.type === 'string') {
+			this.writeNSString(value.value)
+			return
+		}
+		this.writeSharedString('@')
+		if (value.type === 'number') {
+			this.beginObject([
+				['NSNumber', 0],
+				['NSValue', 0],
+				['NSObject', 0],
+			])
+			this.writeSharedString('q')
+			this.writeInteger(value.value)
+			this.endObject()
+			return
+		}
+		this.beginObject([
+			['NSURL', 0],
+			['NSObject', 0],
+		])
+		this.writeSharedString('c')
+		this.writeInteger(0)
+		this.writeSharedString('@')
+		this.bytes.push(TAG_NIL)
+		this.writeNSString(value.value)
+		this.endObject()
+	}
+
+	toUint8Array(): Uint8Array {
+		return Uint8Array.from(this.bytes)
+	}
+}
+
+/**
+ * Encode text and attribute runs as an NSAttributedString typedstream
+ *
+ * @param text - Plain string content
+ * @param runs - Attribute runs (default: one run with message part 0)
+ *
+ * @example
+ * encodeAttributedBody('Hi @Sam', [
+ *   { length: 3 },
+ *   { length: 4, attributes: { __kIMMentionConfirmedMention: { type: 'string', value: '+61400111222' } } },
+ * ])
+ */
+export function encodeAttributedBody(
+	text: string,
+	runs: AttributedBodyFixtureRun[] = [
+		{
+			length: text.length,
+			attributes: {
+				__kIMMessagePartAttributeName: { type: 'number', value: 0 },
+			},
+		},
+	],
+): Uint8Array {
+	const writer = new TypedStreamWriter()
+
+	writer.writeSharedString('@')
+	writer.beginObject([
+		['NSMutableAttributedString', 0],
+		['NSAttributedString', 0],
+		['NSObject', 0],
+	])
+	writer.writeNSString(text)
+
+	runs.forEach((run, index) => {
+		writer.writeSharedString('iI')
+		writer.writeInteger(index + 1)
+		writer.writeInteger(run.length)
+
+		const attributes = Object.entries(run.attributes ?? {})
+		writer.writeSharedString('@')
+		writer.beginObject([
+			['NSDictionary', 0],
+			['NSObject', 0],
+		])
+		writer.writeSharedString('i')
+		writer.writeInteger(attributes.length)
+		for (const [key, value] of attributes) {
+			writer.writeNSString(key)
+			writer.writeValue(value)
+		}
+		writer.endObject()
+	})
+
+	writer.endObject()
+	return writer.toUint8Array()
+}
@@ -0,0 +1,257 @@
+/**
+ * Messages.app chat.db Fixture Builder
+ *
+ * Builds a small SQLite database with the subset of the chat.db schema the
+ * DB ingest reads (message, handle, chat, chat_message_join,
+ * chat_handle_join, attachment, message_attachment_join). Uses better-sqlite3 under Node and bun:sqlite
+ * under Bun via the shared adapter.
+ */
+
+import { openSqliteDatabase } from '../../src/utils/sqlite'
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type ChatDBFixtureAttachment = {
+	guid: string
+	/** On-disk path as stored by Messages.app (may start with ~/) */
+	filename: string | null
+	transferName?: string
+	mimeType?: string
+	uti?: string
+	totalBytes?: number
+	isSticker?: boolean
+}
+
+export type ChatDBFixtureChat = {
+	guid: string
+	chatIdentifier?: string
+	displayName?: string
+	serviceName?: string
+	/** 43 = group, 45 = 1:1 */
+	style?: number
+	/** Participant handles (phone numbers or emails) */
+	participants?: string[]
+}
+
+export type ChatDBFixtureMessage = {
+	guid: string
+	text?: string | null
+	attributedBody?: Uint8Array | null
+	/** Handle id (phone number or email) */
+	handle?: string
+	isFromMe?: boolean
+	/** Seconds since 2001-01-01 (stored as nanoseconds like modern chat.db) */
+	appleSeconds: number
+	service?: string
+	/** Chat GUID this message belongs to */
+	chat?: string
+	associatedMessageGuid?: string
+	associatedMessageType?: number
+	associatedMessageEmoji?: string
+	threadOriginatorGuid?: string
+	threadOriginatorPart?: string
+	destinationCallerId?: string
+	attachments?: ChatDBFixtureAttachment[]
+}
+
+export type ChatDBFixture = {
+	messages: ChatDBFixtureMessage[]
+	chats?: ChatDBFixtureChat[]
+}
+
+// ============================================================================
+// Builder
+// ============================================================================
+
+const SCHEMA = `
+	CREATE TABLE handle (
+		ROWID INTEGER PRIMARY KEY AUTOINCREMENT,
+		id TEXT NOT NULL,
+		service TEXT
+	);
+	CREATE TABLE chat (
+		ROWID INTEGER PRIMARY KEY AUTOINCREMENT,
+		guid TEXT UNIQUE NOT NULL,
+		style INTEGER,
+		chat_identifier TEXT,
+		service_name TEXT,
+		display_name TEXT
+	);
+	CREATE TABLE message (
+		ROWID INTEGER PRIMARY KEY AUTOINCREMENT,
+		guid TEXT UNIQUE NOT NULL,
+		text TEXT,
+		handle_id INTEGER DEFAULT 0,
+		subject TEXT,
+		service TEXT,
+		attributedBody BLOB,
+		date INTEGER,
+		date_read INTEGER,
+		date_delivered INTEGER,
+		is_from_me INTEGER DEFAULT 0,
+		is_read INTEGER DEFAULT 0,
+		associated_message_guid TEXT,
+		associated_message_type INTEGER DEFAULT 0,
+		associated_message_emoji TEXT,
+		thread_originator_guid TEXT,
+		thread_originator_part TEXT,
+		destination_caller_id TEXT
+	);
+	CREATE TABLE chat_message_join (
+		chat_id INTEGER REFERENCES chat (ROWID),
+		message_id INTEGER REFERENCES message (ROWID),
+		PRIMARY KEY (chat_id, message_id)
+	);
+	CREATE TABLE chat_handle_join (
+		chat_id INTEGER REFERENCES chat (ROWID),
+		handle_id INTEGER REFERENCES handle (ROWID),
+		UNIQUE (chat_id, handle_id)
+	);
+	CREATE TABLE attachment (
+		ROWID INTEGER PRIMARY KEY AUTOINCREMENT,
+		guid TEXT UNIQUE NOT NULL,
+		filename TEXT,
+		uti TEXT,
+		mime_type TEXT,
+		transfer_name TEXT,
+		total_bytes INTEGER DEFAULT 0,
+		is_sticker INTEGER DEFAULT 0,
+		hide_attachment INTEGER DEFAULT 0
+	);
+	CREATE TABLE message_attachment_join (
+		message_id INTEGER REFERENCES message (ROWID),
+		attachment_id INTEGER REFERENCES attachment (ROWID),
+		UNIQUE (message_id, attachment_id)
+	);
+`
+
+/**
+ * Write a chat.db-shaped SQLite file
+ *
+ * @param filePath - Destination path (must not already exist)
+ * @param fixture - Messages and chats to insert
+ *
+ * @example
+ * createChatDBFixture('/tmp/chat.db', {
+ *   messages: [{ guid: 'A', text: 'hi', handle: '+61400111222', appleSeconds: 718110777 }],
+ * })
+ */
+export function createChatDBFixture(
+	filePath: string,
+	fixture: ChatDBFixture,
+): void {
+	const db = openSqliteDatabase(filePath)
+
+	try {
+		db.exec(SCHEMA)
+
+		const handleIds = new Map<string, number>()
+		const chatIds = new Map<string, number>()
+
+		const insertHandle = db.prepare(
+			'INSERT INTO handle (id, service) VALUES (?, ?)',
+		)
+		const insertChat = db.prepare(
+			'INSERT INTO chat (guid, style, chat_identifier, service_name, display_name) VALUES (?, ?, ?, ?, ?)',
+		)
+		const insertMessage = db.prepare(`
+			INSERT INTO message (
+				guid, text, handle_id, service, attributedBody, date, is_from_me,
+				associated_message_guid, associated_message_type, associated_message_emoji,
+				thread_originator_guid, thread_originator_part, destination_caller_id
+			) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+		const insertChatHandleJoin = db.prepare(
+			'INSERT INTO chat_handle_join (chat_id, handle_id) VALUES (?, ?)',
+		)
+		const insertChatJoin = db.prepare(
+			'INSERT INTO chat_message_join (chat_id, message_id) VALUES (?, ?)',
+		)
+		const insertAttachment = db.prepare(`
+			INSERT INTO attachment (
+				guid, filename, uti, mime_type, transfer_name, total_bytes, is_sticker
+			) VALUES (?, ?, ?, ?, ?, ?, ?)`)
+		const insertAttachmentJoin = db.prepare(
+			'INSERT INTO message_attachment_join (message_id, attachment_id) VALUES (?, ?)',
+		)
+
+		const ensureChat = (chat: ChatDBFixtureChat): number => {
+			const existing = chatIds.get(chat.guid)
+			if (existing !== undefined) return existing
+			const result = insertChat.run(
+				chat.guid,
+				chat.style ?? 45,
+				chat.chatIdentifier ?? chat.guid.split(';').pop() ?? chat.guid,
+				chat.serviceName ?? 'iMessage',
+				chat.displayName ?? null,
+			)
+			const id = Number(result.lastInsertRowid)
+			chatIds.set(chat.guid, id)
+			return id
+		}
+
+		const ensureHandle = (handle: string, service?: string): number => {
+			const existing = handleIds.get(handle)
+			if (existing !== undefined) return existing
+			const result = insertHandle.run(handle, service ?? 'iMessage')
+			const id = Number(result.lastInsertRowid)
+			handleIds.set(handle, id)
+			return id
+		}
+
+		for (const chat of fixture.chats ?? []) {
+			const chatRowId = ensureChat(chat)
+			for (const handle of chat.participants ?? []) {
+				insertChatHandleJoin.run(chatRowId, ensureHandle(handle))
+			}
+		}
+
+		db.transaction(() => {
+			for (const msg of fixture.messages) {
+				const handleRowId = msg.handle
+					? ensureHandle(msg.handle, msg.service)
+					: 0
+
+				const messageResult = insertMessage.run(
+					msg.guid,
+					msg.text ?? null,
+					handleRowId,
+					msg.service ?? 'iMessage',
+					msg.attributedBody ?? null,
+					BigInt(msg.appleSeconds) * 1_000_000_000n,
+					msg.isFromMe ? 1 : 0,
+					msg.associatedMessageGuid ?? null,
+					msg.associatedMessageType ?? 0,
+					msg.associatedMessageEmoji ?? null,
+					msg.threadOriginatorGuid ?? null,
+					msg.threadOriginatorPart ?? null,
+					msg.destinationCallerId ?? null,
+				)
+				const messageRowId = Number(messageResult.lastInsertRowid)
+
+				if (msg.chat) {
+					insertChatJoin.run(ensureChat({ guid: msg.chat }), messageRowId)
+				}
+
+				for (const att of msg.attachments ?? []) {
+					const attResult = insertAttachment.run(
+						att.guid,
+						att.filename,
+						att.uti ?? null,
+						att.mimeType ?? null,
+						att.transferName ?? null,
+						att.totalBytes ?? 0,
+						att.isSticker ? 1 : 0,
+					)
+					insertAttachmentJoin.run(
+						messageRowId,
+						Number(attResult.lastInsertRowid),
+					)
+				}
+			}
+		})()
+	} finally {
+		db.close()
+	}
+}
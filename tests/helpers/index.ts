@@ -9,6 +9,8 @@
  * Note: AC01 (renderWithProviders for React) omitted as no React components exist
  */
 
+export * from './attributed-body-fixture'
+export * from './chat-db-fixture'
 export * from './datasets/determinism'
 export * from './fixture-loaders'
 // Re-export all helper modules for convenient importing